@@ -1,31 +1,417 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import mysql from "mysql2/promise";
+import { checkReadOnly, findUseDatabase } from "../../shared/sql-classifier.js";
+import { loadConnectionConfig, getProfile, describeConnections } from "../../shared/connection-config.js";
+import { TransactionManager } from "../../shared/transactions.js";
+import { previewWrite, describeTableImpact, describeDatabaseImpact, foreignKeyWarnings } from "../../shared/write-preview.js";
+import { ConfirmationManager, OperationClass, parseConfirmClasses, classifyStatement, DEFAULT_CONFIRM_CLASSES } from "../../shared/confirmation.js";
+import { loadPolicy, enforcePolicy, checkSchemaAccess, checkToolCall } from "../../shared/policy.js";
+import { RESULT_FORMATS, ResultFormat, parseResultFormat, formatRows } from "../../shared/result-format.js";
+import { buildTableBody, buildTableOptions, buildAlterColumn, buildCreateIndex } from "../../shared/ddl-builder.js";
+import { listIndexes, indexUsageReport } from "../../shared/index-inspector.js";
+import { lockReport } from "../../shared/lock-diagnostics.js";
+import { bindParams } from "../../shared/query-params.js";
+import { explainQuery } from "../../shared/explain-analyzer.js";
+import { DATABASES_URI, DATABASE_TEMPLATE, TABLE_SCHEMA_TEMPLATE, TABLE_DDL_TEMPLATE, DatabaseSummary, TableSummary, listDatabases, listTables, describeTableSchema, showCreateTable, decodeVariable } from "../../shared/schema-resources.js";
+import { summarizeSchema } from "../../shared/schema-summary.js";
+import { buildRelationshipGraph, formatGraph, GRAPH_FORMATS, GRAPH_COLUMNS } from "../../shared/fk-graph.js";
+import { loadSchemaSnapshot, diffSchemas, formatDiffReport, formatMigrationScript } from "../../shared/schema-diff.js";
+import { DEFAULT_DUMP_DIR, resolveDumpFile, defaultDumpName, dumpDatabase, scanDump, restoreDump } from "../../shared/dump.js";
+import { AuditLog } from "../../shared/audit.js";
+import { QueryGuard, parseToolTimeouts, KILL_CONNECT_TIMEOUT_MS } from "../../shared/query-timeout.js";
+import { KILL_MODES, listSessions, killSession } from "../../shared/sessions.js";
+import { accountName, buildCreateUser, buildAlterUser, buildDropUser, buildAccountLock, loadPrivileges, validatePrivileges, grantLevelName, buildGrant, buildRevoke, escalationRisks, buildCreateRole, buildDropRole, buildGrantRole, buildRevokeRole, buildDefaultRoles, assertRolesSupported, currentAccount, describeAccount, redactPasswords } from "../../shared/accounts.js";
+import { StatementCheck, migrationStatus, planApply, planRollback, planFingerprint, withMigrationLock, runPlan } from "../../shared/migrations.js";
+import { serializeRows, describeField, parseBinaryEncoding, SerializeOptions } from "../../shared/value-serializer.js";
+import { CursorManager, RowReader, ResultLimits, LimitedResult, streamingConnection, readPage, readLimited, truncationInfo } from "../../shared/result-cursor.js";
 
 const MYSQL_HOST = process.env.MYSQL_HOST || "localhost";
 const MYSQL_PORT = parseInt(process.env.MYSQL_PORT || "3306");
 const MYSQL_USER = process.env.MYSQL_USER || "root";
 const MYSQL_PASSWORD = process.env.MYSQL_PASSWORD || "";
 const MYSQL_DATABASE = process.env.MYSQL_DATABASE || "";
+const MYSQL_TRANSACTION_IDLE_TIMEOUT = parseInt(process.env.MYSQL_TRANSACTION_IDLE_TIMEOUT || "300");
+const MYSQL_CONFIRM = process.env.MYSQL_CONFIRM || DEFAULT_CONFIRM_CLASSES;
+const MYSQL_CONFIRM_TTL = parseInt(process.env.MYSQL_CONFIRM_TTL || "120");
+const MYSQL_MAX_ROWS = parseInt(process.env.MYSQL_MAX_ROWS || "500");
+const MYSQL_MAX_BYTES = parseInt(process.env.MYSQL_MAX_BYTES || "262144");
+const MYSQL_COUNT_LIMIT = parseInt(process.env.MYSQL_COUNT_LIMIT || "100000");
+const MYSQL_MAX_CURSORS = parseInt(process.env.MYSQL_MAX_CURSORS || "5");
+const MYSQL_CURSOR_IDLE_TIMEOUT = parseInt(process.env.MYSQL_CURSOR_IDLE_TIMEOUT || "120");
+const MYSQL_RESULT_FORMAT = parseResultFormat(process.env.MYSQL_RESULT_FORMAT || "json");
+const MYSQL_BINARY_ENCODING = parseBinaryEncoding(process.env.MYSQL_BINARY_ENCODING || "hex");
+const MYSQL_BINARY_MAX_BYTES = parseInt(process.env.MYSQL_BINARY_MAX_BYTES || "1024");
+const MYSQL_STATEMENT_CACHE_SIZE = parseInt(process.env.MYSQL_STATEMENT_CACHE_SIZE || "100");
+const MYSQL_EXPLAIN_LARGE_SCAN_ROWS = parseInt(process.env.MYSQL_EXPLAIN_LARGE_SCAN_ROWS || "1000");
+const MYSQL_RESOURCE_LIST_LIMIT = parseInt(process.env.MYSQL_RESOURCE_LIST_LIMIT || "1000");
+const MYSQL_MIGRATIONS_DIR = process.env.MYSQL_MIGRATIONS_DIR || "";
+const MYSQL_MIGRATION_LOCK_TIMEOUT = parseInt(process.env.MYSQL_MIGRATION_LOCK_TIMEOUT || "10");
+const MYSQL_DUMP_DIR = process.env.MYSQL_DUMP_DIR || DEFAULT_DUMP_DIR;
+const MYSQL_AUDIT_LOG = process.env.MYSQL_AUDIT_LOG || "";
+const MYSQL_AUDIT_DATABASE = process.env.MYSQL_AUDIT_DATABASE || "";
+const MYSQL_AUDIT_HISTORY_SIZE = parseInt(process.env.MYSQL_AUDIT_HISTORY_SIZE || "1000");
+const MYSQL_QUERY_TIMEOUT = parseFloat(process.env.MYSQL_QUERY_TIMEOUT || "0");
+const MYSQL_TOOL_TIMEOUTS = parseToolTimeouts(process.env.MYSQL_TOOL_TIMEOUTS ?? "read_query=60");
 
-let currentDatabase: string | null = MYSQL_DATABASE || null;
-
-const pool = mysql.createPool({
+const connectionConfig = loadConnectionConfig({
   host: MYSQL_HOST,
   port: MYSQL_PORT,
   user: MYSQL_USER,
   password: MYSQL_PASSWORD,
-  waitForConnections: true,
-  connectionLimit: 10,
-  queueLimit: 0,
-  multipleStatements: false,
+  database: MYSQL_DATABASE || undefined,
+});
+
+// 权限策略（MYSQL_POLICY 未设置时不做限制）
+const policy = loadPolicy();
+
+// 记录每次工具调用执行的语句；审计表写在默认连接上
+const audit = new AuditLog({
+  file: MYSQL_AUDIT_LOG || null,
+  table: MYSQL_AUDIT_DATABASE
+    ? { connection: { query: (sql: string, values?: any) => getPool(connectionConfig.defaultConnection).query(sql, values) }, database: MYSQL_AUDIT_DATABASE }
+    : null,
+  escaper: mysql,
+  memorySize: MYSQL_AUDIT_HISTORY_SIZE,
 });
 
-async function testConnection(): Promise<boolean> {
+// 工具调用中的语句超时和取消
+const guard = new QueryGuard(tool => MYSQL_TOOL_TIMEOUTS.get(tool) ?? Math.round(MYSQL_QUERY_TIMEOUT * 1000));
+
+// 连接池不指定数据库，连接配置中的 database 只作为会话的初始当前数据库
+const pools = new Map<string, mysql.Pool>();
+// 每个连接池建立过的连接的线程 ID，kill_session 不允许结束本服务自己的连接（线程 ID 在服务器重启前不会复用）
+const ownThreads = new Map<string, Set<number>>();
+
+function getPool(name: string): mysql.Pool {
+  let pool = pools.get(name);
+  if (!pool) {
+    const profile = getProfile(connectionConfig, name);
+    // 超时或取消时在不经过连接池的独立连接上执行 KILL QUERY
+    const connectForKill = () => mysql.createConnection({
+      host: profile.host,
+      port: profile.port,
+      user: profile.user,
+      password: profile.password,
+      connectTimeout: KILL_CONNECT_TIMEOUT_MS,
+    });
+    // 通过连接池执行的语句都记录到审计日志，并受语句超时和取消控制
+    pool = audit.wrapPool(guard.wrapPool(mysql.createPool({
+      host: profile.host,
+      port: profile.port,
+      user: profile.user,
+      password: profile.password,
+      waitForConnections: true,
+      connectionLimit: 10,
+      queueLimit: 0,
+      multipleStatements: false,
+      maxPreparedStatements: MYSQL_STATEMENT_CACHE_SIZE,
+      // BIGINT/DECIMAL 以字符串返回避免丢失精度，日期时间保持服务器返回的文本，不转换到本地时区
+      supportBigNumbers: true,
+      bigNumberStrings: true,
+      dateStrings: true,
+    }), connectForKill));
+    const threads = new Set<number>();
+    pool.on("connection", connection => threads.add(connection.threadId));
+    ownThreads.set(name, threads);
+    pools.set(name, pool);
+  }
+  return pool;
+}
+
+// 本服务在某个连接配置所在服务器上的全部连接：多个连接配置可以指向同一台服务器（例如不同账号）
+function serverThreads(name: string): Set<number> {
+  const profile = getProfile(connectionConfig, name);
+  const threads = new Set<number>();
+  for (const [other, own] of ownThreads) {
+    const otherProfile = getProfile(connectionConfig, other);
+    if (otherProfile.host === profile.host && otherProfile.port === profile.port) {
+      own.forEach(id => threads.add(id));
+    }
+  }
+  return threads;
+}
+
+interface PinnedConnection {
+  connection: mysql.PoolConnection | null;
+  // 固定连接上实际 USE 过的数据库
+  connectionDatabase: string | null;
+  // 会话的逻辑当前数据库，由 use_database 设置
+  currentDatabase: string | null;
+  // 执行过预处理语句；预处理语句绑定准备时的当前数据库，缓存后不随 USE 切换
+  prepared: boolean;
+}
+
+interface Session {
+  // 由 switch_connection 设置
+  activeConnection: string;
+  // 每个连接配置各自固定一条连接
+  pinned: Map<string, PinnedConnection>;
+  queue: Promise<unknown>;
+}
+
+interface SessionTarget {
+  connection?: string;
+  database?: string | null;
+}
+
+// 每个 MCP 会话独占连接，use_database 和 switch_connection 只对本会话生效
+const sessions = new Map<string, Session>();
+
+function getSession(extra: any): Session {
+  const sessionId = extra?.sessionId || "stdio";
+  let session = sessions.get(sessionId);
+  if (!session) {
+    session = {
+      activeConnection: connectionConfig.defaultConnection,
+      pinned: new Map(),
+      queue: Promise.resolve(),
+    };
+    sessions.set(sessionId, session);
+  }
+  return session;
+}
+
+function connectionName(extra: any, args: any): string {
+  return args?.connection || getSession(extra).activeConnection;
+}
+
+function getPinned(session: Session, name: string): PinnedConnection {
+  let pinned = session.pinned.get(name);
+  if (!pinned) {
+    pinned = {
+      connection: null,
+      connectionDatabase: null,
+      currentDatabase: getProfile(connectionConfig, name).database || null,
+      prepared: false,
+    };
+    session.pinned.set(name, pinned);
+  }
+  return pinned;
+}
+
+function discardConnection(pinned: PinnedConnection) {
+  if (pinned.connection) {
+    pinned.connection.destroy();
+  }
+  pinned.connection = null;
+  pinned.connectionDatabase = null;
+  pinned.prepared = false;
+}
+
+async function pinConnection(name: string, pinned: PinnedConnection, database: string | null): Promise<mysql.PoolConnection> {
+  // MySQL 无法取消已选中的数据库，只能换一条新连接
+  if (pinned.connection && !database && pinned.connectionDatabase) {
+    discardConnection(pinned);
+  }
+  // 缓存的预处理语句仍指向原来的数据库，切换数据库时同样换一条新连接
+  if (pinned.connection && pinned.prepared && database && pinned.connectionDatabase !== database) {
+    discardConnection(pinned);
+  }
+  if (!pinned.connection) {
+    pinned.connection = await getPool(name).getConnection();
+  }
+  if (database && pinned.connectionDatabase !== database) {
+    await pinned.connection.query(`USE ${mysql.escapeId(database)}`);
+    pinned.connectionDatabase = database;
+  }
+  return pinned.connection;
+}
+
+// 在会话的固定连接上串行执行，执行前把连接切换到目标数据库（默认为会话当前数据库）
+function runInSession<T>(extra: any, target: SessionTarget, fn: (connection: mysql.PoolConnection, pinned: PinnedConnection) => Promise<T>): Promise<T> {
+  const session = getSession(extra);
+  const run = session.queue.then(async () => {
+    const name = target.connection || session.activeConnection;
+    const pinned = getPinned(session, name);
+    const connection = await pinConnection(name, pinned, target.database || pinned.currentDatabase);
+    try {
+      return await fn(connection, pinned);
+    } catch (error: any) {
+      if (error?.fatal) {
+        discardConnection(pinned);
+      }
+      throw error;
+    }
+  });
+  session.queue = run.catch(() => undefined);
+  return run;
+}
+
+function closeSessions() {
+  for (const session of sessions.values()) {
+    for (const pinned of session.pinned.values()) {
+      discardConnection(pinned);
+    }
+  }
+  sessions.clear();
+}
+
+// 事务使用独立连接，不受会话当前数据库影响
+const transactions = new TransactionManager<mysql.PoolConnection>(MYSQL_TRANSACTION_IDLE_TIMEOUT * 1000);
+
+// 指定 transactionId 时在事务连接上执行，否则在会话的固定连接上执行
+function withConnection<T>(extra: any, args: any, fn: (connection: mysql.PoolConnection, inTransaction: boolean) => Promise<T>): Promise<T> {
+  if (args.transactionId) {
+    const transaction = transactions.info(args.transactionId);
+    if (args.connection && args.connection !== transaction.connectionName) {
+      throw new Error(`Transaction ${transaction.id} belongs to connection '${transaction.connectionName}', not '${args.connection}'`);
+    }
+    if (args.database && args.database !== transaction.database) {
+      throw new Error(`Transaction ${transaction.id} runs in database '${transaction.database || "(none)"}'; qualify table names instead of passing database`);
+    }
+    return transactions.run(args.transactionId, connection => fn(connection, true));
+  }
+  return runInSession(extra, { connection: args.connection, database: args.database }, connection => fn(connection, false));
+}
+
+// 传入 values 时以预处理语句执行
+async function runQuery(extra: any, args: any, sql: string, values?: any[]): Promise<[any, any]> {
+  if (!values) {
+    return withConnection(extra, args, connection => connection.query(sql));
+  }
+  if (args.transactionId) {
+    return withConnection(extra, args, connection => connection.execute(sql, values));
+  }
+  return runInSession(extra, { connection: args.connection, database: args.database }, (connection, pinned) => {
+    pinned.prepared = true;
+    return connection.execute(sql, values);
+  });
+}
+
+// 绑定 params；未传 params 时按原样执行 SQL
+function boundQuery(args: any): { sql: string; values?: any[] } {
+  return args.params ? bindParams(args.sql, args.params) : { sql: args.sql };
+}
+
+// 预演会改写 SQL，占位符的位置随之变化，所以把参数转义后内联到 SQL 中
+function inlineParams(args: any): string {
+  const { sql, values } = boundQuery(args);
+  return values ? mysql.format(sql, values) : sql;
+}
+
+// 游标使用独立连接，不占用会话的固定连接
+const cursors = new CursorManager(MYSQL_CURSOR_IDLE_TIMEOUT * 1000, MYSQL_MAX_CURSORS);
+
+// 结果格式，未指定时使用 MYSQL_RESULT_FORMAT
+function resultFormat(args: any): ResultFormat {
+  return args.format ?? MYSQL_RESULT_FORMAT;
+}
+
+const serializeOptions: SerializeOptions = {
+  binaryEncoding: MYSQL_BINARY_ENCODING,
+  binaryMaxBytes: MYSQL_BINARY_MAX_BYTES,
+};
+
+// 按列类型序列化后格式化结果；compact 格式和 includeTypes 时附带列类型
+function renderRows(rows: any[], args: any, fields: any[] | null | undefined, meta?: Record<string, any> | null): string {
+  const format = resultFormat(args);
+  const columnTypes = fields && (args.includeTypes || format === "compact") ? fields.map(describeField) : null;
+  return formatRows(serializeRows(rows, fields, serializeOptions), format, { fields, meta, columnTypes });
+}
+
+// 单次调用可以调低但不能超过配置的上限
+function resultLimits(args: any): ResultLimits {
+  return {
+    maxRows: Math.min(args.maxRows ?? MYSQL_MAX_ROWS, MYSQL_MAX_ROWS),
+    maxBytes: Math.min(args.maxBytes ?? MYSQL_MAX_BYTES, MYSQL_MAX_BYTES),
+  };
+}
+
+// 流式执行只读查询，只保留第一页；结果集没有读完时丢弃会话连接，下次使用时重新建立
+function queryLimited(extra: any, args: any, sql: string, limits: ResultLimits, values?: any[]): Promise<LimitedResult> {
+  if (args.transactionId) {
+    // 事务连接不能丢弃，只能把结果读完
+    return withConnection(extra, args, connection => readLimited(new RowReader(streamingConnection(connection), sql, values), limits));
+  }
+  return runInSession(extra, { connection: args.connection, database: args.database }, async (connection, pinned) => {
+    pinned.prepared = pinned.prepared || !!values;
+    const result = await readLimited(new RowReader(streamingConnection(connection), sql, values), limits, MYSQL_COUNT_LIMIT);
+    if (!result.drained) {
+      discardConnection(pinned);
+    }
+    return result;
+  });
+}
+
+// 以游标方式执行只读查询：在独立连接上切换到会话当前数据库，没有读完时保留连接供 fetch_more 继续读取
+async function queryWithCursor(extra: any, args: any, sql: string, limits: ResultLimits, values?: any[]) {
+  if (args.transactionId) {
+    throw new Error("Cursors are not supported inside a transaction; use LIMIT/OFFSET instead");
+  }
+  cursors.assertCapacity();
+  const name = connectionName(extra, args);
+  const pinned = getSession(extra).pinned.get(name);
+  const database = args.database || (pinned ? pinned.currentDatabase : getProfile(connectionConfig, name).database) || null;
+  const connection = await getPool(name).getConnection();
+  // 选中过数据库的连接无法恢复到初始状态，用完后销毁
+  const release = (reusable: boolean) => (reusable && !database ? connection.release() : connection.destroy());
+
+  let reader: RowReader;
+  let page;
+  try {
+    if (database) {
+      await connection.query(`USE ${mysql.escapeId(database)}`);
+    }
+    reader = new RowReader(streamingConnection(connection), sql, values);
+    page = await readPage(reader, limits);
+  } catch (error: any) {
+    release(!error?.fatal);
+    throw error;
+  }
+  if (page.done) {
+    release(true);
+    return { rows: page.rows, fields: page.fields, meta: null };
+  }
+  const cursor = cursors.open({ reader, connectionName: name, sql, rowsFetched: page.rows.length, release });
+  return { rows: page.rows, fields: page.fields, meta: truncationInfo(page.rows, { truncated: true, cursor }) };
+}
+
+// 危险操作的确认令牌，令牌只在签发它的会话中有效
+const confirmations = new ConfirmationManager(parseConfirmClasses(MYSQL_CONFIRM), MYSQL_CONFIRM_TTL * 1000);
+
+// 需要确认时：没有令牌则返回摘要和令牌，令牌有效则返回 null 继续执行
+async function confirmOperation(extra: any, operation: string, operationClass: OperationClass | null, args: any, summarize: () => Promise<any>) {
+  if (!confirmations.requires(operationClass)) {
+    return null;
+  }
+  // 未限定库名的表名按会话当前数据库解析，切换连接或数据库后旧令牌失效
+  const name = connectionName(extra, args);
+  const scope = {
+    ...args,
+    connection: name,
+    session: extra?.sessionId || "stdio",
+    currentDatabase: getSession(extra).pinned.get(name)?.currentDatabase ?? null,
+  };
+  if (args.confirmationToken) {
+    confirmations.consume(args.confirmationToken, operation, scope);
+    return null;
+  }
+  const summary = await summarize();
+  const pending = confirmations.issue(operation, scope);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({
+          confirmationRequired: true,
+          operation,
+          class: operationClass,
+          ...summary,
+          confirmationToken: pending.token,
+          expiresAt: pending.expiresAt,
+          message: `Nothing was executed. Review the summary, then call ${operation} again with the same arguments and confirmationToken "${pending.token}" before ${pending.expiresAt.toISOString()}`,
+        }, null, 2),
+      },
+    ],
+  };
+}
+
+async function testConnection(name: string): Promise<boolean> {
   try {
-    const connection = await pool.getConnection();
+    const connection = await getPool(name).getConnection();
     await connection.ping();
     connection.release();
     return true;
@@ -40,18 +426,46 @@ const server = new McpServer({
   version: "1.0.0",
 });
 
+// 审计每次工具调用，必须在 enforcePolicy 之前调用，被策略拒绝的调用也会记录
+audit.instrument(server, (args: any, extra: any) => {
+  const client = server.server.getClientVersion();
+  const name = connectionName(extra, args);
+  const pinned = getSession(extra).pinned.get(name);
+  return {
+    connection: name,
+    database: args?.database || (pinned ? pinned.currentDatabase : getProfile(connectionConfig, name).database) || null,
+    session: extra?.sessionId || "stdio",
+    client: client ? `${client.name}/${client.version}` : null,
+  };
+}, ["query_history"]);
+
+// 按权限策略过滤工具并在执行前检查参数，必须在注册工具之前调用
+enforcePolicy(server, policy, (args: any, extra: any) => {
+  const name = connectionName(extra, args);
+  const pinned = getSession(extra).pinned.get(name);
+  return {
+    currentDatabase: args?.database || (pinned ? pinned.currentDatabase : getProfile(connectionConfig, name).database) || null,
+  };
+});
+
+// 语句超时和请求取消，在 enforcePolicy 之后调用以便超时说明也写入审计日志
+guard.instrument(server);
+
 server.tool(
   "list_databases",
   "List all databases on the MySQL instance",
-  {},
-  async () => {
+  {
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+  },
+  async (args: any, extra: any) => {
     try {
-      const [rows] = await pool.query("SHOW DATABASES");
+      const [rows, fields] = await getPool(connectionName(extra, args)).query("SHOW DATABASES");
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: renderRows(rows as any[], args, fields),
           },
         ],
       };
@@ -75,12 +489,14 @@ server.tool(
   "Switch to a specific database for subsequent queries",
   {
     database: z.string().describe("The name of the database to use"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
   },
-  async (args: any) => {
+  async (args: any, extra: any) => {
     try {
       const database = args.database;
-      await pool.query(`USE ${mysql.escapeId(database)}`);
-      currentDatabase = database;
+      await runInSession(extra, { connection: args.connection, database }, async (_connection, pinned) => {
+        pinned.currentDatabase = database;
+      });
       return {
         content: [
           {
@@ -107,17 +523,18 @@ server.tool(
 server.tool(
   "get_current_database",
   "Get the current database name",
-  {},
-  async () => {
+  {
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
     try {
-      const [rows] = await pool.query("SELECT DATABASE() as database");
+      const [rows] = await runInSession(extra, { connection: args.connection }, connection => connection.query("SELECT DATABASE() as `database`"));
       const result = rows as any[];
-      currentDatabase = result[0].database;
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify({ currentDatabase: result[0].database }, null, 2),
+            text: JSON.stringify({ connection: connectionName(extra, args), currentDatabase: result[0].database }, null, 2),
           },
         ],
       };
@@ -141,20 +558,22 @@ server.tool(
   "List all tables in the current database",
   {
     database: z.string().optional().describe("Optional database name (uses current database if not specified)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
   },
-  async (args: any) => {
+  async (args: any, extra: any) => {
     try {
       const database = args.database;
       let sql = "SHOW TABLES";
       if (database) {
         sql = `SHOW TABLES FROM ${mysql.escapeId(database)}`;
       }
-      const [rows] = await pool.query(sql);
+      const [rows, fields] = await runInSession(extra, { connection: args.connection }, connection => connection.query(sql));
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: renderRows(rows as any[], args, fields),
           },
         ],
       };
@@ -179,8 +598,10 @@ server.tool(
   {
     table: z.string().describe("The name of the table to describe"),
     database: z.string().optional().describe("Optional database name (uses current database if not specified)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
   },
-  async (args: any) => {
+  async (args: any, extra: any) => {
     try {
       const table = args.table;
       const database = args.database;
@@ -188,12 +609,12 @@ server.tool(
       if (database) {
         sql = `DESCRIBE ${mysql.escapeId(database)}.${mysql.escapeId(table)}`;
       }
-      const [rows] = await pool.query(sql);
+      const [rows, fields] = await runInSession(extra, { connection: args.connection }, connection => connection.query(sql));
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: renderRows(rows as any[], args, fields),
           },
         ],
       };
@@ -213,26 +634,34 @@ server.tool(
 );
 
 server.tool(
-  "show_create_table",
-  "Show the CREATE TABLE statement for a table",
+  "describe_schema",
+  "Summarize every table of a database in one call: columns with types, primary keys, indexes, foreign keys, estimated row counts and comments. Large schemas are reduced to column names or table names to fit the output budget",
   {
-    table: z.string().describe("The name of the table"),
-    database: z.string().optional().describe("Optional database name (uses current database if not specified)"),
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    tables: z.array(z.string()).optional().describe("Only include tables matching these patterns (* and ? wildcards, e.g. [\"order*\"])"),
+    exclude: z.array(z.string()).optional().describe("Skip tables matching these patterns"),
+    includeViews: z.boolean().optional().describe("Include views (default: true)"),
+    maxBytes: z.number().int().positive().optional().describe(`Output budget in bytes (default and upper bound: ${MYSQL_MAX_BYTES})`),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
   },
-  async (args: any) => {
+  async (args: any, extra: any) => {
     try {
-      const table = args.table;
-      const database = args.database;
-      let sql = `SHOW CREATE TABLE ${mysql.escapeId(table)}`;
-      if (database) {
-        sql = `SHOW CREATE TABLE ${mysql.escapeId(database)}.${mysql.escapeId(table)}`;
-      }
-      const [rows] = await pool.query(sql);
+      const summary = await runInSession(extra, { connection: args.connection }, connection =>
+        summarizeSchema(connection, {
+          database: args.database,
+          include: args.tables,
+          exclude: args.exclude,
+          includeViews: args.includeViews ?? true,
+          maxBytes: Math.min(args.maxBytes ?? MYSQL_MAX_BYTES, MYSQL_MAX_BYTES),
+          allowTable: (database, table) => !checkSchemaAccess(policy, database, table),
+        })
+      );
+      
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: JSON.stringify(summary, null, 2),
           },
         ],
       };
@@ -242,7 +671,7 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Error showing create table: ${errorMessage}`,
+            text: `Error describing schema: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -252,49 +681,33 @@ server.tool(
 );
 
 server.tool(
-  "read_query",
-  "Execute a read-only SQL query (SELECT, SHOW, DESCRIBE, EXPLAIN)",
+  "relationship_graph",
+  "Build the foreign key relationship graph of a database and export it as a Mermaid erDiagram, Graphviz DOT or JSON adjacency list, optionally limited to the tables within N hops of a table",
   {
-    sql: z.string().describe("The SQL query to execute (read-only operations only)"),
-    database: z.string().optional().describe("Optional database name (uses current database if not specified)"),
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().optional().describe("Only include tables connected to this table within depth hops"),
+    depth: z.number().int().min(0).optional().describe("Number of foreign key hops from table, in either direction (default: 2)"),
+    format: z.enum(GRAPH_FORMATS).optional().describe("Output format: mermaid (erDiagram), dot (Graphviz) or json (nodes, edges and adjacency) (default: mermaid)"),
+    columns: z.enum(GRAPH_COLUMNS).optional().describe("Columns shown for each table: all, keys (primary and foreign key columns) or none (default: keys)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
   },
-  async (args: any) => {
+  async (args: any, extra: any) => {
     try {
-      const sql = args.sql;
-      const database = args.database;
-      
-      const normalizedSql = sql.trim().toUpperCase();
-      const readOnlyKeywords = ["SELECT", "SHOW", "DESCRIBE", "DESC", "EXPLAIN", "WITH"];
-      const isReadOnly = readOnlyKeywords.some(keyword => normalizedSql.startsWith(keyword));
-      
-      if (!isReadOnly) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: "Error: Only read-only queries (SELECT, SHOW, DESCRIBE, EXPLAIN) are allowed. Use write_query for INSERT, UPDATE, DELETE, or DDL operations.",
-            },
-          ],
-          isError: true,
-        };
-      }
-
-      let querySql = sql;
-      if (database) {
-        await pool.query(`USE ${mysql.escapeId(database)}`);
-      }
-      
-      const [rows] = await pool.query(querySql);
-      
-      if (database && currentDatabase) {
-        await pool.query(`USE ${mysql.escapeId(currentDatabase)}`);
-      }
+      const graph = await runInSession(extra, { connection: args.connection }, connection =>
+        buildRelationshipGraph(connection, {
+          database: args.database,
+          table: args.table,
+          depth: args.depth ?? 2,
+          columns: args.columns ?? "keys",
+          allowTable: (database, table) => !checkSchemaAccess(policy, database, table),
+        })
+      );
       
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: formatGraph(graph, args.format ?? "mermaid"),
           },
         ],
       };
@@ -304,7 +717,7 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Query error: ${errorMessage}`,
+            text: `Error building relationship graph: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -314,32 +727,52 @@ server.tool(
 );
 
 server.tool(
-  "write_query",
-  "Execute a write SQL query (INSERT, UPDATE, DELETE, CREATE, ALTER, DROP, etc.)",
+  "diff_schema",
+  "Compare the schema of two databases (on the same or different connections) table by table: columns, indexes, foreign keys, engine and collation. Returns a readable report and an ordered migration script that makes the target match the source. The script is not executed",
   {
-    sql: z.string().describe("The SQL query to execute (write operations)"),
-    database: z.string().optional().describe("Optional database name (uses current database if not specified)"),
+    sourceDatabase: z.string().optional().describe("Database with the desired schema, e.g. dev (default: current database of sourceConnection)"),
+    targetDatabase: z.string().optional().describe("Database to migrate, e.g. staging (default: current database of targetConnection)"),
+    sourceConnection: z.string().optional().describe("Connection profile of the source database (uses the session's active connection if not specified)"),
+    targetConnection: z.string().optional().describe("Connection profile of the target database (uses the session's active connection if not specified)"),
+    tables: z.array(z.string()).optional().describe("Only compare tables matching these patterns (* and ? wildcards)"),
+    exclude: z.array(z.string()).optional().describe("Skip tables matching these patterns"),
   },
-  async (args: any) => {
+  async (args: any, extra: any) => {
     try {
-      const sql = args.sql;
-      const database = args.database;
-      
-      if (database) {
-        await pool.query(`USE ${mysql.escapeId(database)}`);
+      const sourceName = connectionName(extra, { connection: args.sourceConnection });
+      const targetName = connectionName(extra, { connection: args.targetConnection });
+      const filter = {
+        include: args.tables,
+        exclude: args.exclude,
+        allowTable: (database: string, table: string) => !checkSchemaAccess(policy, database, table),
+      };
+      // 未指定数据库时使用会话在该连接上的当前数据库
+      const source = await runInSession(extra, { connection: sourceName }, connection =>
+        loadSchemaSnapshot(connection, mysql, sourceName, { ...filter, database: args.sourceDatabase })
+      );
+      const target = await runInSession(extra, { connection: targetName }, connection =>
+        loadSchemaSnapshot(connection, mysql, targetName, { ...filter, database: args.targetDatabase })
+      );
+      for (const database of [source.database, target.database]) {
+        const violation = checkSchemaAccess(policy, database);
+        if (violation) {
+          throw new Error(`Permission denied for role '${policy?.role}': ${violation}`);
+        }
       }
-      
-      const [result] = await pool.query(sql);
-      
-      if (database && currentDatabase) {
-        await pool.query(`USE ${mysql.escapeId(currentDatabase)}`);
+      if (sourceName === targetName && source.database === target.database) {
+        throw new Error(`Source and target are the same database (${sourceName}:${source.database})`);
       }
+      const diff = await runInSession(extra, { connection: sourceName }, connection => diffSchemas(connection, source, target, mysql));
       
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(result, null, 2),
+            text: formatDiffReport(diff),
+          },
+          {
+            type: "text",
+            text: formatMigrationScript(diff),
           },
         ],
       };
@@ -349,7 +782,7 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Query error: ${errorMessage}`,
+            text: `Error comparing schemas: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -359,27 +792,27 @@ server.tool(
 );
 
 server.tool(
-  "create_database",
-  "Create a new database",
+  "show_create_table",
+  "Show the CREATE TABLE statement for a table",
   {
-    database: z.string().describe("The name of the database to create"),
-    charset: z.string().optional().describe("Character set (default: utf8mb4)"),
-    collation: z.string().optional().describe("Collation (default: utf8mb4_unicode_ci)"),
+    table: z.string().describe("The name of the table"),
+    database: z.string().optional().describe("Optional database name (uses current database if not specified)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
   },
-  async (args: any) => {
+  async (args: any, extra: any) => {
     try {
+      const table = args.table;
       const database = args.database;
-      const charset = args.charset || "utf8mb4";
-      const collation = args.collation || "utf8mb4_unicode_ci";
-      
-      const sql = `CREATE DATABASE IF NOT EXISTS ${mysql.escapeId(database)} CHARACTER SET ${charset} COLLATE ${collation}`;
-      await pool.query(sql);
-      
+      let sql = `SHOW CREATE TABLE ${mysql.escapeId(table)}`;
+      if (database) {
+        sql = `SHOW CREATE TABLE ${mysql.escapeId(database)}.${mysql.escapeId(table)}`;
+      }
+      const [rows] = await runInSession(extra, { connection: args.connection }, connection => connection.query(sql));
       return {
         content: [
           {
             type: "text",
-            text: `Database '${database}' created successfully with character set '${charset}' and collation '${collation}'.`,
+            text: JSON.stringify(rows, null, 2),
           },
         ],
       };
@@ -389,7 +822,7 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Error creating database: ${errorMessage}`,
+            text: `Error showing create table: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -399,27 +832,53 @@ server.tool(
 );
 
 server.tool(
-  "drop_database",
-  "Drop a database",
+  "read_query",
+  "Execute a read-only SQL query (SELECT, SHOW, DESCRIBE, EXPLAIN)",
   {
-    database: z.string().describe("The name of the database to drop"),
+    sql: z.string().describe("The SQL query to execute (read-only operations only)"),
+    database: z.string().optional().describe("Optional database name (uses current database if not specified)"),
+    params: z.union([z.array(z.any()), z.record(z.any())]).optional().describe("Values bound through a prepared statement: an array for ? placeholders or an object for :name placeholders. Pass BIGINT values as strings"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    transactionId: z.string().optional().describe("Run inside this transaction (ID returned by begin_transaction)"),
+    maxRows: z.number().int().positive().optional().describe(`Maximum rows to return (default and upper bound: ${MYSQL_MAX_ROWS})`),
+    maxBytes: z.number().int().positive().optional().describe(`Maximum result size in bytes (default and upper bound: ${MYSQL_MAX_BYTES})`),
+    cursor: z.boolean().optional().describe("Keep the rest of a truncated result open as a cursor for fetch_more instead of counting it (default: false)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+    includeTypes: z.boolean().optional().describe("Include column type metadata (type, nullability, length) with the result (default: false; compact always includes type names)"),
   },
-  async (args: any) => {
+  async (args: any, extra: any) => {
     try {
-      const database = args.database;
+      const sql = args.sql;
       
-      const sql = `DROP DATABASE IF EXISTS ${mysql.escapeId(database)}`;
-      await pool.query(sql);
+      const check = checkReadOnly(sql);
       
-      if (currentDatabase === database) {
-        currentDatabase = null;
+      if (!check.readOnly) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: Only read-only queries (SELECT, SHOW, DESCRIBE, EXPLAIN) are allowed. Refused ${check.statementType}: ${check.reason}. Use write_query for INSERT, UPDATE, DELETE, or DDL operations.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const query = boundQuery(args);
+      const limits = resultLimits(args);
+      let result;
+      if (args.cursor) {
+        result = await queryWithCursor(extra, args, query.sql, limits, query.values);
+      } else {
+        const { rows, fields, truncated, totalRows } = await queryLimited(extra, args, query.sql, limits, query.values);
+        result = { rows, fields, meta: truncationInfo(rows, { truncated, totalRows }) };
       }
       
       return {
         content: [
           {
             type: "text",
-            text: `Database '${database}' dropped successfully.`,
+            text: renderRows(result.rows, args, result.fields, result.meta),
           },
         ],
       };
@@ -429,7 +888,7 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Error dropping database: ${errorMessage}`,
+            text: `Query error: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -439,36 +898,30 @@ server.tool(
 );
 
 server.tool(
-  "create_table",
-  "Create a new table with specified columns and options",
+  "fetch_more",
+  "Fetch the next page of a cursor opened by read_query with cursor: true. The cursor is closed automatically after the last page",
   {
-    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
-    table: z.string().describe("The name of the table to create"),
-    columns: z.string().describe("Column definitions (e.g., 'id INT PRIMARY KEY AUTO_INCREMENT, name VARCHAR(255) NOT NULL')"),
-    engine: z.string().optional().describe("Storage engine (default: InnoDB)"),
-    charset: z.string().optional().describe("Character set (default: utf8mb4)"),
+    cursor: z.string().describe("Cursor ID returned by read_query"),
+    maxRows: z.number().int().positive().optional().describe(`Maximum rows to return (default and upper bound: ${MYSQL_MAX_ROWS})`),
+    maxBytes: z.number().int().positive().optional().describe(`Maximum result size in bytes (default and upper bound: ${MYSQL_MAX_BYTES})`),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+    includeTypes: z.boolean().optional().describe("Include column type metadata (type, nullability, length) with the result (default: false; compact always includes type names)"),
   },
   async (args: any) => {
     try {
-      const database = args.database;
-      const table = args.table;
-      const columns = args.columns;
-      const engine = args.engine || "InnoDB";
-      const charset = args.charset || "utf8mb4";
-      
-      let tableRef = mysql.escapeId(table);
-      if (database) {
-        tableRef = `${mysql.escapeId(database)}.${tableRef}`;
-      }
-      
-      const sql = `CREATE TABLE IF NOT EXISTS ${tableRef} (${columns}) ENGINE=${engine} DEFAULT CHARSET=${charset}`;
-      await pool.query(sql);
+      const { page, cursor } = await cursors.fetch(args.cursor, resultLimits(args));
       
       return {
         content: [
           {
             type: "text",
-            text: `Table '${table}' created successfully with engine '${engine}' and character set '${charset}'.`,
+            text: renderRows(page.rows, args, page.fields, {
+              cursor: cursor.id,
+              rowsReturned: page.rows.length,
+              rowsFetched: cursor.rowsFetched,
+              done: page.done,
+              totalRows: page.done ? cursor.rowsFetched : null,
+            }),
           },
         ],
       };
@@ -478,7 +931,7 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Error creating table: ${errorMessage}`,
+            text: `Error fetching from cursor: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -488,30 +941,20 @@ server.tool(
 );
 
 server.tool(
-  "drop_table",
-  "Drop a table",
+  "close_cursor",
+  "Close a cursor that is no longer needed and release its connection",
   {
-    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
-    table: z.string().describe("The name of the table to drop"),
+    cursor: z.string().describe("Cursor ID returned by read_query"),
   },
   async (args: any) => {
     try {
-      const database = args.database;
-      const table = args.table;
-      
-      let tableRef = mysql.escapeId(table);
-      if (database) {
-        tableRef = `${mysql.escapeId(database)}.${tableRef}`;
-      }
-      
-      const sql = `DROP TABLE IF EXISTS ${tableRef}`;
-      await pool.query(sql);
+      const cursor = cursors.close(args.cursor);
       
       return {
         content: [
           {
             type: "text",
-            text: `Table '${table}' dropped successfully.`,
+            text: `Cursor ${cursor.id} closed after ${cursor.rowsFetched} rows.`,
           },
         ],
       };
@@ -521,7 +964,7 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Error dropping table: ${errorMessage}`,
+            text: `Error closing cursor: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -531,41 +974,1807 @@ server.tool(
 );
 
 server.tool(
-  "instance_info",
-  "Get comprehensive information about the MySQL instance",
-  {},
-  async () => {
+  "write_query",
+  "Execute a write SQL query (INSERT, UPDATE, DELETE, CREATE, ALTER, DROP, etc.)",
+  {
+    sql: z.string().describe("The SQL query to execute (write operations)"),
+    database: z.string().optional().describe("Optional database name (uses current database if not specified)"),
+    params: z.union([z.array(z.any()), z.record(z.any())]).optional().describe("Values bound through a prepared statement: an array for ? placeholders or an object for :name placeholders. Pass BIGINT values as strings"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    transactionId: z.string().optional().describe("Run inside this transaction (ID returned by begin_transaction)"),
+    dryRun: z.boolean().optional().describe("Preview the affected rows and tables without changing data (default: false)"),
+    sampleSize: z.number().int().min(0).max(100).optional().describe("Number of affected rows to include in a dry-run preview (default: 10)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
     try {
-      const [versionResult] = await pool.query("SELECT VERSION() as version");
-      const [userResult] = await pool.query("SELECT USER() as user");
-      const [databaseResult] = await pool.query("SELECT DATABASE() as database");
-      const [connectionResult] = await pool.query("SHOW STATUS LIKE 'Threads_connected'");
+      const sql = args.sql;
+      // 会话固定连接的数据库由 use_database 维护，语句中直接 USE 会使其失去同步
+      const useDatabase = findUseDatabase(sql);
+      if (useDatabase !== null) {
+        throw new Error(`USE ${useDatabase} is not allowed in write_query; call use_database to change the session's current database`);
+      }
+      
+      if (args.dryRun) {
+        const preview = await withConnection(extra, args, (connection, inTransaction) =>
+          previewWrite(connection, inlineParams(args), { sampleSize: args.sampleSize ?? 10, inTransaction })
+        );
+        if (preview.sampleRows) {
+          preview.sampleRows = serializeRows(preview.sampleRows, null, serializeOptions);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, ...preview }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      const confirmation = await confirmOperation(extra, "write_query", classifyStatement(sql), args, async () => {
+        const preview = await withConnection(extra, args, (connection, inTransaction) =>
+          previewWrite(connection, inlineParams(args), { sampleSize: args.sampleSize ?? 10, inTransaction })
+        );
+        return { sql, params: args.params, preview };
+      });
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      const query = boundQuery(args);
+      const [result] = await runQuery(extra, args, query.sql, query.values);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Query error: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "create_database",
+  "Create a new database",
+  {
+    database: z.string().describe("The name of the database to create"),
+    charset: z.string().optional().describe("Character set (default: utf8mb4)"),
+    collation: z.string().optional().describe("Collation (default: utf8mb4_unicode_ci)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database;
+      const charset = args.charset || "utf8mb4";
+      const collation = args.collation || "utf8mb4_unicode_ci";
+      
+      const sql = `CREATE DATABASE IF NOT EXISTS ${mysql.escapeId(database)} CHARACTER SET ${charset} COLLATE ${collation}`;
+      
+      const confirmation = await confirmOperation(extra, "create_database", "ddl", args, async () => ({ sql }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(connectionName(extra, args)).query(sql);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Database '${database}' created successfully with character set '${charset}' and collation '${collation}'.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error creating database: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "drop_database",
+  "Drop a database",
+  {
+    database: z.string().describe("The name of the database to drop"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    ifExists: z.boolean().optional().describe("Use IF EXISTS clause (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database;
+      
+      const name = connectionName(extra, args);
+      const sql = `DROP DATABASE ${args.ifExists ? "IF EXISTS " : ""}${mysql.escapeId(database)}`;
+      const confirmation = await confirmOperation(extra, "drop_database", "drop", args, async () => {
+        const impact = await describeDatabaseImpact(getPool(name), database);
+        if (!impact.exists && !args.ifExists) {
+          throw new Error(`Database '${database}' does not exist`);
+        }
+        const warnings = (impact.referencedBy || []).map(fk => `${fk.table} references ${fk.referencedTable} via ${fk.constraint}`);
+        return { sql, database: impact, warnings };
+      });
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(name).query(sql);
+      
+      for (const session of sessions.values()) {
+        const pinned = session.pinned.get(name);
+        if (pinned && pinned.currentDatabase === database) {
+          pinned.currentDatabase = null;
+        }
+      }
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Database '${database}' dropped successfully.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error dropping database: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 结构化表定义的参数，由 buildTableBody / buildAlterColumn 校验并生成 DDL
+const columnSchema = z.object({
+  name: z.string().describe("Column name"),
+  type: z.string().describe("Data type without parameters, e.g. INT, BIGINT, VARCHAR, DECIMAL, DATETIME, ENUM, JSON"),
+  length: z.number().int().min(0).optional().describe("Length for CHAR/VARCHAR/BINARY/VARBINARY/BIT, precision for DECIMAL, fractional seconds for DATETIME/TIMESTAMP/TIME"),
+  scale: z.number().int().min(0).optional().describe("Number of decimals for DECIMAL"),
+  values: z.array(z.string()).optional().describe("Allowed values for ENUM/SET"),
+  unsigned: z.boolean().optional().describe("UNSIGNED numeric column"),
+  nullable: z.boolean().optional().describe("Allow NULL (default: true; primary key columns are always NOT NULL)"),
+  default: z.union([z.string(), z.number(), z.boolean(), z.null()]).optional().describe("Literal default value"),
+  defaultExpression: z.string().optional().describe("Default expression instead of a literal: CURRENT_TIMESTAMP or CURRENT_TIMESTAMP(n)"),
+  onUpdate: z.string().optional().describe("ON UPDATE expression: CURRENT_TIMESTAMP or CURRENT_TIMESTAMP(n)"),
+  autoIncrement: z.boolean().optional().describe("AUTO_INCREMENT column"),
+  primaryKey: z.boolean().optional().describe("Single-column primary key"),
+  unique: z.boolean().optional().describe("Single-column unique index"),
+  charset: z.string().optional().describe("Column character set"),
+  collation: z.string().optional().describe("Column collation"),
+  comment: z.string().optional().describe("Column comment"),
+});
+
+const indexSchema = z.object({
+  name: z.string().optional().describe("Index name (generated by MySQL if not specified)"),
+  columns: z.array(z.string()).min(1).describe("Indexed columns in order"),
+  type: z.enum(["INDEX", "UNIQUE", "FULLTEXT", "SPATIAL"]).optional().describe("Index type (default: INDEX)"),
+  comment: z.string().optional().describe("Index comment"),
+});
+
+const referentialAction = z.enum(["RESTRICT", "CASCADE", "SET NULL", "NO ACTION", "SET DEFAULT"]);
+
+const foreignKeySchema = z.object({
+  name: z.string().optional().describe("Constraint name (generated by MySQL if not specified)"),
+  columns: z.array(z.string()).min(1).describe("Referencing columns"),
+  referencedDatabase: z.string().optional().describe("Database of the referenced table (defaults to the table's database)"),
+  referencedTable: z.string().describe("Referenced table"),
+  referencedColumns: z.array(z.string()).min(1).describe("Referenced columns, same count and order as columns"),
+  onDelete: referentialAction.optional().describe("ON DELETE action"),
+  onUpdate: referentialAction.optional().describe("ON UPDATE action"),
+});
+
+server.tool(
+  "create_table",
+  "Create a new table with specified columns and options",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().describe("The name of the table to create"),
+    columns: z.array(columnSchema).min(1).optional().describe("Column definitions"),
+    primaryKey: z.array(z.string()).min(1).optional().describe("Primary key columns (alternative to primaryKey on a single column)"),
+    indexes: z.array(indexSchema).optional().describe("Secondary indexes"),
+    foreignKeys: z.array(foreignKeySchema).optional().describe("Foreign key constraints"),
+    rawColumns: z.string().optional().describe("Raw SQL column and index definitions used instead of columns (explicit opt-in), e.g. 'id INT PRIMARY KEY AUTO_INCREMENT, name VARCHAR(255) NOT NULL'"),
+    engine: z.string().optional().describe("Storage engine (default: InnoDB)"),
+    charset: z.string().optional().describe("Character set (default: utf8mb4)"),
+    collation: z.string().optional().describe("Collation (default: the character set's default)"),
+    comment: z.string().optional().describe("Table comment"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database;
+      const table = args.table;
+      const engine = args.engine || "InnoDB";
+      const charset = args.charset || "utf8mb4";
+      
+      let body: string;
+      if (args.rawColumns !== undefined) {
+        if (args.columns || args.primaryKey || args.indexes || args.foreignKeys) {
+          throw new Error("Pass either columns (structured) or rawColumns (raw SQL), not both");
+        }
+        body = args.rawColumns;
+      } else if (args.columns) {
+        body = buildTableBody(mysql, {
+          columns: args.columns,
+          primaryKey: args.primaryKey,
+          indexes: args.indexes,
+          foreignKeys: args.foreignKeys,
+        });
+      } else {
+        throw new Error("columns is required (or pass rawColumns to use raw SQL)");
+      }
+      const options = buildTableOptions(mysql, { engine, charset, collation: args.collation, comment: args.comment });
+      
+      let tableRef = mysql.escapeId(table);
+      if (database) {
+        tableRef = `${mysql.escapeId(database)}.${tableRef}`;
+      }
+      
+      const sql = `CREATE TABLE IF NOT EXISTS ${tableRef} (\n  ${body}\n) ${options}`;
+      const confirmation = await confirmOperation(extra, "create_table", "ddl", args, async () => ({ sql }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await runInSession(extra, { connection: args.connection }, connection => connection.query(sql));
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Table '${table}' created successfully with engine '${engine}' and character set '${charset}'.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error creating table: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "alter_table",
+  "Alter table structure (ADD, MODIFY, CHANGE, DROP columns)",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().describe("The name of the table to alter"),
+    action: z.enum(["ADD", "MODIFY", "CHANGE", "DROP"]).describe("Action to perform: ADD, MODIFY, CHANGE (rename and redefine), or DROP"),
+    column: columnSchema.optional().describe("New column definition for ADD, MODIFY and CHANGE"),
+    columnName: z.string().optional().describe("Existing column name for DROP, and the current name for CHANGE"),
+    rawColumn: z.string().optional().describe("Raw SQL column definition used instead of column (explicit opt-in), e.g. 'email VARCHAR(255) NOT NULL'"),
+    first: z.boolean().optional().describe("Place the column first (ADD, MODIFY, CHANGE)"),
+    after: z.string().optional().describe("Place the column after this column (ADD, MODIFY, CHANGE)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the generated SQL and the table's size and foreign keys without executing (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database;
+      const table = args.table;
+      const clause = buildAlterColumn(mysql, {
+        action: args.action,
+        column: args.column,
+        columnName: args.columnName,
+        rawColumn: args.rawColumn,
+        first: args.first,
+        after: args.after,
+      });
+      
+      let tableRef = mysql.escapeId(table);
+      if (database) {
+        tableRef = `${mysql.escapeId(database)}.${tableRef}`;
+      }
+      
+      const sql = `ALTER TABLE ${tableRef} ${clause}`;
+      if (args.dryRun) {
+        const impact = await runInSession(extra, { connection: args.connection }, connection => describeTableImpact(connection, { database, table }));
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, sql, table: impact, warnings: foreignKeyWarnings("ALTER", [impact]) }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      const confirmation = await confirmOperation(extra, "alter_table", "ddl", args, async () => {
+        const impact = await runInSession(extra, { connection: args.connection }, connection => describeTableImpact(connection, { database, table }));
+        return { sql, table: impact, warnings: foreignKeyWarnings("ALTER", [impact]) };
+      });
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await runInSession(extra, { connection: args.connection }, connection => connection.query(sql));
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Table '${table}' altered successfully. Action: ${clause}.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error altering table: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "drop_table",
+  "Drop a table",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().describe("The name of the table to drop"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the table's size and the foreign keys referencing it without dropping (default: false)"),
+    ifExists: z.boolean().optional().describe("Use IF EXISTS clause (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database;
+      const table = args.table;
+      
+      let tableRef = mysql.escapeId(table);
+      if (database) {
+        tableRef = `${mysql.escapeId(database)}.${tableRef}`;
+      }
+      
+      const sql = `DROP TABLE ${args.ifExists ? "IF EXISTS " : ""}${tableRef}`;
+      if (args.dryRun) {
+        const impact = await runInSession(extra, { connection: args.connection }, connection => describeTableImpact(connection, { database, table }));
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, sql, table: impact, warnings: foreignKeyWarnings("DROP", [impact]) }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      const confirmation = await confirmOperation(extra, "drop_table", "drop", args, async () => {
+        const impact = await runInSession(extra, { connection: args.connection }, connection => describeTableImpact(connection, { database, table }));
+        if (!impact.exists && !args.ifExists) {
+          throw new Error(`Table '${table}' does not exist`);
+        }
+        return { sql, table: impact, warnings: foreignKeyWarnings("DROP", [impact]) };
+      });
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await runInSession(extra, { connection: args.connection }, connection => connection.query(sql));
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Table '${table}' dropped successfully.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error dropping table: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "list_indexes",
+  "List indexes with their columns, uniqueness, type, cardinality and visibility",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().optional().describe("Only list indexes of this table (default: all tables in the database)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const indexes = await runInSession(extra, { connection: args.connection }, connection => listIndexes(connection, { database: args.database, table: args.table }));
+      const rows = indexes.map(index => ({
+        table: index.table,
+        index: index.name,
+        columns: index.columns.map(column => `${column.name ?? `(${column.expression})`}${column.subPart !== null ? `(${column.subPart})` : ""}${column.order === "DESC" ? " DESC" : ""}`).join(", "),
+        unique: index.unique,
+        type: index.type,
+        cardinality: index.cardinality,
+        visible: index.visible,
+        comment: index.comment,
+      }));
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: renderRows(rows, args, null),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error listing indexes: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "create_index",
+  "Create an index (regular, unique, fulltext or spatial; prefix, descending and invisible indexes are supported)",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().describe("The table to index"),
+    name: z.string().describe("Index name"),
+    columns: z.array(z.union([
+      z.string(),
+      z.object({
+        name: z.string().describe("Column name"),
+        length: z.number().int().positive().optional().describe("Prefix length for string and binary columns"),
+        order: z.enum(["ASC", "DESC"]).optional().describe("Sort order"),
+      }),
+    ])).min(1).describe("Indexed columns in order: column names, or objects with name, length (prefix) and order"),
+    type: z.enum(["INDEX", "UNIQUE", "FULLTEXT", "SPATIAL"]).optional().describe("Index type (default: INDEX)"),
+    visible: z.boolean().optional().describe("Set to false to create an invisible index that the optimizer ignores (MySQL 8.0+, default: true)"),
+    comment: z.string().optional().describe("Index comment"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the generated SQL and the table's size without executing (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database;
+      const table = args.table;
+      
+      let tableRef = mysql.escapeId(table);
+      if (database) {
+        tableRef = `${mysql.escapeId(database)}.${tableRef}`;
+      }
+      
+      const sql = buildCreateIndex(mysql, tableRef, {
+        name: args.name,
+        columns: args.columns,
+        type: args.type,
+        visible: args.visible,
+        comment: args.comment,
+      });
+      if (args.dryRun) {
+        const impact = await runInSession(extra, { connection: args.connection }, connection => describeTableImpact(connection, { database, table }));
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, sql, table: impact }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      const confirmation = await confirmOperation(extra, "create_index", "ddl", args, async () => {
+        const impact = await runInSession(extra, { connection: args.connection }, connection => describeTableImpact(connection, { database, table }));
+        return { sql, table: impact };
+      });
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await runInSession(extra, { connection: args.connection }, connection => connection.query(sql));
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Index '${args.name}' created on table '${table}'.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error creating index: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "drop_index",
+  "Drop an index",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().describe("The table the index belongs to"),
+    name: z.string().describe("Index name (PRIMARY drops the primary key)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the index definition without dropping it (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database;
+      const table = args.table;
+      
+      let tableRef = mysql.escapeId(table);
+      if (database) {
+        tableRef = `${mysql.escapeId(database)}.${tableRef}`;
+      }
+      
+      const sql = `DROP INDEX ${mysql.escapeId(args.name)} ON ${tableRef}`;
+      // 被删除索引的定义，以及删除唯一索引会失去约束的提醒
+      const summarize = async () => {
+        const indexes = await runInSession(extra, { connection: args.connection }, connection => listIndexes(connection, { database, table }));
+        const index = indexes.find(item => item.name === args.name);
+        if (!index) {
+          throw new Error(`Index '${args.name}' does not exist on table '${table}'`);
+        }
+        const warnings = index.unique ? [`${index.primary ? "Primary key" : "Unique index"} '${index.name}' also enforces uniqueness; dropping it removes that constraint`] : [];
+        return { sql, index, warnings };
+      };
+      if (args.dryRun) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, ...(await summarize()) }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      const confirmation = await confirmOperation(extra, "drop_index", "drop", args, summarize);
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await runInSession(extra, { connection: args.connection }, connection => connection.query(sql));
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Index '${args.name}' dropped from table '${table}'.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error dropping index: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "index_usage",
+  "Report unused indexes (from sys.schema_unused_indexes or performance_schema) and duplicate or redundant indexes",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().optional().describe("Only check this table (default: all tables in the database)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const report = await runInSession(extra, { connection: args.connection }, connection => indexUsageReport(connection, { database: args.database, table: args.table }));
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error checking index usage: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "explain_query",
+  "Explain a query: returns the execution plan as a tree (access type, rows examined, filesort/temporary), flags full scans and unindexed joins, and suggests candidate indexes",
+  {
+    sql: z.string().describe("The statement to explain (SELECT, INSERT, REPLACE, UPDATE or DELETE, without the EXPLAIN keyword)"),
+    database: z.string().optional().describe("Optional database name (uses current database if not specified)"),
+    params: z.union([z.array(z.any()), z.record(z.any())]).optional().describe("Values for ? or :name placeholders; they are inlined into the explained statement"),
+    analyze: z.boolean().optional().describe("Also run EXPLAIN ANALYZE, which executes the query and reports actual timings (read-only queries on MySQL 8.0.18+ only, default: false)"),
+    includeRaw: z.boolean().optional().describe("Include the raw EXPLAIN FORMAT=JSON output (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    transactionId: z.string().optional().describe("Explain inside this transaction (ID returned by begin_transaction)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const sql = inlineParams(args);
+      if (args.analyze) {
+        // EXPLAIN ANALYZE 会真正执行语句
+        const check = checkReadOnly(sql);
+        if (!check.readOnly) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: analyze executes the statement and is only allowed for read-only queries. Refused ${check.statementType}: ${check.reason}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      const report = await withConnection(extra, args, connection =>
+        explainQuery(connection, sql, { analyze: !!args.analyze, includeRaw: !!args.includeRaw, largeScanRows: MYSQL_EXPLAIN_LARGE_SCAN_ROWS })
+      );
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error explaining query: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "instance_info",
+  "Get comprehensive information about the MySQL instance",
+  {
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      const profile = getProfile(connectionConfig, name);
+      const pool = getPool(name);
+      const [versionResult] = await pool.query("SELECT VERSION() as version");
+      const [userResult] = await pool.query("SELECT USER() as user");
+      const [databaseResult] = await runInSession(extra, { connection: args.connection }, connection => connection.query("SELECT DATABASE() as `database`"));
+      const [connectionResult] = await pool.query("SHOW STATUS LIKE 'Threads_connected'");
       const [uptimeResult] = await pool.query("SHOW STATUS LIKE 'Uptime'");
       const [databasesResult] = await pool.query("SELECT COUNT(*) as count FROM information_schema.schemata WHERE schema_name NOT IN ('information_schema', 'performance_schema', 'mysql', 'sys')");
       
-      const versionRows = versionResult as any[];
-      const userRows = userResult as any[];
-      const databaseRows = databaseResult as any[];
-      const connectionRows = connectionResult as any[];
-      const uptimeRows = uptimeResult as any[];
-      const databasesRows = databasesResult as any[];
+      const versionRows = versionResult as any[];
+      const userRows = userResult as any[];
+      const databaseRows = databaseResult as any[];
+      const connectionRows = connectionResult as any[];
+      const uptimeRows = uptimeResult as any[];
+      const databasesRows = databasesResult as any[];
+      
+      const info = {
+        connection: name,
+        version: versionRows[0].version,
+        user: userRows[0].user,
+        currentDatabase: databaseRows[0].database,
+        host: profile.host,
+        port: profile.port,
+        connections: connectionRows[0]?.Value || 0,
+        uptime: uptimeRows[0]?.Value || 0,
+        userDatabaseCount: databasesRows[0].count,
+      };
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(info, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error getting instance info: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "list_users",
+  "List all MySQL users",
+  {
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const [rows, fields] = await getPool(connectionName(extra, args)).query("SELECT user, host FROM mysql.user");
+      return {
+        content: [
+          {
+            type: "text",
+            text: renderRows(rows as any[], args, fields),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error listing users: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 账号参数，角色也是账号，只按名称指定（host 为 '%'）
+const accountArgs = {
+  user: z.string().describe("User name"),
+  host: z.string().optional().describe("Host part of the account (default: %)"),
+};
+
+// 不允许删除或锁定本服务连接使用的账号
+async function assertNotCurrentAccount(name: string, args: any) {
+  if (await currentAccount(getPool(name), mysql) === accountName(args, mysql)) {
+    throw new Error(`Account ${accountName(args, mysql)} is the one this server connects as`);
+  }
+}
+
+server.tool(
+  "show_grants",
+  "Show an account's grants (SHOW GRANTS), authentication plugin, lock and password-expiry state, and granted and default roles",
+  {
+    ...accountArgs,
+    expandRoles: z.boolean().optional().describe("Include the privileges of granted roles (SHOW GRANTS ... USING, MySQL 8.0, default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const details = await describeAccount(getPool(connectionName(extra, args)), args, !!args.expandRoles, mysql);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(details, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error showing grants: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "create_user",
+  "Create a MySQL account with a password or authentication plugin",
+  {
+    ...accountArgs,
+    password: z.string().optional().describe("Password (required unless authPlugin does not use one, e.g. auth_socket)"),
+    authPlugin: z.string().optional().describe("Authentication plugin, e.g. caching_sha2_password or mysql_native_password (server default if not specified)"),
+    expirePassword: z.boolean().optional().describe("Require a password change at first login (default: false)"),
+    locked: z.boolean().optional().describe("Create the account locked (default: false)"),
+    ifNotExists: z.boolean().optional().describe("Use IF NOT EXISTS clause (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      const sql = buildCreateUser(args, args, mysql);
+      const confirmation = await confirmOperation(extra, "create_user", "privilege", args, async () => ({
+        sql: redactPasswords(sql),
+        warnings: (args.host ?? "%") === "%" ? ["The account can connect from any host"] : [],
+      }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(name).query(sql);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `User ${accountName(args, mysql)} created successfully.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error creating user: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "alter_user",
+  "Change an account's password or authentication plugin, or expire its password",
+  {
+    ...accountArgs,
+    password: z.string().optional().describe("New password"),
+    authPlugin: z.string().optional().describe("New authentication plugin"),
+    expirePassword: z.boolean().optional().describe("Require a password change at next login"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      const sql = buildAlterUser(args, args, mysql);
+      const confirmation = await confirmOperation(extra, "alter_user", "privilege", args, async () => ({
+        sql: redactPasswords(sql),
+        account: await describeAccount(getPool(name), args, false, mysql),
+      }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(name).query(sql);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `User ${accountName(args, mysql)} altered successfully.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error altering user: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "drop_user",
+  "Drop a MySQL account. The account this server connects as is refused",
+  {
+    ...accountArgs,
+    ifExists: z.boolean().optional().describe("Use IF EXISTS clause (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      await assertNotCurrentAccount(name, args);
+      const sql = buildDropUser(args, !!args.ifExists, mysql);
+      const confirmation = await confirmOperation(extra, "drop_user", "drop", args, async () => ({
+        sql,
+        account: await describeAccount(getPool(name), args, false, mysql),
+      }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(name).query(sql);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `User ${accountName(args, mysql)} dropped successfully.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error dropping user: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "lock_account",
+  "Lock an account so it can no longer log in (existing sessions stay connected). The account this server connects as is refused",
+  {
+    ...accountArgs,
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      await assertNotCurrentAccount(name, args);
+      await getPool(name).query(buildAccountLock(args, true, mysql));
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Account ${accountName(args, mysql)} locked. Existing sessions stay connected; end them with kill_session if needed.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error locking account: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "unlock_account",
+  "Unlock a locked account so it can log in again",
+  {
+    ...accountArgs,
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      const sql = buildAccountLock(args, false, mysql);
+      const confirmation = await confirmOperation(extra, "unlock_account", "privilege", args, async () => ({
+        sql,
+        account: await describeAccount(getPool(name), args, false, mysql),
+      }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(name).query(sql);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Account ${accountName(args, mysql)} unlocked.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error unlocking account: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 授权级别由 database / table / columns 决定
+const grantTargetArgs = {
+  privileges: z.array(z.string()).min(1).describe("Privilege names as listed by SHOW PRIVILEGES, e.g. SELECT, INSERT, ALL, or dynamic privileges such as BACKUP_ADMIN"),
+  database: z.string().optional().describe("Database for database-, table- or column-level privileges (global *.* if not specified)"),
+  table: z.string().optional().describe("Table for table- or column-level privileges (requires database)"),
+  columns: z.array(z.string()).optional().describe("Columns for column-level privileges (SELECT, INSERT, UPDATE, REFERENCES only)"),
+};
+
+server.tool(
+  "grant_privileges",
+  "Grant privileges to an account at global, database, table or column level. Privilege names are checked against SHOW PRIVILEGES",
+  {
+    ...accountArgs,
+    ...grantTargetArgs,
+    withGrantOption: z.boolean().optional().describe("Allow the account to grant these privileges to others (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      const privileges = validatePrivileges(args.privileges, args, await loadPrivileges(getPool(name)));
+      const sql = buildGrant(args, privileges, args, !!args.withGrantOption, mysql);
+      const confirmation = await confirmOperation(extra, "grant_privileges", "privilege", args, async () => ({
+        sql,
+        level: grantLevelName(args),
+        risks: escalationRisks(privileges, args, !!args.withGrantOption),
+        currentGrants: (await describeAccount(getPool(name), args, false, mysql)).grants,
+      }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(name).query(sql);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Granted ${privileges.join(", ")} to ${accountName(args, mysql)}.\n${sql}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error granting privileges: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "revoke_privileges",
+  "Revoke privileges from an account at global, database, table or column level (GRANT OPTION can be revoked like any other privilege)",
+  {
+    ...accountArgs,
+    ...grantTargetArgs,
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      const privileges = validatePrivileges(args.privileges, args, await loadPrivileges(getPool(name)));
+      const sql = buildRevoke(args, privileges, args, mysql);
+      await getPool(name).query(sql);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Revoked ${privileges.join(", ")} from ${accountName(args, mysql)}.\n${sql}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error revoking privileges: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "create_role",
+  "Create roles (MySQL 8.0+). Grant privileges to a role with grant_privileges using the role name as user",
+  {
+    roles: z.array(z.string()).min(1).describe("Role names"),
+    ifNotExists: z.boolean().optional().describe("Use IF NOT EXISTS clause (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const pool = getPool(connectionName(extra, args));
+      await assertRolesSupported(pool);
+      await pool.query(buildCreateRole(args.roles, !!args.ifNotExists, mysql));
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Role(s) ${args.roles.join(", ")} created successfully.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error creating role: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "drop_role",
+  "Drop roles (MySQL 8.0+); accounts granted these roles lose their privileges",
+  {
+    roles: z.array(z.string()).min(1).describe("Role names"),
+    ifExists: z.boolean().optional().describe("Use IF EXISTS clause (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const pool = getPool(connectionName(extra, args));
+      await assertRolesSupported(pool);
+      const sql = buildDropRole(args.roles, !!args.ifExists, mysql);
+      const confirmation = await confirmOperation(extra, "drop_role", "drop", args, async () => ({ sql }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await pool.query(sql);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Role(s) ${args.roles.join(", ")} dropped successfully.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error dropping role: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "grant_role",
+  "Grant roles to an account (MySQL 8.0+), optionally making them the account's default roles",
+  {
+    roles: z.array(z.string()).min(1).describe("Role names"),
+    ...accountArgs,
+    withAdminOption: z.boolean().optional().describe("Allow the account to grant these roles to others (default: false)"),
+    setDefault: z.boolean().optional().describe("Make these roles the account's default roles, replacing the current default roles (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const pool = getPool(connectionName(extra, args));
+      await assertRolesSupported(pool);
+      const statements = [buildGrantRole(args.roles, args, !!args.withAdminOption, mysql)];
+      if (args.setDefault) {
+        statements.push(buildDefaultRoles(args.roles, args, mysql));
+      }
+      const confirmation = await confirmOperation(extra, "grant_role", "privilege", args, async () => ({
+        statements,
+        roleGrants: await Promise.all(args.roles.map(async (role: string) => ({
+          role,
+          grants: (await describeAccount(pool, { user: role }, false, mysql)).grants,
+        }))),
+        risks: args.withAdminOption ? ["WITH ADMIN OPTION lets the account grant these roles to others"] : [],
+      }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      for (const sql of statements) {
+        await pool.query(sql);
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Granted role(s) ${args.roles.join(", ")} to ${accountName(args, mysql)}${args.setDefault ? " as default roles" : ""}.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error granting role: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "revoke_role",
+  "Revoke roles from an account (MySQL 8.0+)",
+  {
+    roles: z.array(z.string()).min(1).describe("Role names"),
+    ...accountArgs,
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const pool = getPool(connectionName(extra, args));
+      await assertRolesSupported(pool);
+      await pool.query(buildRevokeRole(args.roles, args, mysql));
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Revoked role(s) ${args.roles.join(", ")} from ${accountName(args, mysql)}.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error revoking role: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "show_processlist",
+  "List sessions with their full running statement and open InnoDB transaction, filtered by user, database, command, state or minimum running time",
+  {
+    user: z.string().optional().describe("Only sessions of this user"),
+    database: z.string().optional().describe("Only sessions whose current database is this one"),
+    command: z.string().optional().describe("Only sessions whose command contains this text, e.g. Query or Sleep"),
+    state: z.string().optional().describe("Only sessions whose state contains this text, e.g. lock"),
+    minTime: z.number().int().nonnegative().optional().describe("Only sessions whose current command has run for at least this many seconds"),
+    includeIdle: z.boolean().optional().describe("Include sleeping sessions without an open transaction (default: true)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      const { sessions, notes } = await listSessions(getPool(name), args, serverThreads(name));
+      return {
+        content: [
+          {
+            type: "text",
+            text: renderRows(sessions, args, null, notes.length > 0 ? { notes } : null),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error showing processlist: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "kill_session",
+  "Stop a session's running statement (KILL QUERY) or close the session (KILL CONNECTION, rolling back its open transaction). Replication threads, server background threads and this server's own connections are refused",
+  {
+    id: z.number().int().positive().describe("Session (processlist) ID from show_processlist"),
+    mode: z.enum(KILL_MODES).optional().describe("query stops the running statement and keeps the session; connection closes the session (default: query)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      const pool = getPool(name);
+      const mode = args.mode || "query";
+      const { sessions } = await listSessions(pool, { id: args.id }, serverThreads(name));
+      const session = sessions[0];
+      if (!session) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: session ${args.id} not found`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      if (session.protected) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: refusing to kill session ${args.id}: ${session.protected}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      await killSession(pool, session.id, mode);
+      const result = {
+        killed: session.id,
+        mode,
+        session,
+        note: mode === "connection" && session.trxId
+          ? `Transaction ${session.trxId} is being rolled back (${session.trxRowsModified ?? 0} rows modified); the rollback can take a while and keeps its locks until it finishes`
+          : null,
+      };
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error killing session: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "list_connections",
+  "List the configured connection profiles and which one is active in this session",
+  {},
+  async (args: any, extra: any) => {
+    try {
+      const connections = describeConnections(connectionConfig, getSession(extra).activeConnection, pools.keys());
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(connections, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error listing connections: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "switch_connection",
+  "Switch the active connection profile for this session",
+  {
+    connection: z.string().describe("The name of the connection profile to switch to"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = args.connection;
+      const profile = getProfile(connectionConfig, name);
+      const pinned = await runInSession(extra, { connection: name }, async (connection, pinned) => {
+        await connection.ping();
+        return pinned;
+      });
+      getSession(extra).activeConnection = name;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Switched to connection '${name}' (${profile.user}@${profile.host}:${profile.port})${pinned.currentDatabase ? `, current database: ${pinned.currentDatabase}` : ""}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error switching connection: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "begin_transaction",
+  "Begin a transaction on a dedicated connection and return its ID. Pass the ID as transactionId to read_query and write_query; the transaction is rolled back automatically if idle for too long or when the server shuts down",
+  {
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    database: z.string().optional().describe("Database for the transaction (defaults to the session's current database)"),
+    isolationLevel: z.enum(["READ UNCOMMITTED", "READ COMMITTED", "REPEATABLE READ", "SERIALIZABLE"]).optional().describe("Isolation level for this transaction (default: server setting)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const name = connectionName(extra, args);
+      const database = args.database || getPinned(getSession(extra), name).currentDatabase;
+      const connection = await getPool(name).getConnection();
+      
+      try {
+        if (database) {
+          await connection.query(`USE ${mysql.escapeId(database)}`);
+        }
+        if (args.isolationLevel) {
+          await connection.query(`SET TRANSACTION ISOLATION LEVEL ${args.isolationLevel}`);
+        }
+      } catch (error) {
+        connection.destroy();
+        throw error;
+      }
       
-      const info = {
-        version: versionRows[0].version,
-        user: userRows[0].user,
-        currentDatabase: databaseRows[0].database,
-        host: MYSQL_HOST,
-        port: MYSQL_PORT,
-        connections: connectionRows[0]?.Value || 0,
-        uptime: uptimeRows[0]?.Value || 0,
-        userDatabaseCount: databasesRows[0].count,
+      // 选中过数据库的连接不再放回连接池
+      const transaction = await transactions.begin({
+        connection,
+        connectionName: name,
+        database,
+        release: reusable => (reusable && !database ? connection.release() : connection.destroy()),
+      });
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error beginning transaction: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "commit_transaction",
+  "Commit a transaction and release its connection",
+  {
+    transactionId: z.string().describe("The transaction ID returned by begin_transaction"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const transaction = await transactions.commit(args.transactionId);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error committing transaction: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "rollback_transaction",
+  "Roll back a transaction, or only back to a savepoint (the transaction stays open)",
+  {
+    transactionId: z.string().describe("The transaction ID returned by begin_transaction"),
+    savepoint: z.string().optional().describe("Roll back to this savepoint instead of the whole transaction"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const transaction = await transactions.rollback(args.transactionId, args.savepoint);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error rolling back transaction: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "savepoint",
+  "Create a savepoint inside a transaction",
+  {
+    transactionId: z.string().describe("The transaction ID returned by begin_transaction"),
+    name: z.string().describe("Savepoint name (letters, digits and underscores)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const transaction = await transactions.savepoint(args.transactionId, args.name);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error creating savepoint: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "release_savepoint",
+  "Release a savepoint (and any savepoints created after it) inside a transaction",
+  {
+    transactionId: z.string().describe("The transaction ID returned by begin_transaction"),
+    name: z.string().describe("Savepoint name"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const transaction = await transactions.releaseSavepoint(args.transactionId, args.name);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error releasing savepoint: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "list_transactions",
+  "List open transactions with their savepoints and last activity time",
+  {},
+  async (args: any, extra: any) => {
+    try {
+      const openTransactions = transactions.list();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(openTransactions, null, 2),
+          },
+        ],
       };
-      
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(info, null, 2),
+            text: `Error listing transactions: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 迁移文件目录，未设置时迁移工具返回错误
+function migrationsDirectory(): string {
+  if (!MYSQL_MIGRATIONS_DIR) {
+    throw new Error("MYSQL_MIGRATIONS_DIR is not set; configure the directory containing the migration files");
+  }
+  return MYSQL_MIGRATIONS_DIR;
+}
+
+// 迁移文件中的每条语句都按权限策略检查
+function migrationCheck(tool: string): StatementCheck {
+  return (sql, database) => checkToolCall(policy, tool, { sql }, { currentDatabase: database });
+}
+
+// 迁移在会话的固定连接上执行，持有会话队列直到完成
+function migrationTarget(args: any): SessionTarget {
+  return { connection: args.connection, database: args.database };
+}
+
+server.tool(
+  "migration_status",
+  "Compare the migration files in MYSQL_MIGRATIONS_DIR with the schema_migrations history table of a database: applied, pending, modified, missing and out-of-order versions",
+  {
+    database: z.string().optional().describe("The database the migrations run in (uses the session's current database if not specified)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const directory = migrationsDirectory();
+      const status = await runInSession(extra, migrationTarget(args), connection => migrationStatus(connection, directory));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(status, null, 2),
           },
         ],
       };
@@ -575,7 +2784,7 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Error getting instance info: ${errorMessage}`,
+            text: `Error reading migration status: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -585,19 +2794,56 @@ server.tool(
 );
 
 server.tool(
-  "list_users",
-  "List all MySQL users",
-  {},
-  async () => {
+  "migration_apply",
+  "Apply pending migrations in version order and record them in schema_migrations. Refuses to run when an applied migration was modified or a pending one is older than the latest applied version",
+  {
+    to: z.string().optional().describe("Apply up to and including this version (default: all pending)"),
+    database: z.string().optional().describe("The database the migrations run in (uses the session's current database if not specified)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the migrations and statements that would run without executing them (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
     try {
-      const [rows] = await pool.query("SELECT user, host FROM mysql.user");
+      const directory = migrationsDirectory();
+      const to = args.to ?? null;
+      const check = migrationCheck("migration_apply");
+      const plan = await runInSession(extra, migrationTarget(args), connection => planApply(connection, directory, to, check));
+      if (plan.migrations.length === 0 || args.dryRun) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: !!args.dryRun, ...plan, message: plan.migrations.length === 0 ? "No pending migrations" : undefined }, null, 2),
+            },
+          ],
+        };
+      }
+
+      // 令牌绑定到确认时的迁移文件，文件变化后需要重新确认
+      const confirmation = await confirmOperation(extra, "migration_apply", plan.operationClass, { ...args, plan: planFingerprint(plan) }, async () => plan);
+      if (confirmation) {
+        return confirmation;
+      }
+
+      const result = await runInSession(extra, migrationTarget(args), connection =>
+        withMigrationLock(connection, MYSQL_MIGRATION_LOCK_TIMEOUT, async () => {
+          // 加锁后重新计划，期间其他执行器可能已执行了部分迁移
+          const locked = await planApply(connection, directory, to, check);
+          if (planFingerprint(locked) !== planFingerprint(plan)) {
+            throw new Error("Pending migrations changed while waiting for the lock; call migration_status and try again");
+          }
+          return runPlan(connection, locked);
+        })
+      );
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: JSON.stringify(result, null, 2),
           },
         ],
+        isError: result.failed ? true : undefined,
       };
     } catch (error: any) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -605,7 +2851,7 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Error listing users: ${errorMessage}`,
+            text: `Error applying migrations: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -615,17 +2861,119 @@ server.tool(
 );
 
 server.tool(
-  "show_processlist",
-  "Show currently running MySQL processes",
-  {},
-  async () => {
+  "migration_rollback",
+  "Roll back the most recently applied migrations by running their down files and removing them from schema_migrations",
+  {
+    steps: z.number().int().positive().optional().describe("Number of migrations to roll back, newest first (default: 1)"),
+    to: z.string().optional().describe("Roll back every migration newer than this version instead of a number of steps"),
+    database: z.string().optional().describe("The database the migrations run in (uses the session's current database if not specified)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the migrations and statements that would run without executing them (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const directory = migrationsDirectory();
+      const options = { steps: args.steps, to: args.to ?? null };
+      const check = migrationCheck("migration_rollback");
+      const plan = await runInSession(extra, migrationTarget(args), connection => planRollback(connection, directory, options, check));
+      if (plan.migrations.length === 0 || args.dryRun) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: !!args.dryRun, ...plan, message: plan.migrations.length === 0 ? "No migrations to roll back" : undefined }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const confirmation = await confirmOperation(extra, "migration_rollback", plan.operationClass, { ...args, plan: planFingerprint(plan) }, async () => plan);
+      if (confirmation) {
+        return confirmation;
+      }
+
+      const result = await runInSession(extra, migrationTarget(args), connection =>
+        withMigrationLock(connection, MYSQL_MIGRATION_LOCK_TIMEOUT, async () => {
+          const locked = await planRollback(connection, directory, options, check);
+          if (planFingerprint(locked) !== planFingerprint(plan)) {
+            throw new Error("Applied migrations changed while waiting for the lock; call migration_status and try again");
+          }
+          return runPlan(connection, locked);
+        })
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        isError: result.failed ? true : undefined,
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error rolling back migrations: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 客户端在请求中带了 progressToken 时发送进度通知
+function progressReporter(extra: any) {
+  const progressToken = extra?._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+  return (progress: number, total: number | undefined, message: string) => {
+    extra.sendNotification({ method: "notifications/progress", params: { progressToken, progress, total, message } }).catch(() => undefined);
+  };
+}
+
+// 导出在会话的固定连接上执行，每张表按权限策略过滤，进度按已导出的行数报告
+function runDump(tool: string, args: any, extra: any, file: string, options: { tables?: string[]; include?: string[]; exclude?: string[]; includeViews: boolean }) {
+  const report = progressReporter(extra);
+  return runInSession(extra, { connection: args.connection, database: args.database }, connection =>
+    dumpDatabase(connection, resolveDumpFile(MYSQL_DUMP_DIR, file), mysql, {
+      ...options,
+      noData: !!args.noData,
+      overwrite: !!args.overwrite,
+      allowTable: (database, table) => !checkToolCall(policy, tool, { database, table }, { currentDatabase: database }),
+      onProgress: report && (progress => report(progress.totalRows, undefined, `${progress.table}: ${progress.tableRows} rows (${progress.tablesDone}/${progress.tableCount} tables done)`)),
+    })
+  );
+}
+
+server.tool(
+  "dump_table",
+  "Dump a table's structure, data and triggers to a mysqldump-compatible SQL file in MYSQL_DUMP_DIR, e.g. as a snapshot before a risky change",
+  {
+    table: z.string().describe("The table to dump"),
+    database: z.string().optional().describe("The database name (uses the session's current database if not specified)"),
+    file: z.string().optional().describe("File name inside MYSQL_DUMP_DIR (default: <database>.<table>-<timestamp>.sql)"),
+    noData: z.boolean().optional().describe("Dump the structure only (default: false)"),
+    overwrite: z.boolean().optional().describe("Replace the file if it already exists (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
     try {
-      const [rows] = await pool.query("SHOW PROCESSLIST");
+      const database = args.database || getPinned(getSession(extra), connectionName(extra, args)).currentDatabase || "";
+      const result = await runDump("dump_table", args, extra, args.file || defaultDumpName(database, args.table), {
+        tables: [args.table],
+        includeViews: false,
+      });
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: JSON.stringify(result, null, 2),
           },
         ],
       };
@@ -635,7 +2983,191 @@ server.tool(
         content: [
           {
             type: "text",
-            text: `Error showing processlist: ${errorMessage}`,
+            text: `Error dumping table: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "dump_database",
+  "Dump all (matching) tables and views of a database to a mysqldump-compatible SQL file in MYSQL_DUMP_DIR, reading a consistent snapshot",
+  {
+    database: z.string().optional().describe("The database name (uses the session's current database if not specified)"),
+    tables: z.array(z.string()).optional().describe("Only dump tables matching these patterns (* and ? wildcards)"),
+    exclude: z.array(z.string()).optional().describe("Skip tables matching these patterns"),
+    includeViews: z.boolean().optional().describe("Also dump views (default: true)"),
+    file: z.string().optional().describe("File name inside MYSQL_DUMP_DIR (default: <database>-<timestamp>.sql)"),
+    noData: z.boolean().optional().describe("Dump the structure only (default: false)"),
+    overwrite: z.boolean().optional().describe("Replace the file if it already exists (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database || getPinned(getSession(extra), connectionName(extra, args)).currentDatabase || "";
+      const result = await runDump("dump_database", args, extra, args.file || defaultDumpName(database), {
+        include: args.tables,
+        exclude: args.exclude,
+        includeViews: args.includeViews !== false,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error dumping database: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "restore_dump",
+  "Replay a SQL dump file from MYSQL_DUMP_DIR statement by statement (tables in the dump are dropped and recreated). Stops at the first failing statement",
+  {
+    file: z.string().describe("File name inside MYSQL_DUMP_DIR, as returned by dump_table or dump_database"),
+    database: z.string().optional().describe("The database to restore into (uses the session's current database if not specified)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the statement counts and the tables that would be recreated without executing anything (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database || getPinned(getSession(extra), connectionName(extra, args)).currentDatabase || "";
+      const check: StatementCheck = (sql, current) => checkToolCall(policy, "restore_dump", { sql }, { currentDatabase: current || null });
+      // 执行前先完整扫描一遍，有语句违反权限策略时什么都不执行
+      const plan = await scanDump(resolveDumpFile(MYSQL_DUMP_DIR, args.file), database, check);
+      if (args.dryRun) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, database, ...plan }, null, 2),
+            },
+          ],
+        };
+      }
+
+      // 令牌绑定到扫描时的文件大小和修改时间
+      const confirmation = await confirmOperation(extra, "restore_dump", plan.operationClass, { ...args, bytes: plan.bytes, modifiedAt: plan.modifiedAt }, async () => ({ database, ...plan }));
+      if (confirmation) {
+        return confirmation;
+      }
+
+      const report = progressReporter(extra);
+      const result = await runInSession(extra, { connection: args.connection, database: args.database }, connection =>
+        restoreDump(connection, plan, report && (progress => report(progress.bytesRead, progress.bytes, `${progress.statements} statements executed`)))
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        isError: result.failed ? true : undefined,
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error restoring dump: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "query_history",
+  "Review recent tool calls from the audit log, newest first: tool, arguments, executed SQL, target database, duration, affected rows and errors",
+  {
+    limit: z.number().int().positive().optional().describe("Maximum number of records to return (default: 20, max: 200)"),
+    tool: z.string().optional().describe("Only calls of this tool"),
+    outcome: z.enum(["ok", "error"]).optional().describe("Only successful or failed calls"),
+    since: z.string().optional().describe("Only calls at or after this ISO 8601 time"),
+    contains: z.string().optional().describe("Only calls whose executed SQL contains this text (case-insensitive)"),
+    currentSession: z.boolean().optional().describe("Only calls from the current MCP session (default: false)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const records = await audit.history({
+        limit: Math.min(args.limit ?? 20, 200),
+        tool: args.tool,
+        outcome: args.outcome,
+        since: args.since,
+        contains: args.contains,
+        session: args.currentSession ? extra?.sessionId || "stdio" : undefined,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ source: MYSQL_AUDIT_LOG || "memory", records }, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error reading query history: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.tool(
+  "lock_diagnostics",
+  "Report current InnoDB lock waits as blocker-to-waiter chains and the latest detected deadlock parsed from SHOW ENGINE INNODB STATUS",
+  {
+    includeDeadlock: z.boolean().optional().describe("Parse the LATEST DETECTED DEADLOCK section of SHOW ENGINE INNODB STATUS (needs the PROCESS privilege, default: true)"),
+    includeRaw: z.boolean().optional().describe("Also return the raw deadlock section text (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the session's active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const report = await lockReport(getPool(connectionName(extra, args)), { includeDeadlock: args.includeDeadlock, includeRaw: args.includeRaw });
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+      };
+    } catch (error: any) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error diagnosing locks: ${errorMessage}`,
           },
         ],
         isError: true,
@@ -644,18 +3176,170 @@ server.tool(
   }
 );
 
+// 读取表结构资源前按权限策略检查
+function checkResourceAccess(database: string, table?: string) {
+  const violation = checkSchemaAccess(policy, database, table);
+  if (violation) {
+    throw new Error(`Permission denied for role '${policy?.role}': ${violation}`);
+  }
+}
+
+// 资源读取不占用会话的固定连接，直接使用会话当前连接配置的连接池；补全请求没有会话信息，使用默认会话
+function resourcePool(extra?: any): mysql.Pool {
+  return getPool(connectionName(extra, {}));
+}
+
+// 权限策略允许的非系统库
+async function allowedDatabases(pool: mysql.Pool): Promise<DatabaseSummary[]> {
+  const databases = await listDatabases(pool, false);
+  return databases.filter(database => !checkSchemaAccess(policy, database.name));
+}
+
+// 权限策略允许的表；未指定数据库时包含所有允许的非系统库
+async function allowedTables(pool: mysql.Pool, database?: string): Promise<TableSummary[]> {
+  const databases = database ? [database] : (await allowedDatabases(pool)).map(item => item.name);
+  const tables = await listTables(pool, databases, MYSQL_RESOURCE_LIST_LIMIT);
+  return tables.filter(table => !checkSchemaAccess(policy, table.database, table.name));
+}
+
+function jsonResource(uri: URL, value: any) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+// 资源模板变量的补全
+const completeSchema = {
+  database: async (value: string) => (await allowedDatabases(resourcePool())).map(item => item.name).filter(name => name.startsWith(value)),
+  table: async (value: string, context?: { arguments?: Record<string, string> }) => {
+    const session = getSession(null);
+    const database = context?.arguments?.database || getPinned(session, session.activeConnection).currentDatabase;
+    if (!database) {
+      return [];
+    }
+    return (await allowedTables(resourcePool(), database)).map(item => item.name).filter(name => name.startsWith(value));
+  },
+};
+
+server.resource(
+  "databases",
+  DATABASES_URI,
+  {
+    description: "Databases on the session's active connection (system databases excluded)",
+    mimeType: "application/json",
+  },
+  async (uri: URL, extra: any) => jsonResource(uri, await allowedDatabases(resourcePool(extra)))
+);
+
+server.resource(
+  "database_schema",
+  new ResourceTemplate(DATABASE_TEMPLATE, {
+    list: async (extra: any) => ({
+      resources: (await allowedDatabases(resourcePool(extra))).map(database => ({
+        uri: database.uri,
+        name: database.name,
+        description: `Tables and views in ${database.name}`,
+        mimeType: "application/json",
+      })),
+    }),
+    complete: { database: completeSchema.database },
+  }),
+  {
+    description: "Tables and views of a database with engine, estimated rows and comment",
+    mimeType: "application/json",
+  },
+  async (uri: URL, variables: any, extra: any) => {
+    const database = decodeVariable(variables.database);
+    checkResourceAccess(database);
+    return jsonResource(uri, { database, tables: await allowedTables(resourcePool(extra), database) });
+  }
+);
+
+server.resource(
+  "table_schema",
+  new ResourceTemplate(TABLE_SCHEMA_TEMPLATE, {
+    list: async (extra: any) => ({
+      resources: (await allowedTables(resourcePool(extra))).map(table => ({
+        uri: table.uri,
+        name: `${table.database}.${table.name}`,
+        description: table.comment || table.type,
+        mimeType: "application/json",
+      })),
+    }),
+    complete: completeSchema,
+  }),
+  {
+    description: "Columns, indexes and foreign keys of a table",
+    mimeType: "application/json",
+  },
+  async (uri: URL, variables: any, extra: any) => {
+    const database = decodeVariable(variables.database);
+    const table = decodeVariable(variables.table);
+    checkResourceAccess(database, table);
+    return jsonResource(uri, await describeTableSchema(resourcePool(extra), database, table));
+  }
+);
+
+server.resource(
+  "table_ddl",
+  new ResourceTemplate(TABLE_DDL_TEMPLATE, { list: undefined, complete: completeSchema }),
+  {
+    description: "CREATE TABLE (or CREATE VIEW) statement of a table",
+    mimeType: "application/sql",
+  },
+  async (uri: URL, variables: any, extra: any) => {
+    const database = decodeVariable(variables.database);
+    const table = decodeVariable(variables.table);
+    checkResourceAccess(database, table);
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/sql",
+          text: await showCreateTable(resourcePool(extra), database, table),
+        },
+      ],
+    };
+  }
+);
+
+async function shutdown() {
+  cursors.closeAll();
+  closeSessions();
+  await transactions.rollbackAll();
+  process.exit(0);
+}
+
 async function main() {
-  console.error(`Connecting to MySQL instance at ${MYSQL_HOST}:${MYSQL_PORT}...`);
+  const name = connectionConfig.defaultConnection;
+  const profile = getProfile(connectionConfig, name);
+  console.error(`Connecting to MySQL instance at ${profile.host}:${profile.port} (connection: ${name})...`);
   
-  const connected = await testConnection();
+  const connected = await testConnection(name);
   if (!connected) {
     console.error("Failed to connect to MySQL. Please check your configuration.");
     process.exit(1);
   }
   
-  console.error(`Connected to MySQL instance${currentDatabase ? ` (current database: ${currentDatabase})` : ''}`);
+  console.error(`Connected to MySQL instance${profile.database ? ` (current database: ${profile.database})` : ''}`);
+  if (policy) {
+    console.error(`Permission policy active (role: ${policy.role})`);
+  }
   
   const transport = new StdioServerTransport();
+  server.server.onclose = () => {
+    cursors.closeAll();
+    closeSessions();
+    transactions.rollbackAll();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
   await server.connect(transport);
   
   console.error("MySQL Instance MCP server running on stdio");
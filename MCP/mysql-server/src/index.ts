@@ -1,33 +1,302 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import mysql from "mysql2/promise";
+import { checkReadOnly, findUseDatabase } from "../../shared/sql-classifier.js";
+import { loadConnectionConfig, getProfile, describeConnections } from "../../shared/connection-config.js";
+import { TransactionManager } from "../../shared/transactions.js";
+import { previewWrite, describeTableImpact, describeDatabaseImpact, foreignKeyWarnings } from "../../shared/write-preview.js";
+import { ConfirmationManager, OperationClass, parseConfirmClasses, classifyStatement, DEFAULT_CONFIRM_CLASSES } from "../../shared/confirmation.js";
+import { loadPolicy, enforcePolicy, checkSchemaAccess, checkToolCall } from "../../shared/policy.js";
+import { RESULT_FORMATS, ResultFormat, parseResultFormat, formatRows } from "../../shared/result-format.js";
+import { buildTableBody, buildTableOptions, buildAlterColumn, buildCreateIndex } from "../../shared/ddl-builder.js";
+import { listIndexes, indexUsageReport } from "../../shared/index-inspector.js";
+import { lockReport } from "../../shared/lock-diagnostics.js";
+import { bindParams } from "../../shared/query-params.js";
+import { explainQuery } from "../../shared/explain-analyzer.js";
+import { DATABASES_URI, DATABASE_TEMPLATE, TABLE_SCHEMA_TEMPLATE, TABLE_DDL_TEMPLATE, DatabaseSummary, TableSummary, listDatabases, listTables, describeTableSchema, showCreateTable, decodeVariable } from "../../shared/schema-resources.js";
+import { summarizeSchema } from "../../shared/schema-summary.js";
+import { buildRelationshipGraph, formatGraph, GRAPH_FORMATS, GRAPH_COLUMNS } from "../../shared/fk-graph.js";
+import { loadSchemaSnapshot, diffSchemas, formatDiffReport, formatMigrationScript } from "../../shared/schema-diff.js";
+import { DEFAULT_DUMP_DIR, resolveDumpFile, defaultDumpName, dumpDatabase, scanDump, restoreDump } from "../../shared/dump.js";
+import { AuditLog } from "../../shared/audit.js";
+import { QueryGuard, parseToolTimeouts, KILL_CONNECT_TIMEOUT_MS } from "../../shared/query-timeout.js";
+import { StatementCheck, migrationStatus, planApply, planRollback, planFingerprint, withMigrationLock, runPlan } from "../../shared/migrations.js";
+import { serializeRows, describeField, parseBinaryEncoding, SerializeOptions } from "../../shared/value-serializer.js";
+import { CursorManager, RowReader, ResultLimits, streamingConnection, LimitedResult, readPage, readLimited, truncationInfo } from "../../shared/result-cursor.js";
 
-// 从环境变量获取数据库配置
+// 从环境变量获取数据库配置（未设置 MYSQL_CONFIG 时作为唯一连接）
 const MYSQL_HOST = process.env.MYSQL_HOST || "localhost";
 const MYSQL_PORT = parseInt(process.env.MYSQL_PORT || "3306");
 const MYSQL_USER = process.env.MYSQL_USER || "root";
 const MYSQL_PASSWORD = process.env.MYSQL_PASSWORD || "";
 const MYSQL_DATABASE = process.env.MYSQL_DATABASE || "wonfu_test";
+// 空闲事务自动回滚的超时时间（秒）
+const MYSQL_TRANSACTION_IDLE_TIMEOUT = parseInt(process.env.MYSQL_TRANSACTION_IDLE_TIMEOUT || "300");
+// 需要两阶段确认的操作类别（drop, ddl, unbounded_write, privilege, all, none）和确认令牌有效期（秒）
+const MYSQL_CONFIRM = process.env.MYSQL_CONFIRM || DEFAULT_CONFIRM_CLASSES;
+const MYSQL_CONFIRM_TTL = parseInt(process.env.MYSQL_CONFIRM_TTL || "120");
+// read_query 返回结果的上限；超出部分最多计数 MYSQL_COUNT_LIMIT 行
+const MYSQL_MAX_ROWS = parseInt(process.env.MYSQL_MAX_ROWS || "500");
+const MYSQL_MAX_BYTES = parseInt(process.env.MYSQL_MAX_BYTES || "262144");
+const MYSQL_COUNT_LIMIT = parseInt(process.env.MYSQL_COUNT_LIMIT || "100000");
+// 游标数量上限和空闲关闭时间（秒）
+const MYSQL_MAX_CURSORS = parseInt(process.env.MYSQL_MAX_CURSORS || "5");
+const MYSQL_CURSOR_IDLE_TIMEOUT = parseInt(process.env.MYSQL_CURSOR_IDLE_TIMEOUT || "120");
+// 默认结果格式（json, compact, markdown, csv）
+const MYSQL_RESULT_FORMAT = parseResultFormat(process.env.MYSQL_RESULT_FORMAT || "json");
+// 二进制值的编码（hex, base64）和单个值最多输出的字节数
+const MYSQL_BINARY_ENCODING = parseBinaryEncoding(process.env.MYSQL_BINARY_ENCODING || "hex");
+const MYSQL_BINARY_MAX_BYTES = parseInt(process.env.MYSQL_BINARY_MAX_BYTES || "1024");
+// 每条连接缓存的预处理语句数量上限（所有连接合计不能超过服务器的 max_prepared_stmt_count）
+const MYSQL_STATEMENT_CACHE_SIZE = parseInt(process.env.MYSQL_STATEMENT_CACHE_SIZE || "100");
+// explain_query 把扫描行数达到该值的全表扫描视为问题
+const MYSQL_EXPLAIN_LARGE_SCAN_ROWS = parseInt(process.env.MYSQL_EXPLAIN_LARGE_SCAN_ROWS || "1000");
+// 表结构资源列表最多列出的表数量，超出的表仍可按 URI 读取
+const MYSQL_RESOURCE_LIST_LIMIT = parseInt(process.env.MYSQL_RESOURCE_LIST_LIMIT || "1000");
+// 迁移文件目录（未设置时迁移工具不可用）和等待迁移锁的秒数
+const MYSQL_MIGRATIONS_DIR = process.env.MYSQL_MIGRATIONS_DIR || "";
+const MYSQL_MIGRATION_LOCK_TIMEOUT = parseInt(process.env.MYSQL_MIGRATION_LOCK_TIMEOUT || "10");
+// dump_table/dump_database 写入和 restore_dump 读取的目录
+const MYSQL_DUMP_DIR = process.env.MYSQL_DUMP_DIR || DEFAULT_DUMP_DIR;
+// 审计日志：JSONL 文件路径、审计表所在的数据库（默认连接上，未设置时不写入）和内存中保留的记录数
+const MYSQL_AUDIT_LOG = process.env.MYSQL_AUDIT_LOG || "";
+const MYSQL_AUDIT_DATABASE = process.env.MYSQL_AUDIT_DATABASE || "";
+const MYSQL_AUDIT_HISTORY_SIZE = parseInt(process.env.MYSQL_AUDIT_HISTORY_SIZE || "1000");
+// 语句超时（秒，0 表示不限制）和按工具覆盖的超时，如 "read_query=60,dump_database=0"
+const MYSQL_QUERY_TIMEOUT = parseFloat(process.env.MYSQL_QUERY_TIMEOUT || "0");
+const MYSQL_TOOL_TIMEOUTS = parseToolTimeouts(process.env.MYSQL_TOOL_TIMEOUTS ?? "read_query=60");
 
-// 创建 MySQL 连接池
-const pool = mysql.createPool({
+// 读取命名连接配置
+const connectionConfig = loadConnectionConfig({
   host: MYSQL_HOST,
   port: MYSQL_PORT,
   user: MYSQL_USER,
   password: MYSQL_PASSWORD,
   database: MYSQL_DATABASE,
-  waitForConnections: true,
-  connectionLimit: 10,
-  queueLimit: 0,
-  multipleStatements: false,
 });
 
+// 权限策略（MYSQL_POLICY 未设置时不做限制）
+const policy = loadPolicy();
+
+// 记录每次工具调用执行的语句
+const audit = new AuditLog({
+  file: MYSQL_AUDIT_LOG || null,
+  table: MYSQL_AUDIT_DATABASE
+    ? { connection: { query: (sql: string, values?: any) => getPool(connectionConfig.defaultConnection).query(sql, values) }, database: MYSQL_AUDIT_DATABASE }
+    : null,
+  escaper: mysql,
+  memorySize: MYSQL_AUDIT_HISTORY_SIZE,
+});
+
+// 工具调用中的语句超时和取消
+const guard = new QueryGuard(tool => MYSQL_TOOL_TIMEOUTS.get(tool) ?? Math.round(MYSQL_QUERY_TIMEOUT * 1000));
+
+// 当前连接，可通过 switch_connection 切换
+let activeConnection = connectionConfig.defaultConnection;
+
+// 每个连接的 MySQL 连接池在首次使用时创建
+const pools = new Map<string, mysql.Pool>();
+
+function getPool(connection?: string): mysql.Pool {
+  const name = connection || activeConnection;
+  let pool = pools.get(name);
+  if (!pool) {
+    const profile = getProfile(connectionConfig, name);
+    // 超时或取消时在不经过连接池的独立连接上执行 KILL QUERY
+    const connectForKill = () => mysql.createConnection({
+      host: profile.host,
+      port: profile.port,
+      user: profile.user,
+      password: profile.password,
+      connectTimeout: KILL_CONNECT_TIMEOUT_MS,
+    });
+    // 通过连接池执行的语句都记录到审计日志，并受语句超时和取消控制
+    pool = audit.wrapPool(guard.wrapPool(mysql.createPool({
+      host: profile.host,
+      port: profile.port,
+      user: profile.user,
+      password: profile.password,
+      database: profile.database,
+      waitForConnections: true,
+      connectionLimit: 10,
+      queueLimit: 0,
+      multipleStatements: false,
+      maxPreparedStatements: MYSQL_STATEMENT_CACHE_SIZE,
+      // BIGINT/DECIMAL 以字符串返回避免丢失精度，日期时间保持服务器返回的文本，不转换到本地时区
+      supportBigNumbers: true,
+      bigNumberStrings: true,
+      dateStrings: true,
+    }), connectForKill));
+    pools.set(name, pool);
+  }
+  return pool;
+}
+
+// 进行中的事务，每个事务独占连接池中的一条连接
+const transactions = new TransactionManager<mysql.PoolConnection>(MYSQL_TRANSACTION_IDLE_TIMEOUT * 1000);
+
+// 获取执行连接：指定 transactionId 时使用事务连接，否则从连接池借出一条连接
+async function withConnection<T>(args: any, fn: (connection: mysql.PoolConnection, inTransaction: boolean) => Promise<T>): Promise<T> {
+  if (args.transactionId) {
+    const transaction = transactions.info(args.transactionId);
+    if (args.connection && args.connection !== transaction.connectionName) {
+      throw new Error(`Transaction ${transaction.id} belongs to connection '${transaction.connectionName}', not '${args.connection}'`);
+    }
+    return transactions.run(args.transactionId, connection => fn(connection, true));
+  }
+  const connection = await getPool(args.connection).getConnection();
+  try {
+    return await fn(connection, false);
+  } finally {
+    connection.release();
+  }
+}
+
+// 执行 SQL：指定 transactionId 时在事务连接上执行，否则使用连接池；传入 values 时以预处理语句执行
+async function runQuery(args: any, sql: string, values?: any[]): Promise<[any, any]> {
+  if (args.transactionId) {
+    return withConnection(args, connection => (values ? connection.execute(sql, values) : connection.query(sql)));
+  }
+  const pool = getPool(args.connection);
+  return values ? pool.execute(sql, values) : pool.query(sql);
+}
+
+// 绑定 params；未传 params 时按原样执行 SQL
+function boundQuery(args: any): { sql: string; values?: any[] } {
+  return args.params ? bindParams(args.sql, args.params) : { sql: args.sql };
+}
+
+// 预演会改写 SQL，占位符的位置随之变化，所以把参数转义后内联到 SQL 中
+function inlineParams(args: any): string {
+  const { sql, values } = boundQuery(args);
+  return values ? mysql.format(sql, values) : sql;
+}
+
+// 打开的游标，每个游标独占连接池中的一条连接
+const cursors = new CursorManager(MYSQL_CURSOR_IDLE_TIMEOUT * 1000, MYSQL_MAX_CURSORS);
+
+// 结果格式，未指定时使用 MYSQL_RESULT_FORMAT
+function resultFormat(args: any): ResultFormat {
+  return args.format ?? MYSQL_RESULT_FORMAT;
+}
+
+const serializeOptions: SerializeOptions = {
+  binaryEncoding: MYSQL_BINARY_ENCODING,
+  binaryMaxBytes: MYSQL_BINARY_MAX_BYTES,
+};
+
+// 按列类型序列化后格式化结果；compact 格式和 includeTypes 时附带列类型
+function renderRows(rows: any[], args: any, fields: any[] | null | undefined, meta?: Record<string, any> | null): string {
+  const format = resultFormat(args);
+  const columnTypes = fields && (args.includeTypes || format === "compact") ? fields.map(describeField) : null;
+  return formatRows(serializeRows(rows, fields, serializeOptions), format, { fields, meta, columnTypes });
+}
+
+// 单次调用可以调低但不能超过配置的上限
+function resultLimits(args: any): ResultLimits {
+  return {
+    maxRows: Math.min(args.maxRows ?? MYSQL_MAX_ROWS, MYSQL_MAX_ROWS),
+    maxBytes: Math.min(args.maxBytes ?? MYSQL_MAX_BYTES, MYSQL_MAX_BYTES),
+  };
+}
+
+// 流式执行只读查询，只保留第一页；结果集没有读完的连接不能复用
+async function queryLimited(args: any, sql: string, limits: ResultLimits, values?: any[]): Promise<LimitedResult> {
+  if (args.transactionId) {
+    // 事务连接不能销毁，只能把结果读完
+    return withConnection(args, connection => readLimited(new RowReader(streamingConnection(connection), sql, values), limits));
+  }
+  const connection = await getPool(args.connection).getConnection();
+  let reusable = false;
+  try {
+    const result = await readLimited(new RowReader(streamingConnection(connection), sql, values), limits, MYSQL_COUNT_LIMIT);
+    reusable = result.drained;
+    return result;
+  } catch (error: any) {
+    reusable = !error?.fatal;
+    throw error;
+  } finally {
+    if (reusable) {
+      connection.release();
+    } else {
+      connection.destroy();
+    }
+  }
+}
+
+// 以游标方式执行只读查询：返回第一页，没有读完时保留连接供 fetch_more 继续读取
+async function queryWithCursor(args: any, sql: string, limits: ResultLimits, values?: any[]) {
+  if (args.transactionId) {
+    throw new Error("Cursors are not supported inside a transaction; use LIMIT/OFFSET instead");
+  }
+  cursors.assertCapacity();
+  const connection = await getPool(args.connection).getConnection();
+  const reader = new RowReader(streamingConnection(connection), sql, values);
+  let page;
+  try {
+    page = await readPage(reader, limits);
+  } catch (error: any) {
+    if (error?.fatal) {
+      connection.destroy();
+    } else {
+      connection.release();
+    }
+    throw error;
+  }
+  if (page.done) {
+    connection.release();
+    return { rows: page.rows, fields: page.fields, meta: null };
+  }
+  const cursor = cursors.open({
+    reader,
+    connectionName: args.connection || activeConnection,
+    sql,
+    rowsFetched: page.rows.length,
+    release: reusable => (reusable ? connection.release() : connection.destroy()),
+  });
+  return { rows: page.rows, fields: page.fields, meta: truncationInfo(page.rows, { truncated: true, cursor }) };
+}
+
+// 危险操作的确认令牌
+const confirmations = new ConfirmationManager(parseConfirmClasses(MYSQL_CONFIRM), MYSQL_CONFIRM_TTL * 1000);
+
+// 需要确认时：没有令牌则返回摘要和令牌，令牌有效则返回 null 继续执行
+async function confirmOperation(operation: string, operationClass: OperationClass | null, args: any, summarize: () => Promise<any>) {
+  if (!confirmations.requires(operationClass)) {
+    return null;
+  }
+  // 令牌绑定到实际使用的连接，切换连接后旧令牌失效
+  const scope = { ...args, connection: args.connection || activeConnection };
+  if (args.confirmationToken) {
+    confirmations.consume(args.confirmationToken, operation, scope);
+    return null;
+  }
+  const summary = await summarize();
+  const pending = confirmations.issue(operation, scope);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({
+          confirmationRequired: true,
+          operation,
+          class: operationClass,
+          ...summary,
+          confirmationToken: pending.token,
+          expiresAt: pending.expiresAt,
+          message: `Nothing was executed. Review the summary, then call ${operation} again with the same arguments and confirmationToken "${pending.token}" before ${pending.expiresAt.toISOString()}`,
+        }, null, 2),
+      },
+    ],
+  };
+}
+
 // 测试连接
-async function testConnection(): Promise<boolean> {
+async function testConnection(name?: string): Promise<boolean> {
   try {
-    const connection = await pool.getConnection();
+    const connection = await getPool(name).getConnection();
     await connection.ping();
     connection.release();
     return true;
@@ -43,40 +312,74 @@ const server = new McpServer({
   version: "1.0.0",
 });
 
+// 审计每次工具调用，必须在 enforcePolicy 之前调用，被策略拒绝的调用也会记录
+audit.instrument(server, (args: any, extra: any) => {
+  const client = server.server.getClientVersion();
+  const connection = args?.connection || activeConnection;
+  return {
+    connection,
+    database: args?.database || getProfile(connectionConfig, connection).database || null,
+    session: extra?.sessionId || "stdio",
+    client: client ? `${client.name}/${client.version}` : null,
+  };
+}, ["query_history"]);
+
+// 按权限策略过滤工具并在执行前检查参数，必须在注册工具之前调用
+enforcePolicy(server, policy, (args: any) => ({
+  currentDatabase: args?.database || getProfile(connectionConfig, args?.connection || activeConnection).database || null,
+}));
+
+// 语句超时和请求取消，在 enforcePolicy 之后调用以便超时说明也写入审计日志
+guard.instrument(server);
+
 // 工具: 执行只读查询
 server.tool(
   "read_query",
   "Execute a read-only SQL query (SELECT, SHOW, DESCRIBE, EXPLAIN)",
   {
     sql: z.string().describe("The SQL query to execute (read-only operations only)"),
+    params: z.union([z.array(z.any()), z.record(z.any())]).optional().describe("Values bound through a prepared statement: an array for ? placeholders or an object for :name placeholders. Pass BIGINT values as strings"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    transactionId: z.string().optional().describe("Run inside this transaction (ID returned by begin_transaction)"),
+    maxRows: z.number().int().positive().optional().describe(`Maximum rows to return (default and upper bound: ${MYSQL_MAX_ROWS})`),
+    maxBytes: z.number().int().positive().optional().describe(`Maximum result size in bytes (default and upper bound: ${MYSQL_MAX_BYTES})`),
+    cursor: z.boolean().optional().describe("Keep the rest of a truncated result open as a cursor for fetch_more instead of counting it (default: false)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+    includeTypes: z.boolean().optional().describe("Include column type metadata (type, nullability, length) with the result (default: false; compact always includes type names)"),
   },
   async (args: any) => {
     try {
       const sql = args.sql;
-      // 验证是否为只读操作
-      const normalizedSql = sql.trim().toUpperCase();
-      const readOnlyKeywords = ["SELECT", "SHOW", "DESCRIBE", "DESC", "EXPLAIN", "WITH"];
-      const isReadOnly = readOnlyKeywords.some(keyword => normalizedSql.startsWith(keyword));
+      // 解析 SQL，拒绝任何带副作用的语句或子句
+      const check = checkReadOnly(sql);
       
-      if (!isReadOnly) {
+      if (!check.readOnly) {
         return {
           content: [
             {
               type: "text",
-              text: "Error: Only read-only queries (SELECT, SHOW, DESCRIBE, EXPLAIN) are allowed. Use write_query for INSERT, UPDATE, DELETE, or DDL operations.",
+              text: `Error: Only read-only queries (SELECT, SHOW, DESCRIBE, EXPLAIN) are allowed. Refused ${check.statementType}: ${check.reason}. Use write_query for INSERT, UPDATE, DELETE, or DDL operations.`,
             },
           ],
           isError: true,
         };
       }
 
-      const [rows] = await pool.query(sql);
+      const query = boundQuery(args);
+      const limits = resultLimits(args);
+      let result;
+      if (args.cursor) {
+        result = await queryWithCursor(args, query.sql, limits, query.values);
+      } else {
+        const { rows, fields, truncated, totalRows } = await queryLimited(args, query.sql, limits, query.values);
+        result = { rows, fields, meta: truncationInfo(rows, { truncated, totalRows }) };
+      }
       
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: renderRows(result.rows, args, result.fields, result.meta),
           },
         ],
       };
@@ -95,17 +398,134 @@ server.tool(
   }
 );
 
+// 工具: 读取游标的下一页
+server.tool(
+  "fetch_more",
+  "Fetch the next page of a cursor opened by read_query with cursor: true. The cursor is closed automatically after the last page",
+  {
+    cursor: z.string().describe("Cursor ID returned by read_query"),
+    maxRows: z.number().int().positive().optional().describe(`Maximum rows to return (default and upper bound: ${MYSQL_MAX_ROWS})`),
+    maxBytes: z.number().int().positive().optional().describe(`Maximum result size in bytes (default and upper bound: ${MYSQL_MAX_BYTES})`),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+    includeTypes: z.boolean().optional().describe("Include column type metadata (type, nullability, length) with the result (default: false; compact always includes type names)"),
+  },
+  async (args: any) => {
+    try {
+      const { page, cursor } = await cursors.fetch(args.cursor, resultLimits(args));
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: renderRows(page.rows, args, page.fields, {
+              cursor: cursor.id,
+              rowsReturned: page.rows.length,
+              rowsFetched: cursor.rowsFetched,
+              done: page.done,
+              totalRows: page.done ? cursor.rowsFetched : null,
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error fetching from cursor: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 关闭游标
+server.tool(
+  "close_cursor",
+  "Close a cursor that is no longer needed and release its connection",
+  {
+    cursor: z.string().describe("Cursor ID returned by read_query"),
+  },
+  async (args: any) => {
+    try {
+      const cursor = cursors.close(args.cursor);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Cursor ${cursor.id} closed after ${cursor.rowsFetched} rows.`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error closing cursor: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
 // 工具: 执行写入操作
 server.tool(
   "write_query",
   "Execute a write SQL query (INSERT, UPDATE, DELETE, CREATE, ALTER, DROP, etc.)",
   {
     sql: z.string().describe("The SQL query to execute (write operations)"),
+    params: z.union([z.array(z.any()), z.record(z.any())]).optional().describe("Values bound through a prepared statement: an array for ? placeholders or an object for :name placeholders. Pass BIGINT values as strings"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    transactionId: z.string().optional().describe("Run inside this transaction (ID returned by begin_transaction)"),
+    dryRun: z.boolean().optional().describe("Preview the affected rows and tables without changing data (default: false)"),
+    sampleSize: z.number().int().min(0).max(100).optional().describe("Number of affected rows to include in a dry-run preview (default: 10)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
   },
   async (args: any) => {
     try {
       const sql = args.sql;
-      const [result] = await pool.query(sql);
+      // USE 切换的数据库在连接归还连接池后仍然保留，会影响后续借出该连接的调用
+      const useDatabase = findUseDatabase(sql);
+      if (useDatabase !== null) {
+        throw new Error(`USE ${useDatabase} is not allowed in write_query; qualify table names with the database instead`);
+      }
+      if (args.dryRun) {
+        const preview = await withConnection(args, (connection, inTransaction) =>
+          previewWrite(connection, inlineParams(args), { sampleSize: args.sampleSize ?? 10, inTransaction })
+        );
+        if (preview.sampleRows) {
+          preview.sampleRows = serializeRows(preview.sampleRows, null, serializeOptions);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, ...preview }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const confirmation = await confirmOperation("write_query", classifyStatement(sql), args, async () => {
+        const preview = await withConnection(args, (connection, inTransaction) =>
+          previewWrite(connection, inlineParams(args), { sampleSize: args.sampleSize ?? 10, inTransaction })
+        );
+        return { sql, params: args.params, preview };
+      });
+      if (confirmation) {
+        return confirmation;
+      }
+
+      const query = boundQuery(args);
+      const [result] = await runQuery(args, query.sql, query.values);
       
       return {
         content: [
@@ -134,16 +554,19 @@ server.tool(
 server.tool(
   "list_tables",
   "List all tables in the database",
-  {},
-  async () => {
+  {
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+  },
+  async (args: any) => {
     try {
-      const [rows] = await pool.query("SHOW TABLES");
+      const [rows, fields] = await getPool(args.connection).query("SHOW TABLES");
       
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: renderRows(rows as any[], args, fields),
           },
         ],
       };
@@ -168,17 +591,19 @@ server.tool(
   "Describe the structure of a table",
   {
     table: z.string().describe("The name of the table to describe"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
   },
   async (args: any) => {
     try {
       const table = args.table;
-      const [rows] = await pool.query(`DESCRIBE ${mysql.escapeId(table)}`);
+      const [rows, fields] = await getPool(args.connection).query(`DESCRIBE ${mysql.escapeId(table)}`);
       
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: renderRows(rows as any[], args, fields),
           },
         ],
       };
@@ -197,17 +622,170 @@ server.tool(
   }
 );
 
+// 工具: 汇总整个数据库的表结构
+server.tool(
+  "describe_schema",
+  "Summarize every table of a database in one call: columns with types, primary keys, indexes, foreign keys, estimated row counts and comments. Large schemas are reduced to column names or table names to fit the output budget",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    tables: z.array(z.string()).optional().describe("Only include tables matching these patterns (* and ? wildcards, e.g. [\"order*\"])"),
+    exclude: z.array(z.string()).optional().describe("Skip tables matching these patterns"),
+    includeViews: z.boolean().optional().describe("Include views (default: true)"),
+    maxBytes: z.number().int().positive().optional().describe(`Output budget in bytes (default and upper bound: ${MYSQL_MAX_BYTES})`),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+  },
+  async (args: any) => {
+    try {
+      const summary = await summarizeSchema(getPool(args.connection), {
+        database: args.database,
+        include: args.tables,
+        exclude: args.exclude,
+        includeViews: args.includeViews ?? true,
+        maxBytes: Math.min(args.maxBytes ?? MYSQL_MAX_BYTES, MYSQL_MAX_BYTES),
+        allowTable: (database, table) => !checkSchemaAccess(policy, database, table),
+      });
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(summary, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error describing schema: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 导出外键关系图
+server.tool(
+  "relationship_graph",
+  "Build the foreign key relationship graph of a database and export it as a Mermaid erDiagram, Graphviz DOT or JSON adjacency list, optionally limited to the tables within N hops of a table",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().optional().describe("Only include tables connected to this table within depth hops"),
+    depth: z.number().int().min(0).optional().describe("Number of foreign key hops from table, in either direction (default: 2)"),
+    format: z.enum(GRAPH_FORMATS).optional().describe("Output format: mermaid (erDiagram), dot (Graphviz) or json (nodes, edges and adjacency) (default: mermaid)"),
+    columns: z.enum(GRAPH_COLUMNS).optional().describe("Columns shown for each table: all, keys (primary and foreign key columns) or none (default: keys)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+  },
+  async (args: any) => {
+    try {
+      const graph = await buildRelationshipGraph(getPool(args.connection), {
+        database: args.database,
+        table: args.table,
+        depth: args.depth ?? 2,
+        columns: args.columns ?? "keys",
+        allowTable: (database, table) => !checkSchemaAccess(policy, database, table),
+      });
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatGraph(graph, args.format ?? "mermaid"),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error building relationship graph: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 比较两个数据库的结构
+server.tool(
+  "diff_schema",
+  "Compare the schema of two databases (on the same or different connections) table by table: columns, indexes, foreign keys, engine and collation. Returns a readable report and an ordered migration script that makes the target match the source. The script is not executed",
+  {
+    sourceDatabase: z.string().optional().describe("Database with the desired schema, e.g. dev (default: current database of sourceConnection)"),
+    targetDatabase: z.string().optional().describe("Database to migrate, e.g. staging (default: current database of targetConnection)"),
+    sourceConnection: z.string().optional().describe("Connection profile of the source database (uses the active connection if not specified)"),
+    targetConnection: z.string().optional().describe("Connection profile of the target database (uses the active connection if not specified)"),
+    tables: z.array(z.string()).optional().describe("Only compare tables matching these patterns (* and ? wildcards)"),
+    exclude: z.array(z.string()).optional().describe("Skip tables matching these patterns"),
+  },
+  async (args: any) => {
+    try {
+      const sourceName = args.sourceConnection || activeConnection;
+      const targetName = args.targetConnection || activeConnection;
+      const filter = {
+        include: args.tables,
+        exclude: args.exclude,
+        allowTable: (database: string, table: string) => !checkSchemaAccess(policy, database, table),
+      };
+      const source = await loadSchemaSnapshot(getPool(sourceName), mysql, sourceName, { ...filter, database: args.sourceDatabase });
+      const target = await loadSchemaSnapshot(getPool(targetName), mysql, targetName, { ...filter, database: args.targetDatabase });
+      for (const database of [source.database, target.database]) {
+        const violation = checkSchemaAccess(policy, database);
+        if (violation) {
+          throw new Error(`Permission denied for role '${policy?.role}': ${violation}`);
+        }
+      }
+      if (sourceName === targetName && source.database === target.database) {
+        throw new Error(`Source and target are the same database (${sourceName}:${source.database})`);
+      }
+      const diff = await diffSchemas(getPool(sourceName), source, target, mysql);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatDiffReport(diff),
+          },
+          {
+            type: "text",
+            text: formatMigrationScript(diff),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error comparing schemas: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
 // 工具: 获取表的创建语句
 server.tool(
   "show_create_table",
   "Show the CREATE TABLE statement for a table",
   {
     table: z.string().describe("The name of the table"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
   },
   async (args: any) => {
     try {
       const table = args.table;
-      const [rows] = await pool.query(`SHOW CREATE TABLE ${mysql.escapeId(table)}`);
+      const [rows] = await getPool(args.connection).query(`SHOW CREATE TABLE ${mysql.escapeId(table)}`);
       
       return {
         content: [
@@ -236,19 +814,25 @@ server.tool(
 server.tool(
   "database_info",
   "Get information about the current database",
-  {},
-  async () => {
+  {
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+  },
+  async (args: any) => {
     try {
+      const name = args.connection || activeConnection;
+      const profile = getProfile(connectionConfig, name);
+      const pool = getPool(name);
       const [versionResult] = await pool.query("SELECT VERSION() as version");
-      const [databaseResult] = await pool.query("SELECT DATABASE() as database");
+      const [databaseResult] = await pool.query("SELECT DATABASE() as `database`");
       const [userResult] = await pool.query("SELECT USER() as user");
       
       const info = {
+        connection: name,
         version: (versionResult as any)[0].version,
         database: (databaseResult as any)[0].database,
         user: (userResult as any)[0].user,
-        host: MYSQL_HOST,
-        port: MYSQL_PORT,
+        host: profile.host,
+        port: profile.port,
       };
       
       return {
@@ -278,16 +862,19 @@ server.tool(
 server.tool(
   "list_databases",
   "List all databases accessible to the user",
-  {},
-  async () => {
+  {
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+  },
+  async (args: any) => {
     try {
-      const [rows] = await pool.query("SHOW DATABASES");
+      const [rows, fields] = await getPool(args.connection).query("SHOW DATABASES");
       
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(rows, null, 2),
+            text: renderRows(rows as any[], args, fields),
           },
         ],
       };
@@ -315,6 +902,8 @@ server.tool(
     charset: z.string().optional().describe("Character set (default: utf8)"),
     collation: z.string().optional().describe("Collation (default: utf8_general_ci)"),
     ifNotExists: z.boolean().optional().describe("Use IF NOT EXISTS clause (default: true)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
   },
   async (args: any) => {
     try {
@@ -329,7 +918,12 @@ server.tool(
       }
       sql += `${mysql.escapeId(database)} CHARACTER SET ${charset} COLLATE ${collation}`;
       
-      await pool.query(sql);
+      const confirmation = await confirmOperation("create_database", "ddl", args, async () => ({ sql }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(args.connection).query(sql);
       
       return {
         content: [
@@ -354,6 +948,45 @@ server.tool(
   }
 );
 
+// 结构化表定义的参数，由 buildTableBody / buildAlterColumn 校验并生成 DDL
+const columnSchema = z.object({
+  name: z.string().describe("Column name"),
+  type: z.string().describe("Data type without parameters, e.g. INT, BIGINT, VARCHAR, DECIMAL, DATETIME, ENUM, JSON"),
+  length: z.number().int().min(0).optional().describe("Length for CHAR/VARCHAR/BINARY/VARBINARY/BIT, precision for DECIMAL, fractional seconds for DATETIME/TIMESTAMP/TIME"),
+  scale: z.number().int().min(0).optional().describe("Number of decimals for DECIMAL"),
+  values: z.array(z.string()).optional().describe("Allowed values for ENUM/SET"),
+  unsigned: z.boolean().optional().describe("UNSIGNED numeric column"),
+  nullable: z.boolean().optional().describe("Allow NULL (default: true; primary key columns are always NOT NULL)"),
+  default: z.union([z.string(), z.number(), z.boolean(), z.null()]).optional().describe("Literal default value"),
+  defaultExpression: z.string().optional().describe("Default expression instead of a literal: CURRENT_TIMESTAMP or CURRENT_TIMESTAMP(n)"),
+  onUpdate: z.string().optional().describe("ON UPDATE expression: CURRENT_TIMESTAMP or CURRENT_TIMESTAMP(n)"),
+  autoIncrement: z.boolean().optional().describe("AUTO_INCREMENT column"),
+  primaryKey: z.boolean().optional().describe("Single-column primary key"),
+  unique: z.boolean().optional().describe("Single-column unique index"),
+  charset: z.string().optional().describe("Column character set"),
+  collation: z.string().optional().describe("Column collation"),
+  comment: z.string().optional().describe("Column comment"),
+});
+
+const indexSchema = z.object({
+  name: z.string().optional().describe("Index name (generated by MySQL if not specified)"),
+  columns: z.array(z.string()).min(1).describe("Indexed columns in order"),
+  type: z.enum(["INDEX", "UNIQUE", "FULLTEXT", "SPATIAL"]).optional().describe("Index type (default: INDEX)"),
+  comment: z.string().optional().describe("Index comment"),
+});
+
+const referentialAction = z.enum(["RESTRICT", "CASCADE", "SET NULL", "NO ACTION", "SET DEFAULT"]);
+
+const foreignKeySchema = z.object({
+  name: z.string().optional().describe("Constraint name (generated by MySQL if not specified)"),
+  columns: z.array(z.string()).min(1).describe("Referencing columns"),
+  referencedDatabase: z.string().optional().describe("Database of the referenced table (defaults to the table's database)"),
+  referencedTable: z.string().describe("Referenced table"),
+  referencedColumns: z.array(z.string()).min(1).describe("Referenced columns, same count and order as columns"),
+  onDelete: referentialAction.optional().describe("ON DELETE action"),
+  onUpdate: referentialAction.optional().describe("ON UPDATE action"),
+});
+
 // 工具: 创建表
 server.tool(
   "create_table",
@@ -361,20 +994,45 @@ server.tool(
   {
     database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
     table: z.string().describe("The name of the table to create"),
-    columns: z.string().describe("Column definitions (e.g., 'id INT PRIMARY KEY AUTO_INCREMENT, name VARCHAR(255) NOT NULL')"),
+    columns: z.array(columnSchema).min(1).optional().describe("Column definitions"),
+    primaryKey: z.array(z.string()).min(1).optional().describe("Primary key columns (alternative to primaryKey on a single column)"),
+    indexes: z.array(indexSchema).optional().describe("Secondary indexes"),
+    foreignKeys: z.array(foreignKeySchema).optional().describe("Foreign key constraints"),
+    rawColumns: z.string().optional().describe("Raw SQL column and index definitions used instead of columns (explicit opt-in), e.g. 'id INT PRIMARY KEY AUTO_INCREMENT, name VARCHAR(255) NOT NULL'"),
     engine: z.string().optional().describe("Storage engine (default: InnoDB)"),
     charset: z.string().optional().describe("Character set (default: utf8)"),
+    collation: z.string().optional().describe("Collation (default: the character set's default)"),
+    comment: z.string().optional().describe("Table comment"),
     ifNotExists: z.boolean().optional().describe("Use IF NOT EXISTS clause (default: true)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
   },
   async (args: any) => {
     try {
       const database = args.database;
       const table = args.table;
-      const columns = args.columns;
       const engine = args.engine || "InnoDB";
       const charset = args.charset || "utf8";
       const ifNotExists = args.ifNotExists !== undefined ? args.ifNotExists : true;
       
+      let body: string;
+      if (args.rawColumns !== undefined) {
+        if (args.columns || args.primaryKey || args.indexes || args.foreignKeys) {
+          throw new Error("Pass either columns (structured) or rawColumns (raw SQL), not both");
+        }
+        body = args.rawColumns;
+      } else if (args.columns) {
+        body = buildTableBody(mysql, {
+          columns: args.columns,
+          primaryKey: args.primaryKey,
+          indexes: args.indexes,
+          foreignKeys: args.foreignKeys,
+        });
+      } else {
+        throw new Error("columns is required (or pass rawColumns to use raw SQL)");
+      }
+      const options = buildTableOptions(mysql, { engine, charset, collation: args.collation, comment: args.comment });
+      
       let sql = `CREATE TABLE `;
       if (ifNotExists) {
         sql += `IF NOT EXISTS `;
@@ -386,9 +1044,14 @@ server.tool(
         sql += `${mysql.escapeId(table)}`;
       }
       
-      sql += ` (${columns}) ENGINE=${engine} DEFAULT CHARSET=${charset}`;
+      sql += ` (\n  ${body}\n) ${options}`;
+      
+      const confirmation = await confirmOperation("create_table", "ddl", args, async () => ({ sql }));
+      if (confirmation) {
+        return confirmation;
+      }
       
-      await pool.query(sql);
+      await getPool(args.connection).query(sql);
       
       return {
         content: [
@@ -420,17 +1083,28 @@ server.tool(
   {
     database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
     table: z.string().describe("The name of the table to alter"),
-    action: z.enum(["ADD", "MODIFY", "CHANGE", "DROP"]).describe("Action to perform: ADD, MODIFY, CHANGE, or DROP"),
-    column: z.string().describe("Column definition or name (e.g., 'email VARCHAR(255)' for ADD/MODIFY, 'old_name new_name datatype' for CHANGE, or 'column_name' for DROP)"),
-    position: z.string().optional().describe("Position clause (e.g., 'FIRST', 'AFTER other_column')"),
+    action: z.enum(["ADD", "MODIFY", "CHANGE", "DROP"]).describe("Action to perform: ADD, MODIFY, CHANGE (rename and redefine), or DROP"),
+    column: columnSchema.optional().describe("New column definition for ADD, MODIFY and CHANGE"),
+    columnName: z.string().optional().describe("Existing column name for DROP, and the current name for CHANGE"),
+    rawColumn: z.string().optional().describe("Raw SQL column definition used instead of column (explicit opt-in), e.g. 'email VARCHAR(255) NOT NULL'"),
+    first: z.boolean().optional().describe("Place the column first (ADD, MODIFY, CHANGE)"),
+    after: z.string().optional().describe("Place the column after this column (ADD, MODIFY, CHANGE)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the generated SQL and the table's size and foreign keys without executing (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
   },
   async (args: any) => {
     try {
       const database = args.database;
       const table = args.table;
-      const action = args.action;
-      const column = args.column;
-      const position = args.position;
+      const clause = buildAlterColumn(mysql, {
+        action: args.action,
+        column: args.column,
+        columnName: args.columnName,
+        rawColumn: args.rawColumn,
+        first: args.first,
+        after: args.after,
+      });
       
       let sql = `ALTER TABLE `;
       if (database) {
@@ -439,19 +1113,35 @@ server.tool(
         sql += `${mysql.escapeId(table)}`;
       }
       
-      sql += ` ${action} COLUMN ${column}`;
+      sql += ` ${clause}`;
+      
+      if (args.dryRun) {
+        const impact = await describeTableImpact(getPool(args.connection), { database, table });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, sql, table: impact, warnings: foreignKeyWarnings("ALTER", [impact]) }, null, 2),
+            },
+          ],
+        };
+      }
       
-      if (position) {
-        sql += ` ${position}`;
+      const confirmation = await confirmOperation("alter_table", "ddl", args, async () => {
+        const impact = await describeTableImpact(getPool(args.connection), { database, table });
+        return { sql, table: impact, warnings: foreignKeyWarnings("ALTER", [impact]) };
+      });
+      if (confirmation) {
+        return confirmation;
       }
       
-      await pool.query(sql);
+      await getPool(args.connection).query(sql);
       
       return {
         content: [
           {
             type: "text",
-            text: `Table '${table}' altered successfully. Action: ${action} COLUMN ${column}${position ? ' ' + position : ''}.`,
+            text: `Table '${table}' altered successfully. Action: ${clause}.`,
           },
         ],
       };
@@ -478,6 +1168,9 @@ server.tool(
     database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
     table: z.string().describe("The name of the table to drop"),
     ifExists: z.boolean().optional().describe("Use IF EXISTS clause (default: true)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the table's size and the foreign keys referencing it without dropping (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
   },
   async (args: any) => {
     try {
@@ -496,10 +1189,34 @@ server.tool(
         sql += `${mysql.escapeId(table)}`;
       }
       
-      await pool.query(sql);
-      
-      return {
-        content: [
+      if (args.dryRun) {
+        const impact = await describeTableImpact(getPool(args.connection), { database, table });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, sql, table: impact, warnings: foreignKeyWarnings("DROP", [impact]) }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      const confirmation = await confirmOperation("drop_table", "drop", args, async () => {
+        const impact = await describeTableImpact(getPool(args.connection), { database, table });
+        const warnings = foreignKeyWarnings("DROP", [impact]);
+        if (!impact.exists) {
+          warnings.push(`Table '${table}' does not exist; nothing would be dropped`);
+        }
+        return { sql, table: impact, warnings };
+      });
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(args.connection).query(sql);
+      
+      return {
+        content: [
           {
             type: "text",
             text: `Table '${table}' dropped successfully.`,
@@ -521,6 +1238,306 @@ server.tool(
   }
 );
 
+// 工具: 列出索引
+server.tool(
+  "list_indexes",
+  "List indexes with their columns, uniqueness, type, cardinality and visibility",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().optional().describe("Only list indexes of this table (default: all tables in the database)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    format: z.enum(RESULT_FORMATS).optional().describe(`Result format: json (array of row objects), compact ({columns, rows}), markdown or csv (default: ${MYSQL_RESULT_FORMAT})`),
+  },
+  async (args: any) => {
+    try {
+      const indexes = await listIndexes(getPool(args.connection), { database: args.database, table: args.table });
+      const rows = indexes.map(index => ({
+        table: index.table,
+        index: index.name,
+        columns: index.columns.map(column => `${column.name ?? `(${column.expression})`}${column.subPart !== null ? `(${column.subPart})` : ""}${column.order === "DESC" ? " DESC" : ""}`).join(", "),
+        unique: index.unique,
+        type: index.type,
+        cardinality: index.cardinality,
+        visible: index.visible,
+        comment: index.comment,
+      }));
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: renderRows(rows, args, null),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error listing indexes: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 创建索引
+server.tool(
+  "create_index",
+  "Create an index (regular, unique, fulltext or spatial; prefix, descending and invisible indexes are supported)",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().describe("The table to index"),
+    name: z.string().describe("Index name"),
+    columns: z.array(z.union([
+      z.string(),
+      z.object({
+        name: z.string().describe("Column name"),
+        length: z.number().int().positive().optional().describe("Prefix length for string and binary columns"),
+        order: z.enum(["ASC", "DESC"]).optional().describe("Sort order"),
+      }),
+    ])).min(1).describe("Indexed columns in order: column names, or objects with name, length (prefix) and order"),
+    type: z.enum(["INDEX", "UNIQUE", "FULLTEXT", "SPATIAL"]).optional().describe("Index type (default: INDEX)"),
+    visible: z.boolean().optional().describe("Set to false to create an invisible index that the optimizer ignores (MySQL 8.0+, default: true)"),
+    comment: z.string().optional().describe("Index comment"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the generated SQL and the table's size without executing (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any) => {
+    try {
+      const database = args.database;
+      const table = args.table;
+      
+      let tableRef = mysql.escapeId(table);
+      if (database) {
+        tableRef = `${mysql.escapeId(database)}.${tableRef}`;
+      }
+      
+      const sql = buildCreateIndex(mysql, tableRef, {
+        name: args.name,
+        columns: args.columns,
+        type: args.type,
+        visible: args.visible,
+        comment: args.comment,
+      });
+      if (args.dryRun) {
+        const impact = await describeTableImpact(getPool(args.connection), { database, table });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, sql, table: impact }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      const confirmation = await confirmOperation("create_index", "ddl", args, async () => {
+        const impact = await describeTableImpact(getPool(args.connection), { database, table });
+        return { sql, table: impact };
+      });
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(args.connection).query(sql);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Index '${args.name}' created on table '${table}'.`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error creating index: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 删除索引
+server.tool(
+  "drop_index",
+  "Drop an index",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().describe("The table the index belongs to"),
+    name: z.string().describe("Index name (PRIMARY drops the primary key)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the index definition without dropping it (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any) => {
+    try {
+      const database = args.database;
+      const table = args.table;
+      
+      let tableRef = mysql.escapeId(table);
+      if (database) {
+        tableRef = `${mysql.escapeId(database)}.${tableRef}`;
+      }
+      
+      const sql = `DROP INDEX ${mysql.escapeId(args.name)} ON ${tableRef}`;
+      // 被删除索引的定义，以及删除唯一索引会失去约束的提醒
+      const summarize = async () => {
+        const indexes = await listIndexes(getPool(args.connection), { database, table });
+        const index = indexes.find(item => item.name === args.name);
+        if (!index) {
+          throw new Error(`Index '${args.name}' does not exist on table '${table}'`);
+        }
+        const warnings = index.unique ? [`${index.primary ? "Primary key" : "Unique index"} '${index.name}' also enforces uniqueness; dropping it removes that constraint`] : [];
+        return { sql, index, warnings };
+      };
+      if (args.dryRun) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, ...(await summarize()) }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      const confirmation = await confirmOperation("drop_index", "drop", args, summarize);
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(args.connection).query(sql);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Index '${args.name}' dropped from table '${table}'.`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error dropping index: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 查找未使用和重复的索引
+server.tool(
+  "index_usage",
+  "Report unused indexes (from sys.schema_unused_indexes or performance_schema) and duplicate or redundant indexes",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().optional().describe("Only check this table (default: all tables in the database)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+  },
+  async (args: any) => {
+    try {
+      const report = await indexUsageReport(getPool(args.connection), { database: args.database, table: args.table });
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error checking index usage: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 分析查询执行计划
+server.tool(
+  "explain_query",
+  "Explain a query: returns the execution plan as a tree (access type, rows examined, filesort/temporary), flags full scans and unindexed joins, and suggests candidate indexes",
+  {
+    sql: z.string().describe("The statement to explain (SELECT, INSERT, REPLACE, UPDATE or DELETE, without the EXPLAIN keyword)"),
+    params: z.union([z.array(z.any()), z.record(z.any())]).optional().describe("Values for ? or :name placeholders; they are inlined into the explained statement"),
+    analyze: z.boolean().optional().describe("Also run EXPLAIN ANALYZE, which executes the query and reports actual timings (read-only queries on MySQL 8.0.18+ only, default: false)"),
+    includeRaw: z.boolean().optional().describe("Include the raw EXPLAIN FORMAT=JSON output (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    transactionId: z.string().optional().describe("Explain inside this transaction (ID returned by begin_transaction)"),
+  },
+  async (args: any) => {
+    try {
+      const sql = inlineParams(args);
+      if (args.analyze) {
+        // EXPLAIN ANALYZE 会真正执行语句
+        const check = checkReadOnly(sql);
+        if (!check.readOnly) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error: analyze executes the statement and is only allowed for read-only queries. Refused ${check.statementType}: ${check.reason}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+
+      const report = await withConnection(args, connection =>
+        explainQuery(connection, sql, { analyze: !!args.analyze, includeRaw: !!args.includeRaw, largeScanRows: MYSQL_EXPLAIN_LARGE_SCAN_ROWS })
+      );
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error explaining query: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
 // 工具: 删除数据库
 server.tool(
   "drop_database",
@@ -528,6 +1545,8 @@ server.tool(
   {
     database: z.string().describe("The name of the database to drop"),
     ifExists: z.boolean().optional().describe("Use IF EXISTS clause (default: true)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
   },
   async (args: any) => {
     try {
@@ -540,7 +1559,19 @@ server.tool(
       }
       sql += `${mysql.escapeId(database)}`;
       
-      await pool.query(sql);
+      const confirmation = await confirmOperation("drop_database", "drop", args, async () => {
+        const impact = await describeDatabaseImpact(getPool(args.connection), database);
+        const warnings = (impact.referencedBy || []).map(fk => `${fk.table} references ${fk.referencedTable} via ${fk.constraint}`);
+        if (!impact.exists) {
+          warnings.push(`Database '${database}' does not exist; nothing would be dropped`);
+        }
+        return { sql, database: impact, warnings };
+      });
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      await getPool(args.connection).query(sql);
       
       return {
         content: [
@@ -565,19 +1596,925 @@ server.tool(
   }
 );
 
-// 启动服务器
-async function main() {
-  console.error(`Connecting to MySQL at ${MYSQL_HOST}:${MYSQL_PORT}...`);
-  
-  const connected = await testConnection();
-  if (!connected) {
-    console.error("Failed to connect to MySQL. Please check your configuration.");
-    process.exit(1);
+// 工具: 列出所有连接
+server.tool(
+  "list_connections",
+  "List the configured connection profiles and which one is active",
+  {},
+  async () => {
+    try {
+      const connections = describeConnections(connectionConfig, activeConnection, pools.keys());
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(connections, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error listing connections: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 切换当前连接
+server.tool(
+  "switch_connection",
+  "Switch the active connection profile used by tools that do not specify a connection",
+  {
+    connection: z.string().describe("The name of the connection profile to switch to"),
+  },
+  async (args: any) => {
+    try {
+      const name = args.connection;
+      const profile = getProfile(connectionConfig, name);
+      
+      // 切换前先确认目标连接可用
+      const connection = await getPool(name).getConnection();
+      await connection.ping();
+      connection.release();
+      
+      activeConnection = name;
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Switched to connection '${name}' (${profile.user}@${profile.host}:${profile.port}${profile.database ? `/${profile.database}` : ""}).`,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error switching connection: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 开始事务
+server.tool(
+  "begin_transaction",
+  "Begin a transaction on a dedicated connection and return its ID. Pass the ID as transactionId to read_query and write_query; the transaction is rolled back automatically if idle for too long or when the server shuts down",
+  {
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    isolationLevel: z.enum(["READ UNCOMMITTED", "READ COMMITTED", "REPEATABLE READ", "SERIALIZABLE"]).optional().describe("Isolation level for this transaction (default: server setting)"),
+  },
+  async (args: any) => {
+    try {
+      const name = args.connection || activeConnection;
+      const connection = await getPool(name).getConnection();
+      
+      if (args.isolationLevel) {
+        try {
+          await connection.query(`SET TRANSACTION ISOLATION LEVEL ${args.isolationLevel}`);
+        } catch (error) {
+          connection.release();
+          throw error;
+        }
+      }
+      
+      const transaction = await transactions.begin({
+        connection,
+        connectionName: name,
+        database: getProfile(connectionConfig, name).database,
+        release: reusable => (reusable ? connection.release() : connection.destroy()),
+      });
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error beginning transaction: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 提交事务
+server.tool(
+  "commit_transaction",
+  "Commit a transaction and release its connection",
+  {
+    transactionId: z.string().describe("The transaction ID returned by begin_transaction"),
+  },
+  async (args: any) => {
+    try {
+      const transaction = await transactions.commit(args.transactionId);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error committing transaction: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 回滚事务
+server.tool(
+  "rollback_transaction",
+  "Roll back a transaction, or only back to a savepoint (the transaction stays open)",
+  {
+    transactionId: z.string().describe("The transaction ID returned by begin_transaction"),
+    savepoint: z.string().optional().describe("Roll back to this savepoint instead of the whole transaction"),
+  },
+  async (args: any) => {
+    try {
+      const transaction = await transactions.rollback(args.transactionId, args.savepoint);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error rolling back transaction: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 创建保存点
+server.tool(
+  "savepoint",
+  "Create a savepoint inside a transaction",
+  {
+    transactionId: z.string().describe("The transaction ID returned by begin_transaction"),
+    name: z.string().describe("Savepoint name (letters, digits and underscores)"),
+  },
+  async (args: any) => {
+    try {
+      const transaction = await transactions.savepoint(args.transactionId, args.name);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error creating savepoint: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 释放保存点
+server.tool(
+  "release_savepoint",
+  "Release a savepoint (and any savepoints created after it) inside a transaction",
+  {
+    transactionId: z.string().describe("The transaction ID returned by begin_transaction"),
+    name: z.string().describe("Savepoint name"),
+  },
+  async (args: any) => {
+    try {
+      const transaction = await transactions.releaseSavepoint(args.transactionId, args.name);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error releasing savepoint: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 列出进行中的事务
+server.tool(
+  "list_transactions",
+  "List open transactions with their savepoints and last activity time",
+  {},
+  async () => {
+    try {
+      const openTransactions = transactions.list();
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(openTransactions, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error listing transactions: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 迁移文件目录，未设置时迁移工具返回错误
+function migrationsDirectory(): string {
+  if (!MYSQL_MIGRATIONS_DIR) {
+    throw new Error("MYSQL_MIGRATIONS_DIR is not set; configure the directory containing the migration files");
+  }
+  return MYSQL_MIGRATIONS_DIR;
+}
+
+// 迁移文件中的每条语句都按权限策略检查
+function migrationCheck(tool: string): StatementCheck {
+  return (sql, database) => checkToolCall(policy, tool, { sql }, { currentDatabase: database });
+}
+
+// 工具: 查看迁移状态
+server.tool(
+  "migration_status",
+  "Compare the migration files in MYSQL_MIGRATIONS_DIR with the schema_migrations history table: applied, pending, modified, missing and out-of-order versions",
+  {
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified); migrations run in the profile's database"),
+  },
+  async (args: any) => {
+    try {
+      const directory = migrationsDirectory();
+      const status = await withConnection({ connection: args.connection }, connection => migrationStatus(connection, directory));
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(status, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error reading migration status: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 执行待执行的迁移
+server.tool(
+  "migration_apply",
+  "Apply pending migrations in version order and record them in schema_migrations. Refuses to run when an applied migration was modified or a pending one is older than the latest applied version",
+  {
+    to: z.string().optional().describe("Apply up to and including this version (default: all pending)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified); migrations run in the profile's database"),
+    dryRun: z.boolean().optional().describe("Return the migrations and statements that would run without executing them (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any) => {
+    try {
+      const directory = migrationsDirectory();
+      const to = args.to ?? null;
+      const check = migrationCheck("migration_apply");
+      const plan = await withConnection({ connection: args.connection }, connection => planApply(connection, directory, to, check));
+      
+      if (plan.migrations.length === 0 || args.dryRun) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: !!args.dryRun, ...plan, message: plan.migrations.length === 0 ? "No pending migrations" : undefined }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      // 令牌绑定到确认时的迁移文件，文件变化后需要重新确认
+      const confirmation = await confirmOperation("migration_apply", plan.operationClass, { ...args, plan: planFingerprint(plan) }, async () => plan);
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      const result = await withConnection({ connection: args.connection }, connection =>
+        withMigrationLock(connection, MYSQL_MIGRATION_LOCK_TIMEOUT, async () => {
+          // 加锁后重新计划，期间其他执行器可能已执行了部分迁移
+          const locked = await planApply(connection, directory, to, check);
+          if (planFingerprint(locked) !== planFingerprint(plan)) {
+            throw new Error("Pending migrations changed while waiting for the lock; call migration_status and try again");
+          }
+          return runPlan(connection, locked);
+        })
+      );
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        isError: result.failed ? true : undefined,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error applying migrations: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 回滚迁移
+server.tool(
+  "migration_rollback",
+  "Roll back the most recently applied migrations by running their down files and removing them from schema_migrations",
+  {
+    steps: z.number().int().positive().optional().describe("Number of migrations to roll back, newest first (default: 1)"),
+    to: z.string().optional().describe("Roll back every migration newer than this version instead of a number of steps"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified); migrations run in the profile's database"),
+    dryRun: z.boolean().optional().describe("Return the migrations and statements that would run without executing them (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any) => {
+    try {
+      const directory = migrationsDirectory();
+      const options = { steps: args.steps, to: args.to ?? null };
+      const check = migrationCheck("migration_rollback");
+      const plan = await withConnection({ connection: args.connection }, connection => planRollback(connection, directory, options, check));
+      
+      if (plan.migrations.length === 0 || args.dryRun) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: !!args.dryRun, ...plan, message: plan.migrations.length === 0 ? "No migrations to roll back" : undefined }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      const confirmation = await confirmOperation("migration_rollback", plan.operationClass, { ...args, plan: planFingerprint(plan) }, async () => plan);
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      const result = await withConnection({ connection: args.connection }, connection =>
+        withMigrationLock(connection, MYSQL_MIGRATION_LOCK_TIMEOUT, async () => {
+          const locked = await planRollback(connection, directory, options, check);
+          if (planFingerprint(locked) !== planFingerprint(plan)) {
+            throw new Error("Applied migrations changed while waiting for the lock; call migration_status and try again");
+          }
+          return runPlan(connection, locked);
+        })
+      );
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        isError: result.failed ? true : undefined,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error rolling back migrations: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 客户端在请求中带了 progressToken 时发送进度通知
+function progressReporter(extra: any) {
+  const progressToken = extra?._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+  return (progress: number, total: number | undefined, message: string) => {
+    extra.sendNotification({ method: "notifications/progress", params: { progressToken, progress, total, message } }).catch(() => undefined);
+  };
+}
+
+// 导出到文件，每张表按权限策略过滤，进度按已导出的行数报告
+async function runDump(tool: string, args: any, extra: any, file: string, options: { database?: string; tables?: string[]; include?: string[]; exclude?: string[]; includeViews: boolean }) {
+  const report = progressReporter(extra);
+  return withConnection({ connection: args.connection }, connection =>
+    dumpDatabase(connection, resolveDumpFile(MYSQL_DUMP_DIR, file), mysql, {
+      ...options,
+      noData: !!args.noData,
+      overwrite: !!args.overwrite,
+      allowTable: (database, table) => !checkToolCall(policy, tool, { database, table }, { currentDatabase: database }),
+      onProgress: report && (progress => report(progress.totalRows, undefined, `${progress.table}: ${progress.tableRows} rows (${progress.tablesDone}/${progress.tableCount} tables done)`)),
+    })
+  );
+}
+
+// 工具: 导出表
+server.tool(
+  "dump_table",
+  "Dump a table's structure, data and triggers to a mysqldump-compatible SQL file in MYSQL_DUMP_DIR, e.g. as a snapshot before a risky change",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    table: z.string().describe("The table to dump"),
+    file: z.string().optional().describe("File name inside MYSQL_DUMP_DIR (default: <database>.<table>-<timestamp>.sql)"),
+    noData: z.boolean().optional().describe("Dump the structure only (default: false)"),
+    overwrite: z.boolean().optional().describe("Replace the file if it already exists (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database || getProfile(connectionConfig, args.connection || activeConnection).database || "";
+      const result = await runDump("dump_table", args, extra, args.file || defaultDumpName(database, args.table), {
+        database: args.database,
+        tables: [args.table],
+        includeViews: false,
+      });
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error dumping table: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 导出数据库
+server.tool(
+  "dump_database",
+  "Dump all (matching) tables and views of a database to a mysqldump-compatible SQL file in MYSQL_DUMP_DIR, reading a consistent snapshot",
+  {
+    database: z.string().optional().describe("The database name (optional, uses current database if not specified)"),
+    tables: z.array(z.string()).optional().describe("Only dump tables matching these patterns (* and ? wildcards)"),
+    exclude: z.array(z.string()).optional().describe("Skip tables matching these patterns"),
+    includeViews: z.boolean().optional().describe("Also dump views (default: true)"),
+    file: z.string().optional().describe("File name inside MYSQL_DUMP_DIR (default: <database>-<timestamp>.sql)"),
+    noData: z.boolean().optional().describe("Dump the structure only (default: false)"),
+    overwrite: z.boolean().optional().describe("Replace the file if it already exists (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database || getProfile(connectionConfig, args.connection || activeConnection).database || "";
+      const result = await runDump("dump_database", args, extra, args.file || defaultDumpName(database), {
+        database: args.database,
+        include: args.tables,
+        exclude: args.exclude,
+        includeViews: args.includeViews !== false,
+      });
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error dumping database: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 导入到其他数据库时切换连接的默认数据库，结束后销毁连接而不归还连接池
+async function withDatabaseConnection<T>(args: any, fn: (connection: mysql.PoolConnection) => Promise<T>): Promise<T> {
+  if (!args.database) {
+    return withConnection({ connection: args.connection }, fn);
+  }
+  const connection = await getPool(args.connection).getConnection();
+  try {
+    await connection.query(`USE ${mysql.escapeId(args.database)}`);
+    return await fn(connection);
+  } finally {
+    connection.destroy();
+  }
+}
+
+// 工具: 导入导出文件
+server.tool(
+  "restore_dump",
+  "Replay a SQL dump file from MYSQL_DUMP_DIR statement by statement (tables in the dump are dropped and recreated). Stops at the first failing statement",
+  {
+    file: z.string().describe("File name inside MYSQL_DUMP_DIR, as returned by dump_table or dump_database"),
+    database: z.string().optional().describe("The database to restore into (optional, uses current database if not specified)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+    dryRun: z.boolean().optional().describe("Return the statement counts and the tables that would be recreated without executing anything (default: false)"),
+    confirmationToken: z.string().optional().describe("Token returned by a previous call when confirmation is required"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const database = args.database || getProfile(connectionConfig, args.connection || activeConnection).database || "";
+      const check: StatementCheck = (sql, current) => checkToolCall(policy, "restore_dump", { sql }, { currentDatabase: current || null });
+      // 执行前先完整扫描一遍，有语句违反权限策略时什么都不执行
+      const plan = await scanDump(resolveDumpFile(MYSQL_DUMP_DIR, args.file), database, check);
+      
+      if (args.dryRun) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ dryRun: true, database, ...plan }, null, 2),
+            },
+          ],
+        };
+      }
+      
+      // 令牌绑定到扫描时的文件大小和修改时间
+      const confirmation = await confirmOperation("restore_dump", plan.operationClass, { ...args, bytes: plan.bytes, modifiedAt: plan.modifiedAt }, async () => ({ database, ...plan }));
+      if (confirmation) {
+        return confirmation;
+      }
+      
+      const report = progressReporter(extra);
+      const result = await withDatabaseConnection(args, connection =>
+        restoreDump(connection, plan, report && (progress => report(progress.bytesRead, progress.bytes, `${progress.statements} statements executed`)))
+      );
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        isError: result.failed ? true : undefined,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error restoring dump: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 查看审计日志
+server.tool(
+  "query_history",
+  "Review recent tool calls from the audit log, newest first: tool, arguments, executed SQL, target database, duration, affected rows and errors",
+  {
+    limit: z.number().int().positive().optional().describe("Maximum number of records to return (default: 20, max: 200)"),
+    tool: z.string().optional().describe("Only calls of this tool"),
+    outcome: z.enum(["ok", "error"]).optional().describe("Only successful or failed calls"),
+    since: z.string().optional().describe("Only calls at or after this ISO 8601 time"),
+    contains: z.string().optional().describe("Only calls whose executed SQL contains this text (case-insensitive)"),
+    currentSession: z.boolean().optional().describe("Only calls from the current MCP session (default: false)"),
+  },
+  async (args: any, extra: any) => {
+    try {
+      const records = await audit.history({
+        limit: Math.min(args.limit ?? 20, 200),
+        tool: args.tool,
+        outcome: args.outcome,
+        since: args.since,
+        contains: args.contains,
+        session: args.currentSession ? extra?.sessionId || "stdio" : undefined,
+      });
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ source: MYSQL_AUDIT_LOG || "memory", records }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error reading query history: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 工具: 锁等待和死锁诊断
+server.tool(
+  "lock_diagnostics",
+  "Report current InnoDB lock waits as blocker-to-waiter chains and the latest detected deadlock parsed from SHOW ENGINE INNODB STATUS",
+  {
+    includeDeadlock: z.boolean().optional().describe("Parse the LATEST DETECTED DEADLOCK section of SHOW ENGINE INNODB STATUS (needs the PROCESS privilege, default: true)"),
+    includeRaw: z.boolean().optional().describe("Also return the raw deadlock section text (default: false)"),
+    connection: z.string().optional().describe("Connection profile name (uses the active connection if not specified)"),
+  },
+  async (args: any) => {
+    try {
+      const report = await lockReport(getPool(args.connection), { includeDeadlock: args.includeDeadlock, includeRaw: args.includeRaw });
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error diagnosing locks: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// 读取表结构资源前按权限策略检查
+function checkResourceAccess(database: string, table?: string) {
+  const violation = checkSchemaAccess(policy, database, table);
+  if (violation) {
+    throw new Error(`Permission denied for role '${policy?.role}': ${violation}`);
+  }
+}
+
+// 权限策略允许的非系统库
+async function allowedDatabases(): Promise<DatabaseSummary[]> {
+  const databases = await listDatabases(getPool(), false);
+  return databases.filter(database => !checkSchemaAccess(policy, database.name));
+}
+
+// 权限策略允许的表；未指定数据库时包含所有允许的非系统库
+async function allowedTables(database?: string): Promise<TableSummary[]> {
+  const databases = database ? [database] : (await allowedDatabases()).map(item => item.name);
+  const tables = await listTables(getPool(), databases, MYSQL_RESOURCE_LIST_LIMIT);
+  return tables.filter(table => !checkSchemaAccess(policy, table.database, table.name));
+}
+
+function jsonResource(uri: URL, value: any) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+// 资源模板变量的补全
+const completeSchema = {
+  database: async (value: string) => (await allowedDatabases()).map(item => item.name).filter(name => name.startsWith(value)),
+  table: async (value: string, context?: { arguments?: Record<string, string> }) => {
+    const database = context?.arguments?.database || getProfile(connectionConfig, activeConnection).database;
+    if (!database) {
+      return [];
+    }
+    return (await allowedTables(database)).map(item => item.name).filter(name => name.startsWith(value));
+  },
+};
+
+// 资源: 数据库列表
+server.resource(
+  "databases",
+  DATABASES_URI,
+  {
+    description: "Databases on the active connection (system databases excluded)",
+    mimeType: "application/json",
+  },
+  async (uri: URL) => jsonResource(uri, await allowedDatabases())
+);
+
+// 资源: 数据库中的表
+server.resource(
+  "database_schema",
+  new ResourceTemplate(DATABASE_TEMPLATE, {
+    list: async () => ({
+      resources: (await allowedDatabases()).map(database => ({
+        uri: database.uri,
+        name: database.name,
+        description: `Tables and views in ${database.name}`,
+        mimeType: "application/json",
+      })),
+    }),
+    complete: { database: completeSchema.database },
+  }),
+  {
+    description: "Tables and views of a database with engine, estimated rows and comment",
+    mimeType: "application/json",
+  },
+  async (uri: URL, variables: any) => {
+    const database = decodeVariable(variables.database);
+    checkResourceAccess(database);
+    return jsonResource(uri, { database, tables: await allowedTables(database) });
+  }
+);
+
+// 资源: 表结构
+server.resource(
+  "table_schema",
+  new ResourceTemplate(TABLE_SCHEMA_TEMPLATE, {
+    list: async () => ({
+      resources: (await allowedTables()).map(table => ({
+        uri: table.uri,
+        name: `${table.database}.${table.name}`,
+        description: table.comment || table.type,
+        mimeType: "application/json",
+      })),
+    }),
+    complete: completeSchema,
+  }),
+  {
+    description: "Columns, indexes and foreign keys of a table",
+    mimeType: "application/json",
+  },
+  async (uri: URL, variables: any) => {
+    const database = decodeVariable(variables.database);
+    const table = decodeVariable(variables.table);
+    checkResourceAccess(database, table);
+    return jsonResource(uri, await describeTableSchema(getPool(), database, table));
+  }
+);
+
+// 资源: 建表语句
+server.resource(
+  "table_ddl",
+  new ResourceTemplate(TABLE_DDL_TEMPLATE, { list: undefined, complete: completeSchema }),
+  {
+    description: "CREATE TABLE (or CREATE VIEW) statement of a table",
+    mimeType: "application/sql",
+  },
+  async (uri: URL, variables: any) => {
+    const database = decodeVariable(variables.database);
+    const table = decodeVariable(variables.table);
+    checkResourceAccess(database, table);
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: "application/sql",
+          text: await showCreateTable(getPool(), database, table),
+        },
+      ],
+    };
+  }
+);
+
+// 关闭时回滚未完成的事务
+async function shutdown() {
+  cursors.closeAll();
+  await transactions.rollbackAll();
+  process.exit(0);
+}
+
+// 启动服务器
+async function main() {
+  const profile = getProfile(connectionConfig, activeConnection);
+  console.error(`Connecting to MySQL at ${profile.host}:${profile.port} (connection: ${activeConnection})...`);
+  
+  const connected = await testConnection();
+  if (!connected) {
+    console.error("Failed to connect to MySQL. Please check your configuration.");
+    process.exit(1);
+  }
+  
+  console.error(`Connected to MySQL database: ${profile.database}`);
+  if (policy) {
+    console.error(`Permission policy active (role: ${policy.role})`);
   }
-  
-  console.error(`Connected to MySQL database: ${MYSQL_DATABASE}`);
   
   const transport = new StdioServerTransport();
+  server.server.onclose = () => {
+    cursors.closeAll();
+    transactions.rollbackAll();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
   await server.connect(transport);
   
   console.error("MySQL MCP server running on stdio");
@@ -0,0 +1,319 @@
+// 用户和权限管理：生成 CREATE/ALTER/DROP USER、GRANT/REVOKE 和角色语句，按服务器的 SHOW PRIVILEGES 校验权限名和授权级别
+import { SqlEscaper } from "./ddl-builder.js";
+import { Queryable } from "./types.js";
+
+export interface Account {
+  user: string;
+  // 默认 '%'
+  host?: string | null;
+}
+
+export interface AuthOptions {
+  password?: string | null;
+  // 如 caching_sha2_password、mysql_native_password、auth_socket
+  authPlugin?: string | null;
+  // 要求下次登录时修改密码
+  expirePassword?: boolean;
+}
+
+// 不指定 database 为全局（*.*），只指定 database 为库级，再指定 table 为表级，columns 为列级
+export interface GrantTarget {
+  database?: string | null;
+  table?: string | null;
+  columns?: string[] | null;
+}
+
+export interface AccountDetails {
+  user: string;
+  host: string;
+  plugin: string | null;
+  locked: boolean | null;
+  passwordExpired: boolean | null;
+  passwordLastChanged: string | null;
+  // 授予该账号的角色（MySQL 8.0）
+  roles: string[];
+  defaultRoles: string[];
+  grants: string[];
+  notes: string[];
+}
+
+// 只能在列级授予的权限
+const COLUMN_PRIVILEGES = ["SELECT", "INSERT", "UPDATE", "REFERENCES"];
+// 只能全局授予的静态权限；8.0 的动态权限（名称带下划线，如 BACKUP_ADMIN）也只能全局授予
+const GLOBAL_PRIVILEGES = [
+  "CREATE USER", "CREATE ROLE", "DROP ROLE", "CREATE TABLESPACE", "FILE", "PROCESS", "RELOAD",
+  "REPLICATION CLIENT", "REPLICATION SLAVE", "SHOW DATABASES", "SHUTDOWN", "SUPER",
+];
+// 授予后可以接管服务器或其他账号的权限
+const SENSITIVE_PRIVILEGES = ["ALL", "SUPER", "GRANT OPTION", "CREATE USER", "FILE", "PROCESS", "SHUTDOWN", "RELOAD", "REPLICATION SLAVE", "CREATE ROLE", "DROP ROLE"];
+const PLUGIN_PATTERN = /^[A-Za-z0-9_]+$/;
+// 不需要密码的认证插件
+const PASSWORDLESS_PLUGINS = ["auth_socket", "unix_socket", "authentication_ldap_sasl", "authentication_kerberos", "authentication_windows"];
+
+// 语句中的密码字面量：IDENTIFIED [WITH plugin] BY|AS '...'、ALTER USER 的 REPLACE '...' 和 SET PASSWORD ... = '...'
+const PASSWORD_LITERALS = [
+  /(\bIDENTIFIED\s+(?:WITH\s+\w+\s+)?(?:BY|AS)\s+)('(?:[^'\\]|\\.|'')*'|"(?:[^"\\]|\\.|"")*")/gi,
+  /(\bREPLACE\s+)('(?:[^'\\]|\\.|'')*')/gi,
+  /(\bSET\s+PASSWORD\b[^=]*=\s*)('(?:[^'\\]|\\.|'')*'|"(?:[^"\\]|\\.|"")*")/gi,
+];
+
+/**
+ * 把语句中的密码替换为 '***'，用于审计日志和工具返回的语句
+ */
+export function redactPasswords(sql: string): string {
+  return PASSWORD_LITERALS.reduce((text, pattern) => text.replace(pattern, "$1'***'"), sql);
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function accountName(account: Account, escaper: SqlEscaper): string {
+  if (!account.user) {
+    throw new Error("User name is required");
+  }
+  return `${escaper.escape(account.user)}@${escaper.escape(account.host ?? "%")}`;
+}
+
+function authClause(options: AuthOptions, escaper: SqlEscaper): string {
+  if (options.authPlugin && !PLUGIN_PATTERN.test(options.authPlugin)) {
+    throw new Error(`Invalid authentication plugin '${options.authPlugin}'`);
+  }
+  const password = options.password !== undefined && options.password !== null ? ` BY ${escaper.escape(options.password)}` : "";
+  if (options.authPlugin) {
+    return ` IDENTIFIED WITH ${options.authPlugin}${password}`;
+  }
+  return password ? ` IDENTIFIED${password}` : "";
+}
+
+/**
+ * CREATE USER；除了不需要密码的认证插件，必须提供密码
+ */
+export function buildCreateUser(account: Account, options: AuthOptions & { locked?: boolean; ifNotExists?: boolean }, escaper: SqlEscaper): string {
+  if ((options.password === undefined || options.password === null) && !PASSWORDLESS_PLUGINS.includes(options.authPlugin || "")) {
+    throw new Error(`A password is required unless authPlugin is one of ${PASSWORDLESS_PLUGINS.join(", ")}`);
+  }
+  return `CREATE USER ${options.ifNotExists ? "IF NOT EXISTS " : ""}${accountName(account, escaper)}${authClause(options, escaper)}`
+    + `${options.expirePassword ? " PASSWORD EXPIRE" : ""}${options.locked ? " ACCOUNT LOCK" : ""}`;
+}
+
+export function buildAlterUser(account: Account, options: AuthOptions, escaper: SqlEscaper): string {
+  const auth = authClause(options, escaper);
+  if (!auth && !options.expirePassword) {
+    throw new Error("Nothing to change: specify password, authPlugin or expirePassword");
+  }
+  return `ALTER USER ${accountName(account, escaper)}${auth}${options.expirePassword ? " PASSWORD EXPIRE" : ""}`;
+}
+
+export function buildDropUser(account: Account, ifExists: boolean, escaper: SqlEscaper): string {
+  return `DROP USER ${ifExists ? "IF EXISTS " : ""}${accountName(account, escaper)}`;
+}
+
+export function buildAccountLock(account: Account, locked: boolean, escaper: SqlEscaper): string {
+  return `ALTER USER ${accountName(account, escaper)} ACCOUNT ${locked ? "LOCK" : "UNLOCK"}`;
+}
+
+/**
+ * 服务器支持的权限名（大写），8.0 包含动态权限
+ */
+export async function loadPrivileges(connection: Queryable): Promise<Set<string>> {
+  const [rows] = await connection.query("SHOW PRIVILEGES");
+  return new Set((rows as any[]).map(row => String(row.Privilege).toUpperCase()));
+}
+
+function normalizePrivilege(name: string): string {
+  const privilege = name.trim().replace(/\s+/g, " ").toUpperCase();
+  return privilege === "ALL PRIVILEGES" ? "ALL" : privilege;
+}
+
+/**
+ * 校验权限名和授权级别，返回规范化（大写、ALL PRIVILEGES 写作 ALL）的权限列表
+ */
+export function validatePrivileges(privileges: string[], target: GrantTarget, available: Set<string>): string[] {
+  if (privileges.length === 0) {
+    throw new Error("At least one privilege is required");
+  }
+  const level = grantLevelName(target);
+  const normalized = [...new Set(privileges.map(normalizePrivilege))];
+  for (const privilege of normalized) {
+    if (privilege === "PROXY") {
+      throw new Error("PROXY privileges use a different GRANT syntax; run GRANT PROXY with write_query");
+    }
+    if (privilege !== "ALL" && !available.has(privilege)) {
+      throw new Error(`Unknown privilege '${privilege}'. Run SHOW PRIVILEGES to list the privileges this server supports`);
+    }
+    if (level === "column" && !COLUMN_PRIVILEGES.includes(privilege)) {
+      throw new Error(`${privilege} cannot be granted on columns; column privileges are ${COLUMN_PRIVILEGES.join(", ")}`);
+    }
+    if (level !== "global" && (GLOBAL_PRIVILEGES.includes(privilege) || privilege.includes("_"))) {
+      throw new Error(`${privilege} is a global privilege; grant it without database`);
+    }
+  }
+  return normalized;
+}
+
+export function grantLevelName(target: GrantTarget): "global" | "database" | "table" | "column" {
+  if (target.columns && target.columns.length > 0) {
+    if (!target.database || !target.table) {
+      throw new Error("Column privileges need database and table");
+    }
+    return "column";
+  }
+  if (target.table) {
+    if (!target.database) {
+      throw new Error("Table privileges need database");
+    }
+    return "table";
+  }
+  return target.database ? "database" : "global";
+}
+
+function grantObject(target: GrantTarget, escaper: SqlEscaper): string {
+  if (!target.database) {
+    return "*.*";
+  }
+  return `${escaper.escapeId(target.database)}.${target.table ? escaper.escapeId(target.table) : "*"}`;
+}
+
+function privilegeList(privileges: string[], target: GrantTarget, escaper: SqlEscaper): string {
+  const columns = target.columns && target.columns.length > 0 ? ` (${target.columns.map(column => escaper.escapeId(column)).join(", ")})` : "";
+  return privileges.map(privilege => `${privilege === "ALL" ? "ALL PRIVILEGES" : privilege}${columns}`).join(", ");
+}
+
+export function buildGrant(account: Account, privileges: string[], target: GrantTarget, withGrantOption: boolean, escaper: SqlEscaper): string {
+  return `GRANT ${privilegeList(privileges, target, escaper)} ON ${grantObject(target, escaper)} TO ${accountName(account, escaper)}${withGrantOption ? " WITH GRANT OPTION" : ""}`;
+}
+
+export function buildRevoke(account: Account, privileges: string[], target: GrantTarget, escaper: SqlEscaper): string {
+  return `REVOKE ${privilegeList(privileges, target, escaper)} ON ${grantObject(target, escaper)} FROM ${accountName(account, escaper)}`;
+}
+
+/**
+ * 授权中可能导致权限提升的部分，在确认摘要中列出
+ */
+export function escalationRisks(privileges: string[], target: GrantTarget, withGrantOption: boolean): string[] {
+  const risks: string[] = [];
+  const level = grantLevelName(target);
+  if (level === "global") {
+    risks.push("Global privileges apply to every database, including the mysql system schema");
+  } else if (target.database?.toLowerCase() === "mysql") {
+    risks.push("Privileges on the mysql system schema allow reading or changing accounts and grants directly");
+  }
+  for (const privilege of privileges) {
+    if (SENSITIVE_PRIVILEGES.includes(privilege) || privilege.endsWith("_ADMIN")) {
+      risks.push(`${privilege} is an administrative privilege`);
+    }
+  }
+  if (withGrantOption) {
+    risks.push("WITH GRANT OPTION lets the account pass these privileges on to other accounts");
+  }
+  return risks;
+}
+
+function roleList(roles: string[], escaper: SqlEscaper): string {
+  if (roles.length === 0) {
+    throw new Error("At least one role is required");
+  }
+  return roles.map(role => accountName({ user: role }, escaper)).join(", ");
+}
+
+export function buildCreateRole(roles: string[], ifNotExists: boolean, escaper: SqlEscaper): string {
+  return `CREATE ROLE ${ifNotExists ? "IF NOT EXISTS " : ""}${roleList(roles, escaper)}`;
+}
+
+export function buildDropRole(roles: string[], ifExists: boolean, escaper: SqlEscaper): string {
+  return `DROP ROLE ${ifExists ? "IF EXISTS " : ""}${roleList(roles, escaper)}`;
+}
+
+export function buildGrantRole(roles: string[], account: Account, withAdminOption: boolean, escaper: SqlEscaper): string {
+  return `GRANT ${roleList(roles, escaper)} TO ${accountName(account, escaper)}${withAdminOption ? " WITH ADMIN OPTION" : ""}`;
+}
+
+export function buildRevokeRole(roles: string[], account: Account, escaper: SqlEscaper): string {
+  return `REVOKE ${roleList(roles, escaper)} FROM ${accountName(account, escaper)}`;
+}
+
+export function buildDefaultRoles(roles: string[], account: Account, escaper: SqlEscaper): string {
+  return `SET DEFAULT ROLE ${roles.length > 0 ? roleList(roles, escaper) : "NONE"} TO ${accountName(account, escaper)}`;
+}
+
+/**
+ * 角色语句需要 MySQL 8.0；MariaDB 的角色语法不同，不支持
+ */
+export async function assertRolesSupported(connection: Queryable): Promise<void> {
+  const [rows] = await connection.query("SELECT VERSION() AS version");
+  const version = String((rows as any[])[0]?.version || "");
+  if (/mariadb/i.test(version) || parseInt(version) < 8) {
+    throw new Error(`Roles need MySQL 8.0 or later (server version ${version})`);
+  }
+}
+
+/**
+ * 当前连接使用的账号，格式与 accountName 相同
+ */
+export async function currentAccount(connection: Queryable, escaper: SqlEscaper): Promise<string> {
+  const [rows] = await connection.query("SELECT CURRENT_USER() AS account");
+  const account = String((rows as any[])[0]?.account || "");
+  const at = account.lastIndexOf("@");
+  return accountName({ user: account.slice(0, at), host: account.slice(at + 1) }, escaper);
+}
+
+/**
+ * 账号的认证信息、角色和 SHOW GRANTS；expandRoles 时用 SHOW GRANTS ... USING 展开已授予角色的权限。
+ * mysql.user / mysql.role_edges 不可读（权限不足或 MariaDB）时对应字段为 null 并在 notes 中说明
+ */
+export async function describeAccount(connection: Queryable, account: Account, expandRoles: boolean, escaper: SqlEscaper): Promise<AccountDetails> {
+  const host = account.host ?? "%";
+  const details: AccountDetails = {
+    user: account.user,
+    host,
+    plugin: null,
+    locked: null,
+    passwordExpired: null,
+    passwordLastChanged: null,
+    roles: [],
+    defaultRoles: [],
+    grants: [],
+    notes: [],
+  };
+  try {
+    const [rows] = await connection.query(
+      "SELECT plugin, account_locked, password_expired, password_last_changed FROM mysql.user WHERE user = ? AND host = ?",
+      [account.user, host]
+    );
+    const row = (rows as any[])[0];
+    if (row) {
+      details.plugin = row.plugin ?? null;
+      details.locked = row.account_locked === "Y";
+      details.passwordExpired = row.password_expired === "Y";
+      details.passwordLastChanged = row.password_last_changed === null || row.password_last_changed === undefined ? null : String(row.password_last_changed);
+    }
+  } catch (error) {
+    details.notes.push(`mysql.user is not readable: ${errorText(error)}`);
+  }
+  try {
+    const [edges] = await connection.query(
+      "SELECT FROM_USER AS user, FROM_HOST AS host FROM mysql.role_edges WHERE TO_USER = ? AND TO_HOST = ? ORDER BY FROM_USER",
+      [account.user, host]
+    );
+    details.roles = (edges as any[]).map(role => `${role.user}@${role.host}`);
+    const [defaults] = await connection.query(
+      "SELECT DEFAULT_ROLE_USER AS user, DEFAULT_ROLE_HOST AS host FROM mysql.default_roles WHERE USER = ? AND HOST = ? ORDER BY DEFAULT_ROLE_USER",
+      [account.user, host]
+    );
+    details.defaultRoles = (defaults as any[]).map(role => `${role.user}@${role.host}`);
+  } catch (error) {
+    details.notes.push(`Role information is not available: ${errorText(error)}`);
+  }
+
+  let sql = `SHOW GRANTS FOR ${accountName(account, escaper)}`;
+  if (expandRoles && details.roles.length > 0) {
+    sql += ` USING ${details.roles.map(role => {
+      const at = role.lastIndexOf("@");
+      return accountName({ user: role.slice(0, at), host: role.slice(at + 1) }, escaper);
+    }).join(", ")}`;
+  }
+  const [grants] = await connection.query(sql);
+  details.grants = (grants as any[]).map(row => String(Object.values(row)[0]));
+  return details;
+}
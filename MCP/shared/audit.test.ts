@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AuditLog } from "./audit.js";
+import { SqlEscaper } from "./ddl-builder.js";
+import { ToolRegistry } from "./policy.js";
+import { Queryable } from "./types.js";
+
+const escaper: SqlEscaper = {
+  escape: value => (typeof value === "string" ? `'${value.replace(/[\\']/g, "\\$&")}'` : String(value)),
+  escapeId: value => `\`${value.replace(/`/g, "``")}\``,
+};
+
+// 记录注册的处理函数，模拟 McpServer.tool
+function fakeServer(): ToolRegistry & { handlers: Record<string, (args: any, extra: any) => Promise<any>> } {
+  const handlers: Record<string, (args: any, extra: any) => Promise<any>> = {};
+  return {
+    handlers,
+    tool(name: string, ...rest: any[]) {
+      handlers[name] = rest[rest.length - 1];
+    },
+  };
+}
+
+test("passwords in SQL arguments, statements and errors are not recorded", async () => {
+  const log = new AuditLog({ file: null, table: null, escaper, memorySize: 10 });
+  const pool: Queryable = log.wrapPool({
+    async query(sql: string): Promise<[any, any]> {
+      if (sql.includes("SET PASSWORD")) {
+        throw new Error("You have an error in your SQL syntax; check the manual near 'SET PASSWORD = 'hunter3' x' at line 1");
+      }
+      return [{ affectedRows: 0 }, []];
+    },
+  });
+  const server = fakeServer();
+  log.instrument(server, () => ({ connection: "default", database: "app", session: "stdio", client: null }));
+  server.tool("write_query", async (args: any) => {
+    try {
+      await pool.query(args.sql);
+      return { content: [{ type: "text", text: "ok" }] };
+    } catch (error: any) {
+      return { content: [{ type: "text", text: `Error: ${error.message}` }], isError: true };
+    }
+  });
+
+  await server.handlers.write_query({ sql: "ALTER USER 'app'@'%' IDENTIFIED BY 'hunter2'", params: ["x"] }, {});
+  await server.handlers.write_query({ sql: "SET PASSWORD = 'hunter3' x", password: "hunter4" }, {});
+
+  const [failed, altered] = await log.history({ limit: 10 });
+  assert.equal(altered.args.sql, "ALTER USER 'app'@'%' IDENTIFIED BY '***'");
+  assert.deepEqual(altered.args.params, ["x"]);
+  assert.equal(altered.statements[0].sql, "ALTER USER 'app'@'%' IDENTIFIED BY '***'");
+  assert.equal(failed.args.password, "***");
+  assert.equal(failed.outcome, "error");
+  assert.doesNotMatch(JSON.stringify([failed, altered]), /hunter/);
+});
@@ -0,0 +1,412 @@
+// 审计日志：记录每次工具调用实际执行的语句、目标数据库、耗时、影响行数和结果，
+// 追加写入 JSONL 文件和（可选的）审计表，并保留最近的记录供 query_history 查询
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFile, open } from "node:fs/promises";
+import { ToolRegistry } from "./policy.js";
+import { SqlEscaper } from "./ddl-builder.js";
+import { Queryable } from "./types.js";
+import { redactPasswords } from "./accounts.js";
+
+export const AUDIT_TABLE = "mcp_audit_log";
+
+// 每条记录最多保留的语句数和每个字符串值的长度，避免 restore_dump 等工具写出巨大的记录
+const MAX_STATEMENTS = 100;
+const MAX_TEXT = 4000;
+// query_history 从日志文件末尾最多读取的字节数
+const HISTORY_READ_BYTES = 8 * 1024 * 1024;
+// 参数中这些键的值不写入日志，语句中的密码由 redactPasswords 去掉
+const SENSITIVE_KEY = /password|secret|token/i;
+
+export interface AuditStatement {
+  sql: string;
+  values?: any;
+  // 流式读取时为读完结果集的时间
+  durationMs: number | null;
+  affectedRows?: number;
+  rows?: number;
+  error?: string;
+}
+
+// 工具调用时可以确定的上下文
+export interface AuditContext {
+  connection: string | null;
+  database: string | null;
+  session: string;
+  // 客户端名称和版本，如 claude-desktop/1.0.0
+  client: string | null;
+}
+
+export interface AuditRecord extends AuditContext {
+  time: string;
+  tool: string;
+  args: Record<string, any>;
+  statements: AuditStatement[];
+  // 超出 MAX_STATEMENTS 时只保留前面的语句，这里是实际执行的数量
+  statementCount: number;
+  durationMs: number;
+  affectedRows: number | null;
+  outcome: "ok" | "error";
+  error?: string;
+}
+
+export interface AuditOptions {
+  // JSONL 文件路径，为空时不写文件
+  file: string | null;
+  // 审计表所在的数据库和写入用的连接，为空时不写表
+  table: { connection: Queryable; database: string } | null;
+  escaper: SqlEscaper;
+  // 内存中保留的记录数，未配置文件时 query_history 从这里读取
+  memorySize: number;
+}
+
+export interface HistoryFilter {
+  limit: number;
+  tool?: string;
+  session?: string;
+  outcome?: "ok" | "error";
+  // ISO 时间，只返回之后的记录
+  since?: string;
+  // SQL 中包含的文本（不区分大小写）
+  contains?: string;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT ? `${text.slice(0, MAX_TEXT)}... (${text.length} chars)` : text;
+}
+
+// 去掉敏感参数和字符串中的密码字面量（如 write_query 的 ALTER USER ... IDENTIFIED BY），并截断长字符串
+function sanitize(value: any, key = ""): any {
+  if (SENSITIVE_KEY.test(key) && value !== undefined && value !== null) {
+    return "***";
+  }
+  if (typeof value === "string") {
+    return truncate(redactPasswords(value));
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => sanitize(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, sanitize(item, name)]));
+  }
+  return value;
+}
+
+function sqlText(sql: any): string {
+  return typeof sql === "string" ? sql : String(sql?.sql ?? "");
+}
+
+// SELECT 返回行数组，写语句返回 ResultSetHeader
+function applyResult(statement: AuditStatement, result: any) {
+  if (Array.isArray(result)) {
+    statement.rows = result.length;
+  } else if (result && typeof result.affectedRows === "number") {
+    statement.affectedRows = result.affectedRows;
+  }
+}
+
+function matches(record: AuditRecord, filter: HistoryFilter): boolean {
+  if (filter.tool && record.tool !== filter.tool) {
+    return false;
+  }
+  if (filter.session && record.session !== filter.session) {
+    return false;
+  }
+  if (filter.outcome && record.outcome !== filter.outcome) {
+    return false;
+  }
+  if (filter.since && record.time < new Date(filter.since).toISOString()) {
+    return false;
+  }
+  if (filter.contains) {
+    const needle = filter.contains.toLowerCase();
+    return record.statements.some(statement => statement.sql.toLowerCase().includes(needle));
+  }
+  return true;
+}
+
+export class AuditLog {
+  private storage = new AsyncLocalStorage<AuditStatement[]>();
+  private memory: AuditRecord[] = [];
+  // 按顺序写入，写入失败不影响工具调用
+  private queue: Promise<void> = Promise.resolve();
+  private tableReady: Promise<unknown> | null = null;
+  private streaming = new WeakMap<object, object>();
+
+  constructor(private options: AuditOptions) {}
+
+  // 当前工具调用中执行的语句记录到上下文；不在工具调用中（如审计表写入、空闲事务回滚）时不记录
+  private begin(sql: any, values?: any): AuditStatement | null {
+    const statements = this.storage.getStore();
+    if (!statements) {
+      return null;
+    }
+    const statement: AuditStatement = { sql: truncate(redactPasswords(sqlText(sql))), durationMs: null };
+    if (values !== undefined && typeof values !== "function") {
+      statement.values = sanitize(values);
+    }
+    statements.push(statement);
+    return statement;
+  }
+
+  private async track(sql: any, values: any, run: () => Promise<any>): Promise<any> {
+    const statement = this.begin(sql, values);
+    const started = Date.now();
+    try {
+      const result = await run();
+      if (statement) {
+        statement.durationMs = Date.now() - started;
+        applyResult(statement, result?.[0]);
+      }
+      return result;
+    } catch (error) {
+      if (statement) {
+        statement.durationMs = Date.now() - started;
+        // 语法错误的消息会带出出错位置附近的语句
+        statement.error = redactPasswords(error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+  }
+
+  // 包装 query/execute；其余方法绑定到原对象
+  private wrap<T extends object>(target: T, extra: (name: string | symbol) => any): T {
+    return new Proxy(target, {
+      get: (object, name) => {
+        const replaced = extra(name);
+        if (replaced !== undefined) {
+          return replaced;
+        }
+        const value = Reflect.get(object, name, object);
+        if (typeof value !== "function") {
+          return value;
+        }
+        if (name === "query" || name === "execute") {
+          return (sql: any, values?: any) => this.track(sql, values, () => value.call(object, sql, values));
+        }
+        return value.bind(object);
+      },
+    });
+  }
+
+  // 回调风格连接（流式读取）：query() 返回事件对象，读完结果集时补上耗时和行数
+  private wrapStreaming(target: any) {
+    let wrapped = this.streaming.get(target);
+    if (!wrapped) {
+      wrapped = new Proxy(target, {
+        get: (object, name) => {
+          const value = Reflect.get(object, name, object);
+          if (typeof value !== "function") {
+            return value;
+          }
+          if (name === "query" || name === "execute") {
+            return (sql: any, values?: any) => {
+              const statement = this.begin(sql, values);
+              const command = value.call(object, sql, values);
+              if (statement && typeof command?.on === "function") {
+                const started = Date.now();
+                let rows = 0;
+                command.on("result", () => rows++);
+                command.on("end", () => {
+                  statement.durationMs = Date.now() - started;
+                  statement.rows = rows;
+                });
+                command.on("error", (error: Error) => {
+                  statement.error = redactPasswords(error.message);
+                });
+              }
+              return command;
+            };
+          }
+          return value.bind(object);
+        },
+      });
+      this.streaming.set(target, wrapped);
+    }
+    return wrapped;
+  }
+
+  /**
+   * 包装 mysql2 promise 连接池：通过它（及其取出的连接）执行的语句都会记录到当前工具调用的审计记录中
+   */
+  wrapPool<T extends object>(pool: T): T {
+    return this.wrap(pool, name => {
+      if (name !== "getConnection") {
+        return undefined;
+      }
+      return async () => {
+        const connection = await (pool as any).getConnection();
+        return this.wrap(connection, property => (property === "connection" ? this.wrapStreaming(connection.connection) : undefined));
+      };
+    });
+  }
+
+  /**
+   * 在注册工具时统一套用审计：每次调用结束后写一条记录。应在 enforcePolicy 之前调用，
+   * 这样被权限策略拒绝的调用也会被记录。skip 中的工具不记录。
+   */
+  instrument(server: ToolRegistry, resolveContext: (args: any, extra: any) => AuditContext, skip: string[] = []): void {
+    const register = server.tool.bind(server);
+    server.tool = (name: string, ...rest: any[]) => {
+      if (!skip.includes(name)) {
+        const handler = rest[rest.length - 1];
+        rest[rest.length - 1] = async (args: any, extra: any) => {
+          const statements: AuditStatement[] = [];
+          const started = Date.now();
+          let result: any;
+          let thrown: unknown = null;
+          try {
+            result = await this.storage.run(statements, () => handler(args, extra));
+            return result;
+          } catch (error) {
+            thrown = error;
+            throw error;
+          } finally {
+            let context: AuditContext;
+            try {
+              context = resolveContext(args, extra);
+            } catch {
+              context = { connection: null, database: null, session: extra?.sessionId || "stdio", client: null };
+            }
+            const errorText = thrown
+              ? thrown instanceof Error ? thrown.message : String(thrown)
+              : result?.isError ? result.content?.map((item: any) => item.text).filter(Boolean).join("\n") : undefined;
+            const affected = statements.filter(statement => statement.affectedRows !== undefined);
+            this.write({
+              time: new Date(started).toISOString(),
+              tool: name,
+              ...context,
+              args: sanitize(args || {}),
+              statements: statements.slice(0, MAX_STATEMENTS),
+              statementCount: statements.length,
+              durationMs: Date.now() - started,
+              affectedRows: affected.length > 0 ? affected.reduce((sum, statement) => sum + (statement.affectedRows as number), 0) : null,
+              outcome: errorText === undefined ? "ok" : "error",
+              error: errorText === undefined ? undefined : truncate(redactPasswords(errorText)),
+            });
+          }
+        };
+      }
+      return register(name, ...rest);
+    };
+  }
+
+  private ensureTable(table: { connection: Queryable; database: string }) {
+    if (!this.tableReady) {
+      this.tableReady = table.connection.query(
+        `CREATE TABLE IF NOT EXISTS ${this.options.escaper.escapeId(table.database)}.${AUDIT_TABLE} (
+           id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+           created_at DATETIME(3) NOT NULL,
+           tool VARCHAR(64) NOT NULL,
+           session VARCHAR(128) NOT NULL,
+           client VARCHAR(255) NULL,
+           connection_name VARCHAR(64) NULL,
+           database_name VARCHAR(64) NULL,
+           duration_ms INT UNSIGNED NOT NULL,
+           affected_rows BIGINT UNSIGNED NULL,
+           outcome VARCHAR(8) NOT NULL,
+           error TEXT NULL,
+           args JSON NOT NULL,
+           statements JSON NOT NULL,
+           KEY idx_created_at (created_at),
+           KEY idx_tool (tool, created_at)
+         ) ENGINE=InnoDB`
+      );
+      // 建表失败时下次写入重试
+      this.tableReady.catch(() => {
+        this.tableReady = null;
+      });
+    }
+    return this.tableReady;
+  }
+
+  private async persist(record: AuditRecord) {
+    const { file, table } = this.options;
+    if (file) {
+      await appendFile(file, `${JSON.stringify(record)}\n`, "utf8");
+    }
+    if (table) {
+      await this.ensureTable(table);
+      await table.connection.query(
+        `INSERT INTO ${this.options.escaper.escapeId(table.database)}.${AUDIT_TABLE}
+           (created_at, tool, session, client, connection_name, database_name, duration_ms, affected_rows, outcome, error, args, statements)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          record.time.replace("T", " ").replace("Z", ""),
+          record.tool,
+          record.session,
+          record.client,
+          record.connection,
+          record.database,
+          record.durationMs,
+          record.affectedRows,
+          record.outcome,
+          record.error ?? null,
+          JSON.stringify(record.args),
+          JSON.stringify(record.statements),
+        ]
+      );
+    }
+  }
+
+  /**
+   * 追加一条记录。写入在后台按顺序进行，失败时输出到 stderr，不影响工具调用的结果
+   */
+  write(record: AuditRecord) {
+    this.memory.push(record);
+    if (this.memory.length > this.options.memorySize) {
+      this.memory.shift();
+    }
+    // 在工具调用的上下文之外写入，审计表的 INSERT 不会记录到这条记录中
+    this.storage.exit(() => {
+      this.queue = this.queue
+        .then(() => this.persist(record))
+        .catch(error => console.error("Failed to write audit log:", error));
+    });
+  }
+
+  // 日志文件末尾的记录，跳过读取范围内不完整的第一行和无法解析的行
+  private async readFileTail(file: string): Promise<AuditRecord[]> {
+    const handle = await open(file, "r").catch(() => null);
+    if (!handle) {
+      return [];
+    }
+    try {
+      const { size } = await handle.stat();
+      const start = Math.max(0, size - HISTORY_READ_BYTES);
+      const buffer = Buffer.alloc(size - start);
+      await handle.read(buffer, 0, buffer.length, start);
+      const lines = buffer.toString("utf8").split("\n");
+      if (start > 0) {
+        lines.shift();
+      }
+      const records: AuditRecord[] = [];
+      for (const line of lines) {
+        if (line.trim()) {
+          try {
+            records.push(JSON.parse(line));
+          } catch {
+            // 写入中断的行
+          }
+        }
+      }
+      return records;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * 最近的记录，最新的在前。配置了日志文件时从文件读取（包含之前的进程写入的记录），否则从内存读取
+   */
+  async history(filter: HistoryFilter): Promise<AuditRecord[]> {
+    await this.queue;
+    const records = this.options.file ? await this.readFileTail(this.options.file) : this.memory;
+    const result: AuditRecord[] = [];
+    for (let i = records.length - 1; i >= 0 && result.length < filter.limit; i--) {
+      if (matches(records[i], filter)) {
+        result.push(records[i]);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ConfirmationManager, classifyStatement, parseConfirmClasses, strongestClass } from "./confirmation.js";
+
+test("classifyStatement picks the confirmation class of write_query SQL", () => {
+  const cases: [string, string | null][] = [
+    ["DROP TABLE users", "drop"],
+    ["TRUNCATE TABLE users", "drop"],
+    ["ALTER TABLE users ADD COLUMN age INT", "ddl"],
+    ["CREATE INDEX idx_name ON users (name)", "ddl"],
+    ["RENAME TABLE a TO b", "ddl"],
+    ["CREATE USER 'app'@'%' IDENTIFIED BY 'secret'", "privilege"],
+    ["ALTER USER 'app'@'%' IDENTIFIED BY 'secret'", "privilege"],
+    ["SET PASSWORD FOR 'app'@'%' = 'secret'", "privilege"],
+    ["GRANT SELECT ON app.* TO 'app'@'%'", "privilege"],
+    ["DELETE FROM users", "unbounded_write"],
+    ["UPDATE users SET active = 0", "unbounded_write"],
+    ["DELETE FROM users WHERE id = 1", null],
+    ["INSERT INTO users (name) VALUES ('x')", null],
+    ["SET @a = 1", null],
+  ];
+  for (const [sql, expected] of cases) {
+    assert.equal(classifyStatement(sql), expected, sql);
+  }
+  assert.equal(strongestClass([null, "unbounded_write", "drop"]), "drop");
+  assert.equal(strongestClass([null]), null);
+});
+
+test("parseConfirmClasses accepts class lists, all and none", () => {
+  assert.deepEqual([...parseConfirmClasses("drop, DDL")], ["drop", "ddl"]);
+  assert.deepEqual([...parseConfirmClasses("all")], ["drop", "ddl", "unbounded_write", "privilege"]);
+  assert.deepEqual([...parseConfirmClasses("none")], []);
+  assert.throws(() => parseConfirmClasses("drop,delete"), /Unknown confirmation class 'delete'/);
+});
+
+test("tokens are single use and bound to the operation and arguments", () => {
+  const manager = new ConfirmationManager(parseConfirmClasses("all"), 60_000);
+  const args = { user: "app", host: "%", password: "secret" };
+
+  const { token } = manager.issue("create_user", args);
+  assert.doesNotThrow(() => manager.consume(token, "create_user", { host: "%", password: "secret", user: "app", confirmationToken: token }));
+  assert.throws(() => manager.consume(token, "create_user", args), /Unknown or already used/);
+
+  const changed = manager.issue("create_user", args).token;
+  assert.throws(() => manager.consume(changed, "create_user", { ...args, password: "other" }), /different arguments/);
+  const otherTool = manager.issue("create_user", args).token;
+  assert.throws(() => manager.consume(otherTool, "alter_user", args), /issued for create_user with different arguments/);
+
+  const expired = new ConfirmationManager(parseConfirmClasses("all"), -1);
+  const stale = expired.issue("drop_table", { table: "users" }).token;
+  assert.throws(() => expired.consume(stale, "drop_table", { table: "users" }), /expired/);
+});
+
+test("pending tokens keep only a hash of the arguments", () => {
+  const manager = new ConfirmationManager(parseConfirmClasses("all"), 60_000);
+  manager.issue("create_user", { user: "app", host: "%", password: "s3cret-password" });
+  const entries = [...(manager as any).pending.values()];
+  assert.equal(entries.length, 1);
+  assert.match(entries[0].fingerprint, /^[0-9a-f]{64}$/);
+  assert.doesNotMatch(JSON.stringify(entries), /s3cret-password/);
+});
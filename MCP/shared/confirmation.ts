@@ -0,0 +1,133 @@
+// 两阶段确认：危险操作第一次调用只返回摘要和短期令牌，带上令牌再次调用才执行
+import { createHash, randomBytes } from "node:crypto";
+import { analyzeStatement, splitStatements, tokenize } from "./sql-classifier.js";
+
+// drop: DROP / TRUNCATE；ddl: 其他 CREATE / ALTER / RENAME；unbounded_write: 没有 WHERE 的 UPDATE / DELETE；
+// privilege: 可能提升权限的 GRANT、CREATE / ALTER USER、SET PASSWORD 和解锁账号
+export type OperationClass = "drop" | "ddl" | "unbounded_write" | "privilege";
+
+export const OPERATION_CLASSES: OperationClass[] = ["drop", "ddl", "unbounded_write", "privilege"];
+
+export const DEFAULT_CONFIRM_CLASSES = "drop,unbounded_write,privilege";
+
+export interface PendingConfirmation {
+  token: string;
+  expiresAt: Date;
+}
+
+interface ConfirmationEntry {
+  operation: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+/**
+ * 解析 MYSQL_CONFIRM：逗号分隔的操作类别，"all" 表示全部，"none" 表示关闭确认
+ */
+export function parseConfirmClasses(value: string): Set<OperationClass> {
+  const classes = new Set<OperationClass>();
+  for (const item of value.split(",").map(item => item.trim().toLowerCase()).filter(Boolean)) {
+    if (item === "none") {
+      continue;
+    }
+    if (item === "all") {
+      OPERATION_CLASSES.forEach(operationClass => classes.add(operationClass));
+    } else if ((OPERATION_CLASSES as string[]).includes(item)) {
+      classes.add(item as OperationClass);
+    } else {
+      throw new Error(`Unknown confirmation class '${item}' in MYSQL_CONFIRM. Use ${OPERATION_CLASSES.join(", ")}, all or none`);
+    }
+  }
+  return classes;
+}
+
+/**
+ * 判断 write_query 的 SQL 属于哪类需要确认的操作，不需要确认时返回 null
+ */
+export function classifyStatement(sql: string): OperationClass | null {
+  const analysis = analyzeStatement(sql);
+  // CREATE USER、ALTER USER、SET PASSWORD 按第二个关键字区分
+  const second = (splitStatements(tokenize(sql))[0] || [])[1];
+  const object = second && second.type === "word" ? second.value : null;
+  switch (analysis.verb) {
+    case "DROP":
+    case "TRUNCATE":
+      return "drop";
+    case "GRANT":
+      return "privilege";
+    case "SET":
+      return object === "PASSWORD" ? "privilege" : null;
+    case "CREATE":
+    case "ALTER":
+      return object === "USER" ? "privilege" : "ddl";
+    case "RENAME":
+      return "ddl";
+    case "UPDATE":
+    case "DELETE":
+      return analysis.hasWhere ? null : "unbounded_write";
+    default:
+      return null;
+  }
+}
+
+/**
+ * 多条语句（如迁移或导入文件）中最需要确认的类别，按 OPERATION_CLASSES 的顺序
+ */
+export function strongestClass(classes: (OperationClass | null)[]): OperationClass | null {
+  return OPERATION_CLASSES.find(operationClass => classes.includes(operationClass)) ?? null;
+}
+
+// 令牌绑定到操作名和全部参数（不含令牌本身），参数变化后令牌失效；只保存哈希，参数中的密码不留在内存中
+function fingerprintOf(operation: string, args: Record<string, any>): string {
+  const keys = Object.keys(args).filter(key => key !== "confirmationToken" && args[key] !== undefined).sort();
+  return createHash("sha256").update(JSON.stringify([operation, keys.map(key => [key, args[key]])])).digest("hex");
+}
+
+export class ConfirmationManager {
+  private pending = new Map<string, ConfirmationEntry>();
+
+  constructor(private classes: Set<OperationClass>, private ttlMs: number) {}
+
+  requires(operationClass: OperationClass | null): boolean {
+    return operationClass !== null && this.classes.has(operationClass);
+  }
+
+  enabledClasses(): OperationClass[] {
+    return OPERATION_CLASSES.filter(operationClass => this.classes.has(operationClass));
+  }
+
+  issue(operation: string, args: Record<string, any>): PendingConfirmation {
+    this.purge();
+    const token = `cf_${randomBytes(6).toString("hex")}`;
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(token, { operation, fingerprint: fingerprintOf(operation, args), expiresAt });
+    return { token, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * 校验并作废令牌；令牌不存在、过期或与参数不匹配时抛出错误
+   */
+  consume(token: string, operation: string, args: Record<string, any>): void {
+    const entry = this.pending.get(token);
+    // 令牌只能使用一次，校验失败也作废
+    this.pending.delete(token);
+    if (!entry) {
+      throw new Error(`Unknown or already used confirmation token '${token}'. Call ${operation} without confirmationToken to get a new one`);
+    }
+    if (entry.expiresAt < Date.now()) {
+      throw new Error(`Confirmation token '${token}' expired. Call ${operation} without confirmationToken to get a new one`);
+    }
+    if (entry.operation !== operation || entry.fingerprint !== fingerprintOf(operation, args)) {
+      throw new Error(`Confirmation token '${token}' was issued for ${entry.operation} with different arguments. Call ${operation} without confirmationToken to get a new one`);
+    }
+  }
+
+  private purge() {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt < now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
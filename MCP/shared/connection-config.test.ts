@@ -0,0 +1,59 @@
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConnectionConfig, getProfile } from "./connection-config.js";
+
+const envProfile = { host: "env-host", port: 3306, user: "env_user", password: "env_secret", database: "env_db" };
+
+function load(connections: any, extra: Record<string, any> = {}) {
+  const path = join(mkdtempSync(join(tmpdir(), "mysql-config-")), "connections.json");
+  writeFileSync(path, JSON.stringify({ connections, ...extra }));
+  process.env.MYSQL_CONFIG = path;
+  return loadConnectionConfig(envProfile);
+}
+
+afterEach(() => {
+  delete process.env.MYSQL_CONFIG;
+  delete process.env.MYSQL_CONNECTION;
+  delete process.env.TEST_REPLICA_PASSWORD;
+});
+
+test("without MYSQL_CONFIG the env profile is the only connection", () => {
+  const config = loadConnectionConfig(envProfile);
+  assert.equal(config.defaultConnection, "default");
+  assert.deepEqual(getProfile(config, "default"), envProfile);
+});
+
+test("profiles never inherit the env user or password", () => {
+  const config = load({ staging: { host: "staging", user: "app" } });
+  assert.deepEqual(getProfile(config, "staging"), { host: "staging", port: 3306, user: "app", password: "", database: "env_db" });
+  assert.throws(() => load({ staging: { host: "staging", password: "x" } }), /Connection 'staging' must set "user"/);
+});
+
+test("passwordEnv reads the password from the named variable", () => {
+  process.env.TEST_REPLICA_PASSWORD = "replica_secret";
+  const config = load({ replica: { host: "replica", user: "readonly", passwordEnv: "TEST_REPLICA_PASSWORD" } });
+  assert.equal(getProfile(config, "replica").password, "replica_secret");
+  assert.throws(() => load({ replica: { user: "readonly", passwordEnv: "TEST_UNSET_PASSWORD" } }), /TEST_UNSET_PASSWORD .* is not set/);
+  assert.throws(() => load({ replica: { user: "readonly", passwordEnv: 1 } }), /invalid passwordEnv/);
+});
+
+test("${NAME} references expand set variables and reject unset ones", () => {
+  process.env.TEST_REPLICA_PASSWORD = "replica_secret";
+  const config = load({ replica: { host: "replica", user: "readonly", password: "${TEST_REPLICA_PASSWORD}" } });
+  assert.equal(getProfile(config, "replica").password, "replica_secret");
+  assert.throws(
+    () => load({ replica: { host: "${TEST_UNSET_HOST}", user: "readonly" } }),
+    /Environment variable TEST_UNSET_HOST \(referenced by connection 'replica'\) is not set/
+  );
+});
+
+test("connection names are looked up as own properties only", () => {
+  const config = load({ dev: { user: "root" } });
+  for (const name of ["toString", "constructor", "__proto__", "hasOwnProperty"]) {
+    assert.throws(() => getProfile(config, name), /Unknown connection/, name);
+  }
+  assert.throws(() => load({ dev: { user: "root" } }, { defaultConnection: "toString" }), /Default connection 'toString' is not defined/);
+});
@@ -0,0 +1,132 @@
+// 连接配置：从 MYSQL_CONFIG 指向的 JSON 文件读取多个命名连接，未配置时退回到 MYSQL_* 环境变量
+import { readFileSync } from "node:fs";
+
+export interface ConnectionProfile {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  database?: string;
+}
+
+export interface ConnectionConfig {
+  defaultConnection: string;
+  connections: Record<string, ConnectionProfile>;
+}
+
+export const ENV_CONNECTION_NAME = "default";
+
+// 支持在配置文件中用 ${ENV_NAME} 引用环境变量，避免把密码写进文件；引用的变量未设置时报错，与 passwordEnv 一致
+function expandEnv(connection: string, value: any): any {
+  if (typeof value !== "string") {
+    return value;
+  }
+  return value.replace(/\$\{([A-Za-z0-9_]+)\}/g, (_match, name) => {
+    const expanded = process.env[name];
+    if (expanded === undefined) {
+      throw new Error(`Environment variable ${name} (referenced by connection '${connection}') is not set`);
+    }
+    return expanded;
+  });
+}
+
+// 密码只取自连接自己的 password 或 passwordEnv，不继承 MYSQL_PASSWORD，避免把环境变量中的凭据发往其他主机
+function profilePassword(name: string, raw: any): string {
+  if (raw.password !== undefined) {
+    return expandEnv(name, raw.password);
+  }
+  if (raw.passwordEnv === undefined) {
+    return "";
+  }
+  if (typeof raw.passwordEnv !== "string" || !raw.passwordEnv) {
+    throw new Error(`Connection '${name}' has an invalid passwordEnv: it must be the name of an environment variable`);
+  }
+  const password = process.env[raw.passwordEnv];
+  if (password === undefined) {
+    throw new Error(`Environment variable ${raw.passwordEnv} (passwordEnv of connection '${name}') is not set`);
+  }
+  return password;
+}
+
+function parseProfile(name: string, raw: any, fallback: ConnectionProfile): ConnectionProfile {
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`Connection '${name}' must be an object`);
+  }
+  const port = raw.port !== undefined ? parseInt(String(expandEnv(name, raw.port))) : fallback.port;
+  if (Number.isNaN(port)) {
+    throw new Error(`Connection '${name}' has an invalid port: ${raw.port}`);
+  }
+  const user = expandEnv(name, raw.user);
+  if (!user || typeof user !== "string") {
+    throw new Error(`Connection '${name}' must set "user"`);
+  }
+  return {
+    host: expandEnv(name, raw.host) || fallback.host,
+    port,
+    user,
+    password: profilePassword(name, raw),
+    database: raw.database !== undefined ? expandEnv(name, raw.database) || undefined : fallback.database,
+  };
+}
+
+/**
+ * 读取连接配置。envProfile 由各服务器根据自己的 MYSQL_* 环境变量和默认值构造，
+ * 既作为没有配置文件时的唯一连接，也作为配置文件中缺省的 host、port、database 的默认值；
+ * 配置文件中的每个连接必须设置自己的 user，密码通过 password 或 passwordEnv 指定。
+ */
+export function loadConnectionConfig(envProfile: ConnectionProfile): ConnectionConfig {
+  const configPath = process.env.MYSQL_CONFIG;
+  if (!configPath) {
+    return {
+      defaultConnection: ENV_CONNECTION_NAME,
+      connections: { [ENV_CONNECTION_NAME]: envProfile },
+    };
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(configPath, "utf8"));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read connection config ${configPath}: ${errorMessage}`);
+  }
+
+  const names = Object.keys(raw?.connections || {});
+  if (names.length === 0) {
+    throw new Error(`Connection config ${configPath} must define at least one entry in "connections"`);
+  }
+
+  const connections: Record<string, ConnectionProfile> = Object.fromEntries(
+    names.map(name => [name, parseProfile(name, raw.connections[name], envProfile)])
+  );
+
+  const defaultConnection = process.env.MYSQL_CONNECTION || raw.defaultConnection || names[0];
+  if (!Object.hasOwn(connections, defaultConnection)) {
+    throw new Error(`Default connection '${defaultConnection}' is not defined in ${configPath}`);
+  }
+
+  return { defaultConnection, connections };
+}
+
+export function getProfile(config: ConnectionConfig, name: string): ConnectionProfile {
+  if (!Object.hasOwn(config.connections, name)) {
+    throw new Error(`Unknown connection '${name}'. Available connections: ${Object.keys(config.connections).join(", ")}`);
+  }
+  return config.connections[name];
+}
+
+/**
+ * 列出连接（不含密码）
+ */
+export function describeConnections(config: ConnectionConfig, activeConnection: string, openPools: Iterable<string>) {
+  const open = new Set(openPools);
+  return Object.entries(config.connections).map(([name, profile]) => ({
+    name,
+    host: profile.host,
+    port: profile.port,
+    user: profile.user,
+    database: profile.database || null,
+    active: name === activeConnection,
+    poolOpen: open.has(name),
+  }));
+}
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildAlterColumn, buildColumn, buildCreateIndex, buildForeignKey, buildTableBody, buildTableOptions, SqlEscaper } from "./ddl-builder.js";
+
+// 与 mysql2 的 escape / escapeId 输出一致的简化实现
+const escaper: SqlEscaper = {
+  escape: value => (typeof value === "string" ? `'${value.replace(/[\\']/g, "\\$&")}'` : String(value)),
+  escapeId: value => `\`${value.replace(/`/g, "``")}\``,
+};
+
+test("names, ENUM values, comments and defaults are escaped", () => {
+  assert.equal(
+    buildColumn(escaper, { name: "we`ird", type: "enum", values: ["a'b", "c\\d"], default: "a'b", comment: "it's `x`" }),
+    "`we``ird` ENUM('a\\'b', 'c\\\\d') NULL DEFAULT 'a\\'b' COMMENT 'it\\'s `x`'"
+  );
+  assert.equal(buildColumn(escaper, { name: "n", type: "INT", nullable: false, default: 0 }), "`n` INT NOT NULL DEFAULT 0");
+  assert.equal(buildColumn(escaper, { name: "n", type: "INT", default: null }), "`n` INT NULL DEFAULT NULL");
+  assert.equal(
+    buildCreateIndex(escaper, "`app`.`users`", { name: "idx`1", columns: ["na`me", { name: "bio", length: 10, order: "DESC" }], comment: "a'b" }),
+    "CREATE INDEX `idx``1` ON `app`.`users` (`na``me`, `bio`(10) DESC) COMMENT 'a\\'b'"
+  );
+  assert.equal(
+    buildForeignKey(escaper, { name: "fk`x", columns: ["user_id"], referencedDatabase: "o`ther", referencedTable: "users", referencedColumns: ["id"], onDelete: "CASCADE" }),
+    "CONSTRAINT `fk``x` FOREIGN KEY (`user_id`) REFERENCES `o``ther`.`users` (`id`) ON DELETE CASCADE"
+  );
+  assert.equal(buildTableOptions(escaper, { engine: "InnoDB", charset: "utf8mb4", comment: "users'" }), "ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='users\\''");
+});
+
+test("engines, character sets and expressions outside the whitelist are rejected", () => {
+  assert.throws(() => buildTableOptions(escaper, { engine: "InnoDB; DROP TABLE users" }), /Invalid engine 'InnoDB; DROP TABLE users'/);
+  assert.throws(() => buildTableOptions(escaper, { charset: "utf8mb4 COLLATE x" }), /Invalid character set/);
+  assert.throws(() => buildColumn(escaper, { name: "c", type: "VARCHAR", length: 10, collation: "a-b" }), /Invalid collation 'a-b'/);
+  assert.throws(() => buildColumn(escaper, { name: "t", type: "DATETIME", defaultExpression: "(SELECT 1)" }), /Unsupported default expression '\(SELECT 1\)'/);
+  assert.throws(() => buildColumn(escaper, { name: "t", type: "DATETIME", onUpdate: "NOW(); DROP TABLE t" }), /Unsupported ON UPDATE expression/);
+  assert.throws(() => buildColumn(escaper, { name: "t", type: "VARCHAR(10)" }), /unsupported type 'VARCHAR\(10\)'/);
+  assert.throws(
+    () => buildForeignKey(escaper, { columns: ["a"], referencedTable: "t", referencedColumns: ["id"], onDelete: "DROP TABLE" as any }),
+    /Invalid ON DELETE action 'DROP TABLE'/
+  );
+  assert.equal(
+    buildColumn(escaper, { name: "t", type: "timestamp", length: 3, defaultExpression: "current_timestamp(3)", onUpdate: "NOW(3)" }),
+    "`t` TIMESTAMP(3) NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE NOW(3)"
+  );
+});
+
+test("length and scale are validated against the type", () => {
+  assert.equal(buildColumn(escaper, { name: "d", type: "DECIMAL", length: 10, scale: 2, unsigned: true }), "`d` DECIMAL(10, 2) UNSIGNED NULL");
+  const rejected: [any, RegExp][] = [
+    [{ type: "VARCHAR" }, /VARCHAR needs a length/],
+    [{ type: "VARCHAR", length: -1 }, /length must be a non-negative integer/],
+    [{ type: "VARCHAR", length: 2.5 }, /length must be a non-negative integer/],
+    [{ type: "DECIMAL", scale: 2 }, /scale requires length \(precision\)/],
+    [{ type: "INT", length: 11, scale: 2 }, /scale is only valid for DECIMAL\/NUMERIC/],
+    [{ type: "DATETIME", length: 7 }, /fractional seconds precision must be between 0 and 6/],
+    [{ type: "TEXT", length: 100 }, /TEXT does not take a length/],
+    [{ type: "ENUM", values: [] }, /ENUM needs values/],
+    [{ type: "VARCHAR", length: 10, values: ["a"] }, /values are only valid for ENUM\/SET/],
+    [{ type: "VARCHAR", length: 10, unsigned: true }, /UNSIGNED is only valid for numeric types/],
+  ];
+  for (const [column, message] of rejected) {
+    assert.throws(() => buildColumn(escaper, { name: "c", ...column }), message, JSON.stringify(column));
+  }
+  assert.throws(() => buildCreateIndex(escaper, "`t`", { name: "i", columns: [{ name: "bio", length: 0 }] }), /prefix length must be a positive integer/);
+});
+
+test("table bodies check columns referenced by keys", () => {
+  assert.equal(
+    buildTableBody(escaper, {
+      columns: [{ name: "id", type: "BIGINT", unsigned: true, autoIncrement: true, primaryKey: true }, { name: "email", type: "VARCHAR", length: 255 }],
+      indexes: [{ name: "uk_email", type: "UNIQUE", columns: ["email"] }],
+    }),
+    "`id` BIGINT UNSIGNED NOT NULL AUTO_INCREMENT,\n  `email` VARCHAR(255) NULL,\n  PRIMARY KEY (`id`),\n  UNIQUE INDEX `uk_email` (`email`)"
+  );
+  assert.throws(() => buildTableBody(escaper, { columns: [{ name: "id", type: "INT" }, { name: "ID", type: "INT" }] }), /Duplicate column 'ID'/);
+  assert.throws(() => buildTableBody(escaper, { columns: [{ name: "id", type: "INT" }], indexes: [{ name: "i", columns: ["missing"] }] }), /Index i references unknown column 'missing'/);
+  assert.throws(() => buildAlterColumn(escaper, { action: "DROP", columnName: "a", first: true }), /DROP does not take a position/);
+  assert.equal(buildAlterColumn(escaper, { action: "CHANGE", columnName: "old", column: { name: "new", type: "INT" }, after: "id" }), "CHANGE COLUMN `old` `new` INT NULL AFTER `id`");
+});
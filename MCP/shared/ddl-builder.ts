@@ -0,0 +1,455 @@
+// 结构化表定义：校验列、索引、外键定义并生成 CREATE TABLE / ALTER TABLE 语句，
+// 标识符和字面量全部经过转义，类型、存储引擎等关键字只接受白名单中的值
+
+// mysql2 提供的转义函数（mysql.escape / mysql.escapeId），共享模块不直接依赖 mysql2
+export interface SqlEscaper {
+  escape(value: any): string;
+  escapeId(value: string): string;
+}
+
+export interface ColumnDefinition {
+  name: string;
+  // 数据类型，如 INT、VARCHAR、DECIMAL、ENUM
+  type: string;
+  // 字符长度、整数显示宽度、DECIMAL 精度或时间类型的小数秒位数
+  length?: number;
+  // DECIMAL 的小数位数
+  scale?: number;
+  // ENUM / SET 的取值
+  values?: string[];
+  unsigned?: boolean;
+  // 默认允许 NULL
+  nullable?: boolean;
+  // 默认值字面量
+  default?: string | number | boolean | null;
+  // 默认值表达式，如 CURRENT_TIMESTAMP
+  defaultExpression?: string;
+  // ON UPDATE 表达式，如 CURRENT_TIMESTAMP
+  onUpdate?: string;
+  autoIncrement?: boolean;
+  primaryKey?: boolean;
+  unique?: boolean;
+  charset?: string;
+  collation?: string;
+  comment?: string;
+}
+
+export type IndexType = "INDEX" | "UNIQUE" | "FULLTEXT" | "SPATIAL";
+
+export interface IndexColumn {
+  name: string;
+  // 前缀索引的长度（字符串列按字符，二进制列按字节）
+  length?: number;
+  order?: "ASC" | "DESC";
+}
+
+export interface IndexDefinition {
+  name?: string;
+  columns: (string | IndexColumn)[];
+  type?: IndexType;
+  comment?: string;
+  // false 时创建不可见索引（MySQL 8.0+），优化器不使用但仍然维护
+  visible?: boolean;
+}
+
+export type ReferentialAction = "RESTRICT" | "CASCADE" | "SET NULL" | "NO ACTION" | "SET DEFAULT";
+
+export interface ForeignKeyDefinition {
+  name?: string;
+  columns: string[];
+  referencedDatabase?: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+export interface TableOptions {
+  engine?: string;
+  charset?: string;
+  collation?: string;
+  comment?: string;
+}
+
+export interface TableDefinition extends TableOptions {
+  columns: ColumnDefinition[];
+  primaryKey?: string[];
+  indexes?: IndexDefinition[];
+  foreignKeys?: ForeignKeyDefinition[];
+}
+
+export type AlterAction = "ADD" | "MODIFY" | "CHANGE" | "DROP";
+
+export interface AlterColumnOptions {
+  action: AlterAction;
+  // ADD / MODIFY / CHANGE 的新列定义
+  column?: ColumnDefinition;
+  // DROP 的列名，CHANGE 的原列名
+  columnName?: string;
+  // 显式开启的原始 SQL 列定义，替代 column
+  rawColumn?: string;
+  first?: boolean;
+  after?: string;
+}
+
+type TypeKind = "integer" | "decimal" | "float" | "bit" | "string" | "binary" | "temporal" | "enum" | "plain";
+
+// 允许的数据类型及其参数形式
+const COLUMN_TYPES: Record<string, TypeKind> = {
+  TINYINT: "integer",
+  SMALLINT: "integer",
+  MEDIUMINT: "integer",
+  INT: "integer",
+  INTEGER: "integer",
+  BIGINT: "integer",
+  DECIMAL: "decimal",
+  NUMERIC: "decimal",
+  FLOAT: "float",
+  DOUBLE: "float",
+  BIT: "bit",
+  BOOLEAN: "plain",
+  BOOL: "plain",
+  CHAR: "string",
+  VARCHAR: "string",
+  BINARY: "binary",
+  VARBINARY: "binary",
+  TINYTEXT: "plain",
+  TEXT: "plain",
+  MEDIUMTEXT: "plain",
+  LONGTEXT: "plain",
+  TINYBLOB: "plain",
+  BLOB: "plain",
+  MEDIUMBLOB: "plain",
+  LONGBLOB: "plain",
+  JSON: "plain",
+  DATE: "plain",
+  YEAR: "plain",
+  TIME: "temporal",
+  DATETIME: "temporal",
+  TIMESTAMP: "temporal",
+  ENUM: "enum",
+  SET: "enum",
+  GEOMETRY: "plain",
+  POINT: "plain",
+  LINESTRING: "plain",
+  POLYGON: "plain",
+};
+
+// 必须指定长度的类型
+const LENGTH_REQUIRED = ["VARCHAR", "VARBINARY"];
+
+// 允许作为 DEFAULT / ON UPDATE 的表达式
+const EXPRESSION_PATTERN = /^(CURRENT_TIMESTAMP|NOW|LOCALTIMESTAMP)(\([0-6]?\))?$/i;
+
+// 存储引擎、字符集、排序规则只能是简单名称
+const NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+
+const REFERENTIAL_ACTIONS: ReferentialAction[] = ["RESTRICT", "CASCADE", "SET NULL", "NO ACTION", "SET DEFAULT"];
+
+function keyword(kind: string, value: string): string {
+  if (!NAME_PATTERN.test(value)) {
+    throw new Error(`Invalid ${kind} '${value}'`);
+  }
+  return value;
+}
+
+function expression(kind: string, value: string): string {
+  const text = value.trim();
+  if (!EXPRESSION_PATTERN.test(text)) {
+    throw new Error(`Unsupported ${kind} expression '${value}'. Use CURRENT_TIMESTAMP, CURRENT_TIMESTAMP(n) or a literal default`);
+  }
+  return text.toUpperCase();
+}
+
+function columnList(escaper: SqlEscaper, columns: string[], context: string): string {
+  if (!columns || columns.length === 0) {
+    throw new Error(`${context} needs at least one column`);
+  }
+  return columns.map(column => escaper.escapeId(column)).join(", ");
+}
+
+function columnType(escaper: SqlEscaper, column: ColumnDefinition): string {
+  const type = column.type.trim().toUpperCase();
+  const kind = COLUMN_TYPES[type];
+  if (!kind) {
+    throw new Error(`Column '${column.name}': unsupported type '${column.type}'. Supported types: ${Object.keys(COLUMN_TYPES).join(", ")}`);
+  }
+  const hasLength = column.length !== undefined;
+  if (hasLength && (!Number.isInteger(column.length) || (column.length as number) < 0)) {
+    throw new Error(`Column '${column.name}': length must be a non-negative integer`);
+  }
+  if (column.scale !== undefined && kind !== "decimal") {
+    throw new Error(`Column '${column.name}': scale is only valid for DECIMAL/NUMERIC`);
+  }
+  if (column.values !== undefined && kind !== "enum") {
+    throw new Error(`Column '${column.name}': values are only valid for ENUM/SET`);
+  }
+  if (column.unsigned && !["integer", "decimal", "float"].includes(kind)) {
+    throw new Error(`Column '${column.name}': UNSIGNED is only valid for numeric types`);
+  }
+
+  let sql = type;
+  switch (kind) {
+    case "decimal":
+      if (hasLength) {
+        sql += column.scale !== undefined ? `(${column.length}, ${column.scale})` : `(${column.length})`;
+      } else if (column.scale !== undefined) {
+        throw new Error(`Column '${column.name}': scale requires length (precision)`);
+      }
+      break;
+    case "temporal":
+      if (hasLength && (column.length as number) > 6) {
+        throw new Error(`Column '${column.name}': fractional seconds precision must be between 0 and 6`);
+      }
+      sql += hasLength ? `(${column.length})` : "";
+      break;
+    case "enum":
+      if (!column.values || column.values.length === 0) {
+        throw new Error(`Column '${column.name}': ${type} needs values`);
+      }
+      sql += `(${column.values.map(value => escaper.escape(String(value))).join(", ")})`;
+      break;
+    case "plain":
+    case "float":
+      if (hasLength) {
+        throw new Error(`Column '${column.name}': ${type} does not take a length`);
+      }
+      break;
+    default:
+      if (!hasLength && LENGTH_REQUIRED.includes(type)) {
+        throw new Error(`Column '${column.name}': ${type} needs a length`);
+      }
+      sql += hasLength ? `(${column.length})` : "";
+  }
+  if (column.unsigned) {
+    sql += " UNSIGNED";
+  }
+  return sql;
+}
+
+/**
+ * 生成单个列定义（不含列名之前的 ADD COLUMN 等关键字）
+ */
+export function buildColumn(escaper: SqlEscaper, column: ColumnDefinition): string {
+  if (!column.name) {
+    throw new Error("Column name is required");
+  }
+  const parts = [escaper.escapeId(column.name), columnType(escaper, column)];
+  if (column.charset) {
+    parts.push(`CHARACTER SET ${keyword("character set", column.charset)}`);
+  }
+  if (column.collation) {
+    parts.push(`COLLATE ${keyword("collation", column.collation)}`);
+  }
+  parts.push(column.nullable === false || column.primaryKey ? "NOT NULL" : "NULL");
+  if (column.default !== undefined && column.defaultExpression !== undefined) {
+    throw new Error(`Column '${column.name}': use either default or defaultExpression, not both`);
+  }
+  if (column.default !== undefined) {
+    parts.push(`DEFAULT ${column.default === null ? "NULL" : escaper.escape(column.default)}`);
+  } else if (column.defaultExpression !== undefined) {
+    parts.push(`DEFAULT ${expression("default", column.defaultExpression)}`);
+  }
+  if (column.onUpdate !== undefined) {
+    parts.push(`ON UPDATE ${expression("ON UPDATE", column.onUpdate)}`);
+  }
+  if (column.autoIncrement) {
+    parts.push("AUTO_INCREMENT");
+  }
+  if (column.primaryKey) {
+    parts.push("PRIMARY KEY");
+  }
+  if (column.unique) {
+    parts.push("UNIQUE");
+  }
+  if (column.comment !== undefined) {
+    parts.push(`COMMENT ${escaper.escape(column.comment)}`);
+  }
+  return parts.join(" ");
+}
+
+function indexColumnName(column: string | IndexColumn): string {
+  return typeof column === "string" ? column : column.name;
+}
+
+function keyPart(escaper: SqlEscaper, column: string | IndexColumn): string {
+  if (typeof column === "string") {
+    return escaper.escapeId(column);
+  }
+  let sql = escaper.escapeId(column.name);
+  if (column.length !== undefined) {
+    if (!Number.isInteger(column.length) || column.length <= 0) {
+      throw new Error(`Index column '${column.name}': prefix length must be a positive integer`);
+    }
+    sql += `(${column.length})`;
+  }
+  if (column.order !== undefined) {
+    if (column.order !== "ASC" && column.order !== "DESC") {
+      throw new Error(`Index column '${column.name}': order must be ASC or DESC`);
+    }
+    sql += ` ${column.order}`;
+  }
+  return sql;
+}
+
+// 索引名、列和 COMMENT / INVISIBLE 选项
+function indexParts(escaper: SqlEscaper, index: IndexDefinition) {
+  const name = index.name ? ` ${escaper.escapeId(index.name)}` : "";
+  if (!index.columns || index.columns.length === 0) {
+    throw new Error(`Index${name} needs at least one column`);
+  }
+  const columns = index.columns.map(column => keyPart(escaper, column)).join(", ");
+  let options = index.comment !== undefined ? ` COMMENT ${escaper.escape(index.comment)}` : "";
+  if (index.visible === false) {
+    options += " INVISIBLE";
+  }
+  return { name, columns, options };
+}
+
+export function buildIndex(escaper: SqlEscaper, index: IndexDefinition): string {
+  const type = index.type || "INDEX";
+  const prefix = type === "INDEX" ? "INDEX" : `${type} INDEX`;
+  const { name, columns, options } = indexParts(escaper, index);
+  return `${prefix}${name} (${columns})${options}`;
+}
+
+/**
+ * 生成 CREATE INDEX 语句，tableRef 为已转义的表名
+ */
+export function buildCreateIndex(escaper: SqlEscaper, tableRef: string, index: IndexDefinition): string {
+  if (!index.name) {
+    throw new Error("CREATE INDEX needs an index name");
+  }
+  const type = index.type || "INDEX";
+  const prefix = type === "INDEX" ? "" : `${type} `;
+  const { name, columns, options } = indexParts(escaper, index);
+  return `CREATE ${prefix}INDEX${name} ON ${tableRef} (${columns})${options}`;
+}
+
+export function buildForeignKey(escaper: SqlEscaper, foreignKey: ForeignKeyDefinition): string {
+  if (foreignKey.columns?.length !== foreignKey.referencedColumns?.length) {
+    throw new Error(`Foreign key on (${(foreignKey.columns || []).join(", ")}) must reference the same number of columns`);
+  }
+  let sql = foreignKey.name ? `CONSTRAINT ${escaper.escapeId(foreignKey.name)} ` : "";
+  let referenced = escaper.escapeId(foreignKey.referencedTable);
+  if (foreignKey.referencedDatabase) {
+    referenced = `${escaper.escapeId(foreignKey.referencedDatabase)}.${referenced}`;
+  }
+  sql += `FOREIGN KEY (${columnList(escaper, foreignKey.columns, "Foreign key")}) REFERENCES ${referenced} (${columnList(escaper, foreignKey.referencedColumns, "Foreign key")})`;
+  for (const [clause, action] of [["ON DELETE", foreignKey.onDelete], ["ON UPDATE", foreignKey.onUpdate]] as const) {
+    if (action === undefined) {
+      continue;
+    }
+    if (!REFERENTIAL_ACTIONS.includes(action)) {
+      throw new Error(`Invalid ${clause} action '${action}'. Use ${REFERENTIAL_ACTIONS.join(", ")}`);
+    }
+    sql += ` ${clause} ${action}`;
+  }
+  return sql;
+}
+
+/**
+ * 表选项：ENGINE、DEFAULT CHARSET、COLLATE、COMMENT
+ */
+export function buildTableOptions(escaper: SqlEscaper, options: TableOptions): string {
+  const parts: string[] = [];
+  if (options.engine) {
+    parts.push(`ENGINE=${keyword("engine", options.engine)}`);
+  }
+  if (options.charset) {
+    parts.push(`DEFAULT CHARSET=${keyword("character set", options.charset)}`);
+  }
+  if (options.collation) {
+    parts.push(`COLLATE=${keyword("collation", options.collation)}`);
+  }
+  if (options.comment !== undefined) {
+    parts.push(`COMMENT=${escaper.escape(options.comment)}`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * 生成 CREATE TABLE 的括号内部分：列、主键、索引和外键
+ */
+export function buildTableBody(escaper: SqlEscaper, definition: TableDefinition): string {
+  if (!definition.columns || definition.columns.length === 0) {
+    throw new Error("A table needs at least one column");
+  }
+  const names = new Set<string>();
+  for (const column of definition.columns) {
+    const key = column.name?.toLowerCase();
+    if (names.has(key)) {
+      throw new Error(`Duplicate column '${column.name}'`);
+    }
+    names.add(key);
+  }
+  const inlinePrimary = definition.columns.filter(column => column.primaryKey);
+  if (inlinePrimary.length > 0 && definition.primaryKey) {
+    throw new Error("Set primaryKey on the table or on columns, not both");
+  }
+  const primaryKey = definition.primaryKey || inlinePrimary.map(column => column.name);
+
+  const checkColumns = (columns: string[], context: string) => {
+    for (const column of columns || []) {
+      if (!names.has(column.toLowerCase())) {
+        throw new Error(`${context} references unknown column '${column}'`);
+      }
+    }
+  };
+
+  const lines = definition.columns.map(column => buildColumn(escaper, { ...column, primaryKey: undefined, nullable: column.primaryKey ? false : column.nullable }));
+  if (primaryKey.length > 0) {
+    checkColumns(primaryKey, "Primary key");
+    lines.push(`PRIMARY KEY (${columnList(escaper, primaryKey, "Primary key")})`);
+  }
+  for (const index of definition.indexes || []) {
+    checkColumns((index.columns || []).map(indexColumnName), `Index ${index.name || ""}`.trim());
+    lines.push(buildIndex(escaper, index));
+  }
+  for (const foreignKey of definition.foreignKeys || []) {
+    checkColumns(foreignKey.columns, "Foreign key");
+    lines.push(buildForeignKey(escaper, foreignKey));
+  }
+  return lines.join(",\n  ");
+}
+
+/**
+ * 生成 ALTER TABLE 中修改单个列的子句，如 ADD COLUMN ... AFTER ...
+ */
+export function buildAlterColumn(escaper: SqlEscaper, options: AlterColumnOptions): string {
+  const { action } = options;
+  if (options.first && options.after) {
+    throw new Error("Use either first or after, not both");
+  }
+  const position = options.first ? " FIRST" : options.after ? ` AFTER ${escaper.escapeId(options.after)}` : "";
+
+  if (action === "DROP") {
+    if (!options.columnName) {
+      throw new Error("DROP needs columnName");
+    }
+    if (position) {
+      throw new Error("DROP does not take a position");
+    }
+    return `DROP COLUMN ${escaper.escapeId(options.columnName)}`;
+  }
+
+  if (options.column && options.rawColumn !== undefined) {
+    throw new Error("Pass either column (structured) or rawColumn (raw SQL), not both");
+  }
+  let definition: string;
+  if (options.rawColumn !== undefined) {
+    definition = options.rawColumn;
+  } else if (options.column) {
+    definition = buildColumn(escaper, options.column);
+  } else {
+    throw new Error(`${action} needs column (or rawColumn to use raw SQL)`);
+  }
+
+  if (action === "CHANGE") {
+    if (!options.columnName) {
+      throw new Error("CHANGE needs columnName (the current column name)");
+    }
+    return `CHANGE COLUMN ${escaper.escapeId(options.columnName)} ${definition}${position}`;
+  }
+  return `${action} COLUMN ${definition}${position}`;
+}
@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { scanDump, restoreDump } from "./dump.js";
+import { Queryable } from "./types.js";
+
+function dumpFile(content: string): string {
+  const file = join(mkdtempSync(join(tmpdir(), "mysql-dump-")), "app.sql");
+  writeFileSync(file, content);
+  return file;
+}
+
+// 记录执行的语句，会话变量的保存和恢复不记录
+function fakeConnection(failOn?: string): Queryable & { executed: string[] } {
+  const executed: string[] = [];
+  return {
+    executed,
+    async query(sql: string): Promise<[any, any]> {
+      if (sql === "SELECT DATABASE() AS name") {
+        return [[{ name: "app" }], []];
+      }
+      if (sql.startsWith("SELECT @@SESSION.")) {
+        return [[{}], []];
+      }
+      if (sql.startsWith("SET SESSION ")) {
+        return [{}, []];
+      }
+      if (failOn && sql.includes(failOn)) {
+        throw new Error("Duplicate entry");
+      }
+      executed.push(sql);
+      return [{}, []];
+    },
+  };
+}
+
+const DUMP = `-- MySQL dump header; not a statement
+/*!40101 SET NAMES utf8mb4 */;
+/* block comment; spanning
+   two lines */
+DROP TABLE IF EXISTS \`users\`;
+CREATE TABLE \`users\` (
+  \`id\` int NOT NULL,
+  \`bio\` text COMMENT 'semi;colon -- not a comment'
+) ENGINE=InnoDB;
+INSERT INTO \`users\` VALUES (1,'line one;
+line two # still in the string'),(2,'it\\'s; fine');
+DELIMITER ;;
+CREATE TRIGGER users_bi BEFORE INSERT ON users FOR EACH ROW BEGIN SET NEW.bio = ''; END ;;
+DELIMITER ;
+INSERT INTO \`users\` VALUES (3,"double \\"quoted\\"; text");
+`;
+
+test("restoreDump splits statements across comments, quotes and DELIMITER", async () => {
+  const file = dumpFile(DUMP);
+  const plan = await scanDump(file, "app");
+  assert.equal(plan.statements, 6);
+  assert.deepEqual(plan.statementTypes, { SET: 1, DROP: 1, CREATE: 2, INSERT: 2 });
+  assert.deepEqual(plan.tables, ["users"]);
+  assert.equal(plan.operationClass, "drop");
+
+  const connection = fakeConnection();
+  const result = await restoreDump(connection, plan);
+  assert.equal(result.statements, 6);
+  assert.deepEqual(connection.executed, [
+    "/*!40101 SET NAMES utf8mb4 */",
+    "DROP TABLE IF EXISTS `users`",
+    "CREATE TABLE `users` (\n  `id` int NOT NULL,\n  `bio` text COMMENT 'semi;colon -- not a comment'\n) ENGINE=InnoDB",
+    "INSERT INTO `users` VALUES (1,'line one;\nline two # still in the string'),(2,'it\\'s; fine')",
+    "CREATE TRIGGER users_bi BEFORE INSERT ON users FOR EACH ROW BEGIN SET NEW.bio = ''; END",
+    "INSERT INTO `users` VALUES (3,\"double \\\"quoted\\\"; text\")",
+  ]);
+});
+
+test("restoreDump stops at the first failing statement and reports its line", async () => {
+  const plan = await scanDump(dumpFile(DUMP), "app");
+  const connection = fakeConnection("VALUES (3,");
+  const result = await restoreDump(connection, plan);
+  assert.equal(result.statements, 5);
+  assert.equal(result.failed?.line, 15);
+  assert.equal(result.failed?.error, "Duplicate entry");
+  assert.match(result.note || "", /5 statements before line 15 were executed/);
+});
+
+test("scanDump applies the statement check and rejects unterminated strings", async () => {
+  await assert.rejects(
+    scanDump(dumpFile(DUMP), "app", sql => (sql.startsWith("CREATE TRIGGER") ? "triggers are not allowed" : null)),
+    /Statement at line 13 is not allowed: triggers are not allowed/
+  );
+  await assert.rejects(scanDump(dumpFile("INSERT INTO t VALUES ('open;\n"), "app"), /Unterminated ' quote/);
+});
+
+test("scanDump rejects USE so later statements cannot leave the target database", async () => {
+  const file = dumpFile("CREATE TABLE t (id INT);\n/*!40000 USE `other` */;\nDROP TABLE secrets;\n");
+  await assert.rejects(scanDump(file, "app", () => null), /Statement at line 2 switches the database with USE other; dumps are restored into app/);
+});
@@ -0,0 +1,609 @@
+// 逻辑备份：把表结构和数据流式导出为 mysqldump 兼容的 SQL 文件（建表语句加批量 INSERT），以及逐条回放这样的文件
+import { createReadStream, createWriteStream, WriteStream } from "node:fs";
+import { access, mkdir, rename, stat, unlink } from "node:fs/promises";
+import { once } from "node:events";
+import { createInterface } from "node:readline";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+import { homedir } from "node:os";
+import { RowReader, streamingConnection } from "./result-cursor.js";
+import { OperationClass, classifyStatement, strongestClass } from "./confirmation.js";
+import { analyzeStatement, findUseDatabase } from "./sql-classifier.js";
+import { globToRegExp } from "./policy.js";
+import { StatementCheck } from "./migrations.js";
+import { SqlEscaper } from "./ddl-builder.js";
+import { Queryable } from "./types.js";
+
+// 未配置导出目录时使用
+export const DEFAULT_DUMP_DIR = join(homedir(), "mysql-dumps");
+
+// 单条 INSERT 语句的大致字节上限，与 mysqldump 的 net_buffer_length 默认值相同
+const INSERT_BATCH_BYTES = 1024 * 1024;
+
+// 两次进度回调的最小间隔
+const PROGRESS_INTERVAL_MS = 1000;
+
+// 导出和导入会修改这些会话变量（文件头中的 SET 语句），结束后恢复，连接可以继续使用
+const SESSION_VARIABLES = ["time_zone", "sql_mode", "foreign_key_checks", "unique_checks", "sql_notes", "character_set_client", "character_set_results", "collation_connection"];
+
+const GEOMETRY_TYPES = ["geometry", "point", "linestring", "polygon", "multipoint", "multilinestring", "multipolygon", "geometrycollection", "geomcollection"];
+
+// 需要流式读取的连接：mysql2 promise 连接，.connection 为回调风格连接
+export interface DumpConnection extends Queryable {
+  connection: unknown;
+}
+
+export interface DumpOptions {
+  // 为空时使用连接的当前数据库
+  database?: string | null;
+  // 只导出这些表（精确名称），不存在时报错
+  tables?: string[];
+  // 表名通配（* 和 ?），为空时包含所有表
+  include?: string[];
+  exclude?: string[];
+  includeViews: boolean;
+  // 只导出结构
+  noData: boolean;
+  overwrite: boolean;
+  // 额外的表过滤（如权限策略）
+  allowTable?: (database: string, table: string) => boolean;
+  onProgress?: (progress: DumpProgress) => void;
+}
+
+export interface DumpProgress {
+  table: string;
+  // 当前表已导出的行数和所有表合计的行数
+  tableRows: number;
+  totalRows: number;
+  tablesDone: number;
+  tableCount: number;
+}
+
+export interface DumpResult {
+  file: string;
+  database: string;
+  tables: { name: string; rows: number | null; triggers: number }[];
+  views: string[];
+  bytes: number;
+  durationMs: number;
+}
+
+export interface RestorePlan {
+  file: string;
+  bytes: number;
+  modifiedAt: string;
+  statements: number;
+  // 按语句类型计数，如 { CREATE: 3, INSERT: 120, SET: 18 }
+  statementTypes: Record<string, number>;
+  // 会被删除并重建的表
+  tables: string[];
+  // 所有语句中需要确认的最高类别
+  operationClass: OperationClass | null;
+}
+
+export interface RestoreProgress {
+  bytesRead: number;
+  bytes: number;
+  statements: number;
+}
+
+export interface RestoreResult {
+  file: string;
+  database: string;
+  statements: number;
+  durationMs: number;
+  failed?: { statementIndex: number; line: number; statement: string; error: string };
+  note?: string;
+}
+
+interface DumpStatement {
+  sql: string;
+  // 语句开始的行号
+  line: number;
+  bytesRead: number;
+}
+
+/**
+ * 把文件名解析到导出目录内；不允许绝对路径或 .. 跳出目录
+ */
+export function resolveDumpFile(directory: string, name: string): string {
+  const root = resolve(directory);
+  const file = resolve(root, name);
+  const path = relative(root, file);
+  if (!path || path.startsWith("..") || isAbsolute(path)) {
+    throw new Error(`Dump file '${name}' must be a file name inside the dump directory`);
+  }
+  return file;
+}
+
+/**
+ * 默认文件名，如 shop.orders-20261019T101500Z.sql
+ */
+export function defaultDumpName(database: string, table?: string): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+  const name = table ? `${database}.${table}` : database;
+  return `${name.replace(/[^\w.-]/g, "_")}-${stamp}.sql`;
+}
+
+function matchesAny(patterns: string[] | undefined, name: string): boolean {
+  return !!patterns && patterns.some(pattern => globToRegExp(pattern).test(name));
+}
+
+// 去掉 DEFINER 子句，导入时以执行导入的用户为定义者，不需要 SET_USER_ID 权限
+function stripDefiner(sql: string): string {
+  return sql.replace(/\s+DEFINER\s*=\s*(`[^`]*`|'[^']*'|[^\s@]+)@(`[^`]*`|'[^']*'|\S+)/i, "");
+}
+
+async function saveSession(connection: Queryable): Promise<Record<string, any>> {
+  const [rows] = await connection.query(`SELECT ${SESSION_VARIABLES.map(name => `@@SESSION.${name} AS ${name}`).join(", ")}`);
+  return (rows as any[])[0];
+}
+
+// 连接已经断开时恢复失败，不掩盖原来的错误
+async function restoreSession(connection: Queryable, saved: Record<string, any>) {
+  await connection
+    .query(`SET SESSION ${SESSION_VARIABLES.map(name => `${name} = ?`).join(", ")}`, SESSION_VARIABLES.map(name => saved[name]))
+    .catch(() => undefined);
+}
+
+// 带背压的文件写入：先写入 .partial 文件，完成后改名，失败时删除
+class DumpWriter {
+  bytes = 0;
+  private stream: WriteStream;
+  private partial: string;
+
+  constructor(private file: string) {
+    this.partial = `${file}.partial`;
+    this.stream = createWriteStream(this.partial, { encoding: "utf8" });
+  }
+
+  async write(text: string) {
+    this.bytes += Buffer.byteLength(text);
+    if (!this.stream.write(text)) {
+      await once(this.stream, "drain");
+    }
+  }
+
+  async finish() {
+    this.stream.end();
+    await once(this.stream, "finish");
+    await rename(this.partial, this.file);
+  }
+
+  async abort() {
+    this.stream.destroy();
+    await unlink(this.partial).catch(() => undefined);
+  }
+}
+
+function header(database: string, version: string): string {
+  return [
+    `-- MySQL dump (mysqldump-compatible)`,
+    `--`,
+    `-- Database: ${database}`,
+    `-- Server version: ${version}`,
+    `-- Started: ${new Date().toISOString()}`,
+    ``,
+    `/*!40101 SET @OLD_CHARACTER_SET_CLIENT=@@CHARACTER_SET_CLIENT */;`,
+    `/*!40101 SET @OLD_CHARACTER_SET_RESULTS=@@CHARACTER_SET_RESULTS */;`,
+    `/*!40101 SET @OLD_COLLATION_CONNECTION=@@COLLATION_CONNECTION */;`,
+    `/*!50503 SET NAMES utf8mb4 */;`,
+    `/*!40103 SET @OLD_TIME_ZONE=@@TIME_ZONE */;`,
+    `/*!40103 SET TIME_ZONE='+00:00' */;`,
+    `/*!40014 SET @OLD_UNIQUE_CHECKS=@@UNIQUE_CHECKS, UNIQUE_CHECKS=0 */;`,
+    `/*!40014 SET @OLD_FOREIGN_KEY_CHECKS=@@FOREIGN_KEY_CHECKS, FOREIGN_KEY_CHECKS=0 */;`,
+    `/*!40101 SET @OLD_SQL_MODE=@@SQL_MODE, SQL_MODE='NO_AUTO_VALUE_ON_ZERO' */;`,
+    `/*!40111 SET @OLD_SQL_NOTES=@@SQL_NOTES, SQL_NOTES=0 */;`,
+    ``,
+  ].join("\n");
+}
+
+function footer(): string {
+  return [
+    ``,
+    `/*!40103 SET TIME_ZONE=@OLD_TIME_ZONE */;`,
+    `/*!40101 SET SQL_MODE=@OLD_SQL_MODE */;`,
+    `/*!40014 SET FOREIGN_KEY_CHECKS=@OLD_FOREIGN_KEY_CHECKS */;`,
+    `/*!40014 SET UNIQUE_CHECKS=@OLD_UNIQUE_CHECKS */;`,
+    `/*!40101 SET CHARACTER_SET_CLIENT=@OLD_CHARACTER_SET_CLIENT */;`,
+    `/*!40101 SET CHARACTER_SET_RESULTS=@OLD_CHARACTER_SET_RESULTS */;`,
+    `/*!40101 SET COLLATION_CONNECTION=@OLD_COLLATION_CONNECTION */;`,
+    `/*!40111 SET SQL_NOTES=@OLD_SQL_NOTES */;`,
+    ``,
+    `-- Dump completed: ${new Date().toISOString()}`,
+    ``,
+  ].join("\n");
+}
+
+function section(title: string): string {
+  return `\n--\n-- ${title}\n--\n\n`;
+}
+
+// 视图按依赖排序：SHOW CREATE VIEW 中引用的名称总是带库名
+function orderViews(database: string, views: { name: string; sql: string }[], escaper: SqlEscaper) {
+  const ordered: { name: string; sql: string }[] = [];
+  const visiting = new Set<string>();
+  const visit = (view: { name: string; sql: string }) => {
+    if (ordered.includes(view) || visiting.has(view.name)) {
+      return;
+    }
+    visiting.add(view.name);
+    for (const other of views) {
+      if (other !== view && view.sql.includes(`${escaper.escapeId(database)}.${escaper.escapeId(other.name)}`)) {
+        visit(other);
+      }
+    }
+    ordered.push(view);
+  };
+  views.forEach(visit);
+  return ordered;
+}
+
+async function dumpRows(
+  connection: DumpConnection,
+  writer: DumpWriter,
+  database: string,
+  table: string,
+  escaper: SqlEscaper,
+  onRows: (rows: number) => void
+): Promise<number> {
+  const [columnRows] = await connection.query(
+    `SELECT COLUMN_NAME AS name, DATA_TYPE AS dataType, EXTRA AS extra
+     FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ? ORDER BY ORDINAL_POSITION`,
+    [database, table]
+  );
+  // 生成列不能写入；JSON 以文本导出避免大数字丢失精度，空间类型以内部格式的十六进制导出
+  const columns = (columnRows as any[])
+    .filter(column => !/\b(VIRTUAL|STORED) GENERATED\b/i.test(column.extra || ""))
+    .map(column => ({
+      name: column.name as string,
+      kind: column.dataType === "json" ? "json" : GEOMETRY_TYPES.includes(column.dataType) ? "hex" : "value",
+    }));
+  const select = columns.map(column => {
+    const id = escaper.escapeId(column.name);
+    return column.kind === "json" ? `CAST(${id} AS CHAR) AS ${id}` : column.kind === "hex" ? `HEX(${id}) AS ${id}` : id;
+  });
+  const insert = `INSERT INTO ${escaper.escapeId(table)} (${columns.map(column => escaper.escapeId(column.name)).join(", ")}) VALUES `;
+
+  const reader = new RowReader(streamingConnection(connection), `SELECT ${select.join(", ")} FROM ${escaper.escapeId(database)}.${escaper.escapeId(table)}`);
+  let rows = 0;
+  let batch: string[] = [];
+  let batchBytes = 0;
+  const flush = async () => {
+    if (batch.length > 0) {
+      await writer.write(`${insert}${batch.join(",")};\n`);
+      rows += batch.length;
+      onRows(rows);
+      batch = [];
+      batchBytes = 0;
+    }
+  };
+  // 读完整个结果集之后连接才能执行下一条语句
+  let row;
+  while ((row = await reader.next()) !== undefined) {
+    const values = columns.map(column => {
+      const value = row[column.name];
+      if (value === null || value === undefined) {
+        return "NULL";
+      }
+      return column.kind === "hex" ? `X'${value}'` : escaper.escape(value);
+    });
+    const tuple = `(${values.join(",")})`;
+    if (batchBytes + tuple.length > INSERT_BATCH_BYTES) {
+      await flush();
+    }
+    batch.push(tuple);
+    batchBytes += tuple.length + 1;
+  }
+  await flush();
+  return rows;
+}
+
+/**
+ * 导出数据库中（匹配的）表和视图。在一致性快照事务中读取，表数据流式读取并按约 1MB 一条写成批量 INSERT；
+ * 触发器随表导出，视图在所有表之后按依赖顺序导出。文件已存在且 overwrite 为 false 时报错。
+ */
+export async function dumpDatabase(connection: DumpConnection, file: string, escaper: SqlEscaper, options: DumpOptions): Promise<DumpResult> {
+  const started = Date.now();
+  const [databaseRows] = await connection.query("SELECT COALESCE(?, DATABASE()) AS name, VERSION() AS version", [options.database || null]);
+  const database = (databaseRows as any[])[0]?.name;
+  const version = (databaseRows as any[])[0]?.version;
+  if (!database) {
+    throw new Error("No database selected; pass database");
+  }
+
+  const [objectRows] = await connection.query(
+    "SELECT TABLE_NAME AS name, TABLE_TYPE AS type FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? ORDER BY TABLE_NAME",
+    [database]
+  );
+  const objects = (objectRows as any[]).filter(object => object.type === "BASE TABLE" || object.type === "VIEW");
+  if (options.tables) {
+    for (const table of options.tables) {
+      if (!objects.some(object => object.name === table && object.type === "BASE TABLE")) {
+        throw new Error(`Table ${database}.${table} does not exist`);
+      }
+    }
+  }
+  const selected = objects.filter(object =>
+    (options.tables ? options.tables.includes(object.name) : object.type === "BASE TABLE" || options.includeViews) &&
+    (!options.include?.length || matchesAny(options.include, object.name)) &&
+    !matchesAny(options.exclude, object.name) &&
+    (!options.allowTable || options.allowTable(database, object.name))
+  );
+  const tables = selected.filter(object => object.type === "BASE TABLE").map(object => object.name as string);
+  const viewNames = selected.filter(object => object.type === "VIEW").map(object => object.name as string);
+  if (tables.length === 0 && viewNames.length === 0) {
+    throw new Error(`No tables in ${database} match`);
+  }
+
+  if (!options.overwrite && (await access(file).then(() => true, () => false))) {
+    throw new Error(`Dump file ${file} already exists; pass overwrite or choose another file name`);
+  }
+  await mkdir(dirname(file), { recursive: true });
+
+  const result: DumpResult = { file, database, tables: [], views: [], bytes: 0, durationMs: 0 };
+  const writer = new DumpWriter(file);
+  const saved = await saveSession(connection);
+  let totalRows = 0;
+  let lastProgress = 0;
+  try {
+    // 与 mysqldump --single-transaction 相同：所有表读取同一个快照，TIMESTAMP 以 UTC 导出
+    await connection.query("SET SESSION time_zone = '+00:00'");
+    await connection.query("SET TRANSACTION ISOLATION LEVEL REPEATABLE READ");
+    await connection.query("START TRANSACTION WITH CONSISTENT SNAPSHOT, READ ONLY");
+    await writer.write(header(database, version));
+
+    for (const table of tables) {
+      const [createRows] = await connection.query(`SHOW CREATE TABLE ${escaper.escapeId(database)}.${escaper.escapeId(table)}`);
+      await writer.write(section(`Table structure for table ${escaper.escapeId(table)}`));
+      await writer.write(`DROP TABLE IF EXISTS ${escaper.escapeId(table)};\n${(createRows as any[])[0]["Create Table"]};\n`);
+
+      let rows: number | null = null;
+      if (!options.noData) {
+        await writer.write(section(`Dumping data for table ${escaper.escapeId(table)}`));
+        const rowsBefore = totalRows;
+        rows = await dumpRows(connection, writer, database, table, escaper, tableRows => {
+          totalRows = rowsBefore + tableRows;
+          if (options.onProgress && Date.now() - lastProgress >= PROGRESS_INTERVAL_MS) {
+            lastProgress = Date.now();
+            options.onProgress({ table, tableRows, totalRows, tablesDone: result.tables.length, tableCount: tables.length });
+          }
+        });
+      }
+
+      // 触发器在数据之后创建，导入数据时不会触发
+      const [triggerRows] = await connection.query(
+        "SELECT TRIGGER_NAME AS name FROM information_schema.TRIGGERS WHERE EVENT_OBJECT_SCHEMA = ? AND EVENT_OBJECT_TABLE = ? ORDER BY ACTION_TIMING, EVENT_MANIPULATION, ACTION_ORDER",
+        [database, table]
+      );
+      const triggers = triggerRows as any[];
+      if (triggers.length > 0) {
+        await writer.write(section(`Triggers for table ${escaper.escapeId(table)}`));
+        await writer.write("DELIMITER ;;\n");
+        for (const trigger of triggers) {
+          const [definition] = await connection.query(`SHOW CREATE TRIGGER ${escaper.escapeId(database)}.${escaper.escapeId(trigger.name)}`);
+          await writer.write(`${stripDefiner((definition as any[])[0]["SQL Original Statement"])} ;;\n`);
+        }
+        await writer.write("DELIMITER ;\n");
+      }
+      result.tables.push({ name: table, rows, triggers: triggers.length });
+    }
+
+    const views: { name: string; sql: string }[] = [];
+    for (const name of viewNames) {
+      const [rows] = await connection.query(`SHOW CREATE VIEW ${escaper.escapeId(database)}.${escaper.escapeId(name)}`);
+      views.push({ name, sql: stripDefiner((rows as any[])[0]["Create View"]) });
+    }
+    for (const view of orderViews(database, views, escaper)) {
+      // 去掉本库的库名限定，视图可以导入到其他数据库
+      const sql = view.sql.split(`${escaper.escapeId(database)}.`).join("");
+      await writer.write(section(`View structure for view ${escaper.escapeId(view.name)}`));
+      await writer.write(`DROP VIEW IF EXISTS ${escaper.escapeId(view.name)};\n${sql};\n`);
+      result.views.push(view.name);
+    }
+
+    await writer.write(footer());
+    await connection.query("COMMIT");
+    await writer.finish();
+  } catch (error) {
+    await connection.query("ROLLBACK").catch(() => undefined);
+    await writer.abort();
+    throw error;
+  } finally {
+    await restoreSession(connection, saved);
+  }
+  result.bytes = writer.bytes;
+  result.durationMs = Date.now() - started;
+  return result;
+}
+
+/**
+ * 逐条读取 SQL 文件中的语句：跳过注释（保留可执行注释 /*! *\/），支持 DELIMITER 行和跨行的字符串
+ */
+async function* readStatements(file: string): AsyncGenerator<DumpStatement> {
+  const input = createReadStream(file, { encoding: "utf8" });
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let delimiter = ";";
+  let buffer = "";
+  let quote: string | null = null;
+  let comment = false;
+  let lineNumber = 0;
+  let startLine = 0;
+  let bytesRead = 0;
+
+  // 调用方提前结束迭代时关闭文件
+  try {
+    for await (const line of lines) {
+      lineNumber++;
+      bytesRead += Buffer.byteLength(line) + 1;
+      if (!quote && !comment && startLine === 0) {
+        const match = /^\s*DELIMITER\s+(\S+)\s*$/i.exec(line);
+        if (match) {
+          delimiter = match[1];
+          continue;
+        }
+      }
+
+      let i = 0;
+      while (i < line.length) {
+        const ch = line[i];
+        if (quote) {
+          if (ch === "\\" && quote !== "`") {
+            buffer += line.slice(i, i + 2);
+            i += 2;
+            continue;
+          }
+          if (ch === quote) {
+            quote = null;
+          }
+          buffer += ch;
+          i++;
+          continue;
+        }
+        if (comment) {
+          const end = line.indexOf("*/", i);
+          i = end === -1 ? line.length : end + 2;
+          comment = end === -1;
+          continue;
+        }
+        if (line.startsWith(delimiter, i)) {
+          if (startLine !== 0) {
+            yield { sql: buffer.trim(), line: startLine, bytesRead };
+          }
+          buffer = "";
+          startLine = 0;
+          i += delimiter.length;
+          continue;
+        }
+        if (ch === "#" || (ch === "-" && line[i + 1] === "-" && (i + 2 >= line.length || /\s/.test(line[i + 2])))) {
+          break;
+        }
+        if (ch === "/" && line[i + 1] === "*" && line[i + 2] !== "!" && line[i + 2] !== "+") {
+          comment = true;
+          i += 2;
+          continue;
+        }
+        if (ch === "'" || ch === '"' || ch === "`") {
+          quote = ch;
+        }
+        if (startLine === 0 && !/\s/.test(ch)) {
+          startLine = lineNumber;
+        }
+        buffer += ch;
+        i++;
+      }
+      if (startLine !== 0) {
+        buffer += "\n";
+      }
+    }
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote in the statement starting at line ${startLine}`);
+  }
+  if (startLine !== 0) {
+    yield { sql: buffer.trim(), line: startLine, bytesRead };
+  }
+}
+
+// INSERT 占导出文件的绝大部分，不做完整解析
+function statementVerb(sql: string): string {
+  return /^INSERT\s/i.test(sql) ? "INSERT" : analyzeStatement(sql).verb;
+}
+
+/**
+ * 扫描导出文件：统计语句、找出会被重建的表和需要确认的类别，并用 check 检查每条语句。不执行任何语句。
+ */
+export async function scanDump(file: string, database: string, check?: StatementCheck): Promise<RestorePlan> {
+  const info = await stat(file).catch(() => null);
+  if (!info?.isFile()) {
+    throw new Error(`Dump file ${file} does not exist`);
+  }
+  const statementTypes: Record<string, number> = {};
+  const tables: string[] = [];
+  const classes = new Set<OperationClass | null>();
+  let statements = 0;
+  for await (const statement of readStatements(file)) {
+    statements++;
+    const verb = statementVerb(statement.sql);
+    statementTypes[verb] = (statementTypes[verb] || 0) + 1;
+    if (verb !== "INSERT") {
+      classes.add(classifyStatement(statement.sql));
+      if (verb === "CREATE" && /^CREATE\s+(TEMPORARY\s+)?TABLE\s/i.test(statement.sql)) {
+        const table = analyzeStatement(statement.sql).tables[0];
+        if (table) {
+          tables.push(table.database ? `${table.database}.${table.table}` : table.table);
+        }
+      }
+    }
+    // 权限检查按目标数据库进行，USE 会让后续语句落到别的数据库，也会让会话记录的当前数据库失效
+    const target = verb === "INSERT" ? null : findUseDatabase(statement.sql);
+    if (target !== null) {
+      throw new Error(`Statement at line ${statement.line} switches the database with USE ${target}; dumps are restored into ${database || "the current database"}, remove the USE statement or restore into ${target} instead`);
+    }
+    const violation = check?.(statement.sql, database);
+    if (violation) {
+      throw new Error(`Statement at line ${statement.line} is not allowed: ${violation}`);
+    }
+  }
+  return {
+    file,
+    bytes: info.size,
+    modifiedAt: info.mtime.toISOString(),
+    statements,
+    statementTypes,
+    tables,
+    operationClass: strongestClass([...classes]),
+  };
+}
+
+/**
+ * 在连接的当前数据库中按顺序执行导出文件的语句；文件在扫描之后被修改时拒绝执行。
+ * 某条语句失败时停止，已执行的语句不会回滚。结束后恢复文件头修改的会话变量。
+ */
+export async function restoreDump(connection: Queryable, plan: RestorePlan, onProgress?: (progress: RestoreProgress) => void): Promise<RestoreResult> {
+  const started = Date.now();
+  const [databaseRows] = await connection.query("SELECT DATABASE() AS name");
+  const database = (databaseRows as any[])[0]?.name;
+  if (!database) {
+    throw new Error("No database selected; pass database");
+  }
+  const info = await stat(plan.file);
+  if (info.size !== plan.bytes || info.mtime.toISOString() !== plan.modifiedAt) {
+    throw new Error(`Dump file ${plan.file} changed after it was checked; call restore_dump again`);
+  }
+
+  const result: RestoreResult = { file: plan.file, database, statements: 0, durationMs: 0 };
+  const saved = await saveSession(connection);
+  let lastProgress = 0;
+  try {
+    for await (const statement of readStatements(plan.file)) {
+      try {
+        await connection.query(statement.sql);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        result.failed = {
+          statementIndex: result.statements,
+          line: statement.line,
+          statement: statement.sql.length > 500 ? `${statement.sql.slice(0, 500)}...` : statement.sql,
+          error: errorMessage,
+        };
+        if (result.statements > 0) {
+          result.note = `${result.statements} statements before line ${statement.line} were executed and are not rolled back`;
+        }
+        break;
+      }
+      result.statements++;
+      if (onProgress && Date.now() - lastProgress >= PROGRESS_INTERVAL_MS) {
+        lastProgress = Date.now();
+        onProgress({ bytesRead: Math.min(statement.bytesRead, plan.bytes), bytes: plan.bytes, statements: result.statements });
+      }
+    }
+  } finally {
+    await restoreSession(connection, saved);
+  }
+  result.durationMs = Date.now() - started;
+  return result;
+}
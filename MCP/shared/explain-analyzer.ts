@@ -0,0 +1,436 @@
+// explain_query：解析 EXPLAIN FORMAT=JSON 的执行计划，找出常见问题并根据表结构给出候选索引
+import { analyzeStatement, tokenize, Token, TableRef } from "./sql-classifier.js";
+import { listIndexes, IndexInfo } from "./index-inspector.js";
+import { Queryable } from "./types.js";
+
+export interface PlanNode {
+  // query_block、table、nested_loop、order、group、distinct、union、subquery 等
+  operation: string;
+  selectId?: number;
+  table?: string;
+  accessType?: string;
+  possibleKeys?: string[];
+  key?: string | null;
+  usedKeyParts?: string[];
+  ref?: string[];
+  rowsExamined?: number;
+  rowsProduced?: number;
+  // WHERE 条件过滤后保留的行比例（百分比）
+  filtered?: number;
+  cost?: number;
+  condition?: string;
+  usingIndex?: boolean;
+  usingJoinBuffer?: string;
+  usingFilesort?: boolean;
+  usingTemporary?: boolean;
+  dependent?: boolean;
+  message?: string;
+  children: PlanNode[];
+}
+
+export interface PlanIssue {
+  severity: "warning" | "info";
+  table?: string;
+  message: string;
+}
+
+export interface IndexSuggestion {
+  database: string;
+  table: string;
+  columns: string[];
+  reason: string;
+  // 可直接执行的建议语句，也可以通过 create_index 工具创建
+  sql: string;
+}
+
+export interface ExplainReport {
+  cost: number | null;
+  plan: PlanNode | null;
+  issues: PlanIssue[];
+  suggestions: IndexSuggestion[];
+  // EXPLAIN ANALYZE 的输出（MySQL 8.0.18+）
+  analyze?: string;
+  notes: string[];
+  rawPlan?: any;
+}
+
+export interface ExplainOptions {
+  // 执行 EXPLAIN ANALYZE，会真正运行查询
+  analyze: boolean;
+  includeRaw: boolean;
+  // 扫描行数达到该值时视为大表扫描
+  largeScanRows: number;
+}
+
+// 可以 EXPLAIN 的语句
+const EXPLAINABLE = ["SELECT", "TABLE", "VALUES", "INSERT", "REPLACE", "UPDATE", "DELETE"];
+
+// 包含子查询块的数组字段
+const SUBQUERY_LISTS = [
+  "attached_subqueries", "optimized_away_subqueries", "select_list_subqueries", "having_subqueries",
+  "order_by_subqueries", "group_by_subqueries", "update_value_subqueries", "query_specifications",
+];
+
+// 本身是一个执行步骤的对象字段
+const OPERATIONS: Record<string, string> = {
+  ordering_operation: "order",
+  grouping_operation: "group",
+  duplicates_removal: "distinct",
+  windowing: "window",
+  union_result: "union",
+  buffer_result: "buffer",
+  materialized_from_subquery: "materialized_subquery",
+  filesort: "order",
+  temporary_table: "temporary_table",
+};
+
+function toNumber(value: any): number | undefined {
+  if (value === null || value === undefined || value === "") {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function tableNode(raw: any): PlanNode {
+  const node: PlanNode = {
+    operation: "table",
+    table: raw.table_name,
+    accessType: raw.access_type,
+    possibleKeys: raw.possible_keys,
+    key: raw.key ?? null,
+    usedKeyParts: raw.used_key_parts,
+    ref: raw.ref,
+    rowsExamined: toNumber(raw.rows_examined_per_scan ?? raw.rows),
+    rowsProduced: toNumber(raw.rows_produced_per_join),
+    filtered: toNumber(raw.filtered),
+    cost: toNumber(raw.cost_info?.prefix_cost ?? raw.cost_info?.read_cost),
+    condition: raw.attached_condition,
+    usingIndex: raw.using_index || undefined,
+    usingJoinBuffer: raw.using_join_buffer,
+    children: [],
+  };
+  walk(raw, node, ["table_name"]);
+  return node;
+}
+
+// 把计划对象中的子步骤挂到 parent 下，未知字段中嵌套的步骤也会被找到
+function walk(raw: any, parent: PlanNode, skip: string[] = []) {
+  if (!raw || typeof raw !== "object") {
+    return;
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    if (skip.includes(key) || !value || typeof value !== "object") {
+      continue;
+    }
+    if (key === "table") {
+      parent.children.push(tableNode(value));
+    } else if (key === "query_block") {
+      parent.children.push(queryBlockNode(value));
+    } else if (key === "nested_loop" && Array.isArray(value)) {
+      const node: PlanNode = { operation: "nested_loop", children: [] };
+      value.forEach(item => walk(item, node));
+      parent.children.push(node);
+    } else if (SUBQUERY_LISTS.includes(key) && Array.isArray(value)) {
+      for (const item of value) {
+        const node: PlanNode = { operation: key === "query_specifications" ? "union_member" : "subquery", dependent: item.dependent || undefined, children: [] };
+        walk(item, node);
+        parent.children.push(node);
+      }
+    } else if (OPERATIONS[key]) {
+      const item = value as any;
+      const node: PlanNode = {
+        operation: OPERATIONS[key],
+        usingFilesort: item.using_filesort || key === "filesort" || undefined,
+        usingTemporary: item.using_temporary_table || key === "temporary_table" || undefined,
+        children: [],
+      };
+      walk(item, node);
+      parent.children.push(node);
+    } else {
+      walk(value, parent);
+    }
+  }
+}
+
+function queryBlockNode(raw: any): PlanNode {
+  const node: PlanNode = {
+    operation: "query_block",
+    selectId: toNumber(raw.select_id),
+    cost: toNumber(raw.cost_info?.query_cost),
+    message: raw.message,
+    children: [],
+  };
+  walk(raw, node, ["cost_info", "message"]);
+  return node;
+}
+
+/**
+ * 把 EXPLAIN FORMAT=JSON 的结果转换为步骤树
+ */
+export function parsePlan(json: any): PlanNode | null {
+  if (!json?.query_block) {
+    return null;
+  }
+  return queryBlockNode(json.query_block);
+}
+
+function flatten(node: PlanNode, result: PlanNode[] = []): PlanNode[] {
+  result.push(node);
+  node.children.forEach(child => flatten(child, result));
+  return result;
+}
+
+interface ColumnUse {
+  column: string;
+  // 等值条件可以放在索引前面，范围条件之后的列用不上索引
+  equality: boolean;
+}
+
+function isNameToken(token: Token | undefined): boolean {
+  return !!token && (token.type === "identifier" || token.type === "word");
+}
+
+function tokenText(condition: string, token: Token): string {
+  return token.type === "identifier" ? token.value : condition.slice(token.pos, token.end);
+}
+
+/**
+ * 从条件文本中找出属于某个表（别名）的列以及比较方式。
+ * MySQL 输出形如 `db`.`alias`.`column`，MariaDB 输出形如 alias.column。
+ */
+export function columnsInCondition(condition: string, alias: string): ColumnUse[] {
+  const tokens = tokenize(condition);
+  const uses = new Map<string, boolean>();
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isNameToken(tokens[i]) || tokens[i - 1]?.value === ".") {
+      continue;
+    }
+    // 收集 a.b 或 a.b.c
+    const parts = [tokenText(condition, tokens[i])];
+    let j = i;
+    while (tokens[j + 1]?.value === "." && isNameToken(tokens[j + 2])) {
+      parts.push(tokenText(condition, tokens[j + 2]));
+      j += 2;
+    }
+    if (parts.length < 2 || parts[parts.length - 2] !== alias) {
+      continue;
+    }
+    const column = parts[parts.length - 1];
+    const next = tokens[j + 1];
+    const after = tokens[j + 2];
+    const before = tokens[i - 1];
+    let equality: boolean | null = null;
+    if (next?.value === "=" || (next?.value === "<" && after?.value === "=" && tokens[j + 3]?.value === ">")) {
+      equality = true;
+    } else if (next?.value === "<" && after?.value === ">") {
+      equality = null;
+    } else if (next?.value === "<" || next?.value === ">") {
+      equality = false;
+    } else if (next?.type === "word" && next.value === "IN") {
+      equality = true;
+    } else if (next?.type === "word" && ["BETWEEN", "LIKE"].includes(next.value)) {
+      equality = false;
+    } else if (before?.value === "=" && tokens[i - 2]?.value !== "<" && tokens[i - 2]?.value !== "!" && tokens[i - 2]?.value !== ">") {
+      equality = true;
+    } else if (before?.value === "<" || before?.value === ">" || (before?.value === "=" && (tokens[i - 2]?.value === "<" || tokens[i - 2]?.value === ">"))) {
+      equality = false;
+    }
+    if (equality !== null) {
+      uses.set(column, (uses.get(column) ?? false) || equality);
+    }
+  }
+  return [...uses.entries()].map(([column, equality]) => ({ column, equality }));
+}
+
+interface TableMetadata {
+  ref: TableRef;
+  database: string;
+  columns: Map<string, string>;
+  indexes: IndexInfo[];
+}
+
+async function loadMetadata(connection: Queryable, ref: TableRef): Promise<TableMetadata | null> {
+  const [rows] = await connection.query(
+    `SELECT TABLE_SCHEMA AS tableSchema, COLUMN_NAME AS columnName, DATA_TYPE AS dataType
+     FROM information_schema.COLUMNS
+     WHERE TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ?
+     ORDER BY ORDINAL_POSITION`,
+    [ref.database || null, ref.table]
+  );
+  if ((rows as any[]).length === 0) {
+    return null;
+  }
+  const columns = new Map<string, string>();
+  for (const row of rows as any[]) {
+    columns.set(row.columnName.toLowerCase(), row.dataType);
+  }
+  const database = (rows as any[])[0].tableSchema;
+  return { ref, database, columns, indexes: await listIndexes(connection, { database, table: ref.table }) };
+}
+
+const PREFIX_TYPES = ["text", "tinytext", "mediumtext", "longtext", "blob", "tinyblob", "mediumblob", "longblob"];
+
+function quoteId(name: string): string {
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
+// 根据条件中的列生成候选索引：等值列在前、最多一个范围列在后；已有索引以这些列开头时不再建议
+function suggestIndex(meta: TableMetadata, uses: ColumnUse[], reason: string, notes: string[]): IndexSuggestion | null {
+  const known = uses.filter(use => meta.columns.has(use.column.toLowerCase()));
+  const equality = known.filter(use => use.equality).map(use => use.column);
+  const range = known.filter(use => !use.equality).map(use => use.column);
+  const columns = [...equality, ...range.slice(0, 1)].slice(0, 4);
+  if (columns.length === 0) {
+    return null;
+  }
+
+  const covered = meta.indexes.find(index =>
+    index.columns.length >= columns.length &&
+    columns.every((column, i) => index.columns[i].name?.toLowerCase() === column.toLowerCase())
+  );
+  if (covered) {
+    notes.push(`Index '${covered.name}' on ${meta.database}.${meta.ref.table} already starts with (${columns.join(", ")}) but was not used; check for type or collation mismatches, functions on the column, or outdated statistics (ANALYZE TABLE)`);
+    return null;
+  }
+
+  const parts = columns.map(column => {
+    const type = meta.columns.get(column.toLowerCase()) || "";
+    return PREFIX_TYPES.includes(type) ? `${quoteId(column)}(64)` : quoteId(column);
+  });
+  const name = `idx_${meta.ref.table}_${columns.join("_")}`.slice(0, 64);
+  return {
+    database: meta.database,
+    table: meta.ref.table,
+    columns,
+    reason,
+    sql: `CREATE INDEX ${quoteId(name)} ON ${quoteId(meta.database)}.${quoteId(meta.ref.table)} (${parts.join(", ")})`,
+  };
+}
+
+async function readVersion(connection: Queryable): Promise<string> {
+  const [rows] = await connection.query("SELECT VERSION() AS version");
+  return String((rows as any[])[0]?.version || "");
+}
+
+// MySQL 8.0.18 开始支持 EXPLAIN ANALYZE；MariaDB 的 ANALYZE 语法不同，不支持
+function supportsAnalyze(version: string): boolean {
+  if (/mariadb/i.test(version)) {
+    return false;
+  }
+  const [major, minor, patch] = version.split(/[.-]/).map(part => parseInt(part, 10));
+  return major > 8 || (major === 8 && (minor > 0 || patch >= 18));
+}
+
+/**
+ * 执行 EXPLAIN FORMAT=JSON（可选 EXPLAIN ANALYZE）并分析执行计划
+ */
+export async function explainQuery(connection: Queryable, sql: string, options: ExplainOptions): Promise<ExplainReport> {
+  const analysis = analyzeStatement(sql);
+  if (analysis.statementCount !== 1) {
+    throw new Error("explain_query accepts exactly one statement");
+  }
+  if (!EXPLAINABLE.includes(analysis.verb)) {
+    throw new Error(`Cannot explain ${analysis.verb} statements; pass a SELECT, INSERT, REPLACE, UPDATE or DELETE statement without the EXPLAIN keyword`);
+  }
+
+  const notes: string[] = [];
+  const [rows] = await connection.query(`EXPLAIN FORMAT=JSON ${sql}`);
+  const first = (rows as any[])[0] || {};
+  const text = first.EXPLAIN ?? Object.values(first)[0];
+  const rawPlan = typeof text === "string" ? JSON.parse(text) : text;
+  const plan = parsePlan(rawPlan);
+
+  const report: ExplainReport = {
+    cost: plan?.cost ?? null,
+    plan,
+    issues: [],
+    suggestions: [],
+    notes,
+  };
+
+  if (options.analyze) {
+    const version = await readVersion(connection);
+    if (supportsAnalyze(version)) {
+      const [analyzed] = await connection.query(`EXPLAIN ANALYZE ${sql}`);
+      const row = (analyzed as any[])[0] || {};
+      report.analyze = String(row.EXPLAIN ?? Object.values(row)[0] ?? "");
+    } else {
+      notes.push(`EXPLAIN ANALYZE needs MySQL 8.0.18 or later (server version ${version})`);
+    }
+  }
+
+  const metadata = new Map<string, TableMetadata | null>();
+  const metadataFor = async (alias: string) => {
+    if (!metadata.has(alias)) {
+      const ref = analysis.aliases[alias] || { table: alias };
+      try {
+        metadata.set(alias, await loadMetadata(connection, ref));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        notes.push(`Could not read metadata of ${ref.table}: ${errorMessage}`);
+        metadata.set(alias, null);
+      }
+    }
+    return metadata.get(alias) || null;
+  };
+
+  const nodes = plan ? flatten(plan) : [];
+  const joinedTables = new Set<PlanNode>();
+  for (const node of nodes.filter(node => node.operation === "nested_loop")) {
+    node.children.filter(child => child.operation === "table").slice(1).forEach(child => joinedTables.add(child));
+  }
+
+  for (const node of nodes) {
+    if (node.message) {
+      report.issues.push({ severity: "info", message: node.message });
+    }
+    if (node.usingFilesort) {
+      report.issues.push({ severity: "info", message: "Sorting with filesort; an index matching the ORDER BY (after the equality columns of WHERE) can avoid it" });
+    }
+    if (node.usingTemporary) {
+      report.issues.push({ severity: "warning", message: "Uses a temporary table (GROUP BY, DISTINCT, UNION or ORDER BY on a joined table)" });
+    }
+    if (node.operation === "subquery" && node.dependent) {
+      report.issues.push({ severity: "warning", message: "Dependent subquery is executed once per outer row; consider rewriting it as a JOIN" });
+    }
+    if (node.operation !== "table" || !node.table || node.table.startsWith("<")) {
+      continue;
+    }
+
+    const rowsExamined = node.rowsExamined ?? 0;
+    const large = rowsExamined >= options.largeScanRows;
+    const joined = joinedTables.has(node);
+    const table = node.table;
+
+    if (node.accessType === "ALL") {
+      if (joined) {
+        report.issues.push({ severity: "warning", table, message: `No index used to join ${table}: every row of the previous tables scans ~${rowsExamined} rows${node.usingJoinBuffer ? ` (join buffer: ${node.usingJoinBuffer})` : ""}` });
+      } else if (large) {
+        report.issues.push({ severity: "warning", table, message: `Full table scan on ${table} (~${rowsExamined} rows)` });
+      }
+    } else if (node.accessType === "index" && large && !node.usingIndex) {
+      report.issues.push({ severity: "info", table, message: `Full index scan on ${table} using ${node.key} (~${rowsExamined} rows)` });
+    }
+    if (node.possibleKeys?.length && !node.key && large) {
+      report.issues.push({ severity: "warning", table, message: `Possible indexes (${node.possibleKeys.join(", ")}) on ${table} were not chosen; statistics may be outdated (ANALYZE TABLE) or the condition matches too many rows` });
+    }
+    if (node.filtered !== undefined && node.filtered < 10 && large && node.accessType !== "ALL") {
+      report.issues.push({ severity: "info", table, message: `Only ${node.filtered}% of ${rowsExamined} rows read from ${table} match the remaining conditions; a more selective index could read fewer rows` });
+    }
+
+    if ((node.accessType === "ALL" && (large || joined)) || (node.possibleKeys?.length && !node.key && large)) {
+      const uses = node.condition ? columnsInCondition(node.condition, table) : [];
+      const meta = uses.length > 0 ? await metadataFor(table) : null;
+      const suggestion = meta && suggestIndex(meta, uses, joined ? "join columns without an index" : "filter columns of a full table scan", notes);
+      if (suggestion && !report.suggestions.some(item => item.sql === suggestion.sql)) {
+        report.suggestions.push(suggestion);
+      }
+    }
+  }
+
+  if (options.includeRaw) {
+    report.rawPlan = rawPlan;
+  }
+  return report;
+}
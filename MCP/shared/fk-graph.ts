@@ -0,0 +1,316 @@
+// 外键关系图：从 information_schema 读取外键，可限定为某张表周围 N 跳，输出 Mermaid erDiagram、Graphviz DOT 或 JSON 邻接表
+import { ReferentialAction } from "./ddl-builder.js";
+import { listIndexes } from "./index-inspector.js";
+import { Queryable } from "./types.js";
+
+export const GRAPH_FORMATS = ["mermaid", "dot", "json"] as const;
+export type GraphFormat = typeof GRAPH_FORMATS[number];
+
+// 节点中列出的列：全部、只有主键和外键列、不列出
+export const GRAPH_COLUMNS = ["all", "keys", "none"] as const;
+export type GraphColumns = typeof GRAPH_COLUMNS[number];
+
+export interface ForeignKeyEdge {
+  name: string;
+  // 定义外键的表
+  database: string;
+  table: string;
+  columns: string[];
+  referencedDatabase: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  // information_schema.REFERENTIAL_CONSTRAINTS 的 UPDATE_RULE / DELETE_RULE
+  onUpdate: ReferentialAction;
+  onDelete: ReferentialAction;
+}
+
+export interface GraphColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  // PK、FK、UK
+  keys: string[];
+}
+
+export interface GraphNode {
+  // 同库的表为表名，其他库的表为 database.table
+  id: string;
+  database: string;
+  table: string;
+  columns: GraphColumn[];
+}
+
+export interface GraphEdge extends ForeignKeyEdge {
+  from: string;
+  to: string;
+  // 外键列非空时每行必须引用一行，外键列唯一时为一对一
+  required: boolean;
+  unique: boolean;
+}
+
+export interface RelationshipGraph {
+  database: string;
+  // 指定了起点表时的起点和跳数
+  root?: string;
+  depth?: number;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphOptions {
+  // 为空时使用连接的当前数据库
+  database?: string | null;
+  // 只保留与该表相距不超过 depth 跳的表
+  table?: string | null;
+  depth: number;
+  columns: GraphColumns;
+  // 额外的表过滤（如权限策略）
+  allowTable?: (database: string, table: string) => boolean;
+}
+
+/**
+ * 读取数据库中定义的外键（包括引用其他库的外键），按外键和列顺序分组
+ */
+export async function readForeignKeys(connection: Queryable, database: string): Promise<ForeignKeyEdge[]> {
+  const [rows] = await connection.query(
+    `SELECT k.TABLE_SCHEMA AS tableSchema, k.TABLE_NAME AS tableName, k.CONSTRAINT_NAME AS name, k.COLUMN_NAME AS columnName,
+            k.REFERENCED_TABLE_SCHEMA AS referencedDatabase, k.REFERENCED_TABLE_NAME AS referencedTable,
+            k.REFERENCED_COLUMN_NAME AS referencedColumn, r.UPDATE_RULE AS onUpdate, r.DELETE_RULE AS onDelete
+     FROM information_schema.KEY_COLUMN_USAGE k
+     JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+       ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME AND r.TABLE_NAME = k.TABLE_NAME
+     WHERE k.TABLE_SCHEMA = ? AND k.REFERENCED_TABLE_NAME IS NOT NULL
+     ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`,
+    [database]
+  );
+  const keys = new Map<string, ForeignKeyEdge>();
+  for (const row of rows as any[]) {
+    const id = `${row.tableName}.${row.name}`;
+    let key = keys.get(id);
+    if (!key) {
+      key = {
+        name: row.name,
+        database: row.tableSchema,
+        table: row.tableName,
+        columns: [],
+        referencedDatabase: row.referencedDatabase,
+        referencedTable: row.referencedTable,
+        referencedColumns: [],
+        onUpdate: row.onUpdate,
+        onDelete: row.onDelete,
+      };
+      keys.set(id, key);
+    }
+    key.columns.push(row.columnName);
+    key.referencedColumns.push(row.referencedColumn);
+  }
+  return [...keys.values()];
+}
+
+// 从起点表出发，沿外键双向遍历 depth 跳
+function reachable(root: string, depth: number, edges: GraphEdge[]): Set<string> {
+  const visited = new Set([root]);
+  let frontier = [root];
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const edge of edges) {
+      for (const [from, to] of [[edge.from, edge.to], [edge.to, edge.from]]) {
+        if (frontier.includes(from) && !visited.has(to)) {
+          visited.add(to);
+          next.push(to);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return visited;
+}
+
+/**
+ * 构建外键关系图。指定 table 时只保留与它相距不超过 depth 跳的表和它们之间的外键。
+ */
+export async function buildRelationshipGraph(connection: Queryable, options: GraphOptions): Promise<RelationshipGraph> {
+  const [databaseRows] = await connection.query("SELECT COALESCE(?, DATABASE()) AS name", [options.database || null]);
+  const database = (databaseRows as any[])[0]?.name;
+  if (!database) {
+    throw new Error("No database selected; pass database");
+  }
+  const allow = (db: string, table: string) => !options.allowTable || options.allowTable(db, table);
+  const nodeId = (db: string, table: string) => (db === database ? table : `${db}.${table}`);
+
+  const [columnRows] = await connection.query(
+    `SELECT TABLE_NAME AS \`table\`, COLUMN_NAME AS name, DATA_TYPE AS type, IS_NULLABLE AS nullable, COLUMN_KEY AS \`key\`
+     FROM information_schema.COLUMNS c
+     WHERE TABLE_SCHEMA = ? AND EXISTS (
+       SELECT 1 FROM information_schema.TABLES t
+       WHERE t.TABLE_SCHEMA = c.TABLE_SCHEMA AND t.TABLE_NAME = c.TABLE_NAME AND t.TABLE_TYPE = 'BASE TABLE'
+     )
+     ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+    [database]
+  );
+  const nodes = new Map<string, GraphNode>();
+  for (const row of columnRows as any[]) {
+    if (!allow(database, row.table)) {
+      continue;
+    }
+    let node = nodes.get(row.table);
+    if (!node) {
+      node = { id: row.table, database, table: row.table, columns: [] };
+      nodes.set(row.table, node);
+    }
+    node.columns.push({ name: row.name, type: row.type, nullable: row.nullable === "YES", keys: row.key === "PRI" ? ["PK"] : [] });
+  }
+
+  if (options.table && !nodes.has(options.table)) {
+    throw new Error(`Table ${database}.${options.table} does not exist`);
+  }
+
+  // 外键列与某个唯一索引的列完全相同时为一对一关系
+  const uniqueKeys = (await listIndexes(connection, { database }))
+    .filter(index => index.unique)
+    .map(index => ({ table: index.table, columns: index.columns.map(column => column.name) }));
+  const isUnique = (table: string, columns: string[]) => uniqueKeys.some(key =>
+    key.table === table && key.columns.length === columns.length && key.columns.every(column => column !== null && columns.includes(column))
+  );
+
+  let edges: GraphEdge[] = [];
+  for (const key of await readForeignKeys(connection, database)) {
+    if (!nodes.has(key.table) || !allow(key.referencedDatabase, key.referencedTable)) {
+      continue;
+    }
+    const node = nodes.get(key.table) as GraphNode;
+    const columns = node.columns.filter(column => key.columns.includes(column.name));
+    columns.forEach(column => {
+      if (!column.keys.includes("FK")) {
+        column.keys.push("FK");
+      }
+    });
+    const unique = isUnique(key.table, key.columns);
+    if (unique) {
+      columns.forEach(column => {
+        if (!column.keys.includes("PK") && !column.keys.includes("UK")) {
+          column.keys.push("UK");
+        }
+      });
+    }
+    const to = nodeId(key.referencedDatabase, key.referencedTable);
+    // 其他库中被引用的表只作为没有列的节点出现
+    if (!nodes.has(to)) {
+      nodes.set(to, { id: to, database: key.referencedDatabase, table: key.referencedTable, columns: [] });
+    }
+    edges.push({ ...key, from: key.table, to, required: columns.every(column => !column.nullable), unique });
+  }
+
+  let included = [...nodes.keys()];
+  if (options.table) {
+    const visible = reachable(options.table, options.depth, edges);
+    included = included.filter(id => visible.has(id));
+    edges = edges.filter(edge => visible.has(edge.from) && visible.has(edge.to));
+  }
+
+  const graphNodes = included.map(id => {
+    const node = nodes.get(id) as GraphNode;
+    if (options.columns === "none") {
+      return { ...node, columns: [] };
+    }
+    if (options.columns === "keys") {
+      return { ...node, columns: node.columns.filter(column => column.keys.length > 0) };
+    }
+    return node;
+  });
+
+  const graph: RelationshipGraph = { database, nodes: graphNodes, edges };
+  if (options.table) {
+    graph.root = options.table;
+    graph.depth = options.depth;
+  }
+  return graph;
+}
+
+// Mermaid 的实体名和属性名只能包含字母、数字、下划线和连字符
+function mermaidName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+/**
+ * 输出 Mermaid erDiagram。被引用表一侧为 ||（外键列可空时为 |o），引用表一侧为 o{（一对一时为 o|）。
+ */
+export function toMermaid(graph: RelationshipGraph): string {
+  const lines = ["erDiagram"];
+  for (const node of graph.nodes) {
+    if (node.columns.length === 0) {
+      lines.push(`  ${mermaidName(node.id)}`);
+      continue;
+    }
+    lines.push(`  ${mermaidName(node.id)} {`);
+    for (const column of node.columns) {
+      const keys = column.keys.length > 0 ? ` ${column.keys.join(", ")}` : "";
+      lines.push(`    ${mermaidName(column.type)} ${mermaidName(column.name)}${keys}`);
+    }
+    lines.push("  }");
+  }
+  for (const edge of graph.edges) {
+    const parent = edge.required ? "||" : "|o";
+    const child = edge.unique ? "o|" : "o{";
+    lines.push(`  ${mermaidName(edge.to)} ${parent}--${child} ${mermaidName(edge.from)} : "${edge.columns.join(", ").replace(/"/g, "'")}"`);
+  }
+  return lines.join("\n");
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// record 标签中 { } | < > 和空格有特殊含义
+function recordText(value: string): string {
+  return value.replace(/[\\{}|<>" ]/g, char => `\\${char}`);
+}
+
+/**
+ * 输出 Graphviz DOT，边从引用表指向被引用表，标签为外键列
+ */
+export function toDot(graph: RelationshipGraph): string {
+  const lines = [`digraph ${dotString(graph.database)} {`, "  rankdir=LR;", "  node [shape=record, fontsize=10];", "  edge [fontsize=9];"];
+  for (const node of graph.nodes) {
+    const columns = node.columns.map(column => `${recordText(column.name)}\\ ${recordText(column.type)}${column.keys.length > 0 ? `\\ (${column.keys.join(",")})` : ""}\\l`);
+    const label = columns.length > 0 ? `{${recordText(node.id)}|${columns.join("")}}` : recordText(node.id);
+    // recordText 已经转义了引号和反斜杠，\l 等转义序列需要原样保留
+    lines.push(`  ${dotString(node.id)} [label="${label}"];`);
+  }
+  for (const edge of graph.edges) {
+    const label = `${edge.columns.join(", ")} -> ${edge.referencedColumns.join(", ")}`;
+    const style = edge.required ? "" : ", style=dashed";
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [label=${dotString(label)}${style}];`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * 输出 JSON 邻接表：每张表引用的表和引用它的表
+ */
+export function toAdjacency(graph: RelationshipGraph) {
+  const adjacency: Record<string, { references: string[]; referencedBy: string[] }> = {};
+  for (const node of graph.nodes) {
+    adjacency[node.id] = { references: [], referencedBy: [] };
+  }
+  for (const edge of graph.edges) {
+    if (!adjacency[edge.from].references.includes(edge.to)) {
+      adjacency[edge.from].references.push(edge.to);
+    }
+    if (!adjacency[edge.to].referencedBy.includes(edge.from)) {
+      adjacency[edge.to].referencedBy.push(edge.from);
+    }
+  }
+  return { ...graph, adjacency };
+}
+
+export function formatGraph(graph: RelationshipGraph, format: GraphFormat): string {
+  if (format === "mermaid") {
+    return toMermaid(graph);
+  }
+  if (format === "dot") {
+    return toDot(graph);
+  }
+  return JSON.stringify(toAdjacency(graph), null, 2);
+}
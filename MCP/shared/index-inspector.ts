@@ -0,0 +1,237 @@
+// 索引信息：列出索引、查找重复/冗余索引，以及从 sys / performance_schema 读取未使用的索引
+import { Queryable } from "./types.js";
+
+export interface IndexColumnInfo {
+  name: string | null;
+  // 函数索引的表达式（MySQL 8.0.13+）
+  expression?: string | null;
+  // 前缀索引长度
+  subPart: number | null;
+  order: "ASC" | "DESC" | null;
+  nullable: boolean;
+}
+
+export interface IndexInfo {
+  database: string;
+  table: string;
+  name: string;
+  unique: boolean;
+  primary: boolean;
+  type: string;
+  columns: IndexColumnInfo[];
+  // 基数估计，取索引最后一列的值
+  cardinality: number | null;
+  visible: boolean;
+  comment: string;
+}
+
+export interface RedundantIndex {
+  database: string;
+  table: string;
+  index: string;
+  columns: string[];
+  // 覆盖它的索引
+  coveredBy: string;
+  coveredByColumns: string[];
+  reason: "duplicate" | "prefix";
+}
+
+export interface UnusedIndex {
+  database: string;
+  table: string;
+  index: string;
+}
+
+export interface IndexUsageReport {
+  // 未使用索引的数据来源，不可用时为 null
+  source: "sys.schema_unused_indexes" | "performance_schema" | null;
+  unused: UnusedIndex[];
+  redundant: RedundantIndex[];
+  // 统计从服务器启动开始累计
+  uptimeSeconds: number | null;
+  notes: string[];
+}
+
+export interface IndexFilter {
+  // 为空时使用连接的当前数据库
+  database?: string | null;
+  // 为空时包含数据库中的所有表
+  table?: string | null;
+}
+
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function columnLabel(column: IndexColumnInfo): string {
+  const name = column.name ?? `(${column.expression})`;
+  return column.subPart !== null ? `${name}(${column.subPart})` : name;
+}
+
+/**
+ * 按索引汇总 information_schema.STATISTICS，兼容没有 IS_VISIBLE / EXPRESSION 列的旧版本
+ */
+export async function listIndexes(connection: Queryable, filter: IndexFilter): Promise<IndexInfo[]> {
+  const conditions = ["TABLE_SCHEMA = COALESCE(?, DATABASE())"];
+  const values: any[] = [filter.database || null];
+  if (filter.table) {
+    conditions.push("TABLE_NAME = ?");
+    values.push(filter.table);
+  }
+  const [rows] = await connection.query(
+    `SELECT * FROM information_schema.STATISTICS WHERE ${conditions.join(" AND ")} ORDER BY TABLE_NAME, INDEX_NAME = 'PRIMARY' DESC, INDEX_NAME, SEQ_IN_INDEX`,
+    values
+  );
+
+  const indexes = new Map<string, IndexInfo>();
+  for (const row of rows as any[]) {
+    const key = `${row.TABLE_SCHEMA}.${row.TABLE_NAME}.${row.INDEX_NAME}`;
+    let index = indexes.get(key);
+    if (!index) {
+      index = {
+        database: row.TABLE_SCHEMA,
+        table: row.TABLE_NAME,
+        name: row.INDEX_NAME,
+        unique: String(row.NON_UNIQUE) === "0",
+        primary: row.INDEX_NAME === "PRIMARY",
+        type: row.INDEX_TYPE,
+        columns: [],
+        cardinality: null,
+        // MySQL 8.0 为 IS_VISIBLE，MariaDB 10.6+ 为 IGNORED
+        visible: row.IS_VISIBLE !== undefined ? row.IS_VISIBLE === "YES" : row.IGNORED !== "YES",
+        comment: row.INDEX_COMMENT || "",
+      };
+      indexes.set(key, index);
+    }
+    index.columns.push({
+      name: row.COLUMN_NAME,
+      expression: row.EXPRESSION ?? null,
+      subPart: toNumber(row.SUB_PART),
+      order: row.COLLATION === "A" ? "ASC" : row.COLLATION === "D" ? "DESC" : null,
+      nullable: row.NULLABLE === "YES",
+    });
+    index.cardinality = toNumber(row.CARDINALITY);
+  }
+  return [...indexes.values()];
+}
+
+function sameColumn(a: IndexColumnInfo, b: IndexColumnInfo): boolean {
+  return a.name === b.name && a.expression === b.expression && a.subPart === b.subPart && a.order === b.order;
+}
+
+/**
+ * 查找重复或冗余的 BTREE 索引：列与另一个索引完全相同，或是另一个索引的最左前缀。
+ * 唯一索引只在与另一个唯一索引列完全相同时才算重复，因为它同时承担约束。
+ */
+export function findRedundantIndexes(indexes: IndexInfo[]): RedundantIndex[] {
+  const result: RedundantIndex[] = [];
+  const byTable = new Map<string, IndexInfo[]>();
+  for (const index of indexes) {
+    const key = `${index.database}.${index.table}`;
+    byTable.set(key, [...(byTable.get(key) || []), index]);
+  }
+
+  for (const tableIndexes of byTable.values()) {
+    const candidates = tableIndexes.filter(index => index.type === "BTREE");
+    for (const index of candidates) {
+      if (index.primary) {
+        continue;
+      }
+      for (const other of candidates) {
+        if (other === index || other.columns.length < index.columns.length) {
+          continue;
+        }
+        if (!index.columns.every((column, i) => sameColumn(column, other.columns[i]))) {
+          continue;
+        }
+        const duplicate = other.columns.length === index.columns.length;
+        if (index.unique && !(duplicate && other.unique)) {
+          continue;
+        }
+        // 两个索引互为重复时只报告排在后面的那个
+        if (duplicate && index.unique === other.unique && !other.primary && tableIndexes.indexOf(other) > tableIndexes.indexOf(index)) {
+          continue;
+        }
+        result.push({
+          database: index.database,
+          table: index.table,
+          index: index.name,
+          columns: index.columns.map(columnLabel),
+          coveredBy: other.name,
+          coveredByColumns: other.columns.map(columnLabel),
+          reason: duplicate ? "duplicate" : "prefix",
+        });
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 未使用的索引：优先读取 sys.schema_unused_indexes，不可用时直接读取
+ * performance_schema.table_io_waits_summary_by_index_usage
+ */
+async function findUnusedIndexes(connection: Queryable, filter: IndexFilter, notes: string[]): Promise<{ source: IndexUsageReport["source"]; unused: UnusedIndex[] }> {
+  const values = [filter.database || null, filter.table || null, filter.table || null];
+  try {
+    const [rows] = await connection.query(
+      `SELECT object_schema AS \`database\`, object_name AS \`table\`, index_name AS \`index\`
+       FROM sys.schema_unused_indexes
+       WHERE object_schema = COALESCE(?, DATABASE()) AND (? IS NULL OR object_name = ?)
+       ORDER BY object_name, index_name`,
+      values
+    );
+    return { source: "sys.schema_unused_indexes", unused: rows as UnusedIndex[] };
+  } catch (error) {
+    notes.push(`sys.schema_unused_indexes is not available: ${errorText(error)}`);
+  }
+  try {
+    const [rows] = await connection.query(
+      `SELECT OBJECT_SCHEMA AS \`database\`, OBJECT_NAME AS \`table\`, INDEX_NAME AS \`index\`
+       FROM performance_schema.table_io_waits_summary_by_index_usage
+       WHERE INDEX_NAME IS NOT NULL AND INDEX_NAME <> 'PRIMARY' AND COUNT_STAR = 0
+         AND OBJECT_SCHEMA = COALESCE(?, DATABASE()) AND (? IS NULL OR OBJECT_NAME = ?)
+       ORDER BY OBJECT_NAME, INDEX_NAME`,
+      values
+    );
+    return { source: "performance_schema", unused: rows as UnusedIndex[] };
+  } catch (error) {
+    notes.push(`performance_schema index statistics are not available: ${errorText(error)}`);
+  }
+  return { source: null, unused: [] };
+}
+
+/**
+ * 汇总未使用和重复/冗余的索引
+ */
+export async function indexUsageReport(connection: Queryable, filter: IndexFilter): Promise<IndexUsageReport> {
+  const notes: string[] = [];
+  const indexes = await listIndexes(connection, filter);
+  const { source, unused } = await findUnusedIndexes(connection, filter, notes);
+
+  let uptimeSeconds: number | null = null;
+  try {
+    const [rows] = await connection.query("SHOW GLOBAL STATUS LIKE 'Uptime'");
+    uptimeSeconds = toNumber((rows as any[])[0]?.Value);
+  } catch (error) {
+    notes.push(`Could not read server uptime: ${errorText(error)}`);
+  }
+  if (source) {
+    notes.push("Usage statistics are collected since the server started; an index used only by rare jobs (monthly reports, batch jobs) may still show as unused");
+  }
+
+  // 唯一索引承担约束，即使没有被查询使用也不能直接删除
+  const uniqueIndexes = new Set(indexes.filter(index => index.unique).map(index => `${index.database}.${index.table}.${index.name}`));
+  return {
+    source,
+    unused: unused.filter(index => !uniqueIndexes.has(`${index.database}.${index.table}.${index.index}`)),
+    redundant: findRedundantIndexes(indexes),
+    uptimeSeconds,
+    notes,
+  };
+}
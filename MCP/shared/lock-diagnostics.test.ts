@@ -0,0 +1,194 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildLockChains, parseDeadlock, LockChainNode, LockWait } from "./lock-diagnostics.js";
+
+// SHOW ENGINE INNODB STATUS 中死锁部分前后的内容，解析只依赖分隔行和部分标题
+function innodbStatus(deadlock: string): string {
+  return [
+    "",
+    "=====================================",
+    "2024-03-05 10:15:22 0x7f3c2c1f9700 INNODB MONITOR OUTPUT",
+    "=====================================",
+    "Per second averages calculated from the last 12 seconds",
+    "-----------------",
+    "BACKGROUND THREAD",
+    "-----------------",
+    "srv_master_thread loops: 120 srv_active, 0 srv_shutdown, 3450 srv_idle",
+    "------------------------",
+    "LATEST DETECTED DEADLOCK",
+    "------------------------",
+    deadlock,
+    "------------",
+    "TRANSACTIONS",
+    "------------",
+    "Trx id counter 421940",
+    "",
+  ].join("\n");
+}
+
+const MYSQL57 = `2024-03-05 10:14:58 0x7f3c2c1f9700
+*** (1) TRANSACTION:
+TRANSACTION 421937, ACTIVE 12 sec starting index read
+mysql tables in use 1, locked 1
+LOCK WAIT 3 lock struct(s), heap size 1136, 2 row lock(s)
+MySQL thread id 12, OS thread handle 139896361621248, query id 1234 localhost root updating
+UPDATE accounts SET balance = balance - 10 WHERE id = 2
+*** (1) WAITING FOR THIS LOCK TO BE GRANTED:
+RECORD LOCKS space id 45 page no 3 n bits 72 index \`PRIMARY\` of table \`bank\`.\`accounts\` trx id 421937 lock_mode X locks rec but not gap waiting
+Record lock, heap no 3 PHYSICAL RECORD: n_fields 5; compact format; info bits 0
+ 0: len 4; hex 80000002; asc     ;;
+ 1: len 6; hex 000000067031; asc     p1;;
+
+*** (2) TRANSACTION:
+TRANSACTION 421938, ACTIVE 8 sec starting index read
+mysql tables in use 1, locked 1
+3 lock struct(s), heap size 1136, 2 row lock(s)
+MySQL thread id 13, OS thread handle 139896361355008, query id 1235 10.0.0.5 app updating
+UPDATE accounts
+   SET balance = balance + 10
+ WHERE id = 1
+*** (2) HOLDS THE LOCK(S):
+RECORD LOCKS space id 45 page no 3 n bits 72 index \`PRIMARY\` of table \`bank\`.\`accounts\` trx id 421938 lock_mode X locks rec but not gap
+Record lock, heap no 3 PHYSICAL RECORD: n_fields 5; compact format; info bits 0
+ 0: len 4; hex 80000002; asc     ;;
+
+*** (2) WAITING FOR THIS LOCK TO BE GRANTED:
+RECORD LOCKS space id 45 page no 3 n bits 72 index \`PRIMARY\` of table \`bank\`.\`accounts\` trx id 421938 lock_mode X locks rec but not gap waiting
+Record lock, heap no 2 PHYSICAL RECORD: n_fields 5; compact format; info bits 0
+ 0: len 4; hex 80000001; asc     ;;
+
+*** WE ROLL BACK TRANSACTION (2)`;
+
+// 8.0.18 起等待方也列出持有的锁，时间后面是十进制的线程号
+const MYSQL80 = `2024-03-05 10:14:58 140179543340800
+*** (1) TRANSACTION:
+TRANSACTION 2077, ACTIVE 9 sec starting index read
+mysql tables in use 1, locked 1
+LOCK WAIT 3 lock struct(s), heap size 1128, 2 row lock(s)
+MySQL thread id 8, OS thread handle 140179836872448, query id 27 localhost root executing
+UPDATE orders SET status = 'paid' WHERE id = 2
+
+*** (1) HOLDS THE LOCK(S):
+RECORD LOCKS space id 2 page no 4 n bits 72 index PRIMARY of table \`shop\`.\`orders\` trx id 2077 lock_mode X locks rec but not gap
+Record lock, heap no 2 PHYSICAL RECORD: n_fields 4; compact format; info bits 0
+ 0: len 4; hex 80000001; asc     ;;
+
+
+*** (1) WAITING FOR THIS LOCK TO BE GRANTED:
+RECORD LOCKS space id 2 page no 4 n bits 72 index PRIMARY of table \`shop\`.\`orders\` trx id 2077 lock_mode X locks rec but not gap waiting
+Record lock, heap no 3 PHYSICAL RECORD: n_fields 4; compact format; info bits 0
+ 0: len 4; hex 80000002; asc     ;;
+
+
+*** (2) TRANSACTION:
+TRANSACTION 2078, ACTIVE 6 sec inserting
+mysql tables in use 1, locked 1
+LOCK WAIT 4 lock struct(s), heap size 1128, 3 row lock(s)
+MySQL thread id 9, OS thread handle 140179835815680, query id 28 10.0.0.7 shop update
+INSERT INTO orders (id, status) VALUES (1, 'new')
+
+*** (2) HOLDS THE LOCK(S):
+TABLE LOCK table \`shop\`.\`orders\` trx id 2078 lock mode IX
+RECORD LOCKS space id 2 page no 4 n bits 72 index PRIMARY of table \`shop\`.\`orders\` trx id 2078 lock_mode X locks rec but not gap
+Record lock, heap no 3 PHYSICAL RECORD: n_fields 4; compact format; info bits 0
+ 0: len 4; hex 80000002; asc     ;;
+
+
+*** (2) WAITING FOR THIS LOCK TO BE GRANTED:
+RECORD LOCKS space id 2 page no 4 n bits 72 index PRIMARY of table \`shop\`.\`orders\` trx id 2078 lock mode S waiting
+Record lock, heap no 2 PHYSICAL RECORD: n_fields 4; compact format; info bits 0
+ 0: len 4; hex 80000001; asc     ;;
+
+*** WE ROLL BACK TRANSACTION (1)`;
+
+test("parseDeadlock reads a MySQL 5.7 deadlock", () => {
+  const deadlock = parseDeadlock(innodbStatus(MYSQL57));
+  assert.ok(deadlock);
+  assert.equal(deadlock.detectedAt, "2024-03-05 10:14:58");
+  assert.equal(deadlock.rolledBack, 2);
+  assert.equal(deadlock.raw, undefined);
+  const [first, second] = deadlock.transactions;
+  assert.deepEqual(first, {
+    number: 1,
+    trxId: "421937",
+    activeSeconds: 12,
+    threadId: 12,
+    queryId: 1234,
+    user: "root",
+    host: "localhost",
+    statement: "UPDATE accounts SET balance = balance - 10 WHERE id = 2",
+    holds: [],
+    waitingFor: [{ type: "RECORD", table: "`bank`.`accounts`", index: "PRIMARY", mode: "X locks rec but not gap" }],
+    rolledBack: false,
+  });
+  assert.equal(second.host, "10.0.0.5");
+  assert.equal(second.user, "app");
+  assert.equal(second.statement, "UPDATE accounts\n   SET balance = balance + 10\n WHERE id = 1");
+  assert.equal(second.holds.length, 1);
+  assert.equal(second.waitingFor.length, 1);
+  assert.equal(second.rolledBack, true);
+});
+
+test("parseDeadlock reads a MySQL 8.0 deadlock with table locks", () => {
+  const deadlock = parseDeadlock(innodbStatus(MYSQL80), true);
+  assert.ok(deadlock);
+  assert.equal(deadlock.detectedAt, "2024-03-05 10:14:58");
+  assert.equal(deadlock.raw, MYSQL80);
+  assert.deepEqual(deadlock.transactions.map(trx => [trx.number, trx.trxId, trx.threadId, trx.rolledBack]), [
+    [1, "2077", 8, true],
+    [2, "2078", 9, false],
+  ]);
+  const [first, second] = deadlock.transactions;
+  assert.equal(first.statement, "UPDATE orders SET status = 'paid' WHERE id = 2");
+  assert.deepEqual(first.holds, [{ type: "RECORD", table: "`shop`.`orders`", index: "PRIMARY", mode: "X locks rec but not gap" }]);
+  assert.equal(second.statement, "INSERT INTO orders (id, status) VALUES (1, 'new')");
+  assert.deepEqual(second.holds.map(lock => [lock.type, lock.index, lock.mode]), [
+    ["TABLE", null, "IX"],
+    ["RECORD", "PRIMARY", "X locks rec but not gap"],
+  ]);
+  assert.deepEqual(second.waitingFor, [{ type: "RECORD", table: "`shop`.`orders`", index: "PRIMARY", mode: "S" }]);
+});
+
+test("parseDeadlock returns null when no deadlock has been detected", () => {
+  const status = innodbStatus("").replace(/-+\nLATEST DETECTED DEADLOCK\n-+\n\n/, "");
+  assert.equal(parseDeadlock(status), null);
+});
+
+function wait(blocking: string, waiting: string, table = "app.orders"): LockWait {
+  return {
+    waitingPid: Number(waiting),
+    waitingTrxId: waiting,
+    waitingQuery: `UPDATE by ${waiting}`,
+    waitSeconds: 5,
+    waitingLockMode: "X,REC_NOT_GAP",
+    blockingPid: Number(blocking),
+    blockingTrxId: blocking,
+    blockingQuery: null,
+    blockingLockMode: "X,REC_NOT_GAP",
+    lockedTable: table,
+    lockedIndex: "PRIMARY",
+    lockType: "RECORD",
+  };
+}
+
+// 只保留事务号，便于比较树的形状
+function shape(node: LockChainNode): any {
+  return node.waiters.length > 0 ? { [node.trxId]: node.waiters.map(shape) } : node.trxId;
+}
+
+test("buildLockChains roots chains at blockers that are not waiting", () => {
+  // 1 阻塞 2 和 3，2 阻塞 4；4 同时等待 1 持有的另一个锁
+  const chains = buildLockChains([wait("1", "2"), wait("1", "3"), wait("2", "4"), wait("1", "4", "app.users")]);
+  assert.deepEqual(chains.map(shape), [{ 1: [{ 2: ["4"] }, "3", "4"] }]);
+  assert.equal(chains[0].pid, 1);
+  assert.equal(chains[0].waitSeconds, null);
+  assert.equal(chains[0].waiters[2].lockedTable, "app.users");
+});
+
+test("buildLockChains expands a cycle once and stops at the repeated transaction", () => {
+  // 10 → 11 → 12 → 10 形成环，20 等待环中的 11
+  const chains = buildLockChains([wait("10", "11"), wait("11", "12"), wait("12", "10"), wait("11", "20")]);
+  assert.equal(chains.length, 1);
+  assert.deepEqual(shape(chains[0]), { 10: [{ 11: [{ 12: ["10"] }, "20"] }] });
+  assert.deepEqual(buildLockChains([]), []);
+});
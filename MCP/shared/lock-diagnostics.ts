@@ -0,0 +1,319 @@
+// 锁诊断：读取当前的 InnoDB 锁等待并整理成阻塞链，解析 SHOW ENGINE INNODB STATUS 中最近一次死锁
+import { Queryable } from "./types.js";
+
+export interface LockWait {
+  waitingPid: number | null;
+  waitingTrxId: string;
+  waitingQuery: string | null;
+  waitSeconds: number | null;
+  waitingLockMode: string | null;
+  blockingPid: number | null;
+  blockingTrxId: string;
+  // 阻塞方在事务中空闲时为 null，执行过的语句见 show_processlist
+  blockingQuery: string | null;
+  blockingLockMode: string | null;
+  lockedTable: string | null;
+  lockedIndex: string | null;
+  lockType: string | null;
+}
+
+// 阻塞链上的一个事务，waiters 为直接等待它的事务
+export interface LockChainNode {
+  pid: number | null;
+  trxId: string;
+  query: string | null;
+  waitSeconds: number | null;
+  lockedTable: string | null;
+  waiters: LockChainNode[];
+}
+
+export interface DeadlockLock {
+  type: "RECORD" | "TABLE";
+  table: string;
+  index: string | null;
+  mode: string;
+}
+
+export interface DeadlockTransaction {
+  // 死锁信息中的编号 (1)、(2)
+  number: number;
+  trxId: string | null;
+  activeSeconds: number | null;
+  threadId: number | null;
+  queryId: number | null;
+  user: string | null;
+  host: string | null;
+  // 发生死锁时正在执行的语句，事务中之前的语句不会列出
+  statement: string | null;
+  holds: DeadlockLock[];
+  waitingFor: DeadlockLock[];
+  rolledBack: boolean;
+}
+
+export interface Deadlock {
+  detectedAt: string | null;
+  transactions: DeadlockTransaction[];
+  rolledBack: number | null;
+  raw?: string;
+}
+
+export interface LockReport {
+  source: "sys.innodb_lock_waits" | "performance_schema.data_lock_waits" | "information_schema.innodb_lock_waits" | null;
+  waits: LockWait[];
+  // 根为自身没有在等待的阻塞方
+  chains: LockChainNode[];
+  deadlock: Deadlock | null;
+  notes: string[];
+}
+
+export interface LockReportOptions {
+  includeDeadlock?: boolean;
+  // 附带死锁部分的原文
+  includeRaw?: boolean;
+}
+
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function toText(value: any): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toLockWait(row: any): LockWait {
+  return {
+    waitingPid: toNumber(row.waiting_pid),
+    waitingTrxId: String(row.waiting_trx_id),
+    waitingQuery: toText(row.waiting_query),
+    waitSeconds: toNumber(row.wait_age_secs),
+    waitingLockMode: toText(row.waiting_lock_mode),
+    blockingPid: toNumber(row.blocking_pid),
+    blockingTrxId: String(row.blocking_trx_id),
+    blockingQuery: toText(row.blocking_query),
+    blockingLockMode: toText(row.blocking_lock_mode),
+    lockedTable: toText(row.locked_table),
+    lockedIndex: toText(row.locked_index),
+    lockType: toText(row.locked_type),
+  };
+}
+
+/**
+ * 当前的锁等待：优先读取 sys.innodb_lock_waits，不可用时读取 performance_schema.data_lock_waits（8.0）
+ * 或 information_schema.INNODB_LOCK_WAITS（5.7）
+ */
+async function findLockWaits(connection: Queryable, notes: string[]): Promise<{ source: LockReport["source"]; waits: LockWait[] }> {
+  try {
+    const [rows] = await connection.query(
+      `SELECT waiting_pid, waiting_trx_id, waiting_query, wait_age_secs, waiting_lock_mode,
+              blocking_pid, blocking_trx_id, blocking_query, blocking_lock_mode, locked_table, locked_index, locked_type
+       FROM sys.innodb_lock_waits
+       ORDER BY wait_age_secs DESC`
+    );
+    return { source: "sys.innodb_lock_waits", waits: (rows as any[]).map(toLockWait) };
+  } catch (error) {
+    notes.push(`sys.innodb_lock_waits is not available: ${errorText(error)}`);
+  }
+  try {
+    const [rows] = await connection.query(
+      `SELECT r.trx_mysql_thread_id AS waiting_pid, r.trx_id AS waiting_trx_id, r.trx_query AS waiting_query,
+              TIMESTAMPDIFF(SECOND, r.trx_wait_started, NOW()) AS wait_age_secs, rl.LOCK_MODE AS waiting_lock_mode,
+              b.trx_mysql_thread_id AS blocking_pid, b.trx_id AS blocking_trx_id, b.trx_query AS blocking_query, bl.LOCK_MODE AS blocking_lock_mode,
+              CONCAT('\`', rl.OBJECT_SCHEMA, '\`.\`', rl.OBJECT_NAME, '\`') AS locked_table, rl.INDEX_NAME AS locked_index, rl.LOCK_TYPE AS locked_type
+       FROM performance_schema.data_lock_waits w
+       JOIN information_schema.INNODB_TRX r ON r.trx_id = w.REQUESTING_ENGINE_TRANSACTION_ID
+       JOIN information_schema.INNODB_TRX b ON b.trx_id = w.BLOCKING_ENGINE_TRANSACTION_ID
+       JOIN performance_schema.data_locks rl ON rl.ENGINE_LOCK_ID = w.REQUESTING_ENGINE_LOCK_ID
+       JOIN performance_schema.data_locks bl ON bl.ENGINE_LOCK_ID = w.BLOCKING_ENGINE_LOCK_ID
+       ORDER BY wait_age_secs DESC`
+    );
+    return { source: "performance_schema.data_lock_waits", waits: (rows as any[]).map(toLockWait) };
+  } catch (error) {
+    notes.push(`performance_schema.data_lock_waits is not available: ${errorText(error)}`);
+  }
+  try {
+    const [rows] = await connection.query(
+      `SELECT r.trx_mysql_thread_id AS waiting_pid, r.trx_id AS waiting_trx_id, r.trx_query AS waiting_query,
+              TIMESTAMPDIFF(SECOND, r.trx_wait_started, NOW()) AS wait_age_secs, rl.lock_mode AS waiting_lock_mode,
+              b.trx_mysql_thread_id AS blocking_pid, b.trx_id AS blocking_trx_id, b.trx_query AS blocking_query, bl.lock_mode AS blocking_lock_mode,
+              rl.lock_table AS locked_table, rl.lock_index AS locked_index, rl.lock_type AS locked_type
+       FROM information_schema.INNODB_LOCK_WAITS w
+       JOIN information_schema.INNODB_TRX r ON r.trx_id = w.requesting_trx_id
+       JOIN information_schema.INNODB_TRX b ON b.trx_id = w.blocking_trx_id
+       JOIN information_schema.INNODB_LOCKS rl ON rl.lock_id = w.requested_lock_id
+       JOIN information_schema.INNODB_LOCKS bl ON bl.lock_id = w.blocking_lock_id
+       ORDER BY wait_age_secs DESC`
+    );
+    return { source: "information_schema.innodb_lock_waits", waits: (rows as any[]).map(toLockWait) };
+  } catch (error) {
+    notes.push(`information_schema.INNODB_LOCK_WAITS is not available: ${errorText(error)}`);
+  }
+  return { source: null, waits: [] };
+}
+
+/**
+ * 按事务把锁等待整理成阻塞方→等待方的树。一个事务等待多个锁时出现在每个阻塞方下面；
+ * 正在形成的环（死锁检测之前的瞬间）没有根，从任意一个事务开始展开，重复出现的事务不再展开
+ */
+export function buildLockChains(waits: LockWait[]): LockChainNode[] {
+  const waitersOf = new Map<string, LockWait[]>();
+  const waiting = new Set<string>();
+  const blockers = new Map<string, { pid: number | null; query: string | null }>();
+  for (const wait of waits) {
+    waitersOf.set(wait.blockingTrxId, [...(waitersOf.get(wait.blockingTrxId) || []), wait]);
+    waiting.add(wait.waitingTrxId);
+    blockers.set(wait.blockingTrxId, { pid: wait.blockingPid, query: wait.blockingQuery });
+  }
+
+  const expanded = new Set<string>();
+  const expand = (trxId: string, node: Omit<LockChainNode, "waiters">): LockChainNode => {
+    const waiters: LockChainNode[] = [];
+    if (!expanded.has(trxId)) {
+      expanded.add(trxId);
+      for (const wait of waitersOf.get(trxId) || []) {
+        waiters.push(expand(wait.waitingTrxId, {
+          pid: wait.waitingPid,
+          trxId: wait.waitingTrxId,
+          query: wait.waitingQuery,
+          waitSeconds: wait.waitSeconds,
+          lockedTable: wait.lockedTable,
+        }));
+      }
+    }
+    return { ...node, waiters };
+  };
+
+  const roots: LockChainNode[] = [];
+  const rootIds = [...blockers.keys()].filter(trxId => !waiting.has(trxId));
+  // 环中的事务都在等待，没有根
+  const cycleIds = [...blockers.keys()].filter(trxId => waiting.has(trxId));
+  for (const trxId of [...rootIds, ...cycleIds]) {
+    if (expanded.has(trxId)) {
+      continue;
+    }
+    const blocker = blockers.get(trxId)!;
+    roots.push(expand(trxId, { pid: blocker.pid, trxId, query: blocker.query, waitSeconds: null, lockedTable: null }));
+  }
+  return roots;
+}
+
+function parseLock(line: string): DeadlockLock | null {
+  const record = /^RECORD LOCKS .*? index (\S+) of table (\S+) trx id \S+ lock[_ ]mode (.+?)(?: waiting)?$/.exec(line);
+  if (record) {
+    return { type: "RECORD", table: record[2], index: record[1].replace(/^`|`$/g, ""), mode: record[3] };
+  }
+  const table = /^TABLE LOCK table (\S+) trx id \S+ lock mode (\S+)(?: waiting)?$/.exec(line);
+  if (table) {
+    return { type: "TABLE", table: table[1], index: null, mode: table[2] };
+  }
+  return null;
+}
+
+// 取出 InnoDB 状态中的 LATEST DETECTED DEADLOCK 部分，没有发生过死锁时为 null
+function deadlockSection(status: string): string | null {
+  const match = /\n-+\nLATEST DETECTED DEADLOCK\n-+\n([\s\S]*?)\n-+\n[A-Z][A-Z /]*\n-+\n/.exec(status);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * 把 LATEST DETECTED DEADLOCK 部分解析为事务、持有和等待的锁以及被回滚的事务
+ */
+export function parseDeadlock(status: string, includeRaw = false): Deadlock | null {
+  const section = deadlockSection(status);
+  if (section === null) {
+    return null;
+  }
+  const lines = section.split("\n");
+  const timestamp = /^(\d{4}-\d\d-\d\d[ T]\d\d:\d\d:\d\d)/.exec(lines[0] || "");
+  const deadlock: Deadlock = { detectedAt: timestamp ? timestamp[1] : null, transactions: [], rolledBack: null };
+
+  let current: DeadlockTransaction | null = null;
+  let part: "transaction" | "holds" | "waiting" | null = null;
+  let statement: string[] = [];
+  let afterThreadLine = false;
+  const flushStatement = () => {
+    if (current && statement.length > 0 && current.statement === null) {
+      current.statement = statement.join("\n").trim() || null;
+    }
+    statement = [];
+    afterThreadLine = false;
+  };
+
+  for (const line of lines.slice(1)) {
+    const marker = /^\*\*\* \((\d+)\) (TRANSACTION|HOLDS THE LOCK\(S\)|WAITING FOR THIS LOCK TO BE GRANTED):$/.exec(line);
+    if (marker) {
+      flushStatement();
+      const number = Number(marker[1]);
+      current = deadlock.transactions.find(trx => trx.number === number) || null;
+      if (!current) {
+        current = { number, trxId: null, activeSeconds: null, threadId: null, queryId: null, user: null, host: null, statement: null, holds: [], waitingFor: [], rolledBack: false };
+        deadlock.transactions.push(current);
+      }
+      part = marker[2] === "TRANSACTION" ? "transaction" : marker[2].startsWith("HOLDS") ? "holds" : "waiting";
+      continue;
+    }
+    const rollback = /^\*\*\* WE ROLL BACK TRANSACTION \((\d+)\)/.exec(line);
+    if (rollback) {
+      flushStatement();
+      deadlock.rolledBack = Number(rollback[1]);
+      part = null;
+      continue;
+    }
+    if (!current || !part) {
+      continue;
+    }
+    if (part === "transaction") {
+      const trx = /^TRANSACTION (\d+), ACTIVE (\d+) sec/.exec(line);
+      const thread = /^MySQL thread id (\d+), OS thread handle \S+, query id (\d+) (\S+) (\S+)/.exec(line);
+      if (trx) {
+        current.trxId = trx[1];
+        current.activeSeconds = Number(trx[2]);
+      } else if (thread) {
+        current.threadId = Number(thread[1]);
+        current.queryId = Number(thread[2]);
+        current.host = thread[3];
+        current.user = thread[4];
+        afterThreadLine = true;
+      } else if (afterThreadLine) {
+        // 线程信息之后到下一个标记之前是正在执行的语句，可能有多行
+        statement.push(line);
+      }
+    } else {
+      const lock = parseLock(line);
+      if (lock) {
+        (part === "holds" ? current.holds : current.waitingFor).push(lock);
+      }
+    }
+  }
+  flushStatement();
+
+  deadlock.transactions.forEach(trx => trx.rolledBack = trx.number === deadlock.rolledBack);
+  if (includeRaw) {
+    deadlock.raw = section;
+  }
+  return deadlock;
+}
+
+/**
+ * 汇总锁等待、阻塞链和最近一次死锁。读取 InnoDB 状态需要 PROCESS 权限，失败时只在 notes 中说明
+ */
+export async function lockReport(connection: Queryable, options: LockReportOptions = {}): Promise<LockReport> {
+  const notes: string[] = [];
+  const { source, waits } = await findLockWaits(connection, notes);
+  let deadlock: Deadlock | null = null;
+  if (options.includeDeadlock !== false) {
+    try {
+      const [rows] = await connection.query("SHOW ENGINE INNODB STATUS");
+      deadlock = parseDeadlock(String((rows as any[])[0]?.Status || ""), options.includeRaw);
+      if (!deadlock) {
+        notes.push("No deadlock has been detected since the server started (or the InnoDB status was reset)");
+      }
+    } catch (error) {
+      notes.push(`SHOW ENGINE INNODB STATUS failed: ${errorText(error)}`);
+    }
+  }
+  return { source, waits, chains: buildLockChains(waits), deadlock, notes };
+}
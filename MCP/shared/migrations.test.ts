@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { readMigrations, migrationStatus, planApply, splitMigration } from "./migrations.js";
+import { Queryable } from "./types.js";
+
+function migrationsDir(files: Record<string, string>): string {
+  const directory = mkdtempSync(join(tmpdir(), "mysql-migrations-"));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(directory, name), content);
+  }
+  return directory;
+}
+
+// 模拟当前数据库和 schema_migrations 表
+function fakeConnection(applied: { version: string; name: string; checksum: string }[]): Queryable {
+  return {
+    async query(sql: string): Promise<[any, any]> {
+      if (sql.includes("DATABASE() AS name")) {
+        return [[{ name: "app" }], []];
+      }
+      if (sql.includes("information_schema.TABLES")) {
+        return [applied.length > 0 ? [{ 1: 1 }] : [], []];
+      }
+      return [applied.map(item => ({ ...item, appliedAt: "2024-01-01 00:00:00.000", executionMs: "5" })), []];
+    },
+  };
+}
+
+test("migrations are ordered by numeric version, not by file name", async () => {
+  const directory = migrationsDir({
+    "10_add_index.up.sql": "CREATE INDEX idx ON users (name);",
+    "2_add_orders.up.sql": "CREATE TABLE orders (id INT);",
+    "2_add_orders.down.sql": "DROP TABLE orders;",
+    "0001_create_users.up.sql": "CREATE TABLE users (id INT);",
+    "20240101120000_seed.up.sql": "INSERT INTO users VALUES (1);",
+    "notes.txt": "ignored",
+  });
+  const migrations = await readMigrations(directory);
+  assert.deepEqual(migrations.map(migration => migration.version), ["0001", "2", "10", "20240101120000"]);
+  assert.equal(migrations[1].down, "DROP TABLE orders;");
+  assert.equal(migrations[0].down, null);
+});
+
+test("readMigrations rejects mismatched names and down files without up", async () => {
+  await assert.rejects(
+    readMigrations(migrationsDir({ "1_a.up.sql": "SELECT 1", "1_b.down.sql": "SELECT 1" })),
+    /version 1 has files with different names/
+  );
+  await assert.rejects(readMigrations(migrationsDir({ "1_a.down.sql": "SELECT 1" })), /has a down file but no up file/);
+});
+
+test("pending migrations older than the applied version are out of order", async () => {
+  const directory = migrationsDir({
+    "1_create_users.up.sql": "CREATE TABLE users (id INT);",
+    "2_add_orders.up.sql": "CREATE TABLE orders (id INT);",
+    "10_add_index.up.sql": "CREATE INDEX idx ON users (name);",
+  });
+  const [first, , third] = await readMigrations(directory);
+  const connection = fakeConnection([first, third].map(({ version, name, checksum }) => ({ version, name, checksum })));
+
+  const status = await migrationStatus(connection, directory);
+  assert.equal(status.current, "10");
+  assert.deepEqual(status.migrations.map(item => [item.version, item.state]), [["1", "applied"], ["2", "out_of_order"], ["10", "applied"]]);
+  await assert.rejects(planApply(connection, directory, null), /Migration 2_add_orders is older than the applied version 10/);
+});
+
+test("splitMigration splits statements and rejects DELIMITER", () => {
+  assert.deepEqual(splitMigration("CREATE TABLE t (v VARCHAR(10) DEFAULT ';');\n-- ; comment\nINSERT INTO t VALUES ('a;b');\n"), [
+    "CREATE TABLE t (v VARCHAR(10) DEFAULT ';')",
+    "INSERT INTO t VALUES ('a;b')",
+  ]);
+  assert.throws(() => splitMigration("DELIMITER //\nCREATE PROCEDURE p() BEGIN SELECT 1; END //"), /DELIMITER is not supported/);
+});
+
+test("migrations that switch the database with USE are rejected", async () => {
+  const directory = migrationsDir({
+    "1_create_users.up.sql": "CREATE TABLE users (id INT);",
+    "2_other.up.sql": "USE other;\nCREATE TABLE logs (id INT);",
+  });
+  await assert.rejects(
+    planApply(fakeConnection([]), directory, null),
+    /Migration 2_other \(up\) contains USE other; migrations run in app and record their history there/
+  );
+  assert.equal((await planApply(fakeConnection([]), directory, "1")).migrations.length, 1);
+});
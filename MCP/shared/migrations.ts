@@ -0,0 +1,369 @@
+// 版本化迁移：从目录读取 <version>_<name>.up.sql / .down.sql，在 schema_migrations 表中记录已执行的版本和校验和，
+// 执行期间用 GET_LOCK 防止并发执行，拒绝执行乱序或执行后被修改过的迁移
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+import { tokenize, splitStatements, findUseDatabase } from "./sql-classifier.js";
+import { OperationClass, classifyStatement, strongestClass } from "./confirmation.js";
+import { Queryable } from "./types.js";
+
+export const HISTORY_TABLE = "schema_migrations";
+
+const FILE_PATTERN = /^(\d+)[_-](.+)\.(up|down)\.sql$/i;
+
+export interface MigrationFile {
+  version: string;
+  name: string;
+  up: string;
+  down: string | null;
+  // up 文件的 SHA-256（换行统一为 \n）
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+  executionMs: number;
+}
+
+export type MigrationState = "applied" | "pending" | "modified" | "missing" | "out_of_order";
+
+export interface MigrationStatusEntry {
+  version: string;
+  name: string;
+  state: MigrationState;
+  appliedAt?: string;
+  hasDown?: boolean;
+}
+
+export interface MigrationStatus {
+  database: string;
+  directory: string;
+  current: string | null;
+  migrations: MigrationStatusEntry[];
+  // 阻止 migration_apply 的问题
+  problems: string[];
+  warnings: string[];
+}
+
+export interface PlannedMigration {
+  version: string;
+  name: string;
+  direction: "up" | "down";
+  // up 文件的校验和，执行后写入历史表
+  checksum: string;
+  statements: string[];
+}
+
+export interface MigrationPlan {
+  database: string;
+  migrations: PlannedMigration[];
+  // 所有语句中需要确认的最高类别
+  operationClass: OperationClass | null;
+  warnings: string[];
+}
+
+export interface MigrationFailure {
+  version: string;
+  statementIndex: number;
+  statement: string;
+  error: string;
+}
+
+export interface MigrationRunResult {
+  database: string;
+  direction: "up" | "down";
+  completed: { version: string; name: string; executionMs: number }[];
+  failed?: MigrationFailure;
+  note?: string;
+}
+
+// 检查单条语句是否允许在 database 中执行（如权限策略），不允许时返回原因
+export type StatementCheck = (sql: string, database: string) => string | null;
+
+// 按数值比较版本号
+function compareVersions(a: string, b: string): number {
+  const x = a.replace(/^0+(?=\d)/, "");
+  const y = b.replace(/^0+(?=\d)/, "");
+  return x.length - y.length || (x < y ? -1 : x > y ? 1 : 0);
+}
+
+function checksumOf(sql: string): string {
+  return createHash("sha256").update(sql.replace(/\r\n/g, "\n")).digest("hex");
+}
+
+/**
+ * 把迁移文件拆分为单条语句；不支持 DELIMITER（存储过程和触发器需要写成一条语句）
+ */
+export function splitMigration(sql: string): string[] {
+  if (/^\s*DELIMITER\s/im.test(sql)) {
+    throw new Error("DELIMITER is not supported in migration files; write each routine or trigger as a single statement");
+  }
+  return splitStatements(tokenize(sql)).map(tokens => sql.slice(tokens[0].pos, tokens[tokens.length - 1].end).trim());
+}
+
+/**
+ * 读取迁移目录。每个版本必须有 up 文件，down 文件可选；同一版本的名称必须一致。
+ */
+export async function readMigrations(directory: string): Promise<MigrationFile[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(directory);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot read migrations directory ${directory}: ${errorMessage}`);
+  }
+
+  const files = new Map<string, { name: string; up?: string; down?: string }>();
+  for (const entry of entries.sort()) {
+    const match = FILE_PATTERN.exec(entry);
+    if (!match) {
+      continue;
+    }
+    const [, version, name, direction] = match;
+    const file = files.get(version) || { name };
+    if (file.name !== name) {
+      throw new Error(`Migration version ${version} has files with different names: ${file.name} and ${name}`);
+    }
+    const content = await readFile(join(directory, entry), "utf8");
+    if (direction.toLowerCase() === "up") {
+      file.up = content;
+    } else {
+      file.down = content;
+    }
+    files.set(version, file);
+  }
+
+  const migrations: MigrationFile[] = [];
+  for (const [version, file] of files) {
+    if (file.up === undefined) {
+      throw new Error(`Migration ${version}_${file.name} has a down file but no up file`);
+    }
+    migrations.push({ version, name: file.name, up: file.up, down: file.down ?? null, checksum: checksumOf(file.up) });
+  }
+  return migrations.sort((a, b) => compareVersions(a.version, b.version));
+}
+
+async function currentDatabase(connection: Queryable): Promise<string> {
+  const [rows] = await connection.query("SELECT DATABASE() AS name");
+  const database = (rows as any[])[0]?.name;
+  if (!database) {
+    throw new Error("No database selected; migrations run in the current database");
+  }
+  return database;
+}
+
+async function ensureHistoryTable(connection: Queryable) {
+  await connection.query(
+    `CREATE TABLE IF NOT EXISTS ${HISTORY_TABLE} (
+       version VARCHAR(64) NOT NULL PRIMARY KEY,
+       name VARCHAR(255) NOT NULL,
+       checksum CHAR(64) NOT NULL,
+       applied_at DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+       execution_ms INT UNSIGNED NOT NULL
+     ) ENGINE=InnoDB`
+  );
+}
+
+// 历史表不存在时视为没有执行过任何迁移
+async function readApplied(connection: Queryable): Promise<AppliedMigration[]> {
+  const [tables] = await connection.query(
+    "SELECT 1 FROM information_schema.TABLES WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?",
+    [HISTORY_TABLE]
+  );
+  if ((tables as any[]).length === 0) {
+    return [];
+  }
+  const [rows] = await connection.query(
+    `SELECT version, name, checksum, CAST(applied_at AS CHAR) AS appliedAt, execution_ms AS executionMs FROM ${HISTORY_TABLE}`
+  );
+  return (rows as any[])
+    .map(row => ({ ...row, executionMs: Number(row.executionMs) }))
+    .sort((a, b) => compareVersions(a.version, b.version));
+}
+
+function buildStatus(database: string, directory: string, files: MigrationFile[], applied: AppliedMigration[]): MigrationStatus {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const appliedByVersion = new Map(applied.map(item => [item.version, item]));
+  const current = applied.length > 0 ? applied[applied.length - 1].version : null;
+  const migrations: MigrationStatusEntry[] = [];
+
+  for (const file of files) {
+    const record = appliedByVersion.get(file.version);
+    if (!record) {
+      const outOfOrder = current !== null && compareVersions(file.version, current) < 0;
+      migrations.push({ version: file.version, name: file.name, state: outOfOrder ? "out_of_order" : "pending", hasDown: file.down !== null });
+      if (outOfOrder) {
+        problems.push(`Migration ${file.version}_${file.name} is older than the applied version ${current}; renumber it after ${current}`);
+      }
+    } else if (record.checksum !== file.checksum) {
+      migrations.push({ version: file.version, name: file.name, state: "modified", appliedAt: record.appliedAt, hasDown: file.down !== null });
+      problems.push(`Migration ${file.version}_${file.name} was modified after it was applied; restore the original file and add a new migration instead`);
+    } else {
+      migrations.push({ version: file.version, name: file.name, state: "applied", appliedAt: record.appliedAt, hasDown: file.down !== null });
+    }
+  }
+  const fileVersions = new Set(files.map(file => file.version));
+  for (const record of applied) {
+    if (!fileVersions.has(record.version)) {
+      migrations.push({ version: record.version, name: record.name, state: "missing", appliedAt: record.appliedAt });
+      warnings.push(`Applied migration ${record.version}_${record.name} has no file in ${directory}`);
+    }
+  }
+  migrations.sort((a, b) => compareVersions(a.version, b.version));
+  return { database, directory, current, migrations, problems, warnings };
+}
+
+/**
+ * 对比迁移目录和 schema_migrations 表
+ */
+export async function migrationStatus(connection: Queryable, directory: string): Promise<MigrationStatus> {
+  const database = await currentDatabase(connection);
+  return buildStatus(database, directory, await readMigrations(directory), await readApplied(connection));
+}
+
+function planMigrations(database: string, selected: MigrationFile[], direction: "up" | "down", warnings: string[], check?: StatementCheck): MigrationPlan {
+  const migrations = selected.map(file => {
+    const sql = direction === "up" ? file.up : (file.down as string);
+    const statements = splitMigration(sql);
+    if (statements.length === 0) {
+      warnings.push(`Migration ${file.version}_${file.name} (${direction}) contains no statements`);
+    }
+    for (const statement of statements) {
+      // USE 会让后续语句和 schema_migrations 的记录落到别的数据库
+      const target = findUseDatabase(statement);
+      if (target !== null) {
+        throw new Error(`Migration ${file.version}_${file.name} (${direction}) contains USE ${target}; migrations run in ${database} and record their history there, so qualify table names instead`);
+      }
+      const violation = check?.(statement, database);
+      if (violation) {
+        throw new Error(`Migration ${file.version}_${file.name} (${direction}) is not allowed: ${violation}`);
+      }
+    }
+    return { version: file.version, name: file.name, direction, checksum: file.checksum, statements };
+  });
+  return {
+    database,
+    migrations,
+    operationClass: strongestClass(migrations.flatMap(migration => migration.statements.map(statement => classifyStatement(statement)))),
+    warnings,
+  };
+}
+
+/**
+ * 计划要执行的迁移：按版本顺序执行所有待执行的迁移，指定 to 时执行到该版本（含）。
+ * 存在被修改或乱序的迁移时抛出错误。
+ */
+export async function planApply(connection: Queryable, directory: string, to: string | null, check?: StatementCheck): Promise<MigrationPlan> {
+  const database = await currentDatabase(connection);
+  const files = await readMigrations(directory);
+  const status = buildStatus(database, directory, files, await readApplied(connection));
+  if (status.problems.length > 0) {
+    throw new Error(`Refusing to apply migrations:\n- ${status.problems.join("\n- ")}`);
+  }
+  if (to !== null && !files.some(file => file.version === to)) {
+    throw new Error(`Migration version ${to} does not exist in ${directory}`);
+  }
+  const pending = new Set(status.migrations.filter(item => item.state === "pending").map(item => item.version));
+  const selected = files.filter(file => pending.has(file.version) && (to === null || compareVersions(file.version, to) <= 0));
+  return planMigrations(database, selected, "up", [...status.warnings], check);
+}
+
+/**
+ * 计划要回滚的迁移：从最新的已执行版本开始回滚 steps 个，或回滚所有比 to 新的版本。
+ * 要回滚的迁移必须有 down 文件，且 up 文件没有被修改。
+ */
+export async function planRollback(connection: Queryable, directory: string, options: { steps?: number; to?: string | null }, check?: StatementCheck): Promise<MigrationPlan> {
+  const database = await currentDatabase(connection);
+  const files = await readMigrations(directory);
+  const applied = await readApplied(connection);
+  const filesByVersion = new Map(files.map(file => [file.version, file]));
+
+  const to = options.to ?? null;
+  const candidates = [...applied].reverse();
+  const selected = to !== null
+    ? candidates.filter(record => compareVersions(record.version, to) > 0)
+    : candidates.slice(0, options.steps ?? 1);
+  if (to !== null && !applied.some(record => record.version === to)) {
+    throw new Error(`Version ${to} has not been applied`);
+  }
+
+  const selectedFiles = selected.map(record => {
+    const file = filesByVersion.get(record.version);
+    if (!file) {
+      throw new Error(`Cannot roll back ${record.version}_${record.name}: its files are missing from ${directory}`);
+    }
+    if (file.checksum !== record.checksum) {
+      throw new Error(`Cannot roll back ${record.version}_${record.name}: the up file was modified after it was applied`);
+    }
+    if (file.down === null) {
+      throw new Error(`Cannot roll back ${record.version}_${record.name}: it has no down file`);
+    }
+    return file;
+  });
+  return planMigrations(database, selectedFiles, "down", [], check);
+}
+
+/**
+ * 计划的指纹（方向、版本和校验和），用于确认令牌绑定和加锁后检查计划是否变化
+ */
+export function planFingerprint(plan: MigrationPlan): string {
+  return plan.migrations.map(migration => `${migration.direction}:${migration.version}:${migration.checksum}`).join(",");
+}
+
+/**
+ * 持有以数据库命名的 GET_LOCK 锁执行 fn；锁被其他连接持有超过 timeoutSeconds 时失败
+ */
+export async function withMigrationLock<T>(connection: Queryable, timeoutSeconds: number, fn: () => Promise<T>): Promise<T> {
+  const name = `${HISTORY_TABLE}:${await currentDatabase(connection)}`.slice(0, 64);
+  const [rows] = await connection.query("SELECT GET_LOCK(?, ?) AS locked", [name, timeoutSeconds]);
+  if (Number((rows as any[])[0]?.locked) !== 1) {
+    throw new Error(`Another migration runner holds the lock '${name}'; try again later`);
+  }
+  try {
+    return await fn();
+  } finally {
+    await connection.query("DO RELEASE_LOCK(?)", [name]);
+  }
+}
+
+/**
+ * 执行计划中的迁移。每个迁移的语句全部成功后才写入（或删除）历史记录；
+ * DDL 会隐式提交，失败时已执行的语句不会回滚，结果中给出失败的语句。
+ */
+export async function runPlan(connection: Queryable, plan: MigrationPlan): Promise<MigrationRunResult> {
+  const direction = plan.migrations[0]?.direction ?? "up";
+  const result: MigrationRunResult = { database: plan.database, direction, completed: [] };
+  if (direction === "up") {
+    await ensureHistoryTable(connection);
+  }
+  for (const migration of plan.migrations) {
+    const started = Date.now();
+    for (let i = 0; i < migration.statements.length; i++) {
+      try {
+        await connection.query(migration.statements[i]);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        result.failed = { version: migration.version, statementIndex: i, statement: migration.statements[i], error: errorMessage };
+        if (i > 0) {
+          result.note = `Statements 0..${i - 1} of ${migration.version}_${migration.name} were executed and are not rolled back (DDL commits implicitly); fix the database or the migration manually before running again`;
+        }
+        return result;
+      }
+    }
+    const executionMs = Date.now() - started;
+    if (direction === "up") {
+      await connection.query(
+        `INSERT INTO ${HISTORY_TABLE} (version, name, checksum, execution_ms) VALUES (?, ?, ?, ?)`,
+        [migration.version, migration.name, migration.checksum, executionMs]
+      );
+    } else {
+      await connection.query(`DELETE FROM ${HISTORY_TABLE} WHERE version = ?`, [migration.version]);
+    }
+    result.completed.push({ version: migration.version, name: migration.name, executionMs });
+  }
+  return result;
+}
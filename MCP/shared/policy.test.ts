@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkToolCall, PolicyConfig } from "./policy.js";
+
+const readOnly: PolicyConfig = {
+  role: "analyst",
+  rules: {
+    statements: { allow: ["SELECT"] },
+    databases: { deny: ["mysql"] },
+    tables: { deny: ["*.secrets", "app.payroll"] },
+  },
+};
+
+const context = { currentDatabase: "app" };
+
+test("statement rules use the statement verb, or the tool's own statement", () => {
+  const cases: [string, any, string | null][] = [
+    ["read_query", { sql: "SELECT * FROM users" }, null],
+    ["write_query", { sql: "DELETE FROM users WHERE id = 1" }, "DELETE statements (DML) are not allowed"],
+    ["write_query", { sql: "WITH x AS (SELECT 1) DELETE FROM users" }, "DELETE statements (DML) are not allowed"],
+    ["drop_table", { table: "users" }, "DROP statements (DDL) are not allowed"],
+    ["dump_table", { table: "users" }, null],
+    ["explain_query", { sql: "DELETE FROM users WHERE id = 1" }, null],
+    ["explain_query", { sql: "UPDATE users SET name = 'x'" }, null],
+  ];
+  for (const [tool, args, expected] of cases) {
+    assert.equal(checkToolCall(readOnly, tool, args, context), expected, `${tool} ${JSON.stringify(args)}`);
+  }
+});
+
+test("table and database rules apply to every referenced table", () => {
+  const cases: [string, any, string | null][] = [
+    ["read_query", { sql: "SELECT * FROM secrets" }, "table app.secrets is not allowed"],
+    ["read_query", { sql: "SELECT * FROM other.secrets" }, "table other.secrets is not allowed"],
+    ["read_query", { sql: "SELECT * FROM users u JOIN payroll p ON p.user_id = u.id" }, "table app.payroll is not allowed"],
+    ["read_query", { sql: "SELECT * FROM mysql.user" }, "database mysql is not allowed"],
+    ["read_query", { sql: "WITH payroll AS (SELECT 1) SELECT * FROM payroll" }, null],
+    ["explain_query", { sql: "DELETE FROM payroll WHERE id = 1" }, "table app.payroll is not allowed"],
+    ["explain_query", { sql: "SELECT * FROM mysql.user" }, "database mysql is not allowed"],
+    ["describe_table", { table: "secrets", database: "hr" }, "table hr.secrets is not allowed"],
+    ["read_query", { sql: "SELECT * FROM users STRAIGHT_JOIN payroll ON 1" }, "table app.payroll is not allowed"],
+    ["read_query", { sql: "SELECT * FROM (payroll)" }, "table app.payroll is not allowed"],
+    ["read_query", { sql: "SELECT * FROM users, (payroll)" }, "table app.payroll is not allowed"],
+    ["read_query", { sql: "SELECT * FROM (SELECT 1) AS d, payroll" }, "table app.payroll is not allowed"],
+    ["read_query", { sql: "SELECT * FROM users PARTITION (p0), payroll" }, "table app.payroll is not allowed"],
+    ["read_query", { sql: "SELECT * FROM users USE INDEX (idx_name), payroll" }, "table app.payroll is not allowed"],
+    ["read_query", { sql: "DESC payroll" }, "table app.payroll is not allowed"],
+    ["read_query", { sql: "DESCRIBE secrets" }, "table app.secrets is not allowed"],
+    ["read_query", { sql: "SHOW COLUMNS IN payroll" }, "table app.payroll is not allowed"],
+    ["read_query", { sql: "SHOW INDEX IN secrets" }, "table app.secrets is not allowed"],
+    ["read_query", { sql: "SHOW COLUMNS FROM user FROM mysql" }, "database mysql is not allowed"],
+    ["read_query", { sql: "SHOW TABLES FROM mysql" }, "database mysql is not allowed"],
+    ["read_query", { sql: "SHOW TABLES" }, null],
+    ["read_query", { sql: "SELECT * FROM PAYROLL" }, "table app.PAYROLL is not allowed"],
+    ["read_query", { sql: "SELECT * FROM MySQL.user" }, "database MySQL is not allowed"],
+  ];
+  for (const [tool, args, expected] of cases) {
+    assert.equal(checkToolCall(readOnly, tool, args, context), expected, `${tool} ${JSON.stringify(args)}`);
+  }
+});
+
+test("SQL whose tables cannot be determined is refused when table or database rules apply", () => {
+  const writer: PolicyConfig = { role: "writer", rules: { tables: { deny: ["app.payroll"] } } };
+  const cases: [string, string | null][] = [
+    ["CALL export_payroll()", "CALL statements cannot be checked against table and database rules"],
+    ["PREPARE s FROM 'SELECT * FROM payroll'", "PREPARE statements cannot be checked against table and database rules"],
+    ["GRANT SELECT ON app.payroll TO 'u'@'%'", "GRANT statements cannot be checked against table and database rules"],
+    ["CREATE PROCEDURE p() SELECT 1", "CREATE statements cannot be checked against table and database rules"],
+    ["UPDATE users SET name = 'x'; DELETE FROM payroll", "multiple statements cannot be checked against table and database rules"],
+    ["INSERT payroll VALUES (1)", "table app.payroll is not allowed"],
+    ["RENAME TABLE users TO old_users, payroll TO users", "table app.payroll is not allowed"],
+    ["ALTER TABLE users RENAME TO payroll", "table app.payroll is not allowed"],
+    ["LOCK TABLES users READ LOCAL, payroll WRITE", "table app.payroll is not allowed"],
+    ["CREATE INDEX idx_amount ON payroll (amount)", "table app.payroll is not allowed"],
+    ["CREATE TABLE copy LIKE payroll", "table app.payroll is not allowed"],
+    ["INSERT INTO users (name) VALUES ('x') ON DUPLICATE KEY UPDATE name = 'y'", null],
+    ["CREATE TABLE t (id INT)", null],
+  ];
+  for (const [sql, expected] of cases) {
+    assert.equal(checkToolCall(writer, "write_query", { sql }, context), expected, sql);
+  }
+  assert.equal(checkToolCall({ role: "dba", rules: { statements: { deny: ["DROP"] } } }, "write_query", { sql: "CALL cleanup()" }, context), null);
+});
+
+test("explain_query is still checked against rules that deny EXPLAIN", () => {
+  const noExplain: PolicyConfig = { role: "writer", rules: { statements: { deny: ["EXPLAIN"] } } };
+  assert.equal(checkToolCall(noExplain, "explain_query", { sql: "SELECT 1" }, context), "EXPLAIN statements (SELECT) are not allowed");
+  assert.equal(checkToolCall(noExplain, "read_query", { sql: "SELECT 1" }, context), null);
+});
+
+test("tool rules deny matching tools", () => {
+  const policy: PolicyConfig = { role: "viewer", rules: { tools: { allow: ["read_*", "list_*"], deny: ["list_users"] } } };
+  assert.equal(checkToolCall(policy, "read_query", { sql: "SELECT 1" }, context), null);
+  assert.equal(checkToolCall(policy, "list_users", {}, context), "tool list_users is not allowed");
+  assert.equal(checkToolCall(policy, "write_query", { sql: "SELECT 1" }, context), "tool write_query is not allowed");
+  assert.equal(checkToolCall(null, "write_query", { sql: "DROP TABLE users" }, context), null);
+});
@@ -0,0 +1,304 @@
+// 权限策略：从 MYSQL_POLICY 指向的 JSON 文件读取角色，按工具、数据库/表、语句类型限制访问
+import { readFileSync } from "node:fs";
+import { analyzeStatement, tokenize, splitStatements, TableRef } from "./sql-classifier.js";
+
+export interface RuleList {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface RolePolicy {
+  // 工具名，支持 * 和 ? 通配
+  tools?: RuleList;
+  // 数据库名通配
+  databases?: RuleList;
+  // database.table 通配；不含 "." 的模式匹配任意数据库中的同名表
+  tables?: RuleList;
+  // 语句类别（SELECT、DML、DDL、DCL、TCL、OTHER）或具体语句（如 DELETE、DROP）
+  statements?: RuleList;
+}
+
+export interface PolicyConfig {
+  role: string;
+  rules: RolePolicy;
+}
+
+// 工具调用时可以确定的上下文
+export interface PolicyContext {
+  // 未限定库名的表所属的数据库
+  currentDatabase: string | null;
+}
+
+const STATEMENT_CATEGORIES: Record<string, string[]> = {
+  SELECT: ["SELECT", "WITH", "TABLE", "VALUES", "SHOW", "DESCRIBE", "DESC", "EXPLAIN", "HELP"],
+  DML: ["INSERT", "UPDATE", "DELETE", "REPLACE", "LOAD", "CALL", "DO", "HANDLER", "IMPORT"],
+  DDL: ["CREATE", "ALTER", "DROP", "TRUNCATE", "RENAME"],
+  DCL: ["GRANT", "REVOKE"],
+  TCL: ["START", "BEGIN", "COMMIT", "ROLLBACK", "SAVEPOINT", "RELEASE", "XA", "LOCK", "UNLOCK"],
+};
+
+// 工具对应的语句，供 statements 规则检查；未列出的工具按 sql 参数的语句类型检查
+const TOOL_STATEMENTS: Record<string, string> = {
+  // 只解释执行计划（analyze 只允许只读查询），表和数据库仍按 sql 检查
+  explain_query: "EXPLAIN",
+  create_database: "CREATE",
+  drop_database: "DROP",
+  create_table: "CREATE",
+  alter_table: "ALTER",
+  drop_table: "DROP",
+  create_index: "CREATE",
+  drop_index: "DROP",
+  dump_table: "SELECT",
+  dump_database: "SELECT",
+  kill_session: "KILL",
+  create_user: "CREATE",
+  alter_user: "ALTER",
+  drop_user: "DROP",
+  lock_account: "ALTER",
+  unlock_account: "ALTER",
+  grant_privileges: "GRANT",
+  revoke_privileges: "REVOKE",
+  create_role: "CREATE",
+  drop_role: "DROP",
+  grant_role: "GRANT",
+  revoke_role: "REVOKE",
+};
+
+export function globToRegExp(pattern: string, flags = ""): RegExp {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${source}$`, flags);
+}
+
+// 策略规则不区分大小写：表名是否区分大小写取决于服务器的 lower_case_table_names，按不区分处理才不会漏掉
+function matchesGlob(pattern: string, value: string): boolean {
+  return globToRegExp(pattern, "i").test(value);
+}
+
+// deny 优先；设置了 allow 时必须匹配其中之一
+function isAllowed(rules: RuleList | undefined, matches: (pattern: string) => boolean): boolean {
+  if (!rules) {
+    return true;
+  }
+  if ((rules.deny || []).some(matches)) {
+    return false;
+  }
+  return !rules.allow || rules.allow.some(matches);
+}
+
+function matchesName(...values: string[]): (pattern: string) => boolean {
+  return pattern => values.some(value => matchesGlob(pattern, value));
+}
+
+function matchesTable(database: string | null, table: string): (pattern: string) => boolean {
+  return pattern => pattern.includes(".")
+    ? !!database && matchesGlob(pattern, `${database}.${table}`)
+    : matchesGlob(pattern, table);
+}
+
+function statementCategory(verb: string): string {
+  for (const [category, verbs] of Object.entries(STATEMENT_CATEGORIES)) {
+    if (verbs.includes(verb)) {
+      return category;
+    }
+  }
+  return "OTHER";
+}
+
+function parseRuleList(role: string, key: string, raw: any): RuleList | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  const isList = (value: any) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === "string"));
+  if (!raw || typeof raw !== "object" || !isList(raw.allow) || !isList(raw.deny)) {
+    throw new Error(`Role '${role}': "${key}" must be an object with optional "allow" and "deny" string arrays`);
+  }
+  return { allow: raw.allow, deny: raw.deny };
+}
+
+/**
+ * 读取权限策略。未设置 MYSQL_POLICY 时返回 null，表示不做限制。
+ * 当前角色由 MYSQL_ROLE 指定，否则使用文件中的 defaultRole。
+ */
+export function loadPolicy(): PolicyConfig | null {
+  const policyPath = process.env.MYSQL_POLICY;
+  if (!policyPath) {
+    return null;
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(policyPath, "utf8"));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read policy ${policyPath}: ${errorMessage}`);
+  }
+
+  const role = process.env.MYSQL_ROLE || raw?.defaultRole;
+  if (!role) {
+    throw new Error(`Policy ${policyPath} has no defaultRole; set MYSQL_ROLE to choose a role`);
+  }
+  const rawRole = raw?.roles?.[role];
+  if (!rawRole) {
+    throw new Error(`Role '${role}' is not defined in ${policyPath}. Available roles: ${Object.keys(raw?.roles || {}).join(", ")}`);
+  }
+
+  return {
+    role,
+    rules: {
+      tools: parseRuleList(role, "tools", rawRole.tools),
+      databases: parseRuleList(role, "databases", rawRole.databases),
+      tables: parseRuleList(role, "tables", rawRole.tables),
+      statements: parseRuleList(role, "statements", rawRole.statements),
+    },
+  };
+}
+
+export function isToolAllowed(policy: PolicyConfig | null, tool: string): boolean {
+  return !policy || isAllowed(policy.rules.tools, matchesName(tool));
+}
+
+// DROP/CREATE/ALTER DATABASE 和 USE 的目标数据库
+function statementDatabases(sql: string): string[] {
+  const tokens = splitStatements(tokenize(sql))[0] || [];
+  const nameAt = (i: number) => {
+    while (tokens[i] && tokens[i].type === "word" && ["IF", "NOT", "EXISTS"].includes(tokens[i].value)) {
+      i++;
+    }
+    const token = tokens[i];
+    if (token?.type === "identifier") {
+      return token.value;
+    }
+    return token?.type === "word" ? sql.slice(token.pos, token.end) : null;
+  };
+  let name: string | null = null;
+  if (tokens[0]?.type === "word" && tokens[0].value === "USE") {
+    name = nameAt(1);
+  } else if (tokens[1]?.type === "word" && ["DATABASE", "SCHEMA"].includes(tokens[1].value)) {
+    name = nameAt(2);
+  }
+  return name ? [name] : [];
+}
+
+/**
+ * 检查一次工具调用，违反策略时返回原因，允许时返回 null
+ */
+export function checkToolCall(policy: PolicyConfig | null, tool: string, args: any, context: PolicyContext): string | null {
+  if (!policy) {
+    return null;
+  }
+  const { rules } = policy;
+
+  if (!isToolAllowed(policy, tool)) {
+    return `tool ${tool} is not allowed`;
+  }
+
+  const tables: TableRef[] = [];
+  const databases = new Set<string>();
+  let verb = TOOL_STATEMENTS[tool];
+  // 无法确认引用了哪些表的 SQL
+  let unresolved: string | null = null;
+
+  if (typeof args?.sql === "string") {
+    const analysis = analyzeStatement(args.sql);
+    verb = TOOL_STATEMENTS[tool] ?? analysis.verb;
+    tables.push(...analysis.tables);
+    analysis.databases.forEach(database => databases.add(database));
+    statementDatabases(args.sql).forEach(database => databases.add(database));
+    if (analysis.statementCount > 1) {
+      unresolved = "multiple statements";
+    } else if (!analysis.tablesResolved) {
+      unresolved = `${analysis.statementType} statements`;
+    }
+  }
+  if (typeof args?.table === "string") {
+    tables.push({ database: args.database, table: args.table });
+  }
+  if (typeof args?.database === "string" && args.database) {
+    databases.add(args.database);
+  }
+
+  if (verb && !isAllowed(rules.statements, matchesName(statementCategory(verb), verb))) {
+    return `${verb} statements (${statementCategory(verb)}) are not allowed`;
+  }
+
+  // 有表或数据库规则时，无法确认引用了哪些表就拒绝，而不是放行
+  if (unresolved && (rules.tables || rules.databases)) {
+    return `${unresolved} cannot be checked against table and database rules`;
+  }
+
+  for (const ref of tables) {
+    const database = ref.database || context.currentDatabase;
+    if (database) {
+      databases.add(database);
+    }
+    if (!isAllowed(rules.tables, matchesTable(database, ref.table))) {
+      return `table ${database ? `${database}.${ref.table}` : ref.table} is not allowed`;
+    }
+  }
+
+  for (const database of databases) {
+    if (!isAllowed(rules.databases, matchesName(database))) {
+      return `database ${database} is not allowed`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 检查表结构资源的读取：按 SHOW 语句、数据库和表规则判断，违反策略时返回原因
+ */
+export function checkSchemaAccess(policy: PolicyConfig | null, database: string, table?: string): string | null {
+  if (!policy) {
+    return null;
+  }
+  const { rules } = policy;
+  if (!isAllowed(rules.statements, matchesName(statementCategory("SHOW"), "SHOW"))) {
+    return "SHOW statements (SELECT) are not allowed";
+  }
+  if (!isAllowed(rules.databases, matchesName(database))) {
+    return `database ${database} is not allowed`;
+  }
+  if (table !== undefined && !isAllowed(rules.tables, matchesTable(database, table))) {
+    return `table ${database}.${table} is not allowed`;
+  }
+  return null;
+}
+
+// McpServer 的结构类型，共享模块不直接依赖 SDK
+export interface ToolRegistry {
+  tool(name: string, ...rest: any[]): any;
+}
+
+/**
+ * 在注册工具时统一套用策略：不允许的工具不注册（客户端看不到），
+ * 其余工具在处理函数执行前检查参数。必须在注册任何工具之前调用。
+ */
+export function enforcePolicy(server: ToolRegistry, policy: PolicyConfig | null, resolveContext: (args: any, extra: any) => PolicyContext): void {
+  if (!policy) {
+    return;
+  }
+  const register = server.tool.bind(server);
+  server.tool = (name: string, ...rest: any[]) => {
+    if (!isToolAllowed(policy, name)) {
+      return undefined;
+    }
+    const handler = rest[rest.length - 1];
+    rest[rest.length - 1] = async (args: any, extra: any) => {
+      let violation: string | null;
+      try {
+        violation = checkToolCall(policy, name, args, resolveContext(args, extra));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        violation = `policy check failed: ${errorMessage}`;
+      }
+      if (violation) {
+        return {
+          content: [{ type: "text", text: `Permission denied for role '${policy.role}': ${violation}` }],
+          isError: true,
+        };
+      }
+      return handler(args, extra);
+    };
+    return register(name, ...rest);
+  };
+}
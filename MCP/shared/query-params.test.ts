@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { bindParams } from "./query-params.js";
+
+test("placeholders inside strings, comments and identifiers are not bound", () => {
+  const sql = "SELECT '?', ':name', `a?b`, `:c` /* ? :d */ FROM t WHERE a = ? -- ? :e\n AND b = ? # :f";
+  assert.deepEqual(bindParams(sql, [1, 2]), { sql, values: [1, 2] });
+
+  const named = "SELECT ':id', \"?\" FROM t WHERE id = :id /* :other */";
+  assert.deepEqual(bindParams(named, { id: 7 }), { sql: "SELECT ':id', \"?\" FROM t WHERE id = ? /* :other */", values: [7] });
+});
+
+test("the := assignment operator is not a named placeholder", () => {
+  assert.deepEqual(bindParams("SELECT @total := @total + :amount", { amount: 5 }), { sql: "SELECT @total := @total + ?", values: [5] });
+  assert.deepEqual(bindParams("SET @a := 1", {}), { sql: "SET @a := 1", values: [] });
+});
+
+test("a repeated named placeholder is bound at every position", () => {
+  assert.deepEqual(bindParams("SELECT * FROM t WHERE a = :v OR b = :v OR c = :w", { v: "x", w: null }), {
+    sql: "SELECT * FROM t WHERE a = ? OR b = ? OR c = ?",
+    values: ["x", "x", null],
+  });
+});
+
+test("nested arrays and objects are bound as JSON text", () => {
+  assert.deepEqual(bindParams("INSERT INTO t (doc) VALUES (?)", [{ a: [1] }]).values, ['{"a":[1]}']);
+});
+
+test("missing names and mismatched counts are reported", () => {
+  assert.throws(() => bindParams("SELECT :a, :b, :a", { a: 1 }), /Missing value for named placeholder\(s\): :b$/);
+  // 原型链上的属性不算传入的参数
+  assert.throws(() => bindParams("SELECT :constructor", {}), /Missing value for named placeholder\(s\): :constructor/);
+  assert.throws(() => bindParams("SELECT ?, ?", [1]), /SQL has 2 \? placeholder\(s\) but 1 param\(s\) were given/);
+});
+
+test("positional and named placeholders cannot be mixed", () => {
+  assert.throws(() => bindParams("SELECT ?, :name", [1]), /SQL uses named placeholders \(:name\); pass params as an object/);
+  assert.throws(() => bindParams("SELECT ?, :name", { name: 1 }), /SQL uses \? placeholders; pass params as an array/);
+});
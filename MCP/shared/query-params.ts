@@ -0,0 +1,82 @@
+// 参数化查询：params 为数组时按顺序绑定 ? 占位符，为对象时按名称绑定 :name 占位符。
+// 绑定后的语句通过 mysql2 的 execute 以预处理语句执行，mysql2 在每条连接上按 SQL 文本缓存预处理语句。
+import { tokenize } from "./sql-classifier.js";
+
+export type QueryParams = any[] | Record<string, any>;
+
+export interface BoundQuery {
+  // 命名占位符替换为 ? 后的 SQL
+  sql: string;
+  values: any[];
+}
+
+interface Placeholder {
+  // 命名占位符的名称，? 为 null
+  name: string | null;
+  pos: number;
+  end: number;
+}
+
+// 字符串、注释和标识符中的 ? 和 :name 不是占位符，由词法分析排除
+function placeholdersOf(sql: string): Placeholder[] {
+  const tokens = tokenize(sql);
+  const placeholders: Placeholder[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== "punct") {
+      continue;
+    }
+    if (token.value === "?") {
+      placeholders.push({ name: null, pos: token.pos, end: token.end });
+    } else if (token.value === ":" && tokens[i + 1]?.type === "word" && tokens[i + 1].pos === token.end) {
+      const next = tokens[i + 1];
+      placeholders.push({ name: sql.slice(next.pos, next.end), pos: token.pos, end: next.end });
+      i++;
+    }
+  }
+  return placeholders;
+}
+
+// 嵌套的数组和对象作为 JSON 文本绑定
+function bindValue(value: any): any {
+  if (value !== null && typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * 按占位符绑定参数，返回只含 ? 占位符的 SQL 和按顺序排列的值。
+ * 参数个数或名称与 SQL 中的占位符不一致时抛出错误。
+ */
+export function bindParams(sql: string, params: QueryParams): BoundQuery {
+  const placeholders = placeholdersOf(sql);
+  const positional = placeholders.filter(placeholder => placeholder.name === null);
+  const named = placeholders.filter(placeholder => placeholder.name !== null);
+
+  if (Array.isArray(params)) {
+    if (named.length > 0) {
+      throw new Error(`SQL uses named placeholders (:${named[0].name}); pass params as an object`);
+    }
+    if (positional.length !== params.length) {
+      throw new Error(`SQL has ${positional.length} ? placeholder(s) but ${params.length} param(s) were given`);
+    }
+    return { sql, values: params.map(bindValue) };
+  }
+
+  if (positional.length > 0) {
+    throw new Error("SQL uses ? placeholders; pass params as an array");
+  }
+  const missing = [...new Set(named.map(placeholder => placeholder.name as string))].filter(name => !Object.hasOwn(params, name));
+  if (missing.length > 0) {
+    throw new Error(`Missing value for named placeholder(s): ${missing.map(name => `:${name}`).join(", ")}`);
+  }
+  let text = "";
+  let last = 0;
+  for (const placeholder of named) {
+    text += `${sql.slice(last, placeholder.pos)}?`;
+    last = placeholder.end;
+  }
+  text += sql.slice(last);
+  return { sql: text, values: named.map(placeholder => bindValue(params[placeholder.name as string])) };
+}
@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { QueryGuard, addExecutionTimeHint, parseToolTimeouts } from "./query-timeout.js";
+
+// 语句一直执行到被 KILL QUERY 中止的连接池，只有一条连接
+function hangingPool() {
+  const pending = new Map<number, (error: Error) => void>();
+  let borrowed = 0;
+  const pool = {
+    get borrowed() {
+      return borrowed;
+    },
+    pending,
+    // 工具调用中不会直接执行，由 QueryGuard 改为先借出连接
+    async query(_sql: string): Promise<any> {
+      throw new Error("pool.query should go through getConnection");
+    },
+    async getConnection() {
+      borrowed++;
+      return {
+        threadId: 42,
+        connection: {},
+        query: () => new Promise((_resolve, reject) => pending.set(42, reject)),
+        release() {},
+      };
+    },
+  };
+  return pool;
+}
+
+function toolRunner(guard: QueryGuard) {
+  const handlers = new Map<string, (args: any, extra: any) => Promise<any>>();
+  const registry = { tool: (name: string, handler: any) => handlers.set(name, handler) };
+  guard.instrument(registry);
+  return { registry, handlers };
+}
+
+test("timed out statements are killed on a dedicated connection, not the pool", async () => {
+  const guard = new QueryGuard(() => 50);
+  const { registry, handlers } = toolRunner(guard);
+  const raw = hangingPool();
+  const killed: string[] = [];
+  let ended = 0;
+  const pool = guard.wrapPool(raw, async () => ({
+    async query(sql: string) {
+      killed.push(sql);
+      raw.pending.get(42)?.(new Error("Query execution was interrupted"));
+    },
+    async end() {
+      ended++;
+    },
+    destroy() {},
+  }));
+
+  registry.tool("write_query", async () => {
+    try {
+      await pool.query("UPDATE users SET name = 'x'");
+      return { content: [{ type: "text", text: "ok" }] };
+    } catch (error: any) {
+      return { content: [{ type: "text", text: `Error executing query: ${error.message}` }], isError: true };
+    }
+  });
+
+  const result = await handlers.get("write_query")!({}, {});
+  assert.equal(result.isError, true);
+  assert.match(result.content[0].text, /^Error: Statement timed out after 0.05s \(limit for write_query\)/);
+  assert.deepEqual(killed, ["KILL QUERY 42"]);
+  assert.equal(ended, 1);
+  assert.equal(raw.borrowed, 1);
+});
+
+test("addExecutionTimeHint only hints SELECT statements", () => {
+  assert.equal(addExecutionTimeHint("SELECT * FROM t", 1000), "SELECT /*+ MAX_EXECUTION_TIME(1000) */ * FROM t");
+  assert.equal(addExecutionTimeHint("SELECT /*+ BKA(t) */ * FROM t", 1000), "SELECT /*+ MAX_EXECUTION_TIME(1000) BKA(t) */ * FROM t");
+  assert.equal(addExecutionTimeHint("SELECT /*+ MAX_EXECUTION_TIME(5) */ 1", 1000), "SELECT /*+ MAX_EXECUTION_TIME(5) */ 1");
+  assert.equal(addExecutionTimeHint("UPDATE t SET a = 1", 1000), "UPDATE t SET a = 1");
+});
+
+test("parseToolTimeouts reads tool=seconds pairs", () => {
+  assert.deepEqual([...parseToolTimeouts("read_query=60, dump_database=0,explain_query=1.5")], [["read_query", 60000], ["dump_database", 0], ["explain_query", 1500]]);
+  assert.throws(() => parseToolTimeouts("read_query"), /Invalid tool timeout 'read_query'/);
+});
@@ -0,0 +1,278 @@
+// 语句超时和取消：SELECT 加 MAX_EXECUTION_TIME 提示由服务器中止，其余语句到时用独立连接执行 KILL QUERY；
+// MCP 请求被取消时同样对正在执行的语句执行 KILL QUERY，连接可以继续使用
+import { AsyncLocalStorage } from "node:async_hooks";
+import { tokenize } from "./sql-classifier.js";
+import { ToolRegistry } from "./policy.js";
+
+// 服务器因 MAX_EXECUTION_TIME 中止 SELECT 时的错误号
+const ER_QUERY_TIMEOUT = 3024;
+// 带提示的 SELECT 由服务器计时，客户端计时器稍晚触发作为兜底（如等待锁的时间不计入 MAX_EXECUTION_TIME）
+const HINT_GRACE_MS = 1000;
+// 建立 KILL QUERY 连接的超时，服务器无响应时不会一直等待
+export const KILL_CONNECT_TIMEOUT_MS = 5000;
+
+interface RunningStatement {
+  stop: () => void;
+}
+
+interface GuardScope {
+  // 0 表示不限制
+  timeoutMs: number;
+  signal?: AbortSignal;
+  running: Set<RunningStatement>;
+  // 本次调用中有语句因超时或取消被中止
+  interrupted: "timeout" | "cancelled" | null;
+}
+
+// mysql2 promise 连接池的结构类型
+interface GuardedPool {
+  getConnection(): Promise<any>;
+}
+
+// mysql2 promise 连接（mysql.createConnection）的结构类型
+export interface KillConnection {
+  query(sql: string): Promise<any>;
+  end(): Promise<void>;
+  destroy(): void;
+}
+
+// 建立执行 KILL QUERY 的独立连接，不经过连接池
+export type KillConnector = () => Promise<KillConnection>;
+
+/**
+ * 解析按工具配置的超时，如 "read_query=60,dump_database=0"（秒，0 表示不限制）
+ */
+export function parseToolTimeouts(value: string): Map<string, number> {
+  const timeouts = new Map<string, number>();
+  for (const item of value.split(",").map(part => part.trim()).filter(Boolean)) {
+    const match = /^([\w-]+)\s*=\s*(\d+(?:\.\d+)?)$/.exec(item);
+    if (!match) {
+      throw new Error(`Invalid tool timeout '${item}'; use tool=seconds, e.g. read_query=60`);
+    }
+    timeouts.set(match[1], Math.round(parseFloat(match[2]) * 1000));
+  }
+  return timeouts;
+}
+
+/**
+ * 给 SELECT 语句加上 MAX_EXECUTION_TIME 提示；已有提示块时加到块中，已经设置了 MAX_EXECUTION_TIME 或不是 SELECT 时原样返回
+ */
+export function addExecutionTimeHint(sql: string, timeoutMs: number): string {
+  const first = tokenize(sql)[0];
+  if (!first || first.type !== "word" || first.value !== "SELECT") {
+    return sql;
+  }
+  const head = sql.slice(0, first.end);
+  const rest = sql.slice(first.end);
+  const block = /^\s*\/\*\+([\s\S]*?)\*\//.exec(rest);
+  if (block) {
+    if (/\bMAX_EXECUTION_TIME\s*\(/i.test(block[1])) {
+      return sql;
+    }
+    return `${head}${rest.replace("/*+", `/*+ MAX_EXECUTION_TIME(${timeoutMs})`)}`;
+  }
+  return `${head} /*+ MAX_EXECUTION_TIME(${timeoutMs}) */${rest}`;
+}
+
+function sqlText(sql: any): string | null {
+  return typeof sql === "string" ? sql : null;
+}
+
+export class QueryGuard {
+  private storage = new AsyncLocalStorage<GuardScope>();
+
+  constructor(private timeoutFor: (tool: string) => number) {}
+
+  // 在独立连接上中止语句：连接池可能已被卡住的语句占满，借连接会一直排队
+  private async kill(connect: KillConnector, threadId: number) {
+    const connection = await connect();
+    try {
+      await connection.query(`KILL QUERY ${Number(threadId)}`);
+    } finally {
+      await connection.end().catch(() => connection.destroy());
+    }
+  }
+
+  // 登记正在执行的语句：到时或请求取消时 KILL QUERY，stop() 在语句结束时调用
+  private start(scope: GuardScope, connect: KillConnector, threadId: number, timeoutMs: number): RunningStatement {
+    let stopped = false;
+    const interrupt = (reason: "timeout" | "cancelled") => {
+      if (stopped) {
+        return;
+      }
+      scope.interrupted = reason;
+      running.stop();
+      this.kill(connect, threadId).catch(error => console.error(`Failed to kill query on thread ${threadId}:`, error));
+    };
+    const timer = timeoutMs > 0 ? setTimeout(() => interrupt("timeout"), timeoutMs) : null;
+    const onAbort = () => interrupt("cancelled");
+    scope.signal?.addEventListener("abort", onAbort);
+    const running: RunningStatement = {
+      stop: () => {
+        stopped = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+        scope.signal?.removeEventListener("abort", onAbort);
+        scope.running.delete(running);
+      },
+    };
+    scope.running.add(running);
+    return running;
+  }
+
+  private noteError(scope: GuardScope, error: any) {
+    if (error?.errno === ER_QUERY_TIMEOUT) {
+      scope.interrupted = "timeout";
+    }
+  }
+
+  private async run(scope: GuardScope, connect: KillConnector, connection: any, method: "query" | "execute", sql: any, values: any) {
+    if (scope.signal?.aborted) {
+      scope.interrupted = "cancelled";
+      throw new Error("Request was cancelled");
+    }
+    const text = sqlText(sql);
+    const hinted = text !== null && scope.timeoutMs > 0 ? addExecutionTimeHint(text, scope.timeoutMs) : sql;
+    const running = this.start(scope, connect, connection.threadId, hinted !== sql ? scope.timeoutMs + HINT_GRACE_MS : scope.timeoutMs);
+    try {
+      return await connection[method](hinted, values);
+    } catch (error) {
+      this.noteError(scope, error);
+      throw error;
+    } finally {
+      running.stop();
+    }
+  }
+
+  private active(): GuardScope | null {
+    const scope = this.storage.getStore();
+    return scope && (scope.timeoutMs > 0 || scope.signal) ? scope : null;
+  }
+
+  // 回调风格连接（流式读取）：没有服务器端提示（游标会在工具调用之后继续读取），计时到结果集读完或工具调用结束
+  private wrapStreaming(connect: KillConnector, target: any) {
+    return new Proxy(target, {
+      get: (object, name) => {
+        const value = Reflect.get(object, name, object);
+        if (typeof value !== "function") {
+          return value;
+        }
+        if (name === "query" || name === "execute") {
+          return (sql: any, values?: any) => {
+            const scope = this.active();
+            const command = value.call(object, sql, values);
+            if (scope && typeof command?.on === "function") {
+              const running = this.start(scope, connect, object.threadId, scope.timeoutMs);
+              command.on("end", () => running.stop());
+              command.on("error", (error: any) => {
+                this.noteError(scope, error);
+                running.stop();
+              });
+            }
+            return command;
+          };
+        }
+        return value.bind(object);
+      },
+    });
+  }
+
+  private wrapConnection(connect: KillConnector, connection: any) {
+    const streaming = this.wrapStreaming(connect, connection.connection);
+    return new Proxy(connection, {
+      get: (object, name) => {
+        if (name === "connection") {
+          return streaming;
+        }
+        const value = Reflect.get(object, name, object);
+        if (typeof value !== "function") {
+          return value;
+        }
+        if (name === "query" || name === "execute") {
+          return (sql: any, values?: any) => {
+            const scope = this.active();
+            return scope ? this.run(scope, connect, object, name, sql, values) : value.call(object, sql, values);
+          };
+        }
+        return value.bind(object);
+      },
+    });
+  }
+
+  /**
+   * 包装 mysql2 promise 连接池：工具调用中执行的语句受超时和取消控制。
+   * 直接在连接池上执行的语句改为先取出连接，这样才知道要 KILL 的线程 ID。
+   * connect 建立执行 KILL QUERY 的独立连接，应使用与连接池相同的账号并设置连接超时（KILL_CONNECT_TIMEOUT_MS）。
+   */
+  wrapPool<T extends object>(pool: T, connect: KillConnector): T {
+    const target = pool as unknown as GuardedPool;
+    return new Proxy(pool, {
+      get: (object, name) => {
+        const value = Reflect.get(object, name, object);
+        if (typeof value !== "function") {
+          return value;
+        }
+        if (name === "getConnection") {
+          return async () => this.wrapConnection(connect, await target.getConnection());
+        }
+        if (name === "query" || name === "execute") {
+          return async (sql: any, values?: any) => {
+            const scope = this.active();
+            if (!scope) {
+              return value.call(object, sql, values);
+            }
+            const connection = await target.getConnection();
+            try {
+              return await this.run(scope, connect, connection, name, sql, values);
+            } finally {
+              connection.release();
+            }
+          };
+        }
+        return value.bind(object);
+      },
+    });
+  }
+
+  private message(scope: GuardScope, tool: string): string {
+    if (scope.interrupted === "cancelled") {
+      return "Request was cancelled; the running statement was stopped with KILL QUERY";
+    }
+    return `Statement timed out after ${scope.timeoutMs / 1000}s (limit for ${tool}) and was stopped. Narrow the query (WHERE, LIMIT, an index) or raise the limit with MYSQL_QUERY_TIMEOUT / MYSQL_TOOL_TIMEOUTS`;
+  }
+
+  /**
+   * 在注册工具时统一套用超时和取消，必须在注册任何工具之前调用。
+   * 有语句因超时或取消被中止时，把工具返回的错误替换为明确的说明（原错误附在后面）。
+   */
+  instrument(server: ToolRegistry): void {
+    const register = server.tool.bind(server);
+    server.tool = (name: string, ...rest: any[]) => {
+      const handler = rest[rest.length - 1];
+      rest[rest.length - 1] = async (args: any, extra: any) => {
+        const scope: GuardScope = { timeoutMs: this.timeoutFor(name), signal: extra?.signal, running: new Set(), interrupted: null };
+        try {
+          const result = await this.storage.run(scope, () => handler(args, extra));
+          if (scope.interrupted && result?.isError) {
+            const original = (result.content || []).map((item: any) => item.text).filter(Boolean).join("\n");
+            return {
+              content: [{ type: "text", text: `Error: ${this.message(scope, name)}${original ? `\n\n${original}` : ""}` }],
+              isError: true,
+            };
+          }
+          return result;
+        } catch (error) {
+          if (scope.interrupted) {
+            throw new Error(this.message(scope, name));
+          }
+          throw error;
+        } finally {
+          // 游标在工具调用之后继续读取，不再受超时限制
+          [...scope.running].forEach(running => running.stop());
+        }
+      };
+      return register(name, ...rest);
+    };
+  }
+}
@@ -0,0 +1,342 @@
+// 限制查询结果大小：流式读取结果集，超出行数或字节数时截断，或保留为游标分页读取
+import { Readable } from "node:stream";
+import { randomBytes } from "node:crypto";
+
+// mysql2 的回调风格连接（promise 连接的 .connection 属性），query() 和 execute() 返回的对象支持 stream()
+export interface StreamingConnection {
+  query(sql: string, values?: any): { stream(options?: { highWaterMark?: number }): Readable };
+  execute(sql: string, values?: any[]): { stream(options?: { highWaterMark?: number }): Readable };
+}
+
+/**
+ * 取出 mysql2 promise 连接底层的回调风格连接。mysql2 的类型声明把 .connection 标为 promise 连接，
+ * 但运行时它是回调风格的连接，只有它的 query() 返回可以 stream() 的 Query 对象。
+ */
+export function streamingConnection(connection: { connection: unknown }): StreamingConnection {
+  return connection.connection as StreamingConnection;
+}
+
+export interface ResultLimits {
+  maxRows: number;
+  maxBytes: number;
+}
+
+export interface ResultPage {
+  rows: any[];
+  fields: any[] | null;
+  bytes: number;
+  // 结果集已经读完
+  done: boolean;
+}
+
+export interface LimitedResult {
+  rows: any[];
+  fields: any[] | null;
+  truncated: boolean;
+  // 结果集总行数；超过计数上限时为 null
+  totalRows: number | null;
+  // 结果集已经完整读完，连接可以继续使用
+  drained: boolean;
+}
+
+export interface CursorInfo {
+  id: string;
+  connectionName: string;
+  sql: string;
+  rowsFetched: number;
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+interface CursorEntry extends CursorInfo {
+  reader: RowReader;
+  release: (reusable: boolean) => void;
+  timer: NodeJS.Timeout | null;
+  queue: Promise<unknown>;
+}
+
+export interface OpenCursorOptions {
+  reader: RowReader;
+  connectionName: string;
+  sql: string;
+  rowsFetched: number;
+  // 游标关闭后归还连接；reusable 为 false 时结果集没有读完，连接必须销毁
+  release: (reusable: boolean) => void;
+}
+
+/**
+ * 按需从结果流中拉取行。mysql2 在流的缓冲区满时暂停读取 socket，
+ * 所以任何时候内存中只有少量行，不会缓存整个结果集。
+ */
+export class RowReader {
+  fields: any[] | null = null;
+  private stream: Readable;
+  private ended = false;
+  private error: Error | null = null;
+  private pending: any[] = [];
+
+  // 传入 values 时以预处理语句执行
+  constructor(connection: StreamingConnection, sql: string, values?: any[]) {
+    const command = values ? connection.execute(sql, values) : connection.query(sql);
+    this.stream = command.stream({ highWaterMark: 100 });
+    this.stream.on("fields", fields => {
+      this.fields = fields;
+    });
+    this.stream.on("end", () => {
+      this.ended = true;
+    });
+    this.stream.on("error", error => {
+      this.error = error;
+    });
+  }
+
+  /**
+   * 读取下一行，结果集结束时返回 undefined
+   */
+  async next(): Promise<any | undefined> {
+    if (this.pending.length > 0) {
+      return this.pending.shift();
+    }
+    while (true) {
+      if (this.error) {
+        throw this.error;
+      }
+      const row = this.stream.read();
+      if (row !== null) {
+        return row;
+      }
+      if (this.ended) {
+        return undefined;
+      }
+      await new Promise<void>(resolve => {
+        const wake = () => {
+          this.stream.off("readable", wake);
+          this.stream.off("end", wake);
+          this.stream.off("error", wake);
+          resolve();
+        };
+        this.stream.on("readable", wake);
+        this.stream.on("end", wake);
+        this.stream.on("error", wake);
+      });
+    }
+  }
+
+  // 放回一行，下次 next() 时返回
+  unread(row: any) {
+    this.pending.unshift(row);
+  }
+
+  /**
+   * 丢弃剩余的行并计数，最多 limit 行；返回计数和结果集是否已经读完
+   */
+  async skip(limit: number): Promise<{ skipped: number; done: boolean }> {
+    let skipped = 0;
+    while (skipped < limit) {
+      if ((await this.next()) === undefined) {
+        return { skipped, done: true };
+      }
+      skipped++;
+    }
+    const row = await this.next();
+    if (row === undefined) {
+      return { skipped, done: true };
+    }
+    this.unread(row);
+    return { skipped, done: false };
+  }
+}
+
+function rowSize(row: any): number {
+  return Buffer.byteLength(JSON.stringify(row, (_key, value) => (typeof value === "bigint" ? value.toString() : value)));
+}
+
+/**
+ * 读取一页：达到行数或字节数上限时停止。单行超过字节上限时仍然返回这一行，保证分页能继续。
+ */
+export async function readPage(reader: RowReader, limits: ResultLimits): Promise<ResultPage> {
+  const rows: any[] = [];
+  let bytes = 0;
+  while (rows.length < limits.maxRows) {
+    const row = await reader.next();
+    if (row === undefined) {
+      return { rows, fields: reader.fields, bytes, done: true };
+    }
+    const size = rowSize(row);
+    if (rows.length > 0 && bytes + size > limits.maxBytes) {
+      reader.unread(row);
+      return { rows, fields: reader.fields, bytes, done: false };
+    }
+    rows.push(row);
+    bytes += size;
+  }
+
+  const row = await reader.next();
+  if (row !== undefined) {
+    reader.unread(row);
+  }
+  return { rows, fields: reader.fields, bytes, done: row === undefined };
+}
+
+/**
+ * 读取第一页，其余的行只计数不保留。计数超过 countLimit 时停止，
+ * 此时结果集没有读完（drained 为 false），调用方必须销毁连接。
+ */
+export async function readLimited(reader: RowReader, limits: ResultLimits, countLimit: number = Infinity): Promise<LimitedResult> {
+  const page = await readPage(reader, limits);
+  if (page.done) {
+    return { rows: page.rows, fields: page.fields, truncated: false, totalRows: page.rows.length, drained: true };
+  }
+  const rest = await reader.skip(countLimit);
+  return {
+    rows: page.rows,
+    fields: page.fields,
+    truncated: true,
+    totalRows: rest.done ? page.rows.length + rest.skipped : null,
+    drained: rest.done,
+  };
+}
+
+export class CursorManager {
+  private cursors = new Map<string, CursorEntry>();
+
+  constructor(private idleTimeoutMs: number, private maxCursors: number) {}
+
+  /**
+   * 打开游标前检查数量上限，每个游标占用一条连接
+   */
+  assertCapacity() {
+    if (this.cursors.size >= this.maxCursors) {
+      throw new Error(`Too many open cursors (${this.cursors.size}). Read them to the end with fetch_more or close them with close_cursor`);
+    }
+  }
+
+  open(options: OpenCursorOptions): CursorInfo {
+    const now = new Date();
+    const entry: CursorEntry = {
+      id: `cur_${randomBytes(6).toString("hex")}`,
+      connectionName: options.connectionName,
+      sql: options.sql,
+      rowsFetched: options.rowsFetched,
+      createdAt: now,
+      lastUsedAt: now,
+      reader: options.reader,
+      release: options.release,
+      timer: null,
+      queue: Promise.resolve(),
+    };
+    this.cursors.set(entry.id, entry);
+    this.touch(entry);
+    return this.describe(entry);
+  }
+
+  /**
+   * 读取下一页；读完后自动关闭游标并归还连接
+   */
+  fetch(id: string, limits: ResultLimits): Promise<{ page: ResultPage; cursor: CursorInfo }> {
+    const entry = this.get(id);
+    const run = entry.queue.then(async () => {
+      if (!this.cursors.has(id)) {
+        throw new Error(`Cursor '${id}' is already closed`);
+      }
+      this.touch(entry);
+      let page: ResultPage;
+      try {
+        page = await readPage(entry.reader, limits);
+      } catch (error) {
+        this.end(entry, false);
+        throw error;
+      }
+      entry.rowsFetched += page.rows.length;
+      if (page.done) {
+        this.end(entry, true);
+      }
+      return { page, cursor: this.describe(entry) };
+    });
+    entry.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  close(id: string): CursorInfo {
+    const entry = this.get(id);
+    this.end(entry, false);
+    return this.describe(entry);
+  }
+
+  closeAll() {
+    for (const entry of [...this.cursors.values()]) {
+      this.end(entry, false);
+    }
+  }
+
+  list(): CursorInfo[] {
+    return [...this.cursors.values()].map(entry => this.describe(entry));
+  }
+
+  private get(id: string): CursorEntry {
+    const entry = this.cursors.get(id);
+    if (!entry) {
+      throw new Error(`Unknown cursor '${id}'. It may have been read to the end, closed, or closed after being idle for ${Math.round(this.idleTimeoutMs / 1000)}s`);
+    }
+    return entry;
+  }
+
+  // 重置空闲计时器，超时后关闭游标
+  private touch(entry: CursorEntry) {
+    entry.lastUsedAt = new Date();
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    entry.timer = setTimeout(() => {
+      console.error(`Cursor ${entry.id} idle for ${Math.round(this.idleTimeoutMs / 1000)}s, closing`);
+      this.end(entry, false);
+    }, this.idleTimeoutMs);
+    entry.timer.unref();
+  }
+
+  private end(entry: CursorEntry, reusable: boolean) {
+    if (!this.cursors.delete(entry.id)) {
+      return;
+    }
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+    entry.release(reusable);
+  }
+
+  private describe(entry: CursorEntry): CursorInfo {
+    return {
+      id: entry.id,
+      connectionName: entry.connectionName,
+      sql: entry.sql,
+      rowsFetched: entry.rowsFetched,
+      createdAt: entry.createdAt,
+      lastUsedAt: entry.lastUsedAt,
+    };
+  }
+}
+
+/**
+ * 截断说明，随结果一起返回；结果完整时返回 null
+ */
+export function truncationInfo(rows: any[], options: { truncated: boolean; totalRows?: number | null; cursor?: CursorInfo | null }): Record<string, any> | null {
+  if (!options.truncated) {
+    return null;
+  }
+  let message: string;
+  if (options.cursor) {
+    message = `Result truncated to ${rows.length} rows. Call fetch_more with cursor "${options.cursor.id}" for the next page, or close_cursor when done`;
+  } else if (options.totalRows !== null && options.totalRows !== undefined) {
+    message = `Result truncated to ${rows.length} of ${options.totalRows} rows. Add LIMIT/OFFSET or WHERE conditions, or pass cursor: true to page through the result`;
+  } else {
+    message = `Result truncated to ${rows.length} rows; the total is too large to count. Add LIMIT/OFFSET or WHERE conditions, or pass cursor: true to page through the result`;
+  }
+  return {
+    truncated: true,
+    rowsReturned: rows.length,
+    totalRows: options.totalRows ?? null,
+    cursor: options.cursor ? options.cursor.id : null,
+    message,
+  };
+}
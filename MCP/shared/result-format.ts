@@ -0,0 +1,124 @@
+// 结果格式：json（行对象数组）、compact（{columns, rows}）、markdown 表格、csv
+import { ColumnType } from "./value-serializer.js";
+
+export const RESULT_FORMATS = ["json", "compact", "markdown", "csv"] as const;
+
+export type ResultFormat = typeof RESULT_FORMATS[number];
+
+export function parseResultFormat(value: string): ResultFormat {
+  const format = value.trim().toLowerCase();
+  if (!(RESULT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Unknown result format '${value}'. Use ${RESULT_FORMATS.join(", ")}`);
+  }
+  return format as ResultFormat;
+}
+
+/**
+ * 列名：优先使用查询返回的字段定义，保证空结果和列顺序正确；否则取各行的键
+ */
+export function columnsOf(rows: any[], fields?: any[] | null): string[] {
+  if (fields && fields.length > 0) {
+    return fields.map(field => field.name);
+  }
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row ?? {})) {
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+  return columns;
+}
+
+// markdown 和 csv 中单元格的文本形式
+function cellText(value: any): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return `0x${value.toString("hex")}`;
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function markdownCell(value: any): string {
+  const text = cellText(value);
+  if (text === null) {
+    return "NULL";
+  }
+  return text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function csvCell(value: any): string {
+  const text = cellText(value);
+  if (text === null) {
+    return "";
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownTable(columns: string[], rows: any[]): string {
+  if (columns.length === 0) {
+    return "(no columns)";
+  }
+  const lines = [
+    `| ${columns.map(markdownCell).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map(row => `| ${columns.map(column => markdownCell(row[column])).join(" | ")} |`),
+  ];
+  return lines.join("\n");
+}
+
+function csvTable(columns: string[], rows: any[]): string {
+  return [columns, ...rows.map(row => columns.map(column => row[column]))]
+    .map(cells => cells.map(csvCell).join(","))
+    .join("\n");
+}
+
+export interface FormatOptions {
+  fields?: any[] | null;
+  // 结果之外的说明（如截断信息）
+  meta?: Record<string, any> | null;
+  // 列类型说明；compact 中只输出类型名
+  columnTypes?: ColumnType[] | null;
+}
+
+/**
+ * 把行格式化为工具返回的文本。meta 在 json/compact 中与行合并为一个对象，
+ * 在 markdown/csv 中附在表格之后。
+ */
+export function formatRows(rows: any[], format: ResultFormat, options: FormatOptions = {}): string {
+  const { meta, columnTypes } = options;
+  switch (format) {
+    case "compact": {
+      const columns = columnsOf(rows, options.fields);
+      const types = columnTypes ? { types: columnTypes.map(column => column.type) } : {};
+      return JSON.stringify({ ...meta, columns, ...types, rows: rows.map(row => columns.map(column => row[column])) });
+    }
+    case "markdown":
+    case "csv": {
+      const columns = columnsOf(rows, options.fields);
+      const sections = [format === "markdown" ? markdownTable(columns, rows) : csvTable(columns, rows)];
+      if (columnTypes) {
+        sections.push(`Column types: ${columnTypes.map(column => `${column.name} ${column.type}${column.nullable ? "" : " NOT NULL"}`).join(", ")}`);
+      }
+      if (meta) {
+        const { message, ...rest } = meta;
+        sections.push(`${message ? `${message}\n` : ""}${JSON.stringify(rest)}`);
+      }
+      return sections.join("\n\n");
+    }
+    default:
+      if (!meta && !columnTypes) {
+        return JSON.stringify(rows, null, 2);
+      }
+      return JSON.stringify({ ...(columnTypes ? { columns: columnTypes } : {}), ...meta, rows }, null, 2);
+  }
+}
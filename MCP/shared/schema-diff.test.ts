@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffSchemas, SchemaSnapshot, TableSnapshot } from "./schema-diff.js";
+import { SqlEscaper } from "./ddl-builder.js";
+import { ForeignKeyEdge } from "./fk-graph.js";
+import { IndexInfo } from "./index-inspector.js";
+import { Queryable } from "./types.js";
+
+const escaper: SqlEscaper = {
+  escape: value => (typeof value === "string" ? `'${value.replace(/[\\']/g, "\\$&")}'` : String(value)),
+  escapeId: value => `\`${value.replace(/`/g, "``")}\``,
+};
+
+function table(name: string, columns: [string, string][], extra: Partial<TableSnapshot> = {}): TableSnapshot {
+  return {
+    name,
+    engine: "InnoDB",
+    collation: "utf8mb4_0900_ai_ci",
+    comment: "",
+    columns: columns.map(([column, definition], i) => ({ name: column, position: i + 1, definition })),
+    indexes: [],
+    foreignKeys: [],
+    ...extra,
+  };
+}
+
+function index(database: string, tableName: string, name: string, column: string): IndexInfo {
+  return {
+    database,
+    table: tableName,
+    name,
+    unique: false,
+    primary: false,
+    type: "BTREE",
+    columns: [{ name: column, subPart: null, order: "ASC", nullable: true }],
+    cardinality: null,
+    visible: true,
+    comment: "",
+  };
+}
+
+function foreignKey(database: string, tableName: string, name: string, referencedTable: string, onDelete: ForeignKeyEdge["onDelete"]): ForeignKeyEdge {
+  return {
+    name,
+    database,
+    table: tableName,
+    columns: [`${referencedTable.replace(/s$/, "")}_id`],
+    referencedDatabase: database,
+    referencedTable,
+    referencedColumns: ["id"],
+    onUpdate: "RESTRICT",
+    onDelete,
+  };
+}
+
+function snapshot(database: string, tables: TableSnapshot[]): SchemaSnapshot {
+  return { connection: "default", database, tables: new Map(tables.map(item => [item.name, item])) };
+}
+
+const ORDERS_DDL = `CREATE TABLE \`orders\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`user_id\` int NOT NULL,
+  PRIMARY KEY (\`id\`),
+  KEY \`fk_orders_user\` (\`user_id\`),
+  CONSTRAINT \`fk_orders_user\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`)
+) ENGINE=InnoDB AUTO_INCREMENT=42 DEFAULT CHARSET=utf8mb4`;
+
+function sourceConnection(): Queryable & { queries: string[] } {
+  const queries: string[] = [];
+  return {
+    queries,
+    async query(sql: string): Promise<[any, any]> {
+      queries.push(sql);
+      return [[{ Table: "orders", "Create Table": ORDERS_DDL }], []];
+    },
+  };
+}
+
+test("diffSchemas orders foreign key drops, creates, alters, drops and foreign key adds", async () => {
+  const teams = table("teams", [["id", "int NOT NULL"]]);
+  const source = snapshot("app", [
+    teams,
+    table("users", [["id", "int NOT NULL"], ["name", "varchar(50) NULL"], ["email", "varchar(255) NULL"], ["team_id", "int NULL"]], {
+      indexes: [index("app", "users", "idx_email", "email")],
+      foreignKeys: [foreignKey("app", "users", "fk_users_team", "teams", "CASCADE")],
+    }),
+    table("orders", [["id", "int NOT NULL AUTO_INCREMENT"], ["user_id", "int NOT NULL"]], {
+      foreignKeys: [foreignKey("app", "orders", "fk_orders_user", "users", "RESTRICT")],
+    }),
+  ]);
+  const target = snapshot("app_copy", [
+    teams,
+    table("users", [["id", "int NOT NULL"], ["name", "varchar(50) NULL"], ["legacy", "text NULL"], ["team_id", "int NULL"]], {
+      indexes: [index("app_copy", "users", "idx_legacy", "legacy")],
+      foreignKeys: [foreignKey("app_copy", "users", "fk_users_team", "teams", "RESTRICT")],
+    }),
+    table("logs", [["id", "int NOT NULL"], ["user_id", "int NULL"]], {
+      foreignKeys: [foreignKey("app_copy", "logs", "fk_logs_user", "users", "SET NULL")],
+    }),
+  ]);
+
+  const connection = sourceConnection();
+  const diff = await diffSchemas(connection, source, target, escaper);
+  assert.deepEqual(connection.queries, ["SHOW CREATE TABLE `app`.`orders`"]);
+  assert.deepEqual(diff.create, ["orders"]);
+  assert.deepEqual(diff.drop, ["logs"]);
+  assert.equal(diff.identical, 1);
+  assert.deepEqual(diff.statements, [
+    "ALTER TABLE `app_copy`.`logs` DROP FOREIGN KEY `fk_logs_user`;",
+    "ALTER TABLE `app_copy`.`users` DROP FOREIGN KEY `fk_users_team`;",
+    // SHOW CREATE TABLE 去掉外键行、AUTO_INCREMENT 计数器，并改为目标库的表名
+    "CREATE TABLE `app_copy`.`orders` (\n  `id` int NOT NULL AUTO_INCREMENT,\n  `user_id` int NOT NULL,\n  PRIMARY KEY (`id`),\n  KEY `fk_orders_user` (`user_id`)\n) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;",
+    "ALTER TABLE `app_copy`.`users`\n  DROP INDEX `idx_legacy`,\n  DROP COLUMN `legacy`,\n  ADD COLUMN `email` varchar(255) NULL AFTER `name`,\n  ADD INDEX `idx_email` (`email`);",
+    "DROP TABLE `app_copy`.`logs`;",
+    "ALTER TABLE `app_copy`.`orders` ADD CONSTRAINT `fk_orders_user` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE RESTRICT ON UPDATE RESTRICT;",
+    "ALTER TABLE `app_copy`.`users` ADD CONSTRAINT `fk_users_team` FOREIGN KEY (`team_id`) REFERENCES `teams` (`id`) ON DELETE CASCADE ON UPDATE RESTRICT;",
+  ]);
+  assert.ok(diff.warnings.includes("DROP TABLE app_copy.logs deletes its data"));
+  assert.ok(diff.warnings.some(warning => warning.startsWith("Dropping column users.legacy deletes its data")));
+});
+
+test("identical schemas produce no statements", async () => {
+  const users = table("users", [["id", "int NOT NULL"]]);
+  const diff = await diffSchemas(sourceConnection(), snapshot("app", [users]), snapshot("app_copy", [users]), escaper);
+  assert.deepEqual(diff.statements, []);
+  assert.equal(diff.identical, 1);
+});
@@ -0,0 +1,434 @@
+// diff_schema：逐表比较两个数据库的列、索引、外键和表选项，生成可读报告和把目标库迁移为源库结构的有序脚本
+import { SqlEscaper, IndexDefinition, buildIndex, buildForeignKey, buildTableOptions } from "./ddl-builder.js";
+import { readForeignKeys, ForeignKeyEdge } from "./fk-graph.js";
+import { listIndexes, IndexInfo } from "./index-inspector.js";
+import { globToRegExp } from "./policy.js";
+import { Queryable } from "./types.js";
+
+export interface ColumnSnapshot {
+  name: string;
+  position: number;
+  // 完整的列定义（不含列名），用于比较和生成脚本
+  definition: string;
+}
+
+export interface TableSnapshot {
+  name: string;
+  engine: string | null;
+  collation: string | null;
+  comment: string;
+  columns: ColumnSnapshot[];
+  indexes: IndexInfo[];
+  foreignKeys: ForeignKeyEdge[];
+}
+
+export interface SchemaSnapshot {
+  // 连接配置名，仅用于报告
+  connection: string;
+  database: string;
+  tables: Map<string, TableSnapshot>;
+}
+
+export interface SnapshotOptions {
+  // 为空时使用连接的当前数据库
+  database?: string | null;
+  // 表名通配，为空时比较所有表
+  include?: string[];
+  exclude?: string[];
+  // 额外的表过滤（如权限策略）
+  allowTable?: (database: string, table: string) => boolean;
+}
+
+export interface Change<T> {
+  name: string;
+  from?: T;
+  to?: T;
+}
+
+export interface TableDiff {
+  table: string;
+  columns: Change<string>[];
+  indexes: Change<string>[];
+  foreignKeys: Change<string>[];
+  options: Change<string>[];
+}
+
+export interface SchemaDiff {
+  source: string;
+  target: string;
+  // 只在源库中存在，需要在目标库中创建
+  create: string[];
+  // 只在目标库中存在，需要从目标库中删除
+  drop: string[];
+  changed: TableDiff[];
+  identical: number;
+  // 会丢失数据或需要人工确认的语句
+  warnings: string[];
+  statements: string[];
+}
+
+function matchesAny(patterns: string[] | undefined, name: string): boolean {
+  return !!patterns && patterns.some(pattern => globToRegExp(pattern).test(name));
+}
+
+const NUMERIC_TYPES = ["tinyint", "smallint", "mediumint", "int", "integer", "bigint", "decimal", "numeric", "float", "double", "real", "bit", "year"];
+
+// 由 information_schema.COLUMNS 还原列定义，兼容 MySQL 8.0 的 DEFAULT_GENERATED 标记和 MariaDB 带引号的默认值
+function columnDefinition(escaper: SqlEscaper, row: any, tableCollation: string | null): string {
+  const parts = [row.type];
+  const extra = String(row.extra || "");
+  if (row.generation) {
+    parts.push(`GENERATED ALWAYS AS (${row.generation}) ${/STORED/i.test(extra) ? "STORED" : "VIRTUAL"}`);
+  }
+  if (row.collation && row.collation !== tableCollation) {
+    parts.push(`CHARACTER SET ${row.charset} COLLATE ${row.collation}`);
+  }
+  parts.push(row.nullable === "YES" ? "NULL" : "NOT NULL");
+  if (row.default !== null && row.default !== undefined && !row.generation) {
+    const value = String(row.default);
+    if (/DEFAULT_GENERATED/i.test(extra)) {
+      parts.push(/^(CURRENT_TIMESTAMP|NOW|LOCALTIMESTAMP)(\(\d*\))?$/i.test(value) ? `DEFAULT ${value}` : `DEFAULT (${value})`);
+    } else if (/^'.*'$/s.test(value) || value === "NULL" || /^(current_timestamp|now)\(/i.test(value)) {
+      // MariaDB 的 COLUMN_DEFAULT 已经是 SQL 表达式
+      if (value !== "NULL") {
+        parts.push(`DEFAULT ${value}`);
+      }
+    } else if (NUMERIC_TYPES.includes(String(row.dataType).toLowerCase()) && !String(row.type).startsWith("bit")) {
+      parts.push(`DEFAULT ${value}`);
+    } else {
+      parts.push(`DEFAULT ${escaper.escape(value)}`);
+    }
+  }
+  const rest = extra.replace(/DEFAULT_GENERATED|(VIRTUAL|STORED) GENERATED/gi, "").trim();
+  if (rest) {
+    parts.push(rest);
+  }
+  if (row.comment) {
+    parts.push(`COMMENT ${escaper.escape(row.comment)}`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * 读取数据库的表结构快照（只包括基表，不包括视图）
+ */
+export async function loadSchemaSnapshot(connection: Queryable, escaper: SqlEscaper, connectionName: string, options: SnapshotOptions): Promise<SchemaSnapshot> {
+  const [databaseRows] = await connection.query("SELECT COALESCE(?, DATABASE()) AS name", [options.database || null]);
+  const database = (databaseRows as any[])[0]?.name;
+  if (!database) {
+    throw new Error(`No database selected on connection '${connectionName}'; pass the database name`);
+  }
+  const [databaseExists] = await connection.query("SELECT 1 FROM information_schema.SCHEMATA WHERE SCHEMA_NAME = ?", [database]);
+  if ((databaseExists as any[]).length === 0) {
+    throw new Error(`Database ${database} does not exist on connection '${connectionName}'`);
+  }
+
+  const [tableRows] = await connection.query(
+    `SELECT TABLE_NAME AS name, ENGINE AS engine, TABLE_COLLATION AS collation, TABLE_COMMENT AS comment
+     FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = 'BASE TABLE' ORDER BY TABLE_NAME`,
+    [database]
+  );
+  const tables = new Map<string, TableSnapshot>();
+  for (const row of tableRows as any[]) {
+    if ((options.include?.length && !matchesAny(options.include, row.name)) || matchesAny(options.exclude, row.name) || (options.allowTable && !options.allowTable(database, row.name))) {
+      continue;
+    }
+    tables.set(row.name, { name: row.name, engine: row.engine, collation: row.collation, comment: row.comment || "", columns: [], indexes: [], foreignKeys: [] });
+  }
+
+  const [columnRows] = await connection.query(
+    `SELECT *, TABLE_NAME AS \`table\`, COLUMN_NAME AS name, ORDINAL_POSITION AS position, COLUMN_TYPE AS type, DATA_TYPE AS dataType,
+            IS_NULLABLE AS nullable, COLUMN_DEFAULT AS \`default\`, EXTRA AS extra, CHARACTER_SET_NAME AS charset,
+            COLLATION_NAME AS collation, COLUMN_COMMENT AS comment
+     FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = ? ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+    [database]
+  );
+  for (const row of columnRows as any[]) {
+    const table = tables.get(row.table);
+    if (!table) {
+      continue;
+    }
+    // GENERATION_EXPRESSION 在 MySQL 5.7+ / MariaDB 10.2+ 中存在，普通列为空字符串
+    const generation = row.GENERATION_EXPRESSION || null;
+    table.columns.push({
+      name: row.name,
+      position: Number(row.position),
+      definition: columnDefinition(escaper, { ...row, generation }, table.collation),
+    });
+  }
+  for (const index of await listIndexes(connection, { database })) {
+    tables.get(index.table)?.indexes.push(index);
+  }
+  for (const key of await readForeignKeys(connection, database)) {
+    tables.get(key.table)?.foreignKeys.push(key);
+  }
+  return { connection: connectionName, database, tables };
+}
+
+function indexToDefinition(index: IndexInfo): IndexDefinition | null {
+  if (index.columns.some(column => column.name === null)) {
+    return null;
+  }
+  return {
+    name: index.name,
+    type: index.unique ? "UNIQUE" : index.type === "FULLTEXT" || index.type === "SPATIAL" ? index.type : "INDEX",
+    columns: index.columns.map(column => ({
+      name: column.name as string,
+      length: column.subPart ?? undefined,
+      order: column.order === "DESC" ? "DESC" as const : undefined,
+    })),
+    comment: index.comment || undefined,
+    visible: index.visible ? undefined : false,
+  };
+}
+
+// 索引的 ADD 子句；函数索引（MySQL 8.0.13+）直接拼接表达式
+function indexClause(escaper: SqlEscaper, index: IndexInfo): string {
+  if (index.primary) {
+    return `PRIMARY KEY (${index.columns.map(column => escaper.escapeId(column.name as string)).join(", ")})`;
+  }
+  const definition = indexToDefinition(index);
+  if (definition) {
+    return buildIndex(escaper, definition);
+  }
+  const parts = index.columns.map(column => (column.name !== null ? escaper.escapeId(column.name) : `(${column.expression})`) + (column.order === "DESC" ? " DESC" : ""));
+  return `${index.unique ? "UNIQUE INDEX" : "INDEX"} ${escaper.escapeId(index.name)} (${parts.join(", ")})${index.visible ? "" : " INVISIBLE"}`;
+}
+
+// 外键子句；引用本库的表时不写库名，使脚本在目标库中引用目标库的表
+function foreignKeyClause(escaper: SqlEscaper, key: ForeignKeyEdge): string {
+  return buildForeignKey(escaper, {
+    name: key.name,
+    columns: key.columns,
+    referencedDatabase: key.referencedDatabase === key.database ? undefined : key.referencedDatabase,
+    referencedTable: key.referencedTable,
+    referencedColumns: key.referencedColumns,
+    onDelete: key.onDelete,
+    onUpdate: key.onUpdate,
+  });
+}
+
+function charsetOf(collation: string | null): string | undefined {
+  return collation ? collation.split("_")[0] : undefined;
+}
+
+// 比较两组同名对象，返回新增、删除和修改
+function compare<T>(source: T[], target: T[], nameOf: (item: T) => string, describe: (item: T) => string): Change<string>[] {
+  const changes: Change<string>[] = [];
+  const targetByName = new Map(target.map(item => [nameOf(item).toLowerCase(), item]));
+  const sourceNames = new Set(source.map(item => nameOf(item).toLowerCase()));
+  for (const item of source) {
+    const other = targetByName.get(nameOf(item).toLowerCase());
+    if (!other) {
+      changes.push({ name: nameOf(item), to: describe(item) });
+    } else if (describe(other) !== describe(item)) {
+      changes.push({ name: nameOf(item), from: describe(other), to: describe(item) });
+    }
+  }
+  for (const item of target) {
+    if (!sourceNames.has(nameOf(item).toLowerCase())) {
+      changes.push({ name: nameOf(item), from: describe(item) });
+    }
+  }
+  return changes;
+}
+
+function tableRef(escaper: SqlEscaper, database: string, table: string): string {
+  return `${escaper.escapeId(database)}.${escaper.escapeId(table)}`;
+}
+
+// 去掉 SHOW CREATE TABLE 中的外键和 AUTO_INCREMENT 计数器，外键在所有表创建之后再添加
+function stripCreateTable(escaper: SqlEscaper, sql: string, database: string, table: string): string {
+  const lines = sql.split("\n").filter(line => !/^\s*CONSTRAINT .* FOREIGN KEY /.test(line));
+  // 删除外键行后，右括号前的最后一行不能以逗号结尾
+  for (let i = lines.length - 1; i > 0; i--) {
+    if (/^\)/.test(lines[i])) {
+      lines[i - 1] = lines[i - 1].replace(/,$/, "");
+      break;
+    }
+  }
+  return lines.join("\n")
+    .replace(/^CREATE TABLE `(?:[^`]|``)+`/, `CREATE TABLE ${tableRef(escaper, database, table)}`)
+    .replace(/ AUTO_INCREMENT=\d+/, "");
+}
+
+/**
+ * 比较源库和目标库，生成把目标库变为源库结构的脚本。语句顺序：
+ * 删除变化或多余的外键 → 创建新表（不含外键）→ 修改表（删除索引、增删改列、添加索引、表选项）
+ * → 删除多余的表 → 添加外键。
+ */
+export async function diffSchemas(sourceConnection: Queryable, source: SchemaSnapshot, target: SchemaSnapshot, escaper: SqlEscaper): Promise<SchemaDiff> {
+  const warnings: string[] = [];
+  const create = [...source.tables.keys()].filter(name => !target.tables.has(name));
+  const drop = [...target.tables.keys()].filter(name => !source.tables.has(name));
+  const changed: TableDiff[] = [];
+
+  const dropForeignKeys: string[] = [];
+  const addForeignKeys: string[] = [];
+  const createStatements: string[] = [];
+  const alterStatements: string[] = [];
+  const dropStatements: string[] = [];
+  const targetTable = (table: string) => tableRef(escaper, target.database, table);
+
+  for (const name of create) {
+    const [rows] = await sourceConnection.query(`SHOW CREATE TABLE ${tableRef(escaper, source.database, name)}`);
+    createStatements.push(`${stripCreateTable(escaper, (rows as any[])[0]["Create Table"], target.database, name)};`);
+    for (const key of (source.tables.get(name) as TableSnapshot).foreignKeys) {
+      addForeignKeys.push(`ALTER TABLE ${targetTable(name)} ADD ${foreignKeyClause(escaper, key)};`);
+    }
+  }
+
+  for (const name of drop) {
+    const table = target.tables.get(name) as TableSnapshot;
+    for (const key of table.foreignKeys) {
+      dropForeignKeys.push(`ALTER TABLE ${targetTable(name)} DROP FOREIGN KEY ${escaper.escapeId(key.name)};`);
+    }
+    dropStatements.push(`DROP TABLE ${targetTable(name)};`);
+    warnings.push(`DROP TABLE ${target.database}.${name} deletes its data`);
+  }
+
+  let identical = 0;
+  for (const [name, sourceTable] of source.tables) {
+    const targetTableSnapshot = target.tables.get(name);
+    if (!targetTableSnapshot) {
+      continue;
+    }
+    const columns = compare(sourceTable.columns, targetTableSnapshot.columns, column => column.name, column => column.definition);
+    const indexes = compare(sourceTable.indexes, targetTableSnapshot.indexes, index => index.name, index => indexClause(escaper, index));
+    const foreignKeys = compare(sourceTable.foreignKeys, targetTableSnapshot.foreignKeys, key => key.name, key => foreignKeyClause(escaper, key));
+    const options: Change<string>[] = [];
+    for (const [option, from, to] of [
+      ["engine", targetTableSnapshot.engine, sourceTable.engine],
+      ["collation", targetTableSnapshot.collation, sourceTable.collation],
+      ["comment", targetTableSnapshot.comment, sourceTable.comment],
+    ]) {
+      if ((from || "").toLowerCase() !== (to || "").toLowerCase()) {
+        options.push({ name: option as string, from: from ?? undefined, to: to ?? undefined });
+      }
+    }
+    if (columns.length + indexes.length + foreignKeys.length + options.length === 0) {
+      identical++;
+      continue;
+    }
+    changed.push({ table: name, columns, indexes, foreignKeys, options });
+
+    for (const change of foreignKeys) {
+      if (change.from !== undefined) {
+        dropForeignKeys.push(`ALTER TABLE ${targetTable(name)} DROP FOREIGN KEY ${escaper.escapeId(change.name)};`);
+      }
+      if (change.to !== undefined) {
+        addForeignKeys.push(`ALTER TABLE ${targetTable(name)} ADD ${change.to};`);
+      }
+    }
+
+    const clauses: string[] = [];
+    for (const change of indexes) {
+      if (change.from !== undefined) {
+        clauses.push(change.name === "PRIMARY" ? "DROP PRIMARY KEY" : `DROP INDEX ${escaper.escapeId(change.name)}`);
+      }
+    }
+    for (const change of columns) {
+      if (change.to === undefined) {
+        clauses.push(`DROP COLUMN ${escaper.escapeId(change.name)}`);
+        warnings.push(`Dropping column ${name}.${change.name} deletes its data; a renamed column shows up as a drop and an add`);
+      }
+    }
+    for (const column of sourceTable.columns) {
+      const change = columns.find(item => item.name.toLowerCase() === column.name.toLowerCase());
+      if (!change) {
+        continue;
+      }
+      if (change.from === undefined) {
+        const previous = sourceTable.columns.find(item => item.position === column.position - 1);
+        const position = previous ? ` AFTER ${escaper.escapeId(previous.name)}` : " FIRST";
+        clauses.push(`ADD COLUMN ${escaper.escapeId(column.name)} ${column.definition}${position}`);
+      } else {
+        clauses.push(`MODIFY COLUMN ${escaper.escapeId(column.name)} ${column.definition}`);
+        warnings.push(`Changing ${name}.${column.name} from '${change.from}' to '${change.to}' may rewrite the table or truncate data`);
+      }
+    }
+    for (const change of indexes) {
+      if (change.to !== undefined) {
+        clauses.push(`ADD ${change.to}`);
+      }
+    }
+    const tableOptions = buildTableOptions(escaper, {
+      engine: options.some(option => option.name === "engine") ? sourceTable.engine ?? undefined : undefined,
+      charset: options.some(option => option.name === "collation") ? charsetOf(sourceTable.collation) : undefined,
+      collation: options.some(option => option.name === "collation") ? sourceTable.collation ?? undefined : undefined,
+      comment: options.some(option => option.name === "comment") ? sourceTable.comment : undefined,
+    });
+    if (tableOptions) {
+      clauses.push(tableOptions);
+    }
+    if (options.some(option => option.name === "collation")) {
+      warnings.push(`Changing the default collation of ${name} only affects new columns; existing columns are compared and changed individually`);
+    }
+    if (clauses.length > 0) {
+      alterStatements.push(`ALTER TABLE ${targetTable(name)}\n  ${clauses.join(",\n  ")};`);
+    }
+  }
+
+  return {
+    source: `${source.connection}:${source.database}`,
+    target: `${target.connection}:${target.database}`,
+    create,
+    drop,
+    changed,
+    identical,
+    warnings,
+    statements: [...dropForeignKeys, ...createStatements, ...alterStatements, ...dropStatements, ...addForeignKeys],
+  };
+}
+
+function changeLine(kind: string, change: Change<string>): string {
+  if (change.from === undefined) {
+    return `    + ${kind} ${change.name}: ${change.to}`;
+  }
+  if (change.to === undefined) {
+    return `    - ${kind} ${change.name}: ${change.from}`;
+  }
+  return `    ~ ${kind} ${change.name}: ${change.from} -> ${change.to}`;
+}
+
+/**
+ * 可读的差异报告
+ */
+export function formatDiffReport(diff: SchemaDiff): string {
+  const lines = [`Schema diff: ${diff.target} -> ${diff.source} (changes that make the target match the source)`, ""];
+  if (diff.create.length + diff.drop.length + diff.changed.length === 0) {
+    lines.push(`No differences (${diff.identical} identical tables)`);
+    return lines.join("\n");
+  }
+  if (diff.create.length > 0) {
+    lines.push(`Tables to create (${diff.create.length}): ${diff.create.join(", ")}`);
+  }
+  if (diff.drop.length > 0) {
+    lines.push(`Tables to drop (${diff.drop.length}): ${diff.drop.join(", ")}`);
+  }
+  if (diff.changed.length > 0) {
+    lines.push(`Tables to alter (${diff.changed.length}):`);
+    for (const table of diff.changed) {
+      lines.push(`  ${table.table}`);
+      table.columns.forEach(change => lines.push(changeLine("column", change)));
+      table.indexes.forEach(change => lines.push(changeLine("index", change)));
+      table.foreignKeys.forEach(change => lines.push(changeLine("foreign key", change)));
+      table.options.forEach(change => lines.push(changeLine("option", change)));
+    }
+  }
+  lines.push(`Identical tables: ${diff.identical}`);
+  if (diff.warnings.length > 0) {
+    lines.push("", "Warnings:", ...diff.warnings.map(warning => `  - ${warning}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 迁移脚本，每条语句以分号结束，可以逐条通过 write_query 执行
+ */
+export function formatMigrationScript(diff: SchemaDiff): string {
+  if (diff.statements.length === 0) {
+    return "-- No changes";
+  }
+  return [`-- Migrate ${diff.target} to match ${diff.source}`, ...diff.statements].join("\n\n");
+}
@@ -0,0 +1,235 @@
+// 表结构资源：以 MCP 资源的形式提供数据库、表结构和建表语句，客户端可以直接浏览和附加，不必逐个调用工具
+import { listIndexes, IndexInfo } from "./index-inspector.js";
+import { Queryable } from "./types.js";
+
+// 资源 URI 模板，变量值经过 URI 编码
+export const DATABASES_URI = "mysql://databases";
+export const DATABASE_TEMPLATE = "mysql://{database}/schema";
+export const TABLE_SCHEMA_TEMPLATE = "mysql://{database}/{table}/schema";
+export const TABLE_DDL_TEMPLATE = "mysql://{database}/{table}/ddl";
+
+// 系统库不出现在资源列表中，但仍然可以按 URI 读取
+export const SYSTEM_DATABASES = ["information_schema", "mysql", "performance_schema", "sys"];
+
+export interface DatabaseSummary {
+  name: string;
+  charset: string;
+  collation: string;
+  uri: string;
+}
+
+export interface TableSummary {
+  database: string;
+  name: string;
+  type: string;
+  engine: string | null;
+  // 行数为 information_schema 中的估计值
+  rows: number | null;
+  comment: string;
+  uri: string;
+}
+
+export interface ColumnSchema {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  // auto_increment、on update CURRENT_TIMESTAMP、VIRTUAL GENERATED 等
+  extra: string;
+  key: string;
+  charset: string | null;
+  collation: string | null;
+  comment: string;
+}
+
+export interface ForeignKeySchema {
+  name: string;
+  // 定义外键的表
+  database: string;
+  table: string;
+  columns: string[];
+  referencedDatabase: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+}
+
+export interface TableSchema {
+  database: string;
+  table: string;
+  type: string;
+  engine: string | null;
+  collation: string | null;
+  rows: number | null;
+  comment: string;
+  columns: ColumnSchema[];
+  indexes: IndexInfo[];
+  foreignKeys: ForeignKeySchema[];
+  // 引用本表的外键
+  referencedBy: ForeignKeySchema[];
+  ddlUri: string;
+}
+
+export function databaseUri(database: string): string {
+  return DATABASE_TEMPLATE.replace("{database}", encodeURIComponent(database));
+}
+
+export function tableSchemaUri(database: string, table: string): string {
+  return TABLE_SCHEMA_TEMPLATE.replace("{database}", encodeURIComponent(database)).replace("{table}", encodeURIComponent(table));
+}
+
+export function tableDdlUri(database: string, table: string): string {
+  return TABLE_DDL_TEMPLATE.replace("{database}", encodeURIComponent(database)).replace("{table}", encodeURIComponent(table));
+}
+
+// 模板变量在 SDK 中不解码
+export function decodeVariable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value.join(",") : value);
+}
+
+function quoteId(name: string): string {
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * 列出数据库，includeSystem 为 false 时排除系统库
+ */
+export async function listDatabases(connection: Queryable, includeSystem: boolean): Promise<DatabaseSummary[]> {
+  const [rows] = await connection.query(
+    `SELECT SCHEMA_NAME AS name, DEFAULT_CHARACTER_SET_NAME AS charset, DEFAULT_COLLATION_NAME AS collation
+     FROM information_schema.SCHEMATA ORDER BY SCHEMA_NAME`
+  );
+  return (rows as any[])
+    .filter(row => includeSystem || !SYSTEM_DATABASES.includes(row.name.toLowerCase()))
+    .map(row => ({ name: row.name, charset: row.charset, collation: row.collation, uri: databaseUri(row.name) }));
+}
+
+/**
+ * 列出数据库中的表和视图；databases 为空时列出所有非系统库，最多返回 limit 个
+ */
+export async function listTables(connection: Queryable, databases: string[] | null, limit: number): Promise<TableSummary[]> {
+  const conditions = databases
+    ? [`TABLE_SCHEMA IN (${databases.map(() => "?").join(", ") || "NULL"})`]
+    : [`TABLE_SCHEMA NOT IN (${SYSTEM_DATABASES.map(() => "?").join(", ")})`];
+  const [rows] = await connection.query(
+    `SELECT TABLE_SCHEMA AS \`database\`, TABLE_NAME AS name, TABLE_TYPE AS type, ENGINE AS engine,
+            TABLE_ROWS AS \`rows\`, TABLE_COMMENT AS comment
+     FROM information_schema.TABLES
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY TABLE_SCHEMA, TABLE_NAME
+     LIMIT ${Math.max(0, Math.floor(limit))}`,
+    databases || SYSTEM_DATABASES
+  );
+  return (rows as any[]).map(row => ({
+    database: row.database,
+    name: row.name,
+    type: row.type,
+    engine: row.engine,
+    rows: toNumber(row.rows),
+    comment: row.comment || "",
+    uri: tableSchemaUri(row.database, row.name),
+  }));
+}
+
+function groupForeignKeys(rows: any[]): ForeignKeySchema[] {
+  const keys = new Map<string, ForeignKeySchema>();
+  for (const row of rows) {
+    const id = `${row.tableSchema}.${row.tableName}.${row.name}`;
+    let key = keys.get(id);
+    if (!key) {
+      key = {
+        name: row.name,
+        database: row.tableSchema,
+        table: row.tableName,
+        columns: [],
+        referencedDatabase: row.referencedDatabase,
+        referencedTable: row.referencedTable,
+        referencedColumns: [],
+        onUpdate: row.onUpdate,
+        onDelete: row.onDelete,
+      };
+      keys.set(id, key);
+    }
+    key.columns.push(row.columnName);
+    key.referencedColumns.push(row.referencedColumn);
+  }
+  return [...keys.values()];
+}
+
+async function readForeignKeys(connection: Queryable, database: string, table: string, referenced: boolean): Promise<ForeignKeySchema[]> {
+  const side = referenced ? "k.REFERENCED_TABLE_SCHEMA = ? AND k.REFERENCED_TABLE_NAME = ?" : "k.TABLE_SCHEMA = ? AND k.TABLE_NAME = ?";
+  const [rows] = await connection.query(
+    `SELECT k.CONSTRAINT_NAME AS name, k.TABLE_SCHEMA AS tableSchema, k.TABLE_NAME AS tableName, k.COLUMN_NAME AS columnName,
+            k.REFERENCED_TABLE_SCHEMA AS referencedDatabase, k.REFERENCED_TABLE_NAME AS referencedTable,
+            k.REFERENCED_COLUMN_NAME AS referencedColumn, r.UPDATE_RULE AS onUpdate, r.DELETE_RULE AS onDelete
+     FROM information_schema.KEY_COLUMN_USAGE k
+     JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+       ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME AND r.TABLE_NAME = k.TABLE_NAME
+     WHERE ${side} AND k.REFERENCED_TABLE_NAME IS NOT NULL
+     ORDER BY k.TABLE_SCHEMA, k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`,
+    [database, table]
+  );
+  return groupForeignKeys(rows as any[]);
+}
+
+/**
+ * 读取一张表的完整结构：列、索引、外键和被引用关系。表不存在时抛出错误。
+ */
+export async function describeTableSchema(connection: Queryable, database: string, table: string): Promise<TableSchema> {
+  const [tables] = await connection.query(
+    `SELECT TABLE_TYPE AS type, ENGINE AS engine, TABLE_COLLATION AS collation, TABLE_ROWS AS \`rows\`, TABLE_COMMENT AS comment
+     FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?`,
+    [database, table]
+  );
+  const info = (tables as any[])[0];
+  if (!info) {
+    throw new Error(`Table ${database}.${table} does not exist`);
+  }
+
+  const [columns] = await connection.query(
+    `SELECT COLUMN_NAME AS name, COLUMN_TYPE AS type, IS_NULLABLE AS nullable, COLUMN_DEFAULT AS \`default\`, EXTRA AS extra,
+            COLUMN_KEY AS \`key\`, CHARACTER_SET_NAME AS charset, COLLATION_NAME AS collation, COLUMN_COMMENT AS comment
+     FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+     ORDER BY ORDINAL_POSITION`,
+    [database, table]
+  );
+
+  return {
+    database,
+    table,
+    type: info.type,
+    engine: info.engine,
+    collation: info.collation,
+    rows: toNumber(info.rows),
+    comment: info.comment || "",
+    columns: (columns as any[]).map(column => ({
+      name: column.name,
+      type: column.type,
+      nullable: column.nullable === "YES",
+      default: column.default,
+      extra: column.extra || "",
+      key: column.key || "",
+      charset: column.charset,
+      collation: column.collation,
+      comment: column.comment || "",
+    })),
+    indexes: await listIndexes(connection, { database, table }),
+    foreignKeys: await readForeignKeys(connection, database, table, false),
+    referencedBy: await readForeignKeys(connection, database, table, true),
+    ddlUri: tableDdlUri(database, table),
+  };
+}
+
+/**
+ * SHOW CREATE TABLE / VIEW 的语句文本
+ */
+export async function showCreateTable(connection: Queryable, database: string, table: string): Promise<string> {
+  const [rows] = await connection.query(`SHOW CREATE TABLE ${quoteId(database)}.${quoteId(table)}`);
+  const row = (rows as any[])[0] || {};
+  return row["Create Table"] ?? row["Create View"] ?? "";
+}
@@ -0,0 +1,232 @@
+// describe_schema：用几次 information_schema 查询汇总整个数据库的表结构，超出输出预算时逐级精简而不是截断在表中间
+import { listIndexes, IndexInfo } from "./index-inspector.js";
+import { readForeignKeys, ForeignKeyEdge } from "./fk-graph.js";
+import { globToRegExp } from "./policy.js";
+import { Queryable } from "./types.js";
+
+// full: 列定义、索引和外键；columns: 只有列名；name: 只有表名
+export type SummaryDetail = "full" | "columns" | "name";
+
+export interface SchemaSummaryOptions {
+  // 为空时使用连接的当前数据库
+  database?: string | null;
+  // 表名通配（* 和 ?），为空时包含所有表
+  include?: string[];
+  exclude?: string[];
+  includeViews: boolean;
+  // 输出 JSON 的字节预算
+  maxBytes: number;
+  // 额外的表过滤（如权限策略）
+  allowTable?: (database: string, table: string) => boolean;
+}
+
+export interface TableSummaryEntry {
+  name: string;
+  detail: SummaryDetail;
+  type?: string;
+  engine?: string | null;
+  // information_schema 中的估计值
+  rows?: number | null;
+  comment?: string;
+  // 形如 `price decimal(10,2) NOT NULL DEFAULT '0.00'` 的列定义，detail 为 columns 时只有列名
+  columns?: string[];
+  primaryKey?: string[];
+  // 形如 `UNIQUE uk_email (email)` 的索引定义
+  indexes?: string[];
+  // 形如 `customer_id -> customers(id) ON DELETE CASCADE` 的外键
+  foreignKeys?: string[];
+}
+
+export interface SchemaSummary {
+  database: string;
+  tableCount: number;
+  // 各级别的表数量；精简或省略的表可以用 describe_table 或表结构资源查看
+  detail: Record<SummaryDetail, number> & { omitted: number };
+  tables: TableSummaryEntry[];
+  notes: string[];
+}
+
+function matchesAny(patterns: string[] | undefined, name: string): boolean {
+  return !!patterns && patterns.some(pattern => globToRegExp(pattern).test(name));
+}
+
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function columnDefinition(column: any): string {
+  const parts = [column.name, column.type];
+  if (column.nullable !== "YES") {
+    parts.push("NOT NULL");
+  }
+  if (column.default !== null && column.default !== undefined) {
+    const value = String(column.default);
+    parts.push(`DEFAULT ${/^-?[0-9.]+$|^CURRENT_TIMESTAMP|\(/i.test(value) ? value : `'${value.replace(/'/g, "''")}'`}`);
+  }
+  // MySQL 8.0 对表达式默认值标记 DEFAULT_GENERATED，对阅读没有帮助
+  const extra = String(column.extra || "").replace(/DEFAULT_GENERATED\s*/i, "").trim();
+  if (extra) {
+    parts.push(extra);
+  }
+  if (column.comment) {
+    parts.push(`-- ${column.comment}`);
+  }
+  return parts.join(" ");
+}
+
+function indexDefinition(index: IndexInfo): string {
+  const kind = index.unique ? "UNIQUE " : index.type === "FULLTEXT" || index.type === "SPATIAL" ? `${index.type} ` : "";
+  const columns = index.columns.map(column => {
+    const name = column.name ?? `(${column.expression})`;
+    return `${name}${column.subPart !== null ? `(${column.subPart})` : ""}${column.order === "DESC" ? " DESC" : ""}`;
+  });
+  return `${kind}${index.name} (${columns.join(", ")})${index.visible ? "" : " INVISIBLE"}`;
+}
+
+function foreignKeyDefinition(database: string, key: ForeignKeyEdge): string {
+  const target = key.referencedDatabase === database ? key.referencedTable : `${key.referencedDatabase}.${key.referencedTable}`;
+  const rules = [
+    key.onDelete && key.onDelete !== "RESTRICT" && key.onDelete !== "NO ACTION" ? ` ON DELETE ${key.onDelete}` : "",
+    key.onUpdate && key.onUpdate !== "RESTRICT" && key.onUpdate !== "NO ACTION" ? ` ON UPDATE ${key.onUpdate}` : "",
+  ];
+  return `${key.columns.join(", ")} -> ${target}(${key.referencedColumns.join(", ")})${rules.join("")}`;
+}
+
+function sizeOf(value: any): number {
+  return Buffer.byteLength(JSON.stringify(value, null, 2));
+}
+
+// 表条目在结果 JSON 中的大小：位于 tables 数组内，每行多缩进 4 个空格，另加逗号和换行
+function entrySize(entry: TableSummaryEntry): number {
+  return Buffer.byteLength(JSON.stringify(entry, null, 2).replace(/\n/g, "\n    ")) + 6;
+}
+
+/**
+ * 汇总数据库中所有（匹配的）表的结构。先按 full 级别生成，总大小超过 maxBytes 时
+ * 所有表先降为只有表名，再按顺序把表升级为 columns、full 级别，直到预算用完。
+ */
+export async function summarizeSchema(connection: Queryable, options: SchemaSummaryOptions): Promise<SchemaSummary> {
+  const [databaseRows] = await connection.query("SELECT COALESCE(?, DATABASE()) AS name", [options.database || null]);
+  const database = (databaseRows as any[])[0]?.name;
+  if (!database) {
+    throw new Error("No database selected; pass database");
+  }
+
+  const [tableRows] = await connection.query(
+    `SELECT TABLE_NAME AS name, TABLE_TYPE AS type, ENGINE AS engine, TABLE_ROWS AS \`rows\`, TABLE_COMMENT AS comment
+     FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? ORDER BY TABLE_NAME`,
+    [database]
+  );
+  const tables = (tableRows as any[]).filter(table =>
+    (options.includeViews || table.type !== "VIEW") &&
+    (!options.include?.length || matchesAny(options.include, table.name)) &&
+    !matchesAny(options.exclude, table.name) &&
+    (!options.allowTable || options.allowTable(database, table.name))
+  );
+  const notes: string[] = [];
+  if (tables.length === 0) {
+    return { database, tableCount: 0, detail: { full: 0, columns: 0, name: 0, omitted: 0 }, tables: [], notes: ["No tables match"] };
+  }
+
+  const [columnRows] = await connection.query(
+    `SELECT TABLE_NAME AS \`table\`, COLUMN_NAME AS name, COLUMN_TYPE AS type, IS_NULLABLE AS nullable,
+            COLUMN_DEFAULT AS \`default\`, EXTRA AS extra, COLUMN_COMMENT AS comment
+     FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = ? ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+    [database]
+  );
+  const columns = new Map<string, any[]>();
+  for (const row of columnRows as any[]) {
+    columns.set(row.table, [...(columns.get(row.table) || []), row]);
+  }
+  const indexes = new Map<string, IndexInfo[]>();
+  for (const index of await listIndexes(connection, { database })) {
+    indexes.set(index.table, [...(indexes.get(index.table) || []), index]);
+  }
+  const foreignKeys = new Map<string, ForeignKeyEdge[]>();
+  for (const key of await readForeignKeys(connection, database)) {
+    foreignKeys.set(key.table, [...(foreignKeys.get(key.table) || []), key]);
+  }
+
+  const levels = tables.map(table => {
+    const tableColumns = columns.get(table.name) || [];
+    const tableIndexes = indexes.get(table.name) || [];
+    const primary = tableIndexes.find(index => index.primary);
+    const rows = toNumber(table.rows);
+    const full: TableSummaryEntry = {
+      name: table.name,
+      detail: "full",
+      type: table.type === "BASE TABLE" ? undefined : table.type,
+      engine: table.engine,
+      rows,
+      comment: table.comment || undefined,
+      columns: tableColumns.map(columnDefinition),
+      primaryKey: primary?.columns.map(column => column.name ?? `(${column.expression})`),
+      indexes: tableIndexes.filter(index => !index.primary).map(indexDefinition),
+      foreignKeys: (foreignKeys.get(table.name) || []).map(key => foreignKeyDefinition(database, key)),
+    };
+    if (!full.indexes?.length) {
+      delete full.indexes;
+    }
+    if (!full.foreignKeys?.length) {
+      delete full.foreignKeys;
+    }
+    const brief: TableSummaryEntry = {
+      name: table.name,
+      detail: "columns",
+      type: full.type,
+      rows,
+      comment: full.comment,
+      columns: tableColumns.map(column => column.name),
+    };
+    const name: TableSummaryEntry = { name: table.name, detail: "name" };
+    return { full, brief, name };
+  });
+
+  const build = (entries: (TableSummaryEntry | null)[]): SchemaSummary => {
+    const included = entries.filter((entry): entry is TableSummaryEntry => entry !== null);
+    return {
+      database,
+      tableCount: tables.length,
+      detail: {
+        full: included.filter(entry => entry.detail === "full").length,
+        columns: included.filter(entry => entry.detail === "columns").length,
+        name: included.filter(entry => entry.detail === "name").length,
+        omitted: entries.length - included.length,
+      },
+      tables: included,
+      notes,
+    };
+  };
+
+  notes.push("Row counts are estimates from information_schema");
+  const full = levels.map(level => level.full);
+  if (sizeOf(build(full)) <= options.maxBytes) {
+    return build(full);
+  }
+
+  notes.push("Output exceeded the byte budget: some tables are listed with column names only, by name, or omitted (see detail); use describe_table, the mysql://{database}/{table}/schema resource or a narrower table filter for details");
+  // 逐个累加条目大小，避免每次都序列化整个结果
+  const entries: (TableSummaryEntry | null)[] = levels.map(() => null);
+  const sizes = levels.map(() => 0);
+  let total = sizeOf(build(entries));
+  for (let i = 0; i < levels.length; i++) {
+    const size = entrySize(levels[i].name);
+    if (total + size > options.maxBytes) {
+      break;
+    }
+    entries[i] = levels[i].name;
+    sizes[i] = size;
+    total += size;
+  }
+  for (const level of ["brief", "full"] as const) {
+    for (let i = 0; i < levels.length && entries[i] !== null; i++) {
+      const size = entrySize(levels[i][level]);
+      if (total - sizes[i] + size <= options.maxBytes) {
+        entries[i] = levels[i][level];
+        total += size - sizes[i];
+        sizes[i] = size;
+      }
+    }
+  }
+  return build(entries);
+}
@@ -0,0 +1,180 @@
+// 会话管理：合并 PROCESSLIST、performance_schema 当前语句和 InnoDB 事务，按条件筛选，KILL 前检查受保护的线程
+import { Queryable } from "./types.js";
+
+export const KILL_MODES = ["query", "connection"] as const;
+
+export type KillMode = typeof KILL_MODES[number];
+
+export interface SessionFilter {
+  id?: number | null;
+  user?: string | null;
+  database?: string | null;
+  // 命令或状态中包含的文本，不区分大小写
+  command?: string | null;
+  state?: string | null;
+  // 当前命令至少执行了多少秒
+  minTime?: number | null;
+  // 包括没有打开事务的 Sleep 会话
+  includeIdle?: boolean;
+}
+
+// 扁平结构，便于按 markdown/csv 输出
+export interface SessionInfo {
+  id: number;
+  user: string;
+  host: string | null;
+  database: string | null;
+  command: string;
+  timeSeconds: number;
+  state: string | null;
+  // PROCESSLIST 中正在执行的完整语句
+  statement: string | null;
+  // performance_schema 中的当前语句，空闲会话为上一条执行完的语句（长度受 performance_schema_max_sql_text_length 限制）
+  lastStatement: string | null;
+  statementMs: number | null;
+  rowsExamined: number | null;
+  rowsSent: number | null;
+  trxId: string | null;
+  trxState: string | null;
+  trxStarted: string | null;
+  trxSeconds: number | null;
+  trxRowsLocked: number | null;
+  trxRowsModified: number | null;
+  // 不允许 KILL 的原因
+  protected: string | null;
+}
+
+export interface SessionList {
+  sessions: SessionInfo[];
+  notes: string[];
+}
+
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function toText(value: any): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function contains(value: string | null, search: string): boolean {
+  return (value || "").toLowerCase().includes(search.toLowerCase());
+}
+
+/**
+ * 不允许 KILL 的线程：本服务自己的连接、复制线程（源库的 Binlog Dump 和副本上的 system user 线程）和服务器后台线程
+ */
+export function protectionReason(session: { id: number; user: string; command: string }, ownThreads: Set<number>): string | null {
+  if (ownThreads.has(session.id)) {
+    return "connection used by this MCP server";
+  }
+  if (/^Binlog Dump/i.test(session.command) || /^Register (Slave|Replica)$/i.test(session.command)) {
+    return "replication thread serving a replica";
+  }
+  if (session.user === "system user") {
+    return "replication or other server system thread";
+  }
+  if (session.command === "Daemon" || session.user === "event_scheduler") {
+    return "server background thread";
+  }
+  return null;
+}
+
+async function currentStatements(connection: Queryable, notes: string[]): Promise<Map<number, any>> {
+  const statements = new Map<number, any>();
+  try {
+    // TIMER_WAIT 单位为皮秒；存储过程中的嵌套语句只取最外层
+    const [rows] = await connection.query(
+      `SELECT t.PROCESSLIST_ID AS id, s.SQL_TEXT AS sql_text, ROUND(s.TIMER_WAIT / 1000000000) AS statement_ms,
+              s.ROWS_EXAMINED AS rows_examined, s.ROWS_SENT AS rows_sent
+       FROM performance_schema.threads t
+       JOIN performance_schema.events_statements_current s ON s.THREAD_ID = t.THREAD_ID
+       WHERE t.PROCESSLIST_ID IS NOT NULL AND s.NESTING_EVENT_LEVEL = 0`
+    );
+    (rows as any[]).forEach(row => statements.set(Number(row.id), row));
+  } catch (error) {
+    notes.push(`performance_schema statements are not available: ${errorText(error)}`);
+  }
+  return statements;
+}
+
+async function openTransactions(connection: Queryable, notes: string[]): Promise<Map<number, any>> {
+  const transactions = new Map<number, any>();
+  try {
+    const [rows] = await connection.query(
+      `SELECT trx_mysql_thread_id AS id, trx_id, trx_state, trx_started,
+              TIMESTAMPDIFF(SECOND, trx_started, NOW()) AS trx_seconds, trx_rows_locked, trx_rows_modified
+       FROM information_schema.INNODB_TRX`
+    );
+    (rows as any[]).forEach(row => transactions.set(Number(row.id), row));
+  } catch (error) {
+    notes.push(`information_schema.INNODB_TRX is not available: ${errorText(error)}`);
+  }
+  return transactions;
+}
+
+/**
+ * 列出会话，按运行时间从长到短排序。performance_schema 或 INNODB_TRX 不可用时对应字段为 null 并在 notes 中说明
+ */
+export async function listSessions(connection: Queryable, filter: SessionFilter, ownThreads: Set<number>): Promise<SessionList> {
+  const notes: string[] = [];
+  const [rows] = await connection.query(
+    `SELECT ID AS id, USER AS user, HOST AS host, DB AS db, COMMAND AS command, TIME AS time, STATE AS state, INFO AS info
+     FROM information_schema.PROCESSLIST
+     WHERE (? IS NULL OR ID = ?)
+     ORDER BY TIME DESC, ID`,
+    [filter.id ?? null, filter.id ?? null]
+  );
+  const statements = await currentStatements(connection, notes);
+  const transactions = await openTransactions(connection, notes);
+
+  const sessions = (rows as any[]).map((row): SessionInfo => {
+    const id = Number(row.id);
+    const statement = statements.get(id);
+    const trx = transactions.get(id);
+    return {
+      id,
+      user: row.user,
+      host: toText(row.host),
+      database: toText(row.db),
+      command: row.command,
+      timeSeconds: Number(row.time),
+      state: toText(row.state) || null,
+      statement: toText(row.info),
+      lastStatement: toText(statement?.sql_text),
+      statementMs: toNumber(statement?.statement_ms),
+      rowsExamined: toNumber(statement?.rows_examined),
+      rowsSent: toNumber(statement?.rows_sent),
+      trxId: toText(trx?.trx_id),
+      trxState: toText(trx?.trx_state),
+      trxStarted: toText(trx?.trx_started),
+      trxSeconds: toNumber(trx?.trx_seconds),
+      trxRowsLocked: toNumber(trx?.trx_rows_locked),
+      trxRowsModified: toNumber(trx?.trx_rows_modified),
+      protected: protectionReason({ id, user: row.user, command: row.command }, ownThreads),
+    };
+  });
+
+  return {
+    sessions: sessions.filter(session =>
+      (!filter.user || session.user === filter.user) &&
+      (!filter.database || session.database === filter.database) &&
+      (!filter.command || contains(session.command, filter.command)) &&
+      (!filter.state || contains(session.state, filter.state)) &&
+      (filter.minTime === null || filter.minTime === undefined || session.timeSeconds >= filter.minTime) &&
+      (filter.includeIdle !== false || session.command !== "Sleep" || session.trxId !== null)
+    ),
+    notes,
+  };
+}
+
+/**
+ * KILL QUERY 只中止正在执行的语句；KILL CONNECTION 断开连接，未提交的事务会回滚
+ */
+export async function killSession(connection: Queryable, id: number, mode: KillMode): Promise<void> {
+  await connection.query(`KILL ${mode === "query" ? "QUERY" : "CONNECTION"} ${Math.trunc(id)}`);
+}
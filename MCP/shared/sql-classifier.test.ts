@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkReadOnly, findUseDatabase, splitStatements, tokenize } from "./sql-classifier.js";
+
+function statementsOf(sql: string): string[] {
+  return splitStatements(tokenize(sql)).map(tokens => tokens.map(token => token.value).join(" "));
+}
+
+test("splitStatements splits on top-level semicolons only", () => {
+  const cases: [string, string[]][] = [
+    ["SELECT 1", ["SELECT 1"]],
+    ["SELECT 1;", ["SELECT 1"]],
+    [";;SELECT 1;;", ["SELECT 1"]],
+    ["SELECT 1; SELECT 2", ["SELECT 1", "SELECT 2"]],
+    ["SELECT ';' AS s", ["SELECT ; AS S"]],
+    ["SELECT `a;b` FROM t", ["SELECT a;b FROM T"]],
+    ["SELECT 1 /*;*/", ["SELECT 1"]],
+    ["SELECT 1 -- ;\n", ["SELECT 1"]],
+    ["SELECT 1 # ;\n", ["SELECT 1"]],
+    ["SELECT 1; /*;*/ DROP TABLE t", ["SELECT 1", "DROP TABLE T"]],
+    ["SELECT 1 /*!50000 ; DELETE FROM t */", ["SELECT 1", "DELETE FROM T"]],
+    ["", []],
+    ["/* only a comment */", []],
+  ];
+  for (const [sql, expected] of cases) {
+    assert.deepEqual(statementsOf(sql), expected, sql);
+  }
+});
+
+test("checkReadOnly accepts read-only statements", () => {
+  const cases: [string, string][] = [
+    ["SELECT 1", "SELECT"],
+    ["select * from users where name = 'DELETE; DROP TABLE users'", "SELECT"],
+    ["SELECT INSERT('abc', 1, 1, 'x'), REPLACE(name, 'a', 'b') FROM t", "SELECT"],
+    ["(SELECT 1) UNION (SELECT 2)", "SELECT"],
+    ["WITH x AS (SELECT 1 AS a) SELECT a FROM x", "WITH"],
+    ["TABLE users", "TABLE"],
+    ["VALUES ROW(1, 2)", "VALUES"],
+    ["SHOW TABLES", "SHOW"],
+    ["DESCRIBE users", "DESCRIBE"],
+    ["EXPLAIN SELECT * FROM users", "EXPLAIN"],
+    ["EXPLAIN FORMAT=JSON SELECT * FROM users", "EXPLAIN"],
+    ["EXPLAIN DELETE FROM users", "EXPLAIN"],
+    ["EXPLAIN FOR CONNECTION 12", "EXPLAIN"],
+    ["SELECT 1 /* FOR UPDATE */", "SELECT"],
+    ["SELECT 1; ", "SELECT"],
+  ];
+  for (const [sql, type] of cases) {
+    assert.deepEqual(checkReadOnly(sql), { readOnly: true, statementType: type }, sql);
+  }
+});
+
+test("checkReadOnly refuses statements with side effects", () => {
+  const cases: [string, string, RegExp][] = [
+    ["", "EMPTY", /no SQL statement/],
+    ["SELECT 1; /*;*/ DROP TABLE users", "SELECT", /2 statements found/],
+    ["SELECT 1; DELETE FROM users", "SELECT", /2 statements found/],
+    ["SEL/**/ECT 1", "SEL", /SEL statements are not read-only/],
+    ["/*!50000 DELETE FROM users */", "DELETE", /DELETE statements are not read-only/],
+    ["SELECT 1 /*!50000 , SLEEP(10) */", "SELECT", /SLEEP\(\) blocks the connection/],
+    ["SELECT /*!FOR UPDATE*/ * FROM users", "SELECT", /'FOR UPDATE' locking read/],
+    ["SELECT * FROM users INTO OUTFILE '/tmp/users.txt'", "SELECT", /'INTO OUTFILE' clause writes a file/],
+    ["SELECT * FROM users INTO DUMPFILE '/tmp/users.bin'", "SELECT", /'INTO DUMPFILE' clause writes a file/],
+    ["SELECT id INTO @id FROM users LIMIT 1", "SELECT", /assigns query results to variables/],
+    ["SELECT * FROM users FOR UPDATE", "SELECT", /'FOR UPDATE' locking read/],
+    ["SELECT * FROM users FOR SHARE", "SELECT", /'FOR SHARE' locking read/],
+    ["SELECT * FROM users LOCK IN SHARE MODE", "SELECT", /'LOCK IN SHARE MODE'/],
+    ["SELECT @n := @n + 1 FROM users", "SELECT", /user variable assignment/],
+    ["SELECT GET_LOCK('job', 10)", "SELECT", /GET_LOCK\(\) acquires a named user-level lock/],
+    ["SELECT LOAD_FILE('/etc/passwd')", "SELECT", /LOAD_FILE\(\) reads files/],
+    ["WITH old AS (SELECT id FROM users) DELETE FROM users WHERE id IN (SELECT id FROM old)", "WITH", /data-modifying 'DELETE'/],
+    ["WITH x AS (SELECT 1) UPDATE users SET name = 'x'", "WITH", /data-modifying 'UPDATE'/],
+    ["EXPLAIN ANALYZE DELETE FROM users", "EXPLAIN", /'EXPLAIN ANALYZE' executes the DELETE statement/],
+    ["EXPLAIN SELECT * FROM users FOR UPDATE", "EXPLAIN", /'FOR UPDATE' locking read/],
+    ["HANDLER users OPEN", "HANDLER", /HANDLER statements are not read-only/],
+    ["LOAD DATA INFILE '/tmp/users.csv' INTO TABLE users", "LOAD", /LOAD statements are not read-only/],
+    ["LOAD XML LOCAL INFILE 'users.xml' INTO TABLE users", "LOAD", /LOAD statements are not read-only/],
+    ["DO SLEEP(10)", "DO", /DO statements are not read-only/],
+    ["SET @a = 1", "SET", /SET statements are not read-only/],
+    ["CALL cleanup()", "CALL", /CALL statements are not read-only/],
+  ];
+  for (const [sql, type, reason] of cases) {
+    const result = checkReadOnly(sql);
+    assert.equal(result.readOnly, false, sql);
+    assert.equal(result.statementType, type, sql);
+    assert.match(result.reason || "", reason, sql);
+  }
+});
+
+test("findUseDatabase finds USE in any statement, including executable comments", () => {
+  const cases: [string, string | null][] = [
+    ["UPDATE users SET name = 'x'", null],
+    ["INSERT INTO t VALUES ('USE other')", null],
+    ["USE other", "other"],
+    ["use `Other DB`", "Other DB"],
+    ["UPDATE users SET name = 'x'; USE other; DELETE FROM users", "other"],
+    ["/*!40000 USE other */", "other"],
+  ];
+  for (const [sql, expected] of cases) {
+    assert.equal(findUseDatabase(sql), expected, sql);
+  }
+});
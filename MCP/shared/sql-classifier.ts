@@ -0,0 +1,783 @@
+// SQL 词法分析与语句分类，供 mysql-server 和 mysql-instance 共用
+
+export type TokenType = "word" | "identifier" | "string" | "number" | "variable" | "punct";
+
+export interface Token {
+  type: TokenType;
+  // word 类型为大写形式，identifier/string 为去掉引号后的内容
+  value: string;
+  // 在原始 SQL 中的起止位置
+  pos: number;
+  end: number;
+}
+
+export interface ReadOnlyCheck {
+  readOnly: boolean;
+  statementType: string;
+  reason?: string;
+}
+
+const QUERY_KEYWORDS = ["SELECT", "WITH", "TABLE", "VALUES"];
+const DML_KEYWORDS = ["INSERT", "UPDATE", "DELETE", "REPLACE"];
+
+// 带副作用或会阻塞连接的函数
+const FORBIDDEN_FUNCTIONS: Record<string, string> = {
+  GET_LOCK: "acquires a named user-level lock",
+  RELEASE_LOCK: "releases a named user-level lock",
+  RELEASE_ALL_LOCKS: "releases named user-level locks",
+  SLEEP: "blocks the connection",
+  BENCHMARK: "burns server CPU",
+  LOAD_FILE: "reads files from the database server",
+  MASTER_POS_WAIT: "blocks waiting on replication",
+  SOURCE_POS_WAIT: "blocks waiting on replication",
+  WAIT_FOR_EXECUTED_GTID_SET: "blocks waiting on replication",
+  WAIT_UNTIL_SQL_THREAD_AFTER_GTIDS: "blocks waiting on replication",
+  NEXTVAL: "advances a sequence",
+  SETVAL: "modifies a sequence",
+};
+
+function isWordChar(ch: string): boolean {
+  return /[A-Za-z0-9_$]/.test(ch) || ch.charCodeAt(0) >= 0x80;
+}
+
+function readQuoted(sql: string, start: number, quote: string): { value: string; end: number } {
+  let value = "";
+  let i = start + 1;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (ch === "\\" && quote !== "`" && i + 1 < sql.length) {
+      value += sql[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === quote) {
+      if (sql[i + 1] === quote) {
+        value += quote;
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+    value += ch;
+    i++;
+  }
+  return { value, end: sql.length };
+}
+
+/**
+ * 把 SQL 切分为词法单元。注释会被跳过，但 MySQL 的可执行注释
+ * `/*! ... *\/` 中的内容会被当作正常 SQL 解析，因为服务器会执行它们。
+ */
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let inExecutableComment = false;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (inExecutableComment && ch === "*" && next === "/") {
+      inExecutableComment = false;
+      i += 2;
+      continue;
+    }
+
+    if (ch === "#" || (ch === "-" && next === "-" && (i + 2 >= sql.length || /\s/.test(sql[i + 2])))) {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+      continue;
+    }
+
+    if (ch === "/" && next === "*") {
+      if (sql[i + 2] === "!") {
+        inExecutableComment = true;
+        i += 3;
+        // 跳过版本号，如 /*!80000 ... */
+        while (i < sql.length && /[0-9]/.test(sql[i])) {
+          i++;
+        }
+        continue;
+      }
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const { value, end } = readQuoted(sql, i, ch);
+      tokens.push({ type: "string", value, pos: i, end });
+      i = end;
+      continue;
+    }
+
+    if (ch === "`") {
+      const { value, end } = readQuoted(sql, i, ch);
+      tokens.push({ type: "identifier", value, pos: i, end });
+      i = end;
+      continue;
+    }
+
+    if (ch === "@") {
+      let j = i + 1;
+      if (sql[j] === "@") {
+        j++;
+      }
+      if (sql[j] === "'" || sql[j] === '"' || sql[j] === "`") {
+        j = readQuoted(sql, j, sql[j]).end;
+      } else {
+        while (j < sql.length && (isWordChar(sql[j]) || sql[j] === ".")) {
+          j++;
+        }
+      }
+      tokens.push({ type: "variable", value: sql.slice(i, j), pos: i, end: j });
+      i = j;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(next || ""))) {
+      let j = i + 1;
+      while (j < sql.length && /[0-9A-Za-z_.]/.test(sql[j])) {
+        j++;
+      }
+      const text = sql.slice(i, j);
+      // 以数字开头的标识符（如 1abc）在 MySQL 中是合法的
+      const type: TokenType = /^[0-9]+[A-Za-z_$]/.test(text) && !/^0x|^0b|^[0-9.]+e/i.test(text) ? "word" : "number";
+      tokens.push({ type, value: type === "word" ? text.toUpperCase() : text, pos: i, end: j });
+      i = j;
+      continue;
+    }
+
+    if (isWordChar(ch)) {
+      let j = i + 1;
+      while (j < sql.length && isWordChar(sql[j])) {
+        j++;
+      }
+      tokens.push({ type: "word", value: sql.slice(i, j).toUpperCase(), pos: i, end: j });
+      i = j;
+      continue;
+    }
+
+    if (ch === ":" && next === "=") {
+      tokens.push({ type: "punct", value: ":=", pos: i, end: i + 2 });
+      i += 2;
+      continue;
+    }
+
+    tokens.push({ type: "punct", value: ch, pos: i, end: i + 1 });
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * 按顶层分号拆分语句，忽略空语句
+ */
+export function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+  for (const token of tokens) {
+    if (token.type === "punct" && token.value === ";") {
+      if (current.length > 0) {
+        statements.push(current);
+      }
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) {
+    statements.push(current);
+  }
+  return statements;
+}
+
+/**
+ * 语句类型：跳过开头的括号后第一个关键字，如 SELECT、UPDATE
+ */
+export function statementType(tokens: Token[]): string {
+  const first = tokens.find(token => !(token.type === "punct" && token.value === "("));
+  return first && first.type === "word" ? first.value : "UNKNOWN";
+}
+
+/**
+ * 第一条 USE 语句切换到的数据库，没有 USE 时返回 null
+ */
+export function findUseDatabase(sql: string): string | null {
+  for (const statement of splitStatements(tokenize(sql))) {
+    if (isWord(statement[0], "USE") && statement[1]) {
+      return nameOf(statement[1], sql);
+    }
+  }
+  return null;
+}
+
+function isWord(token: Token | undefined, ...values: string[]): boolean {
+  return !!token && token.type === "word" && values.includes(token.value);
+}
+
+function isPunct(token: Token | undefined, value: string): boolean {
+  return !!token && token.type === "punct" && token.value === value;
+}
+
+function near(sql: string, token: Token): string {
+  const snippet = sql.slice(token.pos, token.pos + 40).replace(/\s+/g, " ").trim();
+  return `near "${snippet}${token.pos + 40 < sql.length ? "..." : ""}" (position ${token.pos})`;
+}
+
+function refuse(statementType: string, reason: string): ReadOnlyCheck {
+  return { readOnly: false, statementType, reason };
+}
+
+// 检查 SELECT/WITH/TABLE/VALUES 查询体中的副作用
+function checkQueryBody(sql: string, tokens: Token[], type: string): ReadOnlyCheck {
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = tokens[i + 1];
+
+    if (isPunct(token, ":=")) {
+      return refuse(type, `user variable assignment ':=' changes session state, ${near(sql, token)}`);
+    }
+
+    if (token.type !== "word") {
+      continue;
+    }
+
+    if (token.value === "INTO") {
+      if (isWord(next, "OUTFILE", "DUMPFILE")) {
+        return refuse(type, `'INTO ${next.value}' clause writes a file on the database server, ${near(sql, token)}`);
+      }
+      return refuse(type, `'INTO' clause assigns query results to variables, ${near(sql, token)}`);
+    }
+
+    if (token.value === "FOR" && isWord(next, "UPDATE", "SHARE")) {
+      return refuse(type, `'FOR ${next.value}' locking read acquires row locks, ${near(sql, token)}`);
+    }
+
+    if (token.value === "LOCK" && isWord(next, "IN")) {
+      return refuse(type, `'LOCK IN SHARE MODE' locking read acquires row locks, ${near(sql, token)}`);
+    }
+
+    if (isPunct(next, "(") && FORBIDDEN_FUNCTIONS[token.value]) {
+      return refuse(type, `function ${token.value}() ${FORBIDDEN_FUNCTIONS[token.value]}, ${near(sql, token)}`);
+    }
+
+    // INSERT() 和 REPLACE() 同时也是字符串函数
+    if (DML_KEYWORDS.includes(token.value) && !isPunct(next, "(")) {
+      return refuse(type, `data-modifying '${token.value}' statement is not allowed, ${near(sql, token)}`);
+    }
+  }
+  return { readOnly: true, statementType: type };
+}
+
+// EXPLAIN / DESCRIBE：只解释执行计划时安全，EXPLAIN ANALYZE 会真正执行语句
+function checkExplain(sql: string, tokens: Token[], type: string): ReadOnlyCheck {
+  let i = 1;
+  let analyze = false;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (isWord(token, "ANALYZE")) {
+      analyze = true;
+      i++;
+    } else if (isWord(token, "EXTENDED", "PARTITIONS")) {
+      i++;
+    } else if (isWord(token, "FORMAT") && isPunct(tokens[i + 1], "=")) {
+      i += 3;
+    } else {
+      break;
+    }
+  }
+
+  const target = tokens[i];
+  if (!target || isWord(target, "FOR")) {
+    return { readOnly: true, statementType: type };
+  }
+  if (isPunct(target, "(") || isWord(target, ...QUERY_KEYWORDS)) {
+    return checkQueryBody(sql, tokens.slice(i), type);
+  }
+  if (analyze && isWord(target, ...DML_KEYWORDS)) {
+    return refuse(type, `'EXPLAIN ANALYZE' executes the ${target.value} statement, ${near(sql, target)}`);
+  }
+  // DESCRIBE 表名，或只解释 DML 的执行计划
+  return { readOnly: true, statementType: type };
+}
+
+/**
+ * 判断一条 SQL 是否只读。不只看开头关键字，还会扫描整条语句，
+ * 拒绝 INTO OUTFILE、FOR UPDATE、GET_LOCK() 等带副作用的子句，
+ * 并在 reason 中说明被拒绝的具体位置。
+ */
+export function checkReadOnly(sql: string): ReadOnlyCheck {
+  const statements = splitStatements(tokenize(sql));
+  if (statements.length === 0) {
+    return refuse("EMPTY", "no SQL statement found");
+  }
+  if (statements.length > 1) {
+    return refuse(statementType(statements[0]), `${statements.length} statements found; send one statement per call`);
+  }
+
+  const tokens = statements[0];
+  const type = statementType(tokens);
+
+  switch (type) {
+    case "SHOW":
+      return { readOnly: true, statementType: type };
+    case "DESCRIBE":
+    case "DESC":
+    case "EXPLAIN":
+      return checkExplain(sql, tokens, type);
+    case "SELECT":
+    case "WITH":
+    case "TABLE":
+    case "VALUES":
+      return checkQueryBody(sql, tokens, type);
+    default:
+      return refuse(type, `${type} statements are not read-only`);
+  }
+}
+
+export interface TableRef {
+  database?: string;
+  table: string;
+}
+
+export interface StatementAnalysis {
+  // 第一个关键字，如 WITH、UPDATE
+  statementType: string;
+  // 实际执行的语句类型，WITH ... DELETE 为 DELETE
+  verb: string;
+  statementCount: number;
+  // FROM/JOIN/UPDATE/INTO/TABLE、DESC、SHOW ... FROM 等位置引用的表（启发式，不含语句中 WITH 定义的 CTE）
+  tables: TableRef[];
+  // SHOW TABLES FROM db 等语句直接引用的数据库
+  databases: string[];
+  // false 表示语句类型（如 GRANT、CALL、PREPARE）的表引用无法识别，tables 可能不完整
+  tablesResolved: boolean;
+  // 别名（没有别名时为表名本身）到表的映射
+  aliases: Record<string, TableRef>;
+  hasWhere: boolean;
+  hasLimit: boolean;
+  multiTable: boolean;
+  // 单表 UPDATE/DELETE 可以改写为 SELECT * FROM <from> <tail>
+  selectRewrite?: { from: string; tail: string };
+}
+
+const VERB_KEYWORDS = ["SELECT", "TABLE", "VALUES", ...DML_KEYWORDS];
+const TABLE_LEAD_KEYWORDS = [
+  "FROM", "JOIN", "STRAIGHT_JOIN", "UPDATE", "INTO", "USING", "TABLE", "TABLES", "TRUNCATE", "VIEW", "REFERENCES",
+  "INSERT", "REPLACE", "RENAME", "TO",
+];
+// 后面可以是括号包围的表引用或派生表
+const TABLE_REFERENCE_KEYWORDS = ["FROM", "JOIN", "STRAIGHT_JOIN", "UPDATE"];
+const TABLE_MODIFIERS = ["LOW_PRIORITY", "HIGH_PRIORITY", "DELAYED", "QUICK", "IGNORE", "IF", "NOT", "EXISTS", "TABLE", "INTO", "LATERAL"];
+// 表名之后出现这些关键字时说明没有别名
+const CLAUSE_KEYWORDS = [
+  "WHERE", "SET", "ON", "USING", "JOIN", "INNER", "LEFT", "RIGHT", "CROSS", "NATURAL", "STRAIGHT_JOIN",
+  "ORDER", "GROUP", "HAVING", "LIMIT", "UNION", "EXCEPT", "INTERSECT", "WINDOW", "FOR", "LOCK", "PARTITION",
+  "FORCE", "USE", "IGNORE", "INTO", "VALUES", "VALUE", "SELECT", "FROM", "AS", "ADD", "DROP", "MODIFY",
+  "CHANGE", "ALTER", "RENAME", "ENGINE", "DEFAULT", "CHARACTER", "COLLATE", "COMMENT", "TABLE", "WITH",
+  "TO", "READ", "WRITE", "LOCAL", "LOW_PRIORITY",
+];
+const NOT_TABLE_NAMES = ["SELECT", "DUAL", "LATERAL", "WITH", "VALUES", "SET", "WHERE", "ON", "OUTFILE", "DUMPFILE"];
+// DESC/DESCRIBE/EXPLAIN 后不是表名的关键字
+const EXPLAIN_OPTIONS = ["FORMAT", "ANALYZE", "EXTENDED", "PARTITIONS", "FOR", ...VERB_KEYWORDS];
+// 表引用都能由上面的关键字找到的语句；其余语句（GRANT、CALL、PREPARE、HANDLER 等）的 tables 不完整
+const TABLE_AWARE_STATEMENTS = [
+  "SELECT", "WITH", "TABLE", "VALUES", "INSERT", "UPDATE", "DELETE", "REPLACE", "DESC", "DESCRIBE", "EXPLAIN",
+  "SHOW", "TRUNCATE", "RENAME", "LOAD", "LOCK", "UNLOCK", "FLUSH", "CHECK", "ANALYZE", "OPTIMIZE", "REPAIR",
+  "CHECKSUM", "USE", "SET", "DO", "START", "BEGIN", "COMMIT", "ROLLBACK", "SAVEPOINT", "RELEASE", "XA", "KILL",
+];
+// CREATE/ALTER/DROP 的对象，只有前几种的表引用能完整识别
+const TABLE_AWARE_OBJECTS = ["TABLE", "DATABASE", "SCHEMA", "VIEW", "INDEX", "TRIGGER", "USER", "ROLE"];
+const DDL_OBJECTS = [...TABLE_AWARE_OBJECTS, "PROCEDURE", "FUNCTION", "EVENT", "SERVER", "TABLESPACE", "LOGFILE", "INSTANCE", "RESOURCE", "UNDO"];
+
+function depths(tokens: Token[]): number[] {
+  const result: number[] = [];
+  let depth = 0;
+  for (const token of tokens) {
+    if (isPunct(token, ")")) {
+      depth = Math.max(0, depth - 1);
+    }
+    result.push(depth);
+    if (isPunct(token, "(")) {
+      depth++;
+    }
+  }
+  return result;
+}
+
+function findTopLevel(tokens: Token[], depth: number[], start: number, words: string[]): number {
+  for (let i = start; i < tokens.length; i++) {
+    if (depth[i] === 0 && isWord(tokens[i], ...words)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function hasTopLevelJoin(tokens: Token[], depth: number[], start: number, end: number): boolean {
+  for (let i = start; i < end; i++) {
+    if (depth[i] === 0 && (isPunct(tokens[i], ",") || isWord(tokens[i], "JOIN", "STRAIGHT_JOIN", "USING"))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function sliceSql(sql: string, tokens: Token[], start: number, end: number): string {
+  if (start >= end) {
+    return "";
+  }
+  return sql.slice(tokens[start].pos, tokens[end - 1].end);
+}
+
+function isName(token: Token | undefined): boolean {
+  return !!token && (token.type === "identifier" || (token.type === "word" && !NOT_TABLE_NAMES.includes(token.value)));
+}
+
+function nameOf(token: Token, sql: string): string {
+  // 未加引号的标识符保留原始大小写
+  return token.type === "identifier" ? token.value : sql.slice(token.pos, token.end);
+}
+
+// tokens[start] 为 "("，返回匹配的 ")" 之后的位置
+function skipParens(tokens: Token[], depth: number[], start: number): number {
+  for (let i = start + 1; i < tokens.length; i++) {
+    if (depth[i] === depth[start] && isPunct(tokens[i], ")")) {
+      return i + 1;
+    }
+  }
+  return tokens.length;
+}
+
+// 读取 [database.]table，返回表引用和其后的位置
+function readTableName(sql: string, tokens: Token[], start: number): { ref: TableRef; next: number } | null {
+  if (!isName(tokens[start])) {
+    return null;
+  }
+  if (isPunct(tokens[start + 1], ".") && isName(tokens[start + 2])) {
+    return { ref: { database: nameOf(tokens[start], sql), table: nameOf(tokens[start + 2], sql) }, next: start + 3 };
+  }
+  return { ref: { table: nameOf(tokens[start], sql) }, next: start + 1 };
+}
+
+// 跳过 [AS] alias，返回其后的位置；record 用于记录别名
+function skipAlias(sql: string, tokens: Token[], start: number, record?: (alias: string) => void): number {
+  if (isWord(tokens[start], "AS")) {
+    if (isName(tokens[start + 1])) {
+      record?.(nameOf(tokens[start + 1], sql));
+    }
+    return start + 2;
+  }
+  const token = tokens[start];
+  if (token && (token.type === "identifier" || (token.type === "word" && !CLAUSE_KEYWORDS.includes(token.value)))) {
+    record?.(nameOf(token, sql));
+    return start + 1;
+  }
+  return start;
+}
+
+// SHOW COLUMNS/INDEX FROM t [FROM db]、SHOW TABLES FROM db 等语句的目标，返回其后的位置
+function collectShowTargets(sql: string, tokens: Token[], add: (ref: TableRef) => void, databases: string[]): number {
+  let i = 1;
+  while (isWord(tokens[i], "FULL", "EXTENDED", "OPEN")) {
+    i++;
+  }
+  if (isWord(tokens[i], "COLUMNS", "FIELDS", "INDEX", "INDEXES", "KEYS")) {
+    const name = isWord(tokens[i + 1], "FROM", "IN") ? readTableName(sql, tokens, i + 2) : null;
+    if (!name) {
+      return i + 1;
+    }
+    let ref = name.ref;
+    i = name.next;
+    if (isWord(tokens[i], "FROM", "IN") && isName(tokens[i + 1])) {
+      ref = { database: nameOf(tokens[i + 1], sql), table: ref.table };
+      i += 2;
+    }
+    add(ref);
+    return i;
+  }
+  if (isWord(tokens[i], "TABLE") && isWord(tokens[i + 1], "STATUS")) {
+    i++;
+  }
+  if (isWord(tokens[i], "TABLES", "STATUS", "TRIGGERS", "EVENTS")) {
+    if (isWord(tokens[i + 1], "FROM", "IN") && isName(tokens[i + 2])) {
+      databases.push(nameOf(tokens[i + 2], sql));
+      return i + 3;
+    }
+    return i + 1;
+  }
+  if (isWord(tokens[i], "CREATE") && isWord(tokens[i + 1], "DATABASE", "SCHEMA")) {
+    i += 2;
+    while (isWord(tokens[i], "IF", "NOT", "EXISTS")) {
+      i++;
+    }
+    if (isName(tokens[i])) {
+      databases.push(nameOf(tokens[i], sql));
+    }
+    return i + 1;
+  }
+  // SHOW CREATE TABLE/VIEW 由 TABLE/VIEW 关键字处理
+  return 1;
+}
+
+interface CollectedTables {
+  tables: TableRef[];
+  databases: string[];
+  resolved: boolean;
+}
+
+function collectTables(sql: string, tokens: Token[], depth: number[], aliases: Record<string, TableRef>): CollectedTables {
+  const tables: TableRef[] = [];
+  const databases: string[] = [];
+  const seen = new Set<string>();
+  const add = (ref: TableRef) => {
+    const key = `${ref.database || ""}.${ref.table}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      tables.push(ref);
+    }
+  };
+  const type = statementType(tokens);
+  let resolved = tokens.length === 0 || TABLE_AWARE_STATEMENTS.includes(type);
+  let start = 0;
+
+  // DESC tbl_name [column]
+  if (isWord(tokens[0], "DESC", "DESCRIBE", "EXPLAIN") && !isWord(tokens[1], ...EXPLAIN_OPTIONS) && !isPunct(tokens[2], "=")) {
+    const name = readTableName(sql, tokens, 1);
+    if (name) {
+      add(name.ref);
+    }
+  }
+  if (isWord(tokens[0], "SHOW")) {
+    start = collectShowTargets(sql, tokens, add, databases);
+  }
+  if (isWord(tokens[0], "CREATE", "ALTER", "DROP")) {
+    const objectIndex = findTopLevel(tokens, depth, 1, DDL_OBJECTS);
+    const object = objectIndex >= 0 ? tokens[objectIndex].value : null;
+    resolved = !!object && TABLE_AWARE_OBJECTS.includes(object);
+    // CREATE INDEX i ON t、CREATE TRIGGER tr BEFORE INSERT ON t；DROP TRIGGER 不带表名
+    if (object === "INDEX" || object === "TRIGGER") {
+      const on = findTopLevel(tokens, depth, objectIndex + 1, ["ON"]);
+      const name = on >= 0 ? readTableName(sql, tokens, on + 1) : null;
+      if (name) {
+        add(name.ref);
+      }
+      resolved = !!name;
+    }
+    // CREATE TABLE t LIKE source
+    if (tokens[0].value === "CREATE" && object === "TABLE") {
+      for (let k = objectIndex + 1; k < tokens.length && !isWord(tokens[k], "SELECT"); k++) {
+        if (isWord(tokens[k], "LIKE")) {
+          const name = readTableName(sql, tokens, k + 1);
+          if (name) {
+            add(name.ref);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  for (let i = start; i < tokens.length; i++) {
+    if (!isWord(tokens[i], ...TABLE_LEAD_KEYWORDS) || isPunct(tokens[i - 1], ".")) {
+      continue;
+    }
+    const lead = tokens[i].value;
+    // ON DUPLICATE KEY UPDATE、FOR UPDATE 之后不是表
+    if (lead === "UPDATE" && isWord(tokens[i - 1], "KEY", "FOR")) {
+      continue;
+    }
+    // INSERT()/REPLACE() 函数、CREATE OR REPLACE、触发器的 BEFORE/AFTER INSERT
+    if ((lead === "INSERT" || lead === "REPLACE") && (isPunct(tokens[i + 1], "(") || isWord(tokens[i - 1], "OR", "BEFORE", "AFTER"))) {
+      continue;
+    }
+    // RENAME TABLE a TO b, c TO d；ALTER TABLE a RENAME [TO|AS] b，RENAME COLUMN/INDEX 除外
+    if (lead === "TO" && !(type === "RENAME" && isWord(tokens[1], "TABLE", "TABLES"))) {
+      continue;
+    }
+    let j = i + 1;
+    if (lead === "RENAME") {
+      if (type !== "ALTER") {
+        continue;
+      }
+      if (isWord(tokens[j], "TO", "AS")) {
+        j++;
+      }
+      if (isWord(tokens[j], "COLUMN", "INDEX", "KEY")) {
+        continue;
+      }
+    }
+    while (isWord(tokens[j], ...TABLE_MODIFIERS)) {
+      j++;
+    }
+    // 表引用外层未闭合的括号数，如 FROM (a, b)
+    let opened = 0;
+    while (j < tokens.length) {
+      let derived = false;
+      if (TABLE_REFERENCE_KEYWORDS.includes(lead)) {
+        // {OJ ...} 为 ODBC 外连接语法
+        while (isPunct(tokens[j], "{") || isWord(tokens[j], "OJ", "LATERAL")) {
+          j++;
+        }
+        let k = j;
+        while (isPunct(tokens[k], "(")) {
+          k++;
+        }
+        if (k > j && isWord(tokens[k], ...QUERY_KEYWORDS)) {
+          // 派生表中的表由外层循环找到，这里跳过子查询、别名和列名列表
+          j = skipAlias(sql, tokens, skipParens(tokens, depth, j));
+          if (isPunct(tokens[j], "(")) {
+            j = skipParens(tokens, depth, j);
+          }
+          derived = true;
+        } else {
+          opened += k - j;
+          j = k;
+        }
+      }
+      if (!derived) {
+        const name = readTableName(sql, tokens, j);
+        if (!name) {
+          break;
+        }
+        const ref = name.ref;
+        j = name.next;
+        add(ref);
+        // 记录并跳过分区列表和别名
+        aliases[ref.table] = ref;
+        if (isWord(tokens[j], "PARTITION") && isPunct(tokens[j + 1], "(")) {
+          j = skipParens(tokens, depth, j + 1);
+        }
+        j = skipAlias(sql, tokens, j, alias => {
+          aliases[alias] = ref;
+        });
+      }
+      // 索引提示 USE/FORCE/IGNORE INDEX [FOR ...] (...)
+      while (isWord(tokens[j], "USE", "FORCE", "IGNORE") && isWord(tokens[j + 1], "INDEX", "KEY")) {
+        j += 2;
+        while (j < tokens.length && !isPunct(tokens[j], "(")) {
+          j++;
+        }
+        j = skipParens(tokens, depth, j);
+      }
+      // LOCK TABLES t READ [LOCAL], u [LOW_PRIORITY] WRITE
+      while (isWord(tokens[j], "READ", "LOCAL", "WRITE", "LOW_PRIORITY")) {
+        j++;
+      }
+      while (opened > 0 && isPunct(tokens[j], ")")) {
+        opened--;
+        j++;
+      }
+      if (lead === "INTO" || lead === "INSERT" || lead === "REPLACE" || !isPunct(tokens[j], ",")) {
+        break;
+      }
+      j++;
+    }
+  }
+  return { tables, databases, resolved };
+}
+
+// WITH [RECURSIVE] name [(columns)] AS (...), ... 中定义的 CTE 名
+function cteNames(sql: string, tokens: Token[], depth: number[]): Set<string> {
+  const names = new Set<string>();
+  let i = isWord(tokens[1], "RECURSIVE") ? 2 : 1;
+  while (isName(tokens[i])) {
+    names.add(nameOf(tokens[i], sql));
+    i++;
+    // 跳过列名列表和 AS (...) 中的查询体
+    while (i < tokens.length && !(depth[i] === 0 && (isPunct(tokens[i], ",") || isWord(tokens[i], ...VERB_KEYWORDS)))) {
+      i++;
+    }
+    if (!isPunct(tokens[i], ",")) {
+      break;
+    }
+    i++;
+  }
+  return names;
+}
+
+/**
+ * 分析一条写语句的结构：实际语句类型、涉及的表、是否带 WHERE/LIMIT，
+ * 以及单表 UPDATE/DELETE 改写为 SELECT 所需的片段。
+ * 有多条语句时只分析第一条。
+ */
+export function analyzeStatement(sql: string): StatementAnalysis {
+  const statements = splitStatements(tokenize(sql));
+  const tokens = statements[0] || [];
+  const depth = depths(tokens);
+  const type = statementType(tokens);
+
+  let verbIndex = tokens.findIndex(token => token.type === "word");
+  if (type === "WITH") {
+    verbIndex = findTopLevel(tokens, depth, 1, VERB_KEYWORDS);
+  }
+  const verb = verbIndex >= 0 ? tokens[verbIndex].value : type;
+
+  const aliases: Record<string, TableRef> = {};
+  const ctes = type === "WITH" ? cteNames(sql, tokens, depth) : new Set<string>();
+  const collected = collectTables(sql, tokens, depth, aliases);
+  const analysis: StatementAnalysis = {
+    statementType: type,
+    verb,
+    statementCount: statements.length,
+    tables: collected.tables.filter(ref => ref.database || !ctes.has(ref.table)),
+    databases: collected.databases,
+    tablesResolved: collected.resolved,
+    aliases,
+    hasWhere: false,
+    hasLimit: false,
+    multiTable: false,
+  };
+
+  if (verb !== "UPDATE" && verb !== "DELETE") {
+    return analysis;
+  }
+
+  analysis.hasWhere = findTopLevel(tokens, depth, verbIndex + 1, ["WHERE"]) >= 0;
+  analysis.hasLimit = findTopLevel(tokens, depth, verbIndex + 1, ["LIMIT"]) >= 0;
+
+  let i = verbIndex + 1;
+  while (isWord(tokens[i], "LOW_PRIORITY", "QUICK", "IGNORE")) {
+    i++;
+  }
+
+  if (verb === "UPDATE") {
+    const setIndex = findTopLevel(tokens, depth, i, ["SET"]);
+    if (setIndex < 0) {
+      return analysis;
+    }
+    analysis.multiTable = hasTopLevelJoin(tokens, depth, i, setIndex);
+    const clauseIndex = findTopLevel(tokens, depth, setIndex + 1, ["WHERE", "ORDER", "LIMIT"]);
+    if (!analysis.multiTable && type !== "WITH") {
+      analysis.selectRewrite = {
+        from: sliceSql(sql, tokens, i, setIndex),
+        tail: clauseIndex >= 0 ? sliceSql(sql, tokens, clauseIndex, tokens.length) : "",
+      };
+    }
+    return analysis;
+  }
+
+  // DELETE t1 FROM ... 与 DELETE FROM t1 USING ... 都是多表删除
+  if (!isWord(tokens[i], "FROM")) {
+    analysis.multiTable = true;
+    return analysis;
+  }
+  const tableStart = i + 1;
+  const clauseIndex = findTopLevel(tokens, depth, tableStart, ["WHERE", "ORDER", "LIMIT"]);
+  const tableEnd = clauseIndex >= 0 ? clauseIndex : tokens.length;
+  analysis.multiTable = hasTopLevelJoin(tokens, depth, tableStart, tableEnd);
+  if (!analysis.multiTable && type !== "WITH") {
+    analysis.selectRewrite = {
+      from: sliceSql(sql, tokens, tableStart, tableEnd),
+      tail: clauseIndex >= 0 ? sliceSql(sql, tokens, clauseIndex, tokens.length) : "",
+    };
+  }
+  return analysis;
+}
@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TransactionManager, assertTransactionStatement } from "./transactions.js";
+
+function fakeConnection() {
+  const statements: string[] = [];
+  const callback = {
+    query(sql: string) {
+      statements.push(sql);
+      return { on() {} };
+    },
+  };
+  return {
+    statements,
+    connection: callback,
+    async query(sql: string) {
+      statements.push(sql);
+      return [[], []];
+    },
+    async execute(sql: string) {
+      statements.push(sql);
+      return [[], []];
+    },
+  };
+}
+
+test("assertTransactionStatement rejects statements that end or implicitly commit the transaction", () => {
+  const rejected = [
+    "COMMIT",
+    "commit work",
+    "ROLLBACK",
+    "ROLLBACK WORK",
+    "START TRANSACTION",
+    "BEGIN",
+    "XA START 'x'",
+    "SET autocommit = 1",
+    "SET SESSION autocommit = 0",
+    "SET @@session.autocommit = 1",
+    "LOCK TABLES users WRITE",
+    "UNLOCK TABLES",
+    "CREATE TABLE t (id INT)",
+    "ALTER TABLE users ADD COLUMN age INT",
+    "DROP TABLE users",
+    "TRUNCATE TABLE users",
+    "RENAME TABLE a TO b",
+    "GRANT SELECT ON db.* TO 'u'@'%'",
+    "UPDATE users SET name = 'x'; COMMIT",
+    "/*!50000 COMMIT */",
+  ];
+  for (const sql of rejected) {
+    assert.throws(() => assertTransactionStatement("tx_1", sql), /not allowed inside transaction tx_1: .*Use commit_transaction or rollback_transaction/, sql);
+  }
+  assert.throws(() => assertTransactionStatement("tx_1", { sql: "COMMIT" }), /not allowed/);
+});
+
+test("assertTransactionStatement allows DML, reads, savepoints and temporary tables", () => {
+  const allowed = [
+    "SELECT * FROM users FOR UPDATE",
+    "UPDATE users SET name = 'x' WHERE id = 1",
+    "DELETE FROM users WHERE id = 1",
+    "INSERT INTO users (name) VALUES ('commit')",
+    "SAVEPOINT sp1",
+    "ROLLBACK TO SAVEPOINT sp1",
+    "ROLLBACK WORK TO sp1",
+    "RELEASE SAVEPOINT sp1",
+    "SET @autocommit = 1",
+    "CREATE TEMPORARY TABLE tmp (id INT)",
+    "DROP TEMPORARY TABLE tmp",
+    "EXPLAIN DELETE FROM users",
+  ];
+  for (const sql of allowed) {
+    assert.doesNotThrow(() => assertTransactionStatement("tx_1", sql), sql);
+  }
+});
+
+test("run checks statements on the transaction connection but commit still works", async () => {
+  const transactions = new TransactionManager<any>(60_000);
+  const fake = fakeConnection();
+  let released: boolean | null = null;
+  const info = await transactions.begin({ connection: fake, connectionName: "default", release: reusable => { released = reusable; } });
+
+  await assert.rejects(transactions.run(info.id, connection => connection.query("COMMIT")), /Use commit_transaction/);
+  await assert.rejects(transactions.run(info.id, connection => connection.execute("DROP TABLE users")), /implicit commit/);
+  await assert.rejects(transactions.run(info.id, async connection => connection.connection.query("ROLLBACK")), /ends the transaction/);
+  await transactions.run(info.id, connection => connection.query("UPDATE users SET name = 'x' WHERE id = 1"));
+  assert.equal(transactions.info(info.id).statements, 1);
+
+  await transactions.savepoint(info.id, "sp1");
+  await transactions.rollback(info.id, "sp1");
+  await transactions.commit(info.id);
+  assert.equal(released, true);
+  assert.deepEqual(fake.statements, [
+    "START TRANSACTION",
+    "UPDATE users SET name = 'x' WHERE id = 1",
+    "SAVEPOINT `sp1`",
+    "ROLLBACK TO SAVEPOINT `sp1`",
+    "COMMIT",
+  ]);
+});
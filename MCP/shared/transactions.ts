@@ -0,0 +1,301 @@
+// 跨多次工具调用的事务：每个事务独占一条连接，通过事务 ID 引用
+import { randomBytes } from "node:crypto";
+import { tokenize, splitStatements, statementType, Token } from "./sql-classifier.js";
+
+export interface TransactionConnection {
+  query(sql: string, values?: any): Promise<any>;
+}
+
+export interface TransactionInfo {
+  id: string;
+  connectionName: string;
+  database: string | null;
+  savepoints: string[];
+  statements: number;
+  startedAt: Date;
+  lastUsedAt: Date;
+}
+
+interface TransactionEntry<C extends TransactionConnection> extends TransactionInfo {
+  connection: C;
+  release: (reusable: boolean) => void;
+  timer: NodeJS.Timeout | null;
+  queue: Promise<unknown>;
+}
+
+export interface BeginOptions<C extends TransactionConnection> {
+  connection: C;
+  connectionName: string;
+  database?: string | null;
+  // 事务结束后归还连接；reusable 为 false 时连接状态未知，应当销毁
+  release: (reusable: boolean) => void;
+}
+
+// 死锁时 MySQL 会自动回滚整个事务
+const ER_LOCK_DEADLOCK = 1213;
+
+// 会隐式提交当前事务的语句（CREATE/DROP TEMPORARY TABLE 除外）
+const IMPLICIT_COMMIT_STATEMENTS = [
+  "CREATE", "ALTER", "DROP", "TRUNCATE", "RENAME", "GRANT", "REVOKE",
+  "ANALYZE", "OPTIMIZE", "REPAIR", "FLUSH", "RESET", "INSTALL", "UNINSTALL",
+];
+
+function word(tokens: Token[], index: number): string | null {
+  const token = tokens[index];
+  return token && token.type === "word" ? token.value : null;
+}
+
+// 会结束事务、改变事务模式或隐式提交的语句，返回拒绝原因
+function transactionControl(tokens: Token[]): string | null {
+  const type = statementType(tokens);
+  switch (type) {
+    case "COMMIT":
+    case "BEGIN":
+    case "XA":
+      return `${type} ends or replaces the transaction`;
+    case "ROLLBACK":
+      // ROLLBACK TO SAVEPOINT 只回滚到保存点，事务保持打开
+      return tokens.some(token => token.type === "word" && token.value === "TO") ? null : "ROLLBACK ends the transaction";
+    case "START":
+      return word(tokens, 1) === "TRANSACTION" ? "START TRANSACTION implicitly commits the transaction" : null;
+    case "SET":
+      return tokens.some(token => (token.type === "word" && token.value === "AUTOCOMMIT") || (token.type === "variable" && /^@@(\w+\.)?autocommit$/i.test(token.value)))
+        ? "SET autocommit changes the transaction mode"
+        : null;
+    case "LOCK":
+    case "UNLOCK":
+      return `${type} TABLES implicitly commits the transaction`;
+    default:
+      if (IMPLICIT_COMMIT_STATEMENTS.includes(type) && word(tokens, 1) !== "TEMPORARY") {
+        return `${type} causes an implicit commit`;
+      }
+      return null;
+  }
+}
+
+/**
+ * 检查要在事务连接上执行的 SQL：结束事务或隐式提交的语句会让事务脱离管理，必须拒绝
+ */
+export function assertTransactionStatement(id: string, sql: any) {
+  const text = typeof sql === "string" ? sql : sql?.sql;
+  if (typeof text !== "string") {
+    return;
+  }
+  for (const tokens of splitStatements(tokenize(text))) {
+    const reason = transactionControl(tokens);
+    if (reason) {
+      throw new Error(`Statement not allowed inside transaction ${id}: ${reason}. Use commit_transaction or rollback_transaction to end the transaction, and run DDL outside of it`);
+    }
+  }
+}
+
+// 在事务连接上执行的语句先经过 assertTransactionStatement；流式读取使用的回调风格连接同样检查
+function guardConnection<T>(id: string, connection: T): T {
+  return new Proxy(connection as any, {
+    get: (object, name) => {
+      const value = Reflect.get(object, name, object);
+      if (name === "connection" && value && typeof value === "object") {
+        return guardConnection(id, value);
+      }
+      if (typeof value !== "function") {
+        return value;
+      }
+      if (name === "query" || name === "execute") {
+        return (sql: any, ...rest: any[]) => {
+          assertTransactionStatement(id, sql);
+          return value.call(object, sql, ...rest);
+        };
+      }
+      return value.bind(object);
+    },
+  });
+}
+
+function savepointId(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]{0,63}$/.test(name)) {
+    throw new Error(`Invalid savepoint name '${name}': use letters, digits and underscores, starting with a letter or underscore`);
+  }
+  return `\`${name}\``;
+}
+
+export class TransactionManager<C extends TransactionConnection> {
+  private transactions = new Map<string, TransactionEntry<C>>();
+
+  constructor(private idleTimeoutMs: number) {}
+
+  async begin(options: BeginOptions<C>): Promise<TransactionInfo> {
+    try {
+      await options.connection.query("START TRANSACTION");
+    } catch (error) {
+      options.release(false);
+      throw error;
+    }
+
+    const now = new Date();
+    const entry: TransactionEntry<C> = {
+      id: `tx_${randomBytes(6).toString("hex")}`,
+      connectionName: options.connectionName,
+      database: options.database || null,
+      connection: options.connection,
+      savepoints: [],
+      statements: 0,
+      startedAt: now,
+      lastUsedAt: now,
+      release: options.release,
+      timer: null,
+      queue: Promise.resolve(),
+    };
+    this.transactions.set(entry.id, entry);
+    this.touch(entry);
+    return this.describe(entry);
+  }
+
+  /**
+   * 在事务连接上执行，同一事务内的调用按顺序执行。
+   * 结束事务或隐式提交的语句会被拒绝，事务只能通过 commit/rollback 结束。
+   */
+  run<T>(id: string, fn: (connection: C) => Promise<T>): Promise<T> {
+    return this.execute(id, connection => fn(guardConnection(id, connection)));
+  }
+
+  // 不做语句检查，供 COMMIT/ROLLBACK/SAVEPOINT 等事务控制语句使用
+  private execute<T>(id: string, fn: (connection: C) => Promise<T>): Promise<T> {
+    const entry = this.get(id);
+    const run = entry.queue.then(async () => {
+      this.assertOpen(entry);
+      this.touch(entry);
+      try {
+        const result = await fn(entry.connection);
+        entry.statements++;
+        return result;
+      } catch (error: any) {
+        if (error?.fatal || error?.errno === ER_LOCK_DEADLOCK) {
+          this.end(entry, !error.fatal);
+          error.message = `${error.message} (transaction ${id} was rolled back and closed)`;
+        }
+        throw error;
+      }
+    });
+    entry.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async savepoint(id: string, name: string): Promise<TransactionInfo> {
+    const identifier = savepointId(name);
+    await this.execute(id, connection => connection.query(`SAVEPOINT ${identifier}`));
+    const entry = this.get(id);
+    // 同名保存点会被覆盖
+    entry.savepoints = entry.savepoints.filter(savepoint => savepoint !== name).concat(name);
+    return this.describe(entry);
+  }
+
+  async releaseSavepoint(id: string, name: string): Promise<TransactionInfo> {
+    const identifier = savepointId(name);
+    await this.execute(id, connection => connection.query(`RELEASE SAVEPOINT ${identifier}`));
+    const entry = this.get(id);
+    entry.savepoints = entry.savepoints.slice(0, entry.savepoints.indexOf(name));
+    return this.describe(entry);
+  }
+
+  async commit(id: string): Promise<TransactionInfo> {
+    const entry = this.get(id);
+    await this.execute(id, connection => connection.query("COMMIT"));
+    this.end(entry, true);
+    return this.describe(entry);
+  }
+
+  /**
+   * 回滚整个事务；指定 savepoint 时只回滚到该保存点，事务保持打开
+   */
+  async rollback(id: string, savepoint?: string): Promise<TransactionInfo> {
+    if (savepoint) {
+      const identifier = savepointId(savepoint);
+      await this.execute(id, connection => connection.query(`ROLLBACK TO SAVEPOINT ${identifier}`));
+      const entry = this.get(id);
+      entry.savepoints = entry.savepoints.slice(0, entry.savepoints.indexOf(savepoint) + 1);
+      return this.describe(entry);
+    }
+
+    const entry = this.get(id);
+    try {
+      await this.execute(id, connection => connection.query("ROLLBACK"));
+    } catch (error) {
+      this.end(entry, false);
+      throw error;
+    }
+    this.end(entry, true);
+    return this.describe(entry);
+  }
+
+  /**
+   * 回滚所有未完成的事务，用于服务器关闭
+   */
+  async rollbackAll(): Promise<void> {
+    const ids = [...this.transactions.keys()];
+    await Promise.all(ids.map(id => this.rollback(id).catch(() => undefined)));
+  }
+
+  list(): TransactionInfo[] {
+    return [...this.transactions.values()].map(entry => this.describe(entry));
+  }
+
+  /**
+   * 查询事务信息，事务不存在时抛出错误
+   */
+  info(id: string): TransactionInfo {
+    return this.describe(this.get(id));
+  }
+
+  private get(id: string): TransactionEntry<C> {
+    const entry = this.transactions.get(id);
+    if (!entry) {
+      throw new Error(`Unknown transaction '${id}'. It may have been committed, rolled back, or closed after being idle for ${Math.round(this.idleTimeoutMs / 1000)}s`);
+    }
+    return entry;
+  }
+
+  private assertOpen(entry: TransactionEntry<C>) {
+    if (!this.transactions.has(entry.id)) {
+      throw new Error(`Transaction '${entry.id}' is already closed`);
+    }
+  }
+
+  // 重置空闲计时器，超时后自动回滚
+  private touch(entry: TransactionEntry<C>) {
+    entry.lastUsedAt = new Date();
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    entry.timer = setTimeout(() => {
+      console.error(`Transaction ${entry.id} idle for ${Math.round(this.idleTimeoutMs / 1000)}s, rolling back`);
+      this.rollback(entry.id).catch(error => {
+        console.error(`Failed to roll back idle transaction ${entry.id}:`, error);
+      });
+    }, this.idleTimeoutMs);
+    entry.timer.unref();
+  }
+
+  private end(entry: TransactionEntry<C>, reusable: boolean) {
+    if (!this.transactions.delete(entry.id)) {
+      return;
+    }
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+    entry.release(reusable);
+  }
+
+  private describe(entry: TransactionEntry<C>): TransactionInfo {
+    return {
+      id: entry.id,
+      connectionName: entry.connectionName,
+      database: entry.database,
+      savepoints: [...entry.savepoints],
+      statements: entry.statements,
+      startedAt: entry.startedAt,
+      lastUsedAt: entry.lastUsedAt,
+    };
+  }
+
+}
@@ -0,0 +1,4 @@
+// 共享模块不直接依赖 mysql2，只要求连接对象提供 query 方法
+export interface Queryable {
+  query(sql: string, values?: any): Promise<[any, any]>;
+}
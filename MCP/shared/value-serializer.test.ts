@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { describeField, serializeRows, serializeValue, SerializeOptions } from "./value-serializer.js";
+
+const hex: SerializeOptions = { binaryEncoding: "hex", binaryMaxBytes: 4 };
+const base64: SerializeOptions = { binaryEncoding: "base64", binaryMaxBytes: 4 };
+
+// mysql2 的字段定义：characterSet 63 为 binary
+const BINARY = 63;
+const UTF8MB4 = 255;
+
+test("BIGINT and DECIMAL values keep every digit as strings", () => {
+  assert.equal(serializeValue("9007199254740993", { columnType: 8 }, hex), "9007199254740993");
+  assert.equal(serializeValue(9007199254740993n, { columnType: 8 }, hex), "9007199254740993");
+  assert.equal(serializeValue("12345678901234567890.0001", { columnType: 246 }, hex), "12345678901234567890.0001");
+  assert.deepEqual(describeField({ name: "id", columnType: 8, flags: 1 | 32 }), { name: "id", type: "BIGINT UNSIGNED", nullable: false });
+  assert.deepEqual(describeField({ name: "amount", columnType: 246, decimals: 4, orgTable: "payroll" }), {
+    name: "amount",
+    type: "DECIMAL",
+    nullable: true,
+    table: "payroll",
+    decimals: 4,
+  });
+});
+
+test("BIT values are returned as integers", () => {
+  const bit = { columnType: 16, columnLength: 64 };
+  assert.equal(serializeValue(Buffer.from([0x01]), bit, hex), "1");
+  assert.equal(serializeValue(Buffer.from([0x01, 0x00]), bit, hex), "256");
+  assert.equal(serializeValue(Buffer.from([0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]), bit, hex), "18446744073709551615");
+  assert.deepEqual(describeField({ name: "flags", columnType: 16, columnLength: 64 }), { name: "flags", type: "BIT", nullable: true, length: 64 });
+});
+
+test("binary values are encoded as hex or base64 and truncated", () => {
+  const blob = { columnType: 252, characterSet: BINARY };
+  assert.equal(serializeValue(Buffer.from([0xde, 0xad]), blob, hex), "0xdead");
+  assert.equal(serializeValue(Buffer.from([0xde, 0xad]), blob, base64), "base64:3q0=");
+  assert.equal(serializeValue(Buffer.from([1, 2, 3, 4, 5, 6]), blob, hex), "0x01020304... (6 bytes)");
+  assert.equal(serializeValue(Buffer.from([1, 2, 3, 4, 5, 6]), blob, base64), "base64:AQIDBA==... (6 bytes)");
+  // 没有字段定义时按值本身的类型处理
+  assert.equal(serializeValue(Buffer.from([0xff]), undefined, hex), "0xff");
+});
+
+test("JSON columns are parsed, invalid JSON is left as text", () => {
+  assert.deepEqual(serializeValue('{"a":[1,2]}', { columnType: 245 }, hex), { a: [1, 2] });
+  assert.deepEqual(serializeValue("[1]", { columnType: 252, characterSet: UTF8MB4, extendedFormat: "json" }, hex), [1]);
+  assert.equal(serializeValue("{broken", { columnType: 245 }, hex), "{broken");
+  assert.equal(serializeValue('{"a":1}', { columnType: 253, characterSet: UTF8MB4 }, hex), '{"a":1}');
+  assert.equal(describeField({ name: "doc", columnType: 252, characterSet: UTF8MB4, extendedFormat: "json" }).type, "JSON");
+});
+
+test("BLOB types map to TEXT unless the character set is binary", () => {
+  const cases: [number, number, string][] = [
+    [249, UTF8MB4, "TINYTEXT"],
+    [252, UTF8MB4, "TEXT"],
+    [250, UTF8MB4, "MEDIUMTEXT"],
+    [251, UTF8MB4, "LONGTEXT"],
+    [252, BINARY, "BLOB"],
+    [251, BINARY, "LONGBLOB"],
+    [253, UTF8MB4, "VARCHAR"],
+    [253, BINARY, "VARBINARY"],
+    [254, BINARY, "BINARY"],
+  ];
+  for (const [columnType, characterSet, type] of cases) {
+    assert.equal(describeField({ name: "c", columnType, characterSet }).type, type, `${columnType}/${characterSet}`);
+  }
+});
+
+test("serializeRows matches values to fields by column name", () => {
+  const fields = [
+    { name: "id", columnType: 8 },
+    { name: "data", columnType: 252, characterSet: BINARY },
+  ];
+  assert.deepEqual(serializeRows([{ id: 1n, data: Buffer.from([0xab]), note: null }], fields, hex), [{ id: "1", data: "0xab", note: null }]);
+});
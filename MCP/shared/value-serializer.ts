@@ -0,0 +1,181 @@
+// 按列类型序列化查询结果中的值，避免 JSON.stringify 丢失精度或输出 Buffer 字节数组。
+// 连接池需要设置 supportBigNumbers、bigNumberStrings 和 dateStrings，
+// 这样 BIGINT/DECIMAL 以字符串返回，日期时间保持服务器时区的原样文本。
+
+export type BinaryEncoding = "hex" | "base64";
+
+export const BINARY_ENCODINGS: BinaryEncoding[] = ["hex", "base64"];
+
+export interface SerializeOptions {
+  binaryEncoding: BinaryEncoding;
+  // 二进制值最多输出的字节数，超出部分截断
+  binaryMaxBytes: number;
+}
+
+export interface ColumnType {
+  name: string;
+  type: string;
+  nullable: boolean;
+  table?: string;
+  length?: number;
+  decimals?: number;
+}
+
+// mysql2 fields 中的 columnType 编号
+const TYPE_NAMES: Record<number, string> = {
+  0: "DECIMAL",
+  1: "TINYINT",
+  2: "SMALLINT",
+  3: "INT",
+  4: "FLOAT",
+  5: "DOUBLE",
+  6: "NULL",
+  7: "TIMESTAMP",
+  8: "BIGINT",
+  9: "MEDIUMINT",
+  10: "DATE",
+  11: "TIME",
+  12: "DATETIME",
+  13: "YEAR",
+  14: "DATE",
+  15: "VARCHAR",
+  16: "BIT",
+  17: "TIMESTAMP",
+  18: "DATETIME",
+  19: "TIME",
+  242: "VECTOR",
+  245: "JSON",
+  246: "DECIMAL",
+  247: "ENUM",
+  248: "SET",
+  249: "TINYBLOB",
+  250: "MEDIUMBLOB",
+  251: "LONGBLOB",
+  252: "BLOB",
+  253: "VARCHAR",
+  254: "CHAR",
+  255: "GEOMETRY",
+};
+
+const NOT_NULL_FLAG = 1;
+const UNSIGNED_FLAG = 32;
+const BINARY_CHARSET = 63;
+
+const TYPE_BIT = 16;
+const TYPE_JSON = 245;
+const BLOB_TYPES = [249, 250, 251, 252];
+const STRING_TYPES = [15, 253, 254];
+const DECIMAL_TYPES = [0, 246];
+
+function flagsOf(field: any): number {
+  return typeof field?.flags === "number" ? field.flags : 0;
+}
+
+function columnTypeOf(field: any): number | undefined {
+  return field?.columnType ?? field?.type;
+}
+
+/**
+ * 把 mysql2 的字段定义转换为列类型说明
+ */
+export function describeField(field: any): ColumnType {
+  const code = columnTypeOf(field);
+  const flags = flagsOf(field);
+  const binary = field?.characterSet === BINARY_CHARSET;
+  let type = code !== undefined ? TYPE_NAMES[code] || `TYPE_${code}` : "UNKNOWN";
+
+  if (code !== undefined && BLOB_TYPES.includes(code) && !binary) {
+    type = type.replace("BLOB", "TEXT");
+  } else if (code !== undefined && STRING_TYPES.includes(code) && binary) {
+    type = type === "CHAR" ? "BINARY" : "VARBINARY";
+  }
+  // MariaDB 把 JSON 存为 LONGTEXT，通过扩展元数据标记
+  if (field?.extendedFormat === "json") {
+    type = "JSON";
+  }
+  if (flags & UNSIGNED_FLAG) {
+    type += " UNSIGNED";
+  }
+
+  const column: ColumnType = { name: field?.name, type, nullable: !(flags & NOT_NULL_FLAG) };
+  if (field?.orgTable) {
+    column.table = field.orgTable;
+  }
+  if (code !== undefined && DECIMAL_TYPES.includes(code)) {
+    column.decimals = field.decimals;
+  }
+  if (code !== undefined && [...STRING_TYPES, TYPE_BIT].includes(code) && field?.columnLength !== undefined) {
+    column.length = field.columnLength;
+  }
+  return column;
+}
+
+function serializeBinary(value: Buffer, options: SerializeOptions): string {
+  const truncated = value.length > options.binaryMaxBytes;
+  const bytes = truncated ? value.subarray(0, options.binaryMaxBytes) : value;
+  const text = options.binaryEncoding === "base64" ? `base64:${bytes.toString("base64")}` : `0x${bytes.toString("hex")}`;
+  return truncated ? `${text}... (${value.length} bytes)` : text;
+}
+
+function serializeBit(value: Buffer): string {
+  let result = 0n;
+  for (const byte of value) {
+    result = (result << 8n) | BigInt(byte);
+  }
+  return result.toString();
+}
+
+/**
+ * 序列化单个值。field 缺省时只按值本身的类型处理。
+ */
+export function serializeValue(value: any, field: any, options: SerializeOptions): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const code = columnTypeOf(field);
+  if (Buffer.isBuffer(value)) {
+    return code === TYPE_BIT ? serializeBit(value) : serializeBinary(value, options);
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "string" && (code === TYPE_JSON || field?.extendedFormat === "json")) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+/**
+ * 按字段定义序列化所有行，返回新的行对象
+ */
+export function serializeRows(rows: any[], fields: any[] | null | undefined, options: SerializeOptions): any[] {
+  const fieldsByName = new Map<string, any>();
+  for (const field of fields || []) {
+    fieldsByName.set(field.name, field);
+  }
+  return rows.map(row => {
+    if (!row || typeof row !== "object") {
+      return row;
+    }
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(row)) {
+      result[key] = serializeValue(value, fieldsByName.get(key), options);
+    }
+    return result;
+  });
+}
+
+export function parseBinaryEncoding(value: string): BinaryEncoding {
+  const encoding = value.trim().toLowerCase();
+  if (!(BINARY_ENCODINGS as string[]).includes(encoding)) {
+    throw new Error(`Unknown binary encoding '${value}'. Use ${BINARY_ENCODINGS.join(" or ")}`);
+  }
+  return encoding as BinaryEncoding;
+}
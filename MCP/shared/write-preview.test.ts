@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { previewWrite } from "./write-preview.js";
+import { Queryable } from "./types.js";
+
+type TableRow = { tableSchema: string; tableType: string; engine: string | null };
+
+// 模拟 information_schema.TABLES 查询，记录其余执行的语句
+function fakeConnection(tables: Record<string, TableRow>): Queryable & { executed: string[] } {
+  const executed: string[] = [];
+  return {
+    executed,
+    async query(sql: string, values?: any[]): Promise<[any, any]> {
+      if (sql.includes("FROM information_schema.TABLES")) {
+        const row = tables[values?.[1]];
+        return [row && (values?.[0] === null || values?.[0] === row.tableSchema) ? [row] : [], []];
+      }
+      if (sql.includes("information_schema.KEY_COLUMN_USAGE")) {
+        return [[], []];
+      }
+      executed.push(sql);
+      return [{ affectedRows: 3 }, []];
+    },
+  };
+}
+
+const innodb: TableRow = { tableSchema: "app", tableType: "BASE TABLE", engine: "InnoDB" };
+const options = { sampleSize: 5, inTransaction: false };
+
+test("rollback preview runs when every table is a transactional base table", async () => {
+  const connection = fakeConnection({ users: innodb, orders: innodb });
+  const preview = await previewWrite(connection, "UPDATE users u JOIN orders o ON o.user_id = u.id SET u.flag = 1", options);
+  assert.equal(preview.method, "rollback");
+  assert.equal(preview.affectedRows, 3);
+  assert.deepEqual(connection.executed, ["START TRANSACTION", "UPDATE users u JOIN orders o ON o.user_id = u.id SET u.flag = 1", "ROLLBACK"]);
+
+  const replace = fakeConnection({ users: innodb });
+  assert.equal((await previewWrite(replace, "REPLACE users SET id = 1", options)).method, "rollback");
+});
+
+test("rollback preview fails closed and executes nothing", async () => {
+  const cases: [string, Record<string, TableRow>, RegExp][] = [
+    ["INSERT INTO missing (id) VALUES (1)", {}, /missing could not be resolved/],
+    ["UPDATE users u JOIN missing m ON m.id = u.id SET u.flag = 1", { users: innodb }, /missing could not be resolved/],
+    ["INSERT INTO logs (id) VALUES (1)", { logs: { tableSchema: "app", tableType: "BASE TABLE", engine: "MyISAM" } }, /app\.logs \(MyISAM\) cannot be rolled back/],
+    ["INSERT INTO active_users (id) VALUES (1)", { active_users: { tableSchema: "app", tableType: "VIEW", engine: null } }, /app\.active_users \(view, base table engines unknown\)/],
+    ["INSERT INTO users (id) SELECT id FROM archive", { users: innodb, archive: { tableSchema: "app", tableType: "BASE TABLE", engine: null } }, /app\.archive \(BASE TABLE\) cannot be rolled back/],
+    ["INSERT INTO DUAL VALUES (1)", {}, /no target table could be identified/],
+  ];
+  for (const [sql, tables, note] of cases) {
+    const connection = fakeConnection(tables);
+    const preview = await previewWrite(connection, sql, options);
+    assert.equal(preview.method, "unsupported", sql);
+    assert.match(preview.note || "", note, sql);
+    assert.match(preview.note || "", /the statement was not executed/, sql);
+    assert.deepEqual(connection.executed, [], sql);
+  }
+});
+
+test("CTE names are not treated as unresolved tables", async () => {
+  const connection = fakeConnection({ users: innodb });
+  const sql = "WITH old AS (SELECT id FROM users WHERE created < '2020-01-01') DELETE users FROM users JOIN old ON old.id = users.id";
+  const preview = await previewWrite(connection, sql, { sampleSize: 5, inTransaction: true });
+  assert.equal(preview.method, "rollback");
+  assert.deepEqual(connection.executed, ["SAVEPOINT mcp_dry_run", sql, "ROLLBACK TO SAVEPOINT mcp_dry_run", "RELEASE SAVEPOINT mcp_dry_run"]);
+});
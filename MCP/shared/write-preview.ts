@@ -0,0 +1,320 @@
+// write_query 预演：在不修改数据的前提下估算写操作的影响范围
+import { analyzeStatement, StatementAnalysis, TableRef } from "./sql-classifier.js";
+import { Queryable } from "./types.js";
+
+export interface ForeignKeyRef {
+  constraint: string;
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+}
+
+export interface TableImpact {
+  database: string;
+  table: string;
+  exists: boolean;
+  type?: string;
+  engine?: string | null;
+  estimatedRows?: number | null;
+  dataBytes?: number | null;
+  indexBytes?: number | null;
+  // 引用本表的外键
+  referencedBy?: ForeignKeyRef[];
+  // 本表引用其他表的外键
+  references?: ForeignKeyRef[];
+}
+
+export interface WritePreview {
+  statementType: string;
+  method: "select_rewrite" | "rollback" | "table_impact" | "unsupported";
+  affectedRows?: number;
+  sampleRows?: any[];
+  previewSql?: string;
+  tables?: TableImpact[];
+  warnings: string[];
+  note?: string;
+}
+
+export interface PreviewOptions {
+  sampleSize: number;
+  // 已在事务中时使用保存点回滚，避免 START TRANSACTION 隐式提交外层事务
+  inTransaction: boolean;
+}
+
+const TRANSACTIONAL_ENGINES = ["INNODB", "NDB", "NDBCLUSTER", "ROCKSDB", "TOKUDB"];
+const TABLE_DDL = ["DROP", "TRUNCATE", "ALTER", "RENAME"];
+
+function toNumber(value: any): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function groupForeignKeys(rows: any[]): ForeignKeyRef[] {
+  const constraints = new Map<string, ForeignKeyRef>();
+  for (const row of rows) {
+    const key = `${row.tableSchema}.${row.tableName}.${row.constraintName}`;
+    let fk = constraints.get(key);
+    if (!fk) {
+      fk = {
+        constraint: row.constraintName,
+        table: `${row.tableSchema}.${row.tableName}`,
+        columns: [],
+        referencedTable: `${row.referencedSchema}.${row.referencedTable}`,
+        referencedColumns: [],
+        onUpdate: row.updateRule,
+        onDelete: row.deleteRule,
+      };
+      constraints.set(key, fk);
+    }
+    fk.columns.push(row.columnName);
+    fk.referencedColumns.push(row.referencedColumn);
+  }
+  return [...constraints.values()];
+}
+
+const FOREIGN_KEY_SQL = `
+  SELECT k.CONSTRAINT_NAME AS constraintName, k.TABLE_SCHEMA AS tableSchema, k.TABLE_NAME AS tableName,
+         k.COLUMN_NAME AS columnName, k.REFERENCED_TABLE_SCHEMA AS referencedSchema,
+         k.REFERENCED_TABLE_NAME AS referencedTable, k.REFERENCED_COLUMN_NAME AS referencedColumn,
+         r.UPDATE_RULE AS updateRule, r.DELETE_RULE AS deleteRule
+  FROM information_schema.KEY_COLUMN_USAGE k
+  JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+    ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+  WHERE %s
+  ORDER BY k.TABLE_SCHEMA, k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`;
+
+/**
+ * 查询表的大小估计和相关外键；database 为空时使用连接的当前数据库
+ */
+export async function describeTableImpact(connection: Queryable, ref: TableRef): Promise<TableImpact> {
+  const database = ref.database || null;
+  const [tables] = await connection.query(
+    `SELECT TABLE_SCHEMA AS tableSchema, TABLE_TYPE AS tableType, ENGINE AS engine, TABLE_ROWS AS tableRows,
+            DATA_LENGTH AS dataLength, INDEX_LENGTH AS indexLength
+     FROM information_schema.TABLES
+     WHERE TABLE_SCHEMA = COALESCE(?, DATABASE()) AND TABLE_NAME = ?`,
+    [database, ref.table]
+  );
+  const row = (tables as any[])[0];
+  if (!row) {
+    return { database: database || "", table: ref.table, exists: false };
+  }
+
+  const [referencedBy] = await connection.query(
+    FOREIGN_KEY_SQL.replace("%s", "k.REFERENCED_TABLE_SCHEMA = ? AND k.REFERENCED_TABLE_NAME = ?"),
+    [row.tableSchema, ref.table]
+  );
+  const [references] = await connection.query(
+    FOREIGN_KEY_SQL.replace("%s", "k.TABLE_SCHEMA = ? AND k.TABLE_NAME = ? AND k.REFERENCED_TABLE_NAME IS NOT NULL"),
+    [row.tableSchema, ref.table]
+  );
+
+  return {
+    database: row.tableSchema,
+    table: ref.table,
+    exists: true,
+    type: row.tableType,
+    engine: row.engine,
+    estimatedRows: toNumber(row.tableRows),
+    dataBytes: toNumber(row.dataLength),
+    indexBytes: toNumber(row.indexLength),
+    referencedBy: groupForeignKeys(referencedBy as any[]),
+    references: groupForeignKeys(references as any[]),
+  };
+}
+
+export interface DatabaseImpact {
+  database: string;
+  exists: boolean;
+  tables?: number;
+  views?: number;
+  estimatedRows?: number | null;
+  dataBytes?: number | null;
+  indexBytes?: number | null;
+  // 其他数据库中引用本库表的外键
+  referencedBy?: ForeignKeyRef[];
+}
+
+/**
+ * 查询数据库中表的数量和大小估计，以及来自其他数据库的外键
+ */
+export async function describeDatabaseImpact(connection: Queryable, database: string): Promise<DatabaseImpact> {
+  const [schemata] = await connection.query(
+    "SELECT SCHEMA_NAME AS schemaName FROM information_schema.SCHEMATA WHERE SCHEMA_NAME = ?",
+    [database]
+  );
+  if ((schemata as any[]).length === 0) {
+    return { database, exists: false };
+  }
+
+  const [totals] = await connection.query(
+    `SELECT SUM(TABLE_TYPE = 'BASE TABLE') AS tableCount, SUM(TABLE_TYPE = 'VIEW') AS viewCount,
+            SUM(TABLE_ROWS) AS tableRows, SUM(DATA_LENGTH) AS dataLength, SUM(INDEX_LENGTH) AS indexLength
+     FROM information_schema.TABLES
+     WHERE TABLE_SCHEMA = ?`,
+    [database]
+  );
+  const [referencedBy] = await connection.query(
+    FOREIGN_KEY_SQL.replace("%s", "k.REFERENCED_TABLE_SCHEMA = ? AND k.TABLE_SCHEMA <> k.REFERENCED_TABLE_SCHEMA"),
+    [database]
+  );
+
+  const row = (totals as any[])[0] || {};
+  return {
+    database,
+    exists: true,
+    tables: Number(row.tableCount || 0),
+    views: Number(row.viewCount || 0),
+    estimatedRows: toNumber(row.tableRows),
+    dataBytes: toNumber(row.dataLength),
+    indexBytes: toNumber(row.indexLength),
+    referencedBy: groupForeignKeys(referencedBy as any[]),
+  };
+}
+
+/**
+ * 根据外键规则提示删除或删表的连带影响
+ */
+export function foreignKeyWarnings(verb: string, impacts: TableImpact[]): string[] {
+  const warnings: string[] = [];
+  for (const impact of impacts) {
+    for (const fk of impact.referencedBy || []) {
+      const name = `${impact.database}.${impact.table}`;
+      if (verb === "DROP" || verb === "TRUNCATE") {
+        warnings.push(`${fk.table} references ${name} via ${fk.constraint}; ${verb} TABLE fails while the foreign key exists unless foreign_key_checks is disabled`);
+      } else if (verb === "DELETE" && fk.onDelete !== "RESTRICT" && fk.onDelete !== "NO ACTION") {
+        warnings.push(`Deleting from ${name} applies ON DELETE ${fk.onDelete} to ${fk.table} via ${fk.constraint}`);
+      } else if (verb === "DELETE") {
+        warnings.push(`Deleting from ${name} fails for rows still referenced by ${fk.table} via ${fk.constraint}`);
+      } else if (verb === "UPDATE" && fk.onUpdate !== "RESTRICT" && fk.onUpdate !== "NO ACTION") {
+        warnings.push(`Updating referenced columns of ${name} applies ON UPDATE ${fk.onUpdate} to ${fk.table} via ${fk.constraint}`);
+      }
+    }
+  }
+  return warnings;
+}
+
+async function describeTables(connection: Queryable, refs: TableRef[]): Promise<TableImpact[]> {
+  const impacts: TableImpact[] = [];
+  for (const ref of refs) {
+    impacts.push(await describeTableImpact(connection, ref));
+  }
+  return impacts;
+}
+
+function displayName(table: TableImpact): string {
+  return table.database ? `${table.database}.${table.table}` : table.table;
+}
+
+// 在事务（或保存点）中执行后回滚，只适用于事务型存储引擎；无法确认所有表都能回滚时不执行
+async function previewWithRollback(connection: Queryable, sql: string, analysis: StatementAnalysis, options: PreviewOptions, warnings: string[]): Promise<WritePreview> {
+  const unsupported = (note: string, tables?: TableImpact[]): WritePreview => ({
+    statementType: analysis.verb,
+    method: "unsupported",
+    tables,
+    warnings,
+    note: `Cannot preview safely: ${note}; the statement was not executed`,
+  });
+
+  if (analysis.tables.length === 0) {
+    return unsupported("no target table could be identified, so its storage engine is unknown");
+  }
+  const tables = await describeTables(connection, analysis.tables);
+  const missing = tables.filter(table => !table.exists);
+  if (missing.length > 0) {
+    return unsupported(`${missing.map(displayName).join(", ")} could not be resolved, so the storage engine is unknown`, tables);
+  }
+  // 视图的基表引擎未知
+  const unsafe = tables.filter(table => table.type !== "BASE TABLE" || !table.engine || !TRANSACTIONAL_ENGINES.includes(table.engine.toUpperCase()));
+  if (unsafe.length > 0) {
+    const describe = (table: TableImpact) => (table.type === "VIEW" ? "view, base table engines unknown" : table.engine || table.type);
+    return unsupported(`${unsafe.map(table => `${displayName(table)} (${describe(table)})`).join(", ")} cannot be rolled back`, tables);
+  }
+
+  let result: any;
+  if (options.inTransaction) {
+    await connection.query("SAVEPOINT mcp_dry_run");
+    try {
+      [result] = await connection.query(sql);
+    } finally {
+      await connection.query("ROLLBACK TO SAVEPOINT mcp_dry_run");
+      await connection.query("RELEASE SAVEPOINT mcp_dry_run");
+    }
+  } else {
+    await connection.query("START TRANSACTION");
+    try {
+      [result] = await connection.query(sql);
+    } finally {
+      await connection.query("ROLLBACK");
+    }
+  }
+
+  return {
+    statementType: analysis.verb,
+    method: "rollback",
+    affectedRows: result?.affectedRows,
+    tables,
+    warnings: warnings.concat(foreignKeyWarnings(analysis.verb, tables)),
+    note: "The statement was executed inside a transaction and rolled back. Triggers ran and AUTO_INCREMENT values may have been consumed.",
+  };
+}
+
+/**
+ * 预演写语句：
+ * - 单表 UPDATE/DELETE 改写为等价的 SELECT，返回匹配行数和样本行
+ * - 多表 UPDATE/DELETE、INSERT、REPLACE 在事务中执行后回滚，返回影响行数
+ * - DROP/TRUNCATE/ALTER/RENAME TABLE 返回表大小和相关外键，不执行
+ */
+export async function previewWrite(connection: Queryable, sql: string, options: PreviewOptions): Promise<WritePreview> {
+  const analysis = analyzeStatement(sql);
+  const warnings: string[] = [];
+
+  if (analysis.statementCount !== 1) {
+    return { statementType: analysis.statementType, method: "unsupported", warnings, note: "Preview requires exactly one statement" };
+  }
+
+  if ((analysis.verb === "UPDATE" || analysis.verb === "DELETE") && !analysis.hasWhere) {
+    warnings.push(`No WHERE clause: every row${analysis.hasLimit ? " up to the LIMIT" : ""} in the table is affected`);
+  }
+
+  if (analysis.selectRewrite) {
+    const previewSql = `SELECT * FROM ${analysis.selectRewrite.from} ${analysis.selectRewrite.tail}`.trim();
+    const [countRows] = await connection.query(`SELECT COUNT(*) AS matched FROM (${previewSql}) AS dry_run`);
+    const [sampleRows] = await connection.query(`SELECT * FROM (${previewSql}) AS dry_run LIMIT ${Math.max(0, Math.floor(options.sampleSize))}`);
+    const tables = (await describeTables(connection, analysis.tables.slice(0, 1))).filter(table => table.exists);
+    return {
+      statementType: analysis.verb,
+      method: "select_rewrite",
+      affectedRows: Number((countRows as any[])[0].matched),
+      sampleRows: sampleRows as any[],
+      previewSql,
+      tables,
+      warnings: warnings.concat(foreignKeyWarnings(analysis.verb, tables)),
+      note: analysis.verb === "UPDATE" ? "affectedRows counts matched rows; rows whose values would not change are included" : undefined,
+    };
+  }
+
+  if (["UPDATE", "DELETE", "INSERT", "REPLACE"].includes(analysis.verb)) {
+    return previewWithRollback(connection, sql, analysis, options, warnings);
+  }
+
+  if (TABLE_DDL.includes(analysis.verb) && analysis.tables.length > 0) {
+    const tables = await describeTables(connection, analysis.tables);
+    return {
+      statementType: analysis.verb,
+      method: "table_impact",
+      tables,
+      warnings: warnings.concat(foreignKeyWarnings(analysis.verb, tables)),
+      note: "DDL commits implicitly and cannot be rolled back; the statement was not executed",
+    };
+  }
+
+  return {
+    statementType: analysis.verb,
+    method: "unsupported",
+    warnings,
+    note: `${analysis.verb} statements cannot be previewed; the statement was not executed`,
+  };
+}